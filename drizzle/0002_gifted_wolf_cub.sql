@@ -0,0 +1,2 @@
+ALTER TABLE `connected_accounts` ADD `current_balance` integer;--> statement-breakpoint
+ALTER TABLE `connected_accounts` ADD `balance_updated_at` text;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `recurring_series` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`merchant_key` text NOT NULL,
+	`merchant` text NOT NULL,
+	`category` text,
+	`cadence` text NOT NULL,
+	`expected_amount` integer NOT NULL,
+	`amount_min` integer NOT NULL,
+	`amount_max` integer NOT NULL,
+	`last_seen_date` text,
+	`next_due_date` text NOT NULL,
+	`transaction_ids` text NOT NULL,
+	`status` text DEFAULT 'detected' NOT NULL,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,18 @@
+CREATE TABLE `categorization_rules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`category_id` integer NOT NULL,
+	`merchant_pattern` text,
+	`description_pattern` text,
+	`match_type` text DEFAULT 'contains' NOT NULL,
+	`amount_min` integer,
+	`amount_max` integer,
+	`priority` integer DEFAULT 0 NOT NULL,
+	`hit_count` integer DEFAULT 0 NOT NULL,
+	`source` text DEFAULT 'manual' NOT NULL,
+	`is_active` integer DEFAULT true,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`category_id`) REFERENCES `transaction_categories`(`id`) ON UPDATE no action ON DELETE no action
+);
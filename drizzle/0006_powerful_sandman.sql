@@ -0,0 +1,13 @@
+CREATE TABLE `recategorization_jobs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`trigger` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`changes` text NOT NULL,
+	`applied_count` integer,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `transactions` ADD `category_pinned` integer DEFAULT false;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `categorization_cache` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`cache_key` text NOT NULL,
+	`provider` text NOT NULL,
+	`category_id` integer NOT NULL,
+	`confidence` integer NOT NULL,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`category_id`) REFERENCES `transaction_categories`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `categorization_cache_cache_key_unique` ON `categorization_cache` (`cache_key`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `transaction_categories` ADD `parent_id` integer REFERENCES transaction_categories(id);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `transaction_splits` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`transaction_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`category_id` integer NOT NULL,
+	`amount` integer NOT NULL,
+	`note` text,
+	`created_at` text NOT NULL,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`category_id`) REFERENCES `transaction_categories`(`id`) ON UPDATE no action ON DELETE no action
+);
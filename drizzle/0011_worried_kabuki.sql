@@ -0,0 +1,3 @@
+ALTER TABLE `transactions` ADD `account_id` integer REFERENCES connected_accounts(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `transfer_pair_id` integer REFERENCES transactions(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `transfer_dismissed` integer DEFAULT false;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `transactions` ADD `refund_of_id` integer REFERENCES transactions(id);--> statement-breakpoint
+ALTER TABLE `transactions` ADD `refund_dismissed` integer DEFAULT false;
\ No newline at end of file
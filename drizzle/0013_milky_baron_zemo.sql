@@ -0,0 +1 @@
+ALTER TABLE `transactions` ADD `external_id` text;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE `data_exports` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`format` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`filters` text NOT NULL,
+	`file_name` text,
+	`content` blob,
+	`size` integer,
+	`record_count` integer,
+	`error` text,
+	`expires_at` text,
+	`created_at` text NOT NULL,
+	`updated_at` text NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,2 @@
+ALTER TABLE `connected_accounts` ADD `aggregator` text;--> statement-breakpoint
+ALTER TABLE `connected_accounts` ADD `aggregator_account_id` text;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `connected_accounts` ADD `sync_cursor` text;--> statement-breakpoint
+ALTER TABLE `connected_accounts` ADD `sync_status` text;--> statement-breakpoint
+ALTER TABLE `connected_accounts` ADD `sync_error` text;--> statement-breakpoint
+ALTER TABLE `connected_accounts` ADD `last_synced_at` text;--> statement-breakpoint
+ALTER TABLE `transactions` ADD `pending` integer DEFAULT false;
\ No newline at end of file
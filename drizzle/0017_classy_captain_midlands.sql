@@ -0,0 +1,6 @@
+UPDATE `transactions` SET `merchant_id` = (SELECT MIN(`keep`.`id`) FROM `merchants` `keep` JOIN `merchants` `dup` ON `keep`.`user_id` = `dup`.`user_id` AND `keep`.`merchant_key` = `dup`.`merchant_key` WHERE `dup`.`id` = `transactions`.`merchant_id`) WHERE `merchant_id` IS NOT NULL;--> statement-breakpoint
+UPDATE `merchant_aliases` SET `merchant_id` = (SELECT MIN(`keep`.`id`) FROM `merchants` `keep` JOIN `merchants` `dup` ON `keep`.`user_id` = `dup`.`user_id` AND `keep`.`merchant_key` = `dup`.`merchant_key` WHERE `dup`.`id` = `merchant_aliases`.`merchant_id`);--> statement-breakpoint
+DELETE FROM `merchants` WHERE `id` NOT IN (SELECT MIN(`id`) FROM `merchants` GROUP BY `user_id`, `merchant_key`);--> statement-breakpoint
+DELETE FROM `merchant_aliases` WHERE `id` NOT IN (SELECT MIN(`id`) FROM `merchant_aliases` GROUP BY `user_id`, `alias`);--> statement-breakpoint
+CREATE UNIQUE INDEX `merchant_aliases_user_alias_unique` ON `merchant_aliases` (`user_id`,`alias`);--> statement-breakpoint
+CREATE UNIQUE INDEX `merchants_user_key_unique` ON `merchants` (`user_id`,`merchant_key`);
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCurrentAppUser } from "@/lib/auth";
+import { backtestCashFlow } from "@/lib/backtest";
+import {
+  LOOKBACK_DAYS,
+  loadCurrentBalance,
+  loadSafetyThreshold,
+} from "@/lib/financial-context";
+import { loadUserTransactions, toAnalysisTransactions } from "@/lib/transactions";
+
+// GET - replay the signed-in user's stored history and score past projections
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const horizons = (searchParams.get("horizons") || "7,14,30")
+      .split(",")
+      .map((h) => parseInt(h))
+      .filter((h) => !isNaN(h) && h >= 1 && h <= 90);
+
+    if (horizons.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "horizons must be a comma-separated list of days between 1 and 90" },
+        { status: 400 }
+      );
+    }
+
+    const stepDays = Math.min(Math.max(parseInt(searchParams.get("step") || "7") || 7, 1), 30);
+
+    const transactions = toAnalysisTransactions(await loadUserTransactions(user.id));
+    const { currentBalance, balanceSource } = await loadCurrentBalance(user.id);
+    const safetyThreshold = await loadSafetyThreshold(user.id);
+
+    // Work back from today's balance to what the user held before their first stored transaction
+    const netFlow = transactions.reduce((sum, t) => sum + t.amount, 0);
+    const openingBalance = currentBalance - netFlow;
+
+    const report = backtestCashFlow(transactions, {
+      horizons,
+      stepDays,
+      openingBalance,
+      safetyThreshold,
+      lookbackDays: LOOKBACK_DAYS,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        transactionCount: transactions.length,
+        balanceSource,
+        safetyThreshold,
+        report,
+      },
+    });
+  } catch (error) {
+    console.error("Error running cash flow backtest:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to run backtest" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { buildCashFlowCalendar, isValidTimeZone } from "@/lib/cashflow";
+import { getCurrentAppUser } from "@/lib/auth";
+import { loadUserCashFlowInputs } from "@/lib/financial-context";
+
+// GET - day-by-day calendar from the start of this month through the projection horizon
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const days = Math.min(Math.max(parseInt(searchParams.get("days") || "35") || 35, 1), 90);
+    const timeZone = searchParams.get("timeZone") || undefined;
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { success: false, error: "timeZone must be an IANA time zone such as Asia/Kolkata" },
+        { status: 400 }
+      );
+    }
+
+    const inputs = await loadUserCashFlowInputs(user.id, { timeZone });
+    const calendar = buildCashFlowCalendar(inputs.transactions, {
+      projectionDays: days,
+      currentBalance: inputs.currentBalance,
+      safetyThreshold: inputs.safetyThreshold,
+      asOf: inputs.asOf,
+      timeZone,
+      recurringItems: inputs.recurringItems,
+      startDate: `${inputs.asOf.slice(0, 7)}-01`,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        currentBalance: inputs.currentBalance,
+        balanceSource: inputs.balanceSource,
+        ...calendar,
+      },
+    });
+  } catch (error) {
+    console.error("Error building cash flow calendar:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to build cash flow calendar" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { DEFAULT_TIME_ZONE, detectIncomeStreams, isValidTimeZone, toLocalDateString } from "@/lib/cashflow";
+import { getCurrentAppUser } from "@/lib/auth";
+import { loadUserTransactions, toAnalysisTransactions } from "@/lib/transactions";
+
+// GET - income grouped by payer with cadence, amount spread, reliability and next expected payout
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const timeZone = request.nextUrl.searchParams.get("timeZone") || DEFAULT_TIME_ZONE;
+    if (!isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { success: false, error: "timeZone must be an IANA time zone such as Asia/Kolkata" },
+        { status: 400 }
+      );
+    }
+    const asOf = toLocalDateString(new Date(), timeZone);
+
+    // Full history, so quarterly and annual clients are recognised
+    const history = toAnalysisTransactions(await loadUserTransactions(user.id, { endDate: asOf }));
+    const streams = detectIncomeStreams(history, asOf);
+
+    return NextResponse.json({
+      success: true,
+      data: streams,
+      count: streams.length,
+      asOf,
+    });
+  } catch (error) {
+    console.error("Error detecting income streams:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to detect income streams" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,79 +1,179 @@
 import { NextRequest, NextResponse } from "next/server";
-import { calculateCashFlowProjection } from "@/lib/cashflow";
-import { categorizeTransactions } from "@/lib/categorization";
+import {
+  addDays,
+  analyzeSpendingVelocity,
+  calculateCashFlowProjection,
+  calculateDailyFlows,
+  isValidDate,
+  isValidTimeZone,
+  simulateCashFlowPaths,
+} from "@/lib/cashflow";
+import { categorizeTransactions, getCategoryPercentages } from "@/lib/categorization";
+import { getCurrentAppUser } from "@/lib/auth";
+import {
+  buildUserCashFlow,
+  loadSafetyThreshold,
+  loadUserCashFlowInputs,
+} from "@/lib/financial-context";
+import { AnalysisTransaction, loadCategoryHierarchy } from "@/lib/transactions";
+
+// Income/expense totals for transactions dated in (asOf - fromDaysAgo, asOf - toDaysAgo]
+function summarizeWindow(
+  transactions: AnalysisTransaction[],
+  asOf: string,
+  fromDaysAgo: number,
+  toDaysAgo: number
+) {
+  const start = addDays(asOf, -fromDaysAgo);
+  const end = addDays(asOf, -toDaysAgo);
+  const flows = calculateDailyFlows(
+    transactions.filter((t) => t.date > start && t.date <= end)
+  );
+  const income = flows.reduce((sum, flow) => sum + flow.income, 0);
+  const expenses = flows.reduce((sum, flow) => sum + flow.expenses, 0);
+  return {
+    income: Math.round(income),
+    expenses: Math.round(expenses),
+    netFlow: Math.round(income - expenses),
+  };
+}
+
+const formatINR = (amount: number) => `₹${Math.round(amount).toLocaleString("en-IN")}`;
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
     const searchParams = request.nextUrl.searchParams;
-    const days = parseInt(searchParams.get("days") || "7");
-
-    // Mock transaction data for calculation
-    const recentTransactions = [
-      { amount: 15000, date: "2025-01-15", type: "income" },
-      { amount: -450, date: "2025-01-14", type: "expense" },
-      { amount: -280, date: "2025-01-14", type: "expense" },
-      { amount: -649, date: "2025-01-13", type: "expense" },
-      { amount: -1200, date: "2025-01-13", type: "expense" },
-      { amount: 8500, date: "2025-01-10", type: "income" },
-      { amount: -2300, date: "2025-01-09", type: "expense" },
-      { amount: -350, date: "2025-01-08", type: "expense" },
-      { amount: -1500, date: "2025-01-07", type: "expense" },
-      { amount: 12000, date: "2025-01-05", type: "income" },
-      { amount: -800, date: "2025-01-04", type: "expense" },
-      { amount: -450, date: "2025-01-03", type: "expense" },
-    ];
-
-    // Calculate cash flow projection
-    const projection = calculateCashFlowProjection(recentTransactions, days);
-
-    // Calculate spending by category
-    const categoryBreakdown = {
-      "Food & Dining": 3450,
-      Transport: 2100,
-      Entertainment: 1800,
-      Groceries: 2400,
-      Shopping: 2300,
-      Others: 1050,
-    };
+    const days = Math.min(Math.max(parseInt(searchParams.get("days") || "7") || 7, 1), 90);
+
+    const timeZone = searchParams.get("timeZone") || undefined;
+    if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+      return NextResponse.json(
+        { success: false, error: "timeZone must be an IANA time zone such as Asia/Kolkata" },
+        { status: 400 }
+      );
+    }
+    const mode = searchParams.get("mode") || "deterministic";
+
+    // Probabilistic mode: Monte Carlo balance bands instead of a single line
+    if (mode === "probabilistic") {
+      const simulations = parseInt(searchParams.get("simulations") || "2000") || 2000;
+      const inputs = await loadUserCashFlowInputs(user.id, { timeZone });
+      const forecast = simulateCashFlowPaths(inputs.transactions, {
+        projectionDays: days,
+        currentBalance: inputs.currentBalance,
+        safetyThreshold: inputs.safetyThreshold,
+        asOf: inputs.asOf,
+        timeZone,
+        simulations,
+        recurringItems: inputs.recurringItems,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          mode,
+          currentBalance: inputs.currentBalance,
+          balanceSource: inputs.balanceSource,
+          safetyThreshold: inputs.safetyThreshold,
+          forecast,
+        },
+      });
+    }
+
+    if (mode !== "deterministic") {
+      return NextResponse.json(
+        { success: false, error: "mode must be one of: deterministic, probabilistic" },
+        { status: 400 }
+      );
+    }
+
+    const {
+      transactions: recentTransactions,
+      currentBalance,
+      balanceSource,
+      safetyThreshold,
+      asOf,
+      projection,
+    } = await buildUserCashFlow(user.id, { projectionDays: days, timeZone });
+
+    // Calculate spending by category (last 30 days); subcategories roll up under their parent
+    const hierarchy = await loadCategoryHierarchy();
+    const last30Days = recentTransactions.filter((t) => t.date > addDays(asOf, -30));
+    const categoryBreakdown = getCategoryPercentages(last30Days, { hierarchy });
+
+    const velocity = analyzeSpendingVelocity(recentTransactions, 7, { asOf, timeZone });
 
     // Calculate trends
+    const currentWeek = summarizeWindow(recentTransactions, asOf, 7, 0);
+    const lastWeek = summarizeWindow(recentTransactions, asOf, 14, 7);
     const weeklyStats = {
-      currentWeek: {
-        income: 23500,
-        expenses: 9200,
-        netFlow: 14300,
-      },
-      lastWeek: {
-        income: 8500,
-        expenses: 11200,
-        netFlow: -2700,
-      },
-      trend: "improving",
+      currentWeek,
+      lastWeek,
+      trend: currentWeek.netFlow > lastWeek.netFlow
+        ? "improving"
+        : currentWeek.netFlow < lastWeek.netFlow
+          ? "declining"
+          : "stable",
+      spendingVelocity: velocity,
     };
 
+    const alerts: Array<{
+      type: "warning" | "info";
+      message: string;
+      priority: "high" | "medium" | "low";
+      actionable: boolean;
+    }> = [];
+
+    if (projection.firstBreachDate) {
+      alerts.push({
+        type: "warning",
+        message: `Your projected balance drops to ${formatINR(projection.minProjectedBalance)}, below your safety threshold of ${formatINR(safetyThreshold)}, starting ${projection.firstBreachDate}`,
+        priority: "high",
+        actionable: true,
+      });
+    }
+
+    if (velocity.trend === "increasing" && velocity.risk !== "low") {
+      alerts.push({
+        type: "warning",
+        message: `Your spending is speeding up: about ${formatINR(velocity.velocity)} a day this week`,
+        priority: velocity.risk === "high" ? "high" : "medium",
+        actionable: true,
+      });
+    }
+
+    const weeklyCategories = getCategoryPercentages(
+      recentTransactions.filter((t) => t.date > addDays(asOf, -7)),
+      { hierarchy }
+    );
+    if (weeklyCategories.length > 0) {
+      const top = weeklyCategories[0];
+      alerts.push({
+        type: "info",
+        message: `You've spent ${top.percentage}% of this week's spending on ${top.category}`,
+        priority: "medium",
+        actionable: true,
+      });
+    }
+
     return NextResponse.json({
       success: true,
       data: {
-        currentBalance: 12450,
+        currentBalance,
+        balanceSource,
+        safetyThreshold,
         projection,
         categoryBreakdown,
         weeklyStats,
-        alerts: [
-          {
-            type: "warning",
-            message:
-              "Your projected balance in 7 days (₹4,200) is below your safety threshold of ₹5,000",
-            priority: "high",
-            actionable: true,
-          },
-          {
-            type: "info",
-            message:
-              "You've spent 32% of your weekly budget on Food & Dining",
-            priority: "medium",
-            actionable: true,
-          },
-        ],
+        alerts,
       },
     });
   } catch (error) {
@@ -88,7 +188,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { transactions, safetyThreshold } = body;
+    const { transactions, safetyThreshold, currentBalance, days, asOf, timeZone } = body;
 
     if (!transactions || !Array.isArray(transactions)) {
       return NextResponse.json(
@@ -97,15 +197,45 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (timeZone !== undefined && (typeof timeZone !== "string" || !isValidTimeZone(timeZone))) {
+      return NextResponse.json(
+        { success: false, error: "timeZone must be an IANA time zone such as Asia/Kolkata" },
+        { status: 400 }
+      );
+    }
+
+    if (days !== undefined && (!Number.isInteger(days) || days < 1 || days > 90)) {
+      return NextResponse.json(
+        { success: false, error: "days must be a whole number between 1 and 90" },
+        { status: 400 }
+      );
+    }
+
+    if (asOf !== undefined && !isValidDate(asOf)) {
+      return NextResponse.json(
+        { success: false, error: "asOf must be a YYYY-MM-DD date" },
+        { status: 400 }
+      );
+    }
+
     // Categorize transactions
     const categorizedTransactions = categorizeTransactions(transactions);
 
+    // Use the explicit threshold, else the signed-in user's saved one
+    const user = safetyThreshold === undefined ? await getCurrentAppUser(request) : null;
+    const threshold = safetyThreshold ?? (user ? await loadSafetyThreshold(user.id) : undefined);
+
     // Calculate projection
-    const projection = calculateCashFlowProjection(categorizedTransactions, 7);
+    const projection = calculateCashFlowProjection(categorizedTransactions, {
+      projectionDays: days ?? 7,
+      safetyThreshold: threshold,
+      currentBalance,
+      asOf,
+      timeZone,
+    });
 
     // Determine if alert is needed
-    const threshold = safetyThreshold || 5000;
-    const needsAlert = projection.projectedBalance < threshold;
+    const needsAlert = projection.firstBreachDate !== null;
 
     return NextResponse.json({
       success: true,
@@ -114,7 +244,7 @@ export async function POST(request: NextRequest) {
         categorizedTransactions,
         needsAlert,
         alertMessage: needsAlert
-          ? `Your projected balance (₹${projection.projectedBalance.toLocaleString()}) will fall below your safety threshold (₹${threshold.toLocaleString()}) in ${projection.daysUntilLow} days.`
+          ? `Your projected balance (₹${projection.minProjectedBalance.toLocaleString()}) will fall below your safety threshold (₹${projection.safetyThreshold.toLocaleString()}) in ${projection.daysUntilLow} days.`
           : null,
       },
     });
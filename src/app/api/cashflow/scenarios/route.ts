@@ -0,0 +1,266 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { cashflowScenarios } from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { loadUserCashFlowInputs } from "@/lib/financial-context";
+import {
+  listRemovableRecurring,
+  parseScenarioAdjustments,
+  runScenario,
+  ScenarioAdjustment,
+} from "@/lib/scenarios";
+
+function parseDays(value: unknown): number {
+  const days = typeof value === "number" ? value : parseInt(String(value ?? "30"));
+  return Math.min(Math.max(isNaN(days) ? 30 : days, 1), 90);
+}
+
+// Run adjustments against the user's current data and saved threshold
+async function simulate(userId: number, adjustments: ScenarioAdjustment[], days: number) {
+  const inputs = await loadUserCashFlowInputs(userId);
+  return runScenario(inputs.transactions, adjustments, {
+    projectionDays: days,
+    currentBalance: inputs.currentBalance,
+    safetyThreshold: inputs.safetyThreshold,
+    asOf: inputs.asOf,
+    recurringItems: inputs.recurringItems,
+  });
+}
+
+// GET - list saved scenarios, or rerun one by id against current data
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get("id");
+    const action = searchParams.get("action");
+
+    // Special action: recurring items available for remove_recurring adjustments
+    if (action === "recurring") {
+      const inputs = await loadUserCashFlowInputs(user.id);
+      return NextResponse.json({
+        success: true,
+        data: listRemovableRecurring(inputs.transactions, inputs.recurringItems),
+      });
+    }
+
+    if (id) {
+      const scenarioId = parseInt(id);
+      if (isNaN(scenarioId)) {
+        return NextResponse.json(
+          { success: false, error: "Valid ID is required" },
+          { status: 400 }
+        );
+      }
+
+      const saved = await db
+        .select()
+        .from(cashflowScenarios)
+        .where(and(eq(cashflowScenarios.id, scenarioId), eq(cashflowScenarios.userId, user.id)))
+        .limit(1);
+
+      if (saved.length === 0) {
+        return NextResponse.json(
+          { success: false, error: "Scenario not found" },
+          { status: 404 }
+        );
+      }
+
+      const adjustments = saved[0].adjustments as ScenarioAdjustment[];
+      const result = await simulate(user.id, adjustments, parseDays(searchParams.get("days")));
+
+      return NextResponse.json({
+        success: true,
+        data: { scenario: saved[0], result },
+      });
+    }
+
+    const scenarios = await db
+      .select()
+      .from(cashflowScenarios)
+      .where(eq(cashflowScenarios.userId, user.id))
+      .orderBy(desc(cashflowScenarios.updatedAt));
+
+    return NextResponse.json({ success: true, data: scenarios, count: scenarios.length });
+  } catch (error) {
+    console.error("Error fetching scenarios:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch scenarios" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - run a scenario; pass a name to save it as well
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const body = await request.json();
+    const { adjustments: rawAdjustments, days, name } = body;
+
+    const parsed = parseScenarioAdjustments(rawAdjustments);
+    if ("error" in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    if (name !== undefined && (typeof name !== "string" || name.trim().length < 2 || name.trim().length > 100)) {
+      return NextResponse.json(
+        { success: false, error: "Name must be between 2 and 100 characters" },
+        { status: 400 }
+      );
+    }
+
+    const result = await simulate(user.id, parsed.adjustments, parseDays(days));
+
+    let saved = null;
+    if (name) {
+      const now = new Date().toISOString();
+      const inserted = await db
+        .insert(cashflowScenarios)
+        .values({
+          userId: user.id,
+          name: name.trim(),
+          adjustments: parsed.adjustments,
+          createdAt: now,
+          updatedAt: now,
+        })
+        .returning();
+      saved = inserted[0];
+    }
+
+    return NextResponse.json(
+      { success: true, data: { scenario: saved, result } },
+      { status: saved ? 201 : 200 }
+    );
+  } catch (error) {
+    console.error("Error running scenario:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to run scenario" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - rename a saved scenario or replace its adjustments
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    const scenarioId = id ? parseInt(id) : NaN;
+    if (isNaN(scenarioId)) {
+      return NextResponse.json(
+        { success: false, error: "Valid ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json();
+    const { name, adjustments: rawAdjustments } = body;
+
+    const updates: Partial<typeof cashflowScenarios.$inferInsert> = {
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (name !== undefined) {
+      if (typeof name !== "string" || name.trim().length < 2 || name.trim().length > 100) {
+        return NextResponse.json(
+          { success: false, error: "Name must be between 2 and 100 characters" },
+          { status: 400 }
+        );
+      }
+      updates.name = name.trim();
+    }
+
+    if (rawAdjustments !== undefined) {
+      const parsed = parseScenarioAdjustments(rawAdjustments);
+      if ("error" in parsed) {
+        return NextResponse.json(
+          { success: false, error: parsed.error },
+          { status: 400 }
+        );
+      }
+      updates.adjustments = parsed.adjustments;
+    }
+
+    const updated = await db
+      .update(cashflowScenarios)
+      .set(updates)
+      .where(and(eq(cashflowScenarios.id, scenarioId), eq(cashflowScenarios.userId, user.id)))
+      .returning();
+
+    if (updated.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Scenario not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: updated[0] });
+  } catch (error) {
+    console.error("Error updating scenario:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update scenario" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - remove a saved scenario
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    const scenarioId = id ? parseInt(id) : NaN;
+    if (isNaN(scenarioId)) {
+      return NextResponse.json(
+        { success: false, error: "Valid ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await db
+      .delete(cashflowScenarios)
+      .where(and(eq(cashflowScenarios.id, scenarioId), eq(cashflowScenarios.userId, user.id)))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Scenario not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: deleted[0],
+      message: "Scenario deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting scenario:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete scenario" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,281 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { categorizationRules, transactionCategories } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { isSafeRegexPattern } from "@/lib/rule-regex";
+import { listUserRules, MATCH_TYPES, serializeRule } from "@/lib/categorization-rules";
+import { scheduleRecategorization } from "@/lib/recategorization";
+import { toPaise } from "@/lib/transactions";
+
+type RuleInsert = typeof categorizationRules.$inferInsert;
+
+// Regex rules must compile and be safe to run against every transaction
+function regexPatternError(rule: Pick<RuleInsert, "matchType" | "merchantPattern" | "descriptionPattern">): string | null {
+  if (rule.matchType !== "regex") return null;
+  for (const pattern of [rule.merchantPattern, rule.descriptionPattern]) {
+    if (!pattern) continue;
+    try {
+      new RegExp(pattern, "i");
+    } catch {
+      return `Invalid regular expression: ${pattern}`;
+    }
+    if (!isSafeRegexPattern(pattern)) {
+      return `Regular expression is too long or could run too slowly (nested or overlapping repeats): ${pattern}`;
+    }
+  }
+  return null;
+}
+
+function parseRuleId(request: NextRequest): number {
+  const id = request.nextUrl.searchParams.get("id");
+  return id ? parseInt(id) : NaN;
+}
+
+// Validate rule fields from a request body; only fields that are present are returned. Patterns are
+// lowercased unless body.matchType is "regex", whose patterns are kept as written.
+async function parseRuleFields(
+  body: Record<string, unknown>
+): Promise<{ fields: Partial<RuleInsert>; category?: typeof transactionCategories.$inferSelect } | { error: string }> {
+  const fields: Partial<RuleInsert> = {};
+  let category: typeof transactionCategories.$inferSelect | undefined;
+
+  if (body.categoryId !== undefined || body.category !== undefined) {
+    const match = body.categoryId !== undefined
+      ? await db.select().from(transactionCategories).where(eq(transactionCategories.id, Number(body.categoryId))).limit(1)
+      : await db.select().from(transactionCategories).where(eq(transactionCategories.name, String(body.category).trim())).limit(1);
+    if (match.length === 0) {
+      return { error: "Category not found" };
+    }
+    category = match[0];
+    fields.categoryId = category.id;
+  }
+
+  if (body.matchType !== undefined) {
+    if (!MATCH_TYPES.includes(body.matchType as (typeof MATCH_TYPES)[number])) {
+      return { error: `matchType must be one of ${MATCH_TYPES.join(", ")}` };
+    }
+    fields.matchType = body.matchType as string;
+  }
+
+  for (const key of ["merchantPattern", "descriptionPattern"] as const) {
+    const value = body[key];
+    if (value === undefined) continue;
+    if (value !== null && (typeof value !== "string" || value.trim().length > 200)) {
+      return { error: `${key} must be a string of at most 200 characters or null` };
+    }
+    const pattern = typeof value === "string" ? value.trim() : "";
+    fields[key] = pattern ? (body.matchType === "regex" ? pattern : pattern.toLowerCase()) : null;
+  }
+
+  for (const key of ["amountMin", "amountMax"] as const) {
+    const value = body[key];
+    if (value === undefined) continue;
+    if (value !== null && (typeof value !== "number" || !isFinite(value) || value < 0)) {
+      return { error: `${key} must be a non-negative number or null` };
+    }
+    fields[key] = value === null ? null : toPaise(value as number);
+  }
+
+  if (body.priority !== undefined) {
+    if (typeof body.priority !== "number" || !Number.isInteger(body.priority) || Math.abs(body.priority) > 1000) {
+      return { error: "priority must be an integer between -1000 and 1000" };
+    }
+    fields.priority = body.priority;
+  }
+
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== "boolean") {
+      return { error: "isActive must be a boolean" };
+    }
+    fields.isActive = body.isActive;
+  }
+
+  return { fields, category };
+}
+
+// GET - list the user's rules, highest priority first
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const rules = await listUserRules(user.id);
+    return NextResponse.json({ success: true, data: rules, count: rules.length });
+  } catch (error) {
+    console.error("Error fetching categorization rules:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch categorization rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - create a manual rule
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const parsed = await parseRuleFields(await request.json());
+    if ("error" in parsed) {
+      return badRequest(parsed.error);
+    }
+
+    const { fields, category } = parsed;
+    if (!category) {
+      return badRequest("categoryId or category is required");
+    }
+    if (!fields.merchantPattern && !fields.descriptionPattern) {
+      return badRequest("merchantPattern or descriptionPattern is required");
+    }
+    if (fields.amountMin != null && fields.amountMax != null && fields.amountMin > fields.amountMax) {
+      return badRequest("amountMin cannot exceed amountMax");
+    }
+    const regexError = regexPatternError(fields);
+    if (regexError) {
+      return badRequest(regexError);
+    }
+
+    const now = new Date().toISOString();
+    const inserted = await db
+      .insert(categorizationRules)
+      .values({
+        matchType: "contains",
+        priority: 10,
+        ...fields,
+        userId: user.id,
+        categoryId: category.id,
+        source: "manual",
+        hitCount: 0,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+
+    scheduleRecategorization(user.id, "rule_created");
+
+    return NextResponse.json(
+      { success: true, data: serializeRule(inserted[0], category) },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating categorization rule:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create categorization rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - edit patterns, amount range, priority, category or active flag
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const ruleId = parseRuleId(request);
+    if (isNaN(ruleId)) {
+      return badRequest("Valid ID is required");
+    }
+
+    const existing = await db
+      .select()
+      .from(categorizationRules)
+      .where(and(eq(categorizationRules.id, ruleId), eq(categorizationRules.userId, user.id)))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = await parseRuleFields({ matchType: existing[0].matchType, ...body });
+    if ("error" in parsed) {
+      return badRequest(parsed.error);
+    }
+
+    const merged = { ...existing[0], ...parsed.fields };
+    if (!merged.merchantPattern && !merged.descriptionPattern) {
+      return badRequest("merchantPattern or descriptionPattern is required");
+    }
+    if (merged.amountMin !== null && merged.amountMax !== null && merged.amountMin > merged.amountMax) {
+      return badRequest("amountMin cannot exceed amountMax");
+    }
+    // Switching a rule to regex checks the patterns it already has too
+    const regexError = regexPatternError(merged);
+    if (regexError) {
+      return badRequest(regexError);
+    }
+
+    const updated = await db
+      .update(categorizationRules)
+      .set({ ...parsed.fields, updatedAt: new Date().toISOString() })
+      .where(and(eq(categorizationRules.id, ruleId), eq(categorizationRules.userId, user.id)))
+      .returning();
+
+    const category = parsed.category
+      ?? (await db.select().from(transactionCategories).where(eq(transactionCategories.id, updated[0].categoryId)).limit(1))[0];
+
+    scheduleRecategorization(user.id, "rule_updated");
+
+    return NextResponse.json({ success: true, data: serializeRule(updated[0], category) });
+  } catch (error) {
+    console.error("Error updating categorization rule:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update categorization rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - remove a rule
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const ruleId = parseRuleId(request);
+    if (isNaN(ruleId)) {
+      return badRequest("Valid ID is required");
+    }
+
+    const deleted = await db
+      .delete(categorizationRules)
+      .where(and(eq(categorizationRules.id, ruleId), eq(categorizationRules.userId, user.id)))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Rule not found" },
+        { status: 404 }
+      );
+    }
+
+    scheduleRecategorization(user.id, "rule_deleted");
+
+    return NextResponse.json({
+      success: true,
+      data: serializeRule(deleted[0]),
+      message: "Rule deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting categorization rule:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete categorization rule" },
+      { status: 500 }
+    );
+  }
+}
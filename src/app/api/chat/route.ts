@@ -1,4 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
+import { addDays } from "@/lib/cashflow";
+import { getTopSpendingCategory } from "@/lib/categorization";
+import { getCurrentAppUser } from "@/lib/auth";
+import { buildUserCashFlow } from "@/lib/financial-context";
 
 // In production, this would use Google Gemini API or OpenAI API
 // For MVP, we're using rule-based responses
@@ -8,29 +12,54 @@ interface ChatMessage {
   content: string;
 }
 
-// Mock financial data for context
-const userFinancialContext = {
-  currentBalance: 12450,
-  projectedBalance: 4200,
-  weeklyIncome: 8500,
-  weeklyExpenses: 9200,
-  safetyThreshold: 5000,
-  topSpendingCategory: "Food & Dining",
-  topSpendingAmount: 3450,
-};
+interface UserFinancialContext {
+  currentBalance: number;
+  projectedBalance: number;
+  weeklyIncome: number;
+  weeklyExpenses: number;
+  safetyThreshold: number;
+  firstBreachDate: string | null;
+  topSpendingCategory: string;
+  topSpendingAmount: number;
+}
+
+// Build the chat context from the user's stored data and saved safety threshold
+async function loadFinancialContext(userId: number): Promise<UserFinancialContext> {
+  const { transactions, currentBalance, safetyThreshold, asOf, projection } =
+    await buildUserCashFlow(userId, { projectionDays: 7 });
+
+  const lastWeek = transactions.filter((t) => t.date > addDays(asOf, -7));
+  const topCategory = getTopSpendingCategory(lastWeek);
+
+  return {
+    currentBalance: Math.round(currentBalance),
+    projectedBalance: projection.projectedBalance,
+    weeklyIncome: Math.round(lastWeek.filter((t) => t.amount > 0).reduce((sum, t) => sum + t.amount, 0)),
+    weeklyExpenses: Math.round(lastWeek.filter((t) => t.amount < 0).reduce((sum, t) => sum + Math.abs(t.amount), 0)),
+    safetyThreshold,
+    firstBreachDate: projection.firstBreachDate,
+    topSpendingCategory: topCategory?.category || "Others",
+    topSpendingAmount: Math.round(topCategory?.amount || 0),
+  };
+}
 
 // Rule-based AI responses for common queries
-const generateResponse = (userMessage: string): string => {
+const generateResponse = (userMessage: string, userFinancialContext: UserFinancialContext): string => {
   const message = userMessage.toLowerCase();
 
   // Balance inquiries
   if (message.includes("balance") || message.includes("money")) {
-    return `Your current balance is ₹${userFinancialContext.currentBalance.toLocaleString()}. Based on your spending patterns, I project it will be around ₹${userFinancialContext.projectedBalance.toLocaleString()} in 7 days, which is below your safety threshold of ₹${userFinancialContext.safetyThreshold.toLocaleString()}.`;
+    const thresholdNote = userFinancialContext.firstBreachDate
+      ? `It is projected to dip below your safety threshold of ₹${userFinancialContext.safetyThreshold.toLocaleString()} on ${userFinancialContext.firstBreachDate}.`
+      : `That stays above your safety threshold of ₹${userFinancialContext.safetyThreshold.toLocaleString()}.`;
+    return `Your current balance is ₹${userFinancialContext.currentBalance.toLocaleString()}. Based on your spending patterns, I project it will be around ₹${userFinancialContext.projectedBalance.toLocaleString()} in 7 days. ${thresholdNote}`;
   }
 
   // Spending inquiries
   if (message.includes("spending") || message.includes("spend")) {
-    return `This week, you've spent ₹${userFinancialContext.weeklyExpenses.toLocaleString()}, with the highest amount going to ${userFinancialContext.topSpendingCategory} (₹${userFinancialContext.topSpendingAmount.toLocaleString()}). Your spending is ₹${(userFinancialContext.weeklyExpenses - userFinancialContext.weeklyIncome).toLocaleString()} more than your income this week.`;
+    return `This week, you've spent ₹${userFinancialContext.weeklyExpenses.toLocaleString()}, with the highest amount going to ${userFinancialContext.topSpendingCategory} (₹${userFinancialContext.topSpendingAmount.toLocaleString()}). ${userFinancialContext.weeklyExpenses > userFinancialContext.weeklyIncome
+      ? `Your spending is ₹${(userFinancialContext.weeklyExpenses - userFinancialContext.weeklyIncome).toLocaleString()} more than your income this week.`
+      : `Your income covers your spending this week with ₹${(userFinancialContext.weeklyIncome - userFinancialContext.weeklyExpenses).toLocaleString()} to spare.`}`;
   }
 
   // Savings advice
@@ -59,6 +88,14 @@ const generateResponse = (userMessage: string): string => {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
     const body = await request.json();
     const { message, conversationHistory } = body;
 
@@ -73,7 +110,8 @@ export async function POST(request: NextRequest) {
     await new Promise((resolve) => setTimeout(resolve, 800));
 
     // Generate response based on user message
-    const aiResponse = generateResponse(message);
+    const financialContext = await loadFinancialContext(user.id);
+    const aiResponse = generateResponse(message, financialContext);
 
     return NextResponse.json({
       success: true,
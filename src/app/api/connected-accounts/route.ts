@@ -2,18 +2,24 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { connectedAccounts, users } from '@/db/schema';
 import { eq, and } from 'drizzle-orm';
+import { fromPaise, toPaise } from '@/lib/transactions';
+import { encryptToken } from '@/lib/token-encryption';
 
-// Utility function to encrypt plaid access token
-function encryptToken(token: string): string {
-  return Buffer.from(token).toString('base64');
-}
-
-// Utility function to exclude plaidAccessToken from response
+// Utility function to exclude plaidAccessToken and the sync cursor from response
+// Balances are stored in paise and returned in rupees
 function sanitizeAccount(account: any) {
-  const { plaidAccessToken, ...sanitized } = account;
+  const { plaidAccessToken, syncCursor, ...sanitized } = account;
+  if (sanitized.currentBalance !== null && sanitized.currentBalance !== undefined) {
+    sanitized.currentBalance = fromPaise(sanitized.currentBalance);
+  }
   return sanitized;
 }
 
+// Validate balance (rupees, may be negative for credit accounts)
+function isValidBalance(balance: unknown): boolean {
+  return typeof balance === 'number' && isFinite(balance);
+}
+
 // Validate account type
 function isValidAccountType(type: string): boolean {
   return ['checking', 'savings', 'credit', 'investment'].includes(type);
@@ -136,6 +142,7 @@ export async function POST(request: NextRequest) {
       accountName,
       accountType,
       accountNumberLast4,
+      currentBalance,
       isPrimary,
     } = body;
 
@@ -189,6 +196,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (currentBalance !== undefined && currentBalance !== null && !isValidBalance(currentBalance)) {
+      return NextResponse.json(
+        { error: 'Current balance must be a number', code: 'INVALID_BALANCE' },
+        { status: 400 }
+      );
+    }
+
     // Validate userId exists in users table
     const userExists = await db.select().from(users).where(eq(users.id, parseInt(userId))).limit(1);
     if (userExists.length === 0) {
@@ -221,6 +235,8 @@ export async function POST(request: NextRequest) {
         accountName: accountName.trim(),
         accountType: accountType.trim(),
         accountNumberLast4: accountNumberLast4 || null,
+        currentBalance: isValidBalance(currentBalance) ? toPaise(currentBalance) : null,
+        balanceUpdatedAt: isValidBalance(currentBalance) ? new Date().toISOString() : null,
         isPrimary: isPrimaryBool,
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -298,7 +314,7 @@ export async function PUT(request: NextRequest) {
 
     // Regular update
     const body = await request.json();
-    const { accountName, isPrimary, accountNumberLast4, plaidAccessToken, plaidItemId, institutionName, accountType, userId } = body;
+    const { accountName, isPrimary, accountNumberLast4, currentBalance, plaidAccessToken, plaidItemId, institutionName, accountType, userId } = body;
 
     // Prevent updating restricted fields
     if (plaidAccessToken !== undefined || plaidItemId !== undefined || institutionName !== undefined || accountType !== undefined || userId !== undefined) {
@@ -333,6 +349,17 @@ export async function PUT(request: NextRequest) {
       updates.accountNumberLast4 = accountNumberLast4;
     }
 
+    if (currentBalance !== undefined) {
+      if (currentBalance !== null && !isValidBalance(currentBalance)) {
+        return NextResponse.json(
+          { error: 'Current balance must be a number', code: 'INVALID_BALANCE' },
+          { status: 400 }
+        );
+      }
+      updates.currentBalance = currentBalance === null ? null : toPaise(currentBalance);
+      updates.balanceUpdatedAt = new Date().toISOString();
+    }
+
     if (isPrimary !== undefined) {
       const isPrimaryBool = isPrimary === true;
       updates.isPrimary = isPrimaryBool;
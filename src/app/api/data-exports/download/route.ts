@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { dataExports } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { dataExportContentType, expireDataExports } from "@/lib/data-export";
+
+// GET - download a ready export (?id=). The link carries no credentials; it needs the usual
+// sign-in and stops working when the export expires.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const exportId = parseInt(request.nextUrl.searchParams.get("id") || "");
+    if (isNaN(exportId)) {
+      return NextResponse.json(
+        { success: false, error: "Valid ID is required" },
+        { status: 400 }
+      );
+    }
+
+    await expireDataExports(user.id);
+
+    const rows = await db
+      .select()
+      .from(dataExports)
+      .where(and(eq(dataExports.id, exportId), eq(dataExports.userId, user.id)))
+      .limit(1);
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Export not found" },
+        { status: 404 }
+      );
+    }
+
+    const dataExport = rows[0];
+    if (dataExport.status === "expired") {
+      return NextResponse.json(
+        { success: false, error: "This export has expired; start a new one" },
+        { status: 410 }
+      );
+    }
+    if (dataExport.status !== "ready" || !dataExport.content) {
+      return NextResponse.json(
+        { success: false, error: `Export is ${dataExport.status}` },
+        { status: 409 }
+      );
+    }
+
+    return new NextResponse(new Uint8Array(dataExport.content), {
+      headers: {
+        "Content-Type": dataExportContentType(dataExport.format),
+        "Content-Disposition": `attachment; filename="${dataExport.fileName}"`,
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error downloading data export:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to download data export" },
+      { status: 500 }
+    );
+  }
+}
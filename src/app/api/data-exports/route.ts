@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { dataExports, transactionCategories } from "@/db/schema";
+import { and, desc, eq, getTableColumns } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { isValidDate } from "@/lib/cashflow";
+import {
+  createDataExport,
+  DATA_EXPORT_FORMATS,
+  DataExportFormat,
+  expireDataExports,
+  serializeDataExport,
+} from "@/lib/data-export";
+
+// Everything but the file itself, which only the download route reads
+const { content: _content, ...SUMMARY_COLUMNS } = getTableColumns(dataExports);
+
+// GET - one export by id (poll it until it is ready), or the user's recent exports
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    await expireDataExports(user.id);
+
+    const id = request.nextUrl.searchParams.get("id");
+    if (id) {
+      const exportId = parseInt(id);
+      if (isNaN(exportId)) {
+        return badRequest("Valid ID is required");
+      }
+      const rows = await db
+        .select(SUMMARY_COLUMNS)
+        .from(dataExports)
+        .where(and(eq(dataExports.id, exportId), eq(dataExports.userId, user.id)))
+        .limit(1);
+      if (rows.length === 0) {
+        return NextResponse.json(
+          { success: false, error: "Export not found" },
+          { status: 404 }
+        );
+      }
+      return NextResponse.json({ success: true, data: serializeDataExport(rows[0]) });
+    }
+
+    const rows = await db
+      .select(SUMMARY_COLUMNS)
+      .from(dataExports)
+      .where(eq(dataExports.userId, user.id))
+      .orderBy(desc(dataExports.createdAt))
+      .limit(10);
+
+    return NextResponse.json({ success: true, data: rows.map(serializeDataExport) });
+  } catch (error) {
+    console.error("Error fetching data exports:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch data exports" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - start an export ({ format: csv|json|xlsx, startDate?, endDate?, categoryIds? }).
+// Returns 201 with a download link when it is ready, or 202 while a large export is still being built.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { format, startDate, endDate, categoryIds } = body;
+
+    if (!DATA_EXPORT_FORMATS.includes(format)) {
+      return badRequest(`format must be one of ${DATA_EXPORT_FORMATS.join(", ")}`);
+    }
+    if (
+      (startDate !== undefined && startDate !== null && !isValidDate(startDate)) ||
+      (endDate !== undefined && endDate !== null && !isValidDate(endDate))
+    ) {
+      return badRequest("startDate and endDate must be YYYY-MM-DD");
+    }
+    if (startDate && endDate && startDate > endDate) {
+      return badRequest("startDate must not be after endDate");
+    }
+    if (
+      categoryIds !== undefined &&
+      categoryIds !== null &&
+      (!Array.isArray(categoryIds) || !categoryIds.every((categoryId) => Number.isInteger(categoryId)))
+    ) {
+      return badRequest("categoryIds must be an array of category ids");
+    }
+
+    const ids: number[] = categoryIds ?? [];
+    if (ids.length > 0) {
+      const categories = await db.select().from(transactionCategories);
+      const unknown = ids.filter((categoryId) => !categories.some((category) => category.id === categoryId));
+      if (unknown.length > 0) {
+        return badRequest(`Unknown category id: ${unknown.join(", ")}`);
+      }
+    }
+
+    const created = await createDataExport(user.id, format as DataExportFormat, {
+      startDate: startDate || null,
+      endDate: endDate || null,
+      categoryIds: ids,
+    });
+
+    if (created.status === "failed") {
+      return NextResponse.json(
+        { success: false, error: created.error || "Failed to build export", data: created },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: created },
+      { status: created.status === "ready" ? 201 : 202 }
+    );
+  } catch (error) {
+    console.error("Error creating data export:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create data export" },
+      { status: 500 }
+    );
+  }
+}
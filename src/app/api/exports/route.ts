@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { isValidDate } from "@/lib/cashflow";
+import { QifDateFormat, writeOfx, writeQif } from "@/lib/money-files";
+import { loadExportStatements } from "@/lib/statement-export";
+
+const FORMATS = {
+  ofx: { contentType: "application/x-ofx", extension: "ofx" },
+  qfx: { contentType: "application/vnd.intu.qfx", extension: "qfx" },
+  qif: { contentType: "application/qif", extension: "qif" },
+};
+
+const QIF_DATE_FORMATS: QifDateFormat[] = ["DD/MM/YYYY", "MM/DD/YYYY"];
+
+// GET - download the user's transactions as a file (?format=ofx|qfx|qif, optional accountId,
+// startDate, endDate, and dateFormat for QIF). One statement per account.
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const format = searchParams.get("format") || "";
+    const accountIdParam = searchParams.get("accountId");
+    const startDate = searchParams.get("startDate") || undefined;
+    const endDate = searchParams.get("endDate") || undefined;
+    const dateFormat = (searchParams.get("dateFormat") || "DD/MM/YYYY") as QifDateFormat;
+
+    if (!Object.hasOwn(FORMATS, format)) {
+      return badRequest(`format must be one of ${Object.keys(FORMATS).join(", ")}`);
+    }
+    const accountId = accountIdParam ? parseInt(accountIdParam) : undefined;
+    if (accountId !== undefined && isNaN(accountId)) {
+      return badRequest("Valid accountId is required");
+    }
+    if ((startDate && !isValidDate(startDate)) || (endDate && !isValidDate(endDate))) {
+      return badRequest("startDate and endDate must be YYYY-MM-DD");
+    }
+    if (!QIF_DATE_FORMATS.includes(dateFormat)) {
+      return badRequest(`dateFormat must be one of ${QIF_DATE_FORMATS.join(", ")}`);
+    }
+
+    const statements = await loadExportStatements(user.id, { accountId, startDate, endDate });
+    const { contentType, extension } = FORMATS[format as keyof typeof FORMATS];
+    const content = format === "qif" ? writeQif(statements, { dateFormat }) : writeOfx(statements);
+    const fileName = `finpal-transactions-${new Date().toISOString().split("T")[0]}.${extension}`;
+
+    return new NextResponse(content, {
+      headers: {
+        "Content-Type": contentType,
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting transactions:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to export transactions" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { connectedAccounts } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import {
+  BANK_PRESETS,
+  ColumnMapping,
+  DATE_FORMATS,
+  detectPreset,
+  parseCsv,
+  parseStatementRows,
+} from "@/lib/csv-import";
+import { commitStatementImport, previewStatementImport, summarizeImport } from "@/lib/statement-import";
+
+// Generous for a statement export; a year of daily transactions is well under 1 MB
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+function isColumnMapping(value: unknown): value is ColumnMapping {
+  if (!value || typeof value !== "object") return false;
+  const mapping = value as Record<string, unknown>;
+  const optional = ["amount", "type", "debit", "credit", "reference", "balance"];
+  return (
+    typeof mapping.date === "string" &&
+    mapping.date.trim() !== "" &&
+    typeof mapping.description === "string" &&
+    mapping.description.trim() !== "" &&
+    DATE_FORMATS.includes(mapping.dateFormat as ColumnMapping["dateFormat"]) &&
+    optional.every((key) => mapping[key] === undefined || mapping[key] === null || typeof mapping[key] === "string")
+  );
+}
+
+// GET - bank presets and date formats for the column-mapping form
+export async function GET(request: NextRequest) {
+  const user = await getCurrentAppUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  return NextResponse.json({ success: true, data: { presets: BANK_PRESETS, dateFormats: DATE_FORMATS } });
+}
+
+// POST - preview a statement CSV ({ content, preset?, mapping?, accountId? }), or import it with commit: true.
+// Without a preset or mapping the bank is detected from the header row.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { content, preset, mapping, accountId, commit } = body;
+
+    if (typeof content !== "string" || !content.trim()) {
+      return badRequest("content must be the text of a CSV file");
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return badRequest("File is too large (5 MB at most)");
+    }
+    if (mapping !== undefined && !isColumnMapping(mapping)) {
+      return badRequest(`mapping needs date and description columns and a dateFormat of ${DATE_FORMATS.join(", ")}`);
+    }
+    if (accountId !== undefined && accountId !== null) {
+      const account = typeof accountId === "number"
+        ? await db
+            .select()
+            .from(connectedAccounts)
+            .where(and(eq(connectedAccounts.id, accountId), eq(connectedAccounts.userId, user.id)))
+            .limit(1)
+        : [];
+      if (account.length === 0) {
+        return badRequest("Account not found");
+      }
+    }
+
+    const table = parseCsv(content);
+    let selectedPreset = null;
+    if (preset !== undefined && preset !== null) {
+      selectedPreset = BANK_PRESETS.find((candidate) => candidate.id === preset) || null;
+      if (!selectedPreset) {
+        return badRequest(`Unknown preset; use one of ${BANK_PRESETS.map((candidate) => candidate.id).join(", ")}`);
+      }
+    } else if (mapping === undefined) {
+      selectedPreset = detectPreset(table);
+    }
+
+    const columnMapping: ColumnMapping | undefined = mapping ?? selectedPreset?.mapping;
+    if (!columnMapping) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Could not recognise the bank; map the columns",
+          data: { headers: table.find((row) => row.filter(Boolean).length > 1) ?? [] },
+        },
+        { status: 422 }
+      );
+    }
+
+    const parsed = parseStatementRows(table, columnMapping);
+
+    if (commit === true) {
+      const { imported, duplicates } = await commitStatementImport(user.id, parsed.rows, { accountId });
+      return NextResponse.json(
+        {
+          success: true,
+          data: imported,
+          count: imported.length,
+          duplicates,
+          errors: parsed.errors,
+        },
+        { status: 201 }
+      );
+    }
+
+    const rows = await previewStatementImport(user.id, parsed.rows, { accountId });
+    return NextResponse.json({
+      success: true,
+      data: {
+        preset: selectedPreset?.id ?? null,
+        mapping: columnMapping,
+        headers: parsed.headers,
+        rows,
+        errors: parsed.errors,
+        summary: summarizeImport(rows, parsed.errors),
+      },
+    });
+  } catch (error) {
+    console.error("Error importing statement:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to import statement" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { connectedAccounts } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { parseOfx } from "@/lib/money-files";
+import { commitFileStatements, previewFileStatements } from "@/lib/statement-import";
+
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+// POST - preview an OFX or QFX file ({ content, accountId? }), or import it with commit: true.
+// Each account in the file goes to the connected account with the same last four digits, added if missing;
+// transactions whose FITID is already stored are skipped.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { content, accountId, commit } = body;
+
+    if (typeof content !== "string" || !content.trim()) {
+      return badRequest("content must be the text of an OFX or QFX file");
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return badRequest("File is too large (5 MB at most)");
+    }
+
+    const statements = parseOfx(content);
+    if (!statements) {
+      return badRequest("Not an OFX file: no <OFX> element found");
+    }
+    if (statements.length === 0) {
+      return badRequest("The file has no bank or credit card statements");
+    }
+
+    if (accountId !== undefined && accountId !== null) {
+      if (statements.length > 1) {
+        return badRequest("The file holds several accounts; accountId can only be given for a single-account file");
+      }
+      const account = typeof accountId === "number"
+        ? await db
+            .select()
+            .from(connectedAccounts)
+            .where(and(eq(connectedAccounts.id, accountId), eq(connectedAccounts.userId, user.id)))
+            .limit(1)
+        : [];
+      if (account.length === 0) {
+        return badRequest("Account not found");
+      }
+    }
+
+    if (commit === true) {
+      const data = await commitFileStatements(user.id, statements, { accountId });
+      return NextResponse.json(
+        { success: true, data, count: data.reduce((sum, result) => sum + result.imported, 0) },
+        { status: 201 }
+      );
+    }
+
+    const data = await previewFileStatements(user.id, statements, { accountId });
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("Error importing OFX file:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to import OFX file" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { connectedAccounts } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { extractPdfText, parsePdfStatement, PDF_LAYOUT_PROFILES } from "@/lib/pdf-statement";
+import { commitFileStatements, previewFileStatements } from "@/lib/statement-import";
+
+// Base64 of a 10 MB PDF; statements with a few hundred pages of transactions stay well under this
+const MAX_CONTENT_LENGTH = 14 * 1024 * 1024;
+
+// GET - the banks whose statement PDFs can be read
+export async function GET(request: NextRequest) {
+  const user = await getCurrentAppUser(request);
+  if (!user) {
+    return unauthorized();
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: PDF_LAYOUT_PROFILES.map((profile) => ({ id: profile.id, name: profile.name })),
+  });
+}
+
+// POST - preview a statement PDF ({ content: base64, password?, profile?, accountId? }), or import it with commit: true.
+// The text is read on the server, never sent elsewhere. Without a profile the bank is detected from the first page;
+// rows whose running balance does not add up are reported and left out.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { content, password, profile, accountId, commit } = body;
+
+    if (typeof content !== "string" || !content.trim()) {
+      return badRequest("content must be the PDF file, base64 encoded");
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return badRequest("File is too large (10 MB at most)");
+    }
+    if (password !== undefined && password !== null && typeof password !== "string") {
+      return badRequest("password must be a string");
+    }
+
+    let selectedProfile;
+    if (profile !== undefined && profile !== null) {
+      selectedProfile = PDF_LAYOUT_PROFILES.find((candidate) => candidate.id === profile);
+      if (!selectedProfile) {
+        return badRequest(`Unknown profile; use one of ${PDF_LAYOUT_PROFILES.map((candidate) => candidate.id).join(", ")}`);
+      }
+    }
+
+    if (accountId !== undefined && accountId !== null) {
+      const account = typeof accountId === "number"
+        ? await db
+            .select()
+            .from(connectedAccounts)
+            .where(and(eq(connectedAccounts.id, accountId), eq(connectedAccounts.userId, user.id)))
+            .limit(1)
+        : [];
+      if (account.length === 0) {
+        return badRequest("Account not found");
+      }
+    }
+
+    const extracted = await extractPdfText(new Uint8Array(Buffer.from(content, "base64")), {
+      password: password || undefined,
+    });
+    if ("error" in extracted) {
+      // A locked statement: ask for the password rather than failing outright
+      return extracted.passwordRequired
+        ? NextResponse.json(
+            { success: false, error: extracted.error, data: { passwordRequired: true } },
+            { status: 422 }
+          )
+        : badRequest(extracted.error);
+    }
+
+    const parsed = parsePdfStatement(extracted.pages, { profile: selectedProfile });
+    if ("error" in parsed) {
+      return NextResponse.json({ success: false, error: parsed.error }, { status: 422 });
+    }
+
+    if (commit === true) {
+      const data = await commitFileStatements(user.id, [parsed.statement], { accountId });
+      return NextResponse.json(
+        { success: true, data, count: data[0].imported, profile: parsed.profile.id },
+        { status: 201 }
+      );
+    }
+
+    const data = await previewFileStatements(user.id, [parsed.statement], { accountId });
+    return NextResponse.json({ success: true, data, profile: parsed.profile.id });
+  } catch (error) {
+    console.error("Error importing PDF statement:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to import PDF statement" },
+      { status: 500 }
+    );
+  }
+}
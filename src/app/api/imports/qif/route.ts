@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { connectedAccounts } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { parseQif, QifDateFormat } from "@/lib/money-files";
+import { commitFileStatements, previewFileStatements } from "@/lib/statement-import";
+
+const MAX_CONTENT_LENGTH = 5 * 1024 * 1024;
+
+const QIF_DATE_FORMATS: QifDateFormat[] = ["DD/MM/YYYY", "MM/DD/YYYY"];
+
+// POST - preview a QIF file ({ content, dateFormat?, accountId? }), or import it with commit: true.
+// Each !Account block goes to the connected account of the same name, added if missing. QIF has no
+// transaction ids, so duplicates are found by date, amount and payee; categories in the file are kept.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { content, dateFormat, accountId, commit } = body;
+
+    if (typeof content !== "string" || !content.trim()) {
+      return badRequest("content must be the text of a QIF file");
+    }
+    if (content.length > MAX_CONTENT_LENGTH) {
+      return badRequest("File is too large (5 MB at most)");
+    }
+    if (dateFormat !== undefined && !QIF_DATE_FORMATS.includes(dateFormat)) {
+      return badRequest(`dateFormat must be one of ${QIF_DATE_FORMATS.join(", ")}`);
+    }
+
+    const statements = parseQif(content, { dateFormat });
+    if (statements.length === 0) {
+      return badRequest("The file has no bank, cash or credit card transactions");
+    }
+
+    if (accountId !== undefined && accountId !== null) {
+      if (statements.length > 1) {
+        return badRequest("The file holds several accounts; accountId can only be given for a single-account file");
+      }
+      const account = typeof accountId === "number"
+        ? await db
+            .select()
+            .from(connectedAccounts)
+            .where(and(eq(connectedAccounts.id, accountId), eq(connectedAccounts.userId, user.id)))
+            .limit(1)
+        : [];
+      if (account.length === 0) {
+        return badRequest("Account not found");
+      }
+    }
+
+    if (commit === true) {
+      const data = await commitFileStatements(user.id, statements, { accountId });
+      return NextResponse.json(
+        { success: true, data, count: data.reduce((sum, result) => sum + result.imported, 0) },
+        { status: 201 }
+      );
+    }
+
+    const data = await previewFileStatements(user.id, statements, { accountId });
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("Error importing QIF file:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to import QIF file" },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
 import { insights, users } from '@/db/schema';
 import { eq, and, lt, desc, asc, like, or } from 'drizzle-orm';
+import { getCurrentAppUser } from '@/lib/auth';
+import { buildUserCashFlow } from '@/lib/financial-context';
 
 // Allowed insight types
 const ALLOWED_INSIGHT_TYPES = ['low_balance_warning', 'spending_pattern', 'saving_tip'] as const;
@@ -139,6 +141,47 @@ export async function GET(request: NextRequest) {
 // POST method - Create new insight
 export async function POST(request: NextRequest) {
   try {
+    const { searchParams } = new URL(request.url);
+    const action = searchParams.get('action');
+
+    // Special action: Generate a low balance warning from the signed-in user's projection
+    if (action === 'generate') {
+      const user = await getCurrentAppUser(request);
+      if (!user) {
+        return NextResponse.json({ 
+          error: 'Authentication required',
+          code: 'UNAUTHORIZED' 
+        }, { status: 401 });
+      }
+
+      const { projection, safetyThreshold, currentBalance } = await buildUserCashFlow(user.id, { projectionDays: 7 });
+
+      if (!projection.firstBreachDate) {
+        return NextResponse.json({ 
+          message: 'Projected balance stays above safety threshold',
+          insight: null 
+        }, { status: 200 });
+      }
+
+      const newInsight = await db.insert(insights).values({
+        userId: user.id,
+        insightType: 'low_balance_warning',
+        title: 'Low balance ahead',
+        message: `Your balance is projected to fall to ₹${projection.minProjectedBalance.toLocaleString('en-IN')} by ${projection.minProjectedBalanceDate}, below your safety threshold of ₹${safetyThreshold.toLocaleString('en-IN')}.`,
+        data: {
+          currentBalance,
+          safetyThreshold,
+          firstBreachDate: projection.firstBreachDate,
+          minProjectedBalance: projection.minProjectedBalance,
+          minProjectedBalanceDate: projection.minProjectedBalanceDate,
+        },
+        isRead: false,
+        createdAt: new Date().toISOString()
+      }).returning();
+
+      return NextResponse.json(newInsight[0], { status: 201 });
+    }
+
     const body = await request.json();
     const { userId, insightType, title, message, data } = body;
 
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { merchants } from "@/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { getCurrentAppUser } from "@/lib/auth";
+import { listMerchants, mergeMerchants } from "@/lib/merchants";
+
+// POST - merge merchants ({ targetId, sourceIds }) into one
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { targetId, sourceIds } = await request.json();
+    if (
+      typeof targetId !== "number" ||
+      !Array.isArray(sourceIds) ||
+      sourceIds.length === 0 ||
+      !sourceIds.every((id) => typeof id === "number")
+    ) {
+      return NextResponse.json(
+        { success: false, error: "targetId and a non-empty sourceIds array are required" },
+        { status: 400 }
+      );
+    }
+
+    const rows = await db
+      .select()
+      .from(merchants)
+      .where(and(eq(merchants.userId, user.id), inArray(merchants.id, [targetId, ...sourceIds])));
+
+    const target = rows.find((row) => row.id === targetId);
+    const sources = rows.filter((row) => row.id !== targetId);
+    if (!target || sources.length !== new Set(sourceIds.filter((id: number) => id !== targetId)).size) {
+      return NextResponse.json(
+        { success: false, error: "Merchant not found" },
+        { status: 404 }
+      );
+    }
+
+    const moved = await mergeMerchants(user.id, target, sources);
+    const [data] = await listMerchants(user.id, [targetId]);
+    return NextResponse.json({
+      success: true,
+      data,
+      message: `Merged ${sources.length} merchant${sources.length === 1 ? "" : "s"} into ${target.name}; ${moved} transactions moved`,
+    });
+  } catch (error) {
+    console.error("Error merging merchants:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to merge merchants" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { merchants, transactionCategories } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { merchantKey } from "@/lib/merchant-normalization";
+import {
+  findMerchantByKey,
+  linkUnresolvedTransactions,
+  listMerchants,
+  updateMerchant,
+} from "@/lib/merchants";
+
+// GET - the user's merchant directory with aliases and transaction counts
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const data = await listMerchants(user.id);
+    return NextResponse.json({ success: true, data, count: data.length });
+  } catch (error) {
+    console.error("Error fetching merchants:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch merchants" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - resolve merchants for stored transactions that are not linked to one yet
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const linked = await linkUnresolvedTransactions(user.id);
+    const data = await listMerchants(user.id);
+    return NextResponse.json({ success: true, data, count: data.length, linked });
+  } catch (error) {
+    console.error("Error resolving merchants:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to resolve merchants" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - rename a merchant or change its default category or icon
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    const merchantId = id ? parseInt(id) : NaN;
+    if (isNaN(merchantId)) {
+      return badRequest("Valid ID is required");
+    }
+
+    const existing = await db
+      .select()
+      .from(merchants)
+      .where(and(eq(merchants.id, merchantId), eq(merchants.userId, user.id)))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Merchant not found" },
+        { status: 404 }
+      );
+    }
+
+    const { name, defaultCategoryId, icon } = await request.json();
+    const updates: { name?: string; defaultCategoryId?: number | null; icon?: string | null } = {};
+
+    if (name !== undefined) {
+      if (typeof name !== "string" || !merchantKey(name)) {
+        return badRequest("name must be a non-empty string");
+      }
+      const clash = await findMerchantByKey(user.id, merchantKey(name));
+      if (clash && clash.id !== merchantId) {
+        return NextResponse.json(
+          { success: false, error: `A merchant named "${clash.name}" already exists; merge them instead` },
+          { status: 409 }
+        );
+      }
+      updates.name = name.trim();
+    }
+
+    if (defaultCategoryId !== undefined) {
+      if (defaultCategoryId !== null) {
+        const category = await db
+          .select()
+          .from(transactionCategories)
+          .where(eq(transactionCategories.id, Number(defaultCategoryId)))
+          .limit(1);
+        if (category.length === 0) {
+          return badRequest("Category not found");
+        }
+      }
+      updates.defaultCategoryId = defaultCategoryId === null ? null : Number(defaultCategoryId);
+    }
+
+    if (icon !== undefined) {
+      if (icon !== null && (typeof icon !== "string" || icon.trim().length > 500)) {
+        return badRequest("icon must be an emoji, an image URL or null");
+      }
+      updates.icon = icon ? icon.trim() : null;
+    }
+
+    await updateMerchant(user.id, existing[0], updates);
+    const [data] = await listMerchants(user.id, [merchantId]);
+    return NextResponse.json({ success: true, data });
+  } catch (error) {
+    console.error("Error updating merchant:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update merchant" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { merchantAliases, merchants } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { badRequest } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { merchantKey } from "@/lib/merchant-normalization";
+import { findMerchantByKey, listMerchants, splitMerchant } from "@/lib/merchants";
+
+// POST - split some aliases of a merchant ({ merchantId, aliases, name }) off into a new merchant
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: "Authentication required" },
+        { status: 401 }
+      );
+    }
+
+    const { merchantId, aliases, name } = await request.json();
+    if (typeof merchantId !== "number") {
+      return badRequest("merchantId is required");
+    }
+    if (!Array.isArray(aliases) || aliases.length === 0 || !aliases.every((alias) => typeof alias === "string")) {
+      return badRequest("aliases must be a non-empty array of strings");
+    }
+    if (typeof name !== "string" || !merchantKey(name)) {
+      return badRequest("name must be a non-empty string");
+    }
+
+    const source = await db
+      .select()
+      .from(merchants)
+      .where(and(eq(merchants.id, merchantId), eq(merchants.userId, user.id)))
+      .limit(1);
+
+    if (source.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Merchant not found" },
+        { status: 404 }
+      );
+    }
+
+    const owned = await db
+      .select()
+      .from(merchantAliases)
+      .where(and(eq(merchantAliases.userId, user.id), eq(merchantAliases.merchantId, merchantId)));
+    const ownedAliases = owned.map((row) => row.alias);
+
+    const unknown = aliases.filter((alias: string) => !ownedAliases.includes(alias));
+    if (unknown.length > 0) {
+      return badRequest(`Not aliases of ${source[0].name}: ${unknown.join(", ")}`);
+    }
+    if (new Set(aliases).size >= ownedAliases.length) {
+      return badRequest("At least one alias must stay with the original merchant; rename it instead");
+    }
+
+    const clash = await findMerchantByKey(user.id, merchantKey(name));
+    if (clash) {
+      return NextResponse.json(
+        { success: false, error: `A merchant named "${clash.name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    // The new merchant inherits the default category and icon; edit them with PUT /api/merchants
+    const { merchant, moved } = await splitMerchant(user.id, source[0], aliases, name.trim());
+
+    const data = await listMerchants(user.id, [merchantId, merchant.id]);
+    return NextResponse.json(
+      {
+        success: true,
+        data,
+        message: `${moved} transactions moved to ${merchant.name}`,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error splitting merchant:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to split merchant" },
+      { status: 500 }
+    );
+  }
+}
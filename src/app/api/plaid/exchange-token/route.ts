@@ -1,75 +1,52 @@
 import { NextRequest, NextResponse } from "next/server";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { BankAggregatorConfigError, linkBankItem, serializeLinkedAccount } from "@/lib/bank-aggregation";
+import { scheduleItemSync } from "@/lib/bank-sync";
+import { PlaidApiError } from "@/lib/plaid";
 
-// Exchange Plaid public token for access token
-// In production, this would use the actual Plaid API
-
+// POST - exchange the public token from the link flow ({ publicToken }) and connect the bank's accounts.
+// The access token is stored encrypted and never returned; the first sync runs in the background.
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { publicToken, userId } = body;
-
-    if (!publicToken || !userId) {
-      return NextResponse.json(
-        { success: false, error: "Public token and user ID are required" },
-        { status: 400 }
-      );
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
     }
 
-    // In production, you would:
-    // 1. Exchange public_token for access_token
-    // 2. Store access_token securely (encrypted in database)
-    // 3. Get account and institution information
-    // 4. Start fetching transactions
-    
-    // Example production code:
-    /*
-    const response = await plaidClient.itemPublicTokenExchange({
-      public_token: publicToken,
-    });
-    const accessToken = response.data.access_token;
-    const itemId = response.data.item_id;
-    
-    // Store in database (encrypted)
-    await db.accounts.create({
-      userId,
-      itemId,
-      accessToken: encrypt(accessToken),
-      createdAt: new Date(),
-    });
-    
-    // Fetch initial transaction data
-    await fetchTransactions(accessToken);
-    */
+    const body = await request.json().catch(() => ({}));
+    const { publicToken } = body;
 
-    // Mock response for development
-    const mockAccessToken = `access-sandbox-${Buffer.from(userId).toString("base64")}-${Date.now()}`;
-    const mockItemId = `item-${Date.now()}`;
+    if (typeof publicToken !== "string" || !publicToken.trim()) {
+      return badRequest("publicToken is required");
+    }
 
-    // Simulate account connection
-    const mockAccounts = [
-      {
-        id: `account_${Date.now()}`,
-        name: "HDFC Bank - Savings",
-        mask: "4532",
-        type: "depository",
-        subtype: "savings",
-        currentBalance: 12450,
-      },
-    ];
+    const accounts = await linkBankItem(user.id, publicToken.trim());
+    if (accounts.length > 0) {
+      scheduleItemSync(user.id, accounts[0].plaidItemId);
+    }
 
-    return NextResponse.json({
-      success: true,
-      message: "Bank account connected successfully",
-      data: {
-        itemId: mockItemId,
-        accounts: mockAccounts,
-      },
-    });
+    return NextResponse.json(
+      { success: true, data: accounts.map(serializeLinkedAccount) },
+      { status: 201 }
+    );
   } catch (error) {
     console.error("Error exchanging token:", error);
+    if (error instanceof BankAggregatorConfigError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 503 }
+      );
+    }
+    if (error instanceof PlaidApiError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: 502 }
+      );
+    }
     return NextResponse.json(
       { success: false, error: "Failed to exchange token" },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { connectedAccounts } from "@/db/schema";
+import { and, eq, isNotNull } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { serializeLinkedAccount } from "@/lib/bank-aggregation";
+import { syncUserItems } from "@/lib/bank-sync";
+
+// GET - sync status and last successful sync of each linked account
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const accounts = await db
+      .select()
+      .from(connectedAccounts)
+      .where(and(eq(connectedAccounts.userId, user.id), isNotNull(connectedAccounts.aggregator)));
+
+    return NextResponse.json({ success: true, data: accounts.map(serializeLinkedAccount) });
+  } catch (error) {
+    console.error("Error fetching sync status:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch sync status" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - sync the user's linked banks now ({ accountId? } for only the bank behind one account).
+// Each bank sends only what changed since its last sync.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { accountId } = body;
+
+    if (accountId !== undefined && accountId !== null) {
+      const account = typeof accountId === "number"
+        ? await db
+            .select()
+            .from(connectedAccounts)
+            .where(
+              and(
+                eq(connectedAccounts.id, accountId),
+                eq(connectedAccounts.userId, user.id),
+                isNotNull(connectedAccounts.aggregator)
+              )
+            )
+            .limit(1)
+        : [];
+      if (account.length === 0) {
+        return badRequest("Linked account not found");
+      }
+    }
+
+    const data = await syncUserItems(user.id, { accountId });
+
+    return NextResponse.json({
+      success: true,
+      data,
+      count: data.reduce((sum, result) => sum + result.added, 0),
+    });
+  } catch (error) {
+    console.error("Error syncing banks:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to sync banks" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,101 +1,78 @@
 import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { connectedAccounts } from "@/db/schema";
+import { and, eq, isNotNull } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { importAggregatorTransactions } from "@/lib/bank-aggregation";
+import { isValidDate } from "@/lib/cashflow";
+import { PlaidApiError } from "@/lib/plaid";
 
-// Fetch transactions from Plaid
-// In production, this would use the actual Plaid API
+// Range pulled when none is given
+const DEFAULT_DAYS = 30;
 
+// POST - import transactions from the user's linked banks ({ accountId?, startDate?, endDate? }, the last
+// 30 days by default). Already stored transactions are skipped; pending ones wait until they post.
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { accessToken, startDate, endDate } = body;
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
 
-    if (!accessToken) {
-      return NextResponse.json(
-        { success: false, error: "Access token is required" },
-        { status: 400 }
-      );
+    const body = await request.json().catch(() => ({}));
+    const { accountId } = body;
+    const endDate = body.endDate ?? new Date().toISOString().split("T")[0];
+    const startDate =
+      body.startDate ?? new Date(Date.now() - DEFAULT_DAYS * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+    if (!isValidDate(startDate)) {
+      return badRequest("startDate must be YYYY-MM-DD");
+    }
+    if (!isValidDate(endDate)) {
+      return badRequest("endDate must be YYYY-MM-DD");
+    }
+    if (startDate > endDate) {
+      return badRequest("startDate must not be after endDate");
     }
 
-    // In production, you would:
-    // 1. Fetch transactions from Plaid using access_token
-    // 2. Categorize transactions using our categorization engine
-    // 3. Store in database
-    // 4. Return formatted transactions
-    
-    // Example production code:
-    /*
-    const response = await plaidClient.transactionsGet({
-      access_token: accessToken,
-      start_date: startDate || getDateDaysAgo(30),
-      end_date: endDate || getDateToday(),
-    });
-    
-    const categorized = categorizeTransactions(response.data.transactions);
-    await db.transactions.insertMany(categorized);
-    
-    return NextResponse.json({
-      success: true,
-      transactions: categorized,
-      accounts: response.data.accounts,
-    });
-    */
+    if (accountId !== undefined && accountId !== null) {
+      const account = typeof accountId === "number"
+        ? await db
+            .select()
+            .from(connectedAccounts)
+            .where(
+              and(
+                eq(connectedAccounts.id, accountId),
+                eq(connectedAccounts.userId, user.id),
+                isNotNull(connectedAccounts.aggregator)
+              )
+            )
+            .limit(1)
+        : [];
+      if (account.length === 0) {
+        return badRequest("Linked account not found");
+      }
+    }
 
-    // Mock transactions for development
-    const mockTransactions = [
-      {
-        id: "txn_1",
-        description: "Freelance Project Payment - Client A",
-        amount: 15000,
-        category: "Income",
-        date: "2025-01-15",
-        type: "income",
-        merchantName: "Client A",
-        pending: false,
-      },
-      {
-        id: "txn_2",
-        description: "Swiggy Order",
-        amount: -450,
-        category: "Food & Dining",
-        date: "2025-01-14",
-        type: "expense",
-        merchantName: "Swiggy",
-        pending: false,
-      },
-      {
-        id: "txn_3",
-        description: "Uber Ride",
-        amount: -280,
-        category: "Transport",
-        date: "2025-01-14",
-        type: "expense",
-        merchantName: "Uber",
-        pending: false,
-      },
-      {
-        id: "txn_4",
-        description: "Netflix Subscription",
-        amount: -649,
-        category: "Entertainment",
-        date: "2025-01-13",
-        type: "expense",
-        merchantName: "Netflix",
-        pending: false,
-      },
-    ];
+    const data = await importAggregatorTransactions(user.id, { accountId, startDate, endDate });
 
     return NextResponse.json({
       success: true,
-      data: {
-        transactions: mockTransactions,
-        totalCount: mockTransactions.length,
-        lastFetched: new Date().toISOString(),
-      },
+      data,
+      count: data.reduce((sum, result) => sum + result.imported, 0),
     });
   } catch (error) {
     console.error("Error fetching transactions:", error);
+    if (error instanceof PlaidApiError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status: 502 }
+      );
+    }
     return NextResponse.json(
       { success: false, error: "Failed to fetch transactions" },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { handleAggregatorWebhook } from "@/lib/bank-sync";
+
+// POST - webhooks from the bank aggregator. No user session: the signature is checked against the raw
+// body instead, and unverified requests are rejected before anything in them is acted on.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.text();
+    const result = await handleAggregatorWebhook(body, request.headers);
+
+    if ("error" in result) {
+      return NextResponse.json({ success: false, error: result.error }, { status: result.status });
+    }
+
+    // Unknown items and webhook codes are acknowledged too, so the aggregator does not retry them
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error("Error handling bank webhook:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to handle webhook" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,156 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { recategorizationJobs } from "@/db/schema";
+import { and, desc, eq } from "drizzle-orm";
+import { REQUEST_MAX_WAIT_MS } from "@/lib/ai-categorization";
+import { unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import {
+  applyRecategorizationJob,
+  buildRecategorizationPreview,
+  serializeJob,
+} from "@/lib/recategorization";
+
+// GET - the pending preview awaiting approval (or a specific job by id)
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    const conditions = [eq(recategorizationJobs.userId, user.id)];
+    if (id) {
+      const jobId = parseInt(id);
+      if (isNaN(jobId)) {
+        return NextResponse.json(
+          { success: false, error: "Valid ID is required" },
+          { status: 400 }
+        );
+      }
+      conditions.push(eq(recategorizationJobs.id, jobId));
+    } else {
+      conditions.push(eq(recategorizationJobs.status, "pending"));
+    }
+
+    const jobs = await db
+      .select()
+      .from(recategorizationJobs)
+      .where(and(...conditions))
+      .orderBy(desc(recategorizationJobs.createdAt))
+      .limit(1);
+
+    if (id && jobs.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: jobs.length > 0 ? await serializeJob(jobs[0]) : null,
+    });
+  } catch (error) {
+    console.error("Error fetching re-categorization preview:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch re-categorization preview" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - build a fresh preview now
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const preview = await buildRecategorizationPreview(user.id, "manual", { maxAIWaitMs: REQUEST_MAX_WAIT_MS });
+    return NextResponse.json(
+      { success: true, data: preview },
+      { status: preview.id ? 201 : 200 }
+    );
+  } catch (error) {
+    console.error("Error building re-categorization preview:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to build re-categorization preview" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - approve ({ action: "apply" }) or reject ({ action: "discard" }) a pending preview
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    const jobId = id ? parseInt(id) : NaN;
+    if (isNaN(jobId)) {
+      return NextResponse.json(
+        { success: false, error: "Valid ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const { action } = await request.json();
+    if (action !== "apply" && action !== "discard") {
+      return NextResponse.json(
+        { success: false, error: "action must be one of: apply, discard" },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await db
+      .select()
+      .from(recategorizationJobs)
+      .where(and(eq(recategorizationJobs.id, jobId), eq(recategorizationJobs.userId, user.id)))
+      .limit(1);
+
+    if (jobs.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Job not found" },
+        { status: 404 }
+      );
+    }
+
+    if (jobs[0].status !== "pending") {
+      return NextResponse.json(
+        { success: false, error: `Job is already ${jobs[0].status}` },
+        { status: 409 }
+      );
+    }
+
+    if (action === "apply") {
+      const applied = await applyRecategorizationJob(user.id, jobs[0]);
+      return NextResponse.json({
+        success: true,
+        data: { id: jobId, status: "applied", appliedCount: applied },
+        message: `${applied} transactions re-categorized`,
+      });
+    }
+
+    await db
+      .update(recategorizationJobs)
+      .set({ status: "discarded", updatedAt: new Date().toISOString() })
+      .where(eq(recategorizationJobs.id, jobId));
+
+    return NextResponse.json({
+      success: true,
+      data: { id: jobId, status: "discarded" },
+    });
+  } catch (error) {
+    console.error("Error updating re-categorization job:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update re-categorization job" },
+      { status: 500 }
+    );
+  }
+}
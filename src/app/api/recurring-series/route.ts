@@ -0,0 +1,183 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { recurringSeries } from "@/db/schema";
+import { and, eq } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { toPaise } from "@/lib/transactions";
+import { isValidDate, RecurringCadence } from "@/lib/cashflow";
+import {
+  RECURRING_CADENCES,
+  SERIES_STATUSES,
+  SeriesStatus,
+  serializeSeries,
+  setTransactionsRecurring,
+  syncRecurringSeries,
+} from "@/lib/recurring";
+
+function isPositiveAmount(value: unknown): value is number {
+  return typeof value === "number" && isFinite(value) && value > 0;
+}
+
+// GET - list the user's recurring series, optionally filtered by status
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const status = request.nextUrl.searchParams.get("status");
+    if (status && !SERIES_STATUSES.includes(status as SeriesStatus)) {
+      return badRequest(`status must be one of ${SERIES_STATUSES.join(", ")}`);
+    }
+
+    const conditions = [eq(recurringSeries.userId, user.id)];
+    if (status) {
+      conditions.push(eq(recurringSeries.status, status));
+    }
+
+    const rows = await db
+      .select()
+      .from(recurringSeries)
+      .where(and(...conditions))
+      .orderBy(recurringSeries.nextDueDate);
+
+    const data = rows.map(serializeSeries);
+    return NextResponse.json({ success: true, data, count: data.length });
+  } catch (error) {
+    console.error("Error fetching recurring series:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch recurring series" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - detect series from stored history and merge them into the registry
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const data = await syncRecurringSeries(user.id);
+    return NextResponse.json({ success: true, data, count: data.length });
+  } catch (error) {
+    console.error("Error detecting recurring series:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to detect recurring series" },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT - confirm, pause, dismiss or edit a series
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    const seriesId = id ? parseInt(id) : NaN;
+    if (isNaN(seriesId)) {
+      return badRequest("Valid ID is required");
+    }
+
+    const existing = await db
+      .select()
+      .from(recurringSeries)
+      .where(and(eq(recurringSeries.id, seriesId), eq(recurringSeries.userId, user.id)))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Recurring series not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { status, merchant, category, cadence, expectedAmount, amountMin, amountMax, nextDueDate } = body;
+
+    const updates: Partial<typeof recurringSeries.$inferInsert> = {
+      updatedAt: new Date().toISOString(),
+    };
+
+    if (status !== undefined) {
+      if (!SERIES_STATUSES.includes(status)) {
+        return badRequest(`status must be one of ${SERIES_STATUSES.join(", ")}`);
+      }
+      updates.status = status;
+    }
+
+    if (merchant !== undefined) {
+      if (typeof merchant !== "string" || !merchant.trim()) {
+        return badRequest("merchant must be a non-empty string");
+      }
+      updates.merchant = merchant.trim();
+    }
+
+    if (category !== undefined) {
+      if (category !== null && typeof category !== "string") {
+        return badRequest("category must be a string or null");
+      }
+      updates.category = category ? category.trim() : null;
+    }
+
+    if (cadence !== undefined) {
+      if (!RECURRING_CADENCES.includes(cadence as RecurringCadence)) {
+        return badRequest(`cadence must be one of ${RECURRING_CADENCES.join(", ")}`);
+      }
+      updates.cadence = cadence;
+    }
+
+    for (const [field, value] of Object.entries({ expectedAmount, amountMin, amountMax })) {
+      if (value === undefined) continue;
+      if (!isPositiveAmount(value)) {
+        return badRequest(`${field} must be a positive number`);
+      }
+      updates[field as "expectedAmount" | "amountMin" | "amountMax"] = toPaise(value);
+    }
+
+    const min = updates.amountMin ?? existing[0].amountMin;
+    const max = updates.amountMax ?? existing[0].amountMax;
+    if (min > max) {
+      return badRequest("amountMin cannot exceed amountMax");
+    }
+
+    if (nextDueDate !== undefined) {
+      if (!isValidDate(nextDueDate)) {
+        return badRequest("nextDueDate must be a valid date (YYYY-MM-DD)");
+      }
+      updates.nextDueDate = nextDueDate;
+    }
+
+    const updated = await db
+      .update(recurringSeries)
+      .set(updates)
+      .where(and(eq(recurringSeries.id, seriesId), eq(recurringSeries.userId, user.id)))
+      .returning();
+
+    // Dismissed series no longer mark their transactions as recurring
+    if (status !== undefined && status !== existing[0].status) {
+      const linkedIds = (existing[0].transactionIds as number[]) || [];
+      if (status === "dismissed") {
+        await setTransactionsRecurring(user.id, linkedIds, false);
+      } else if (existing[0].status === "dismissed") {
+        await setTransactionsRecurring(user.id, linkedIds, true);
+      }
+    }
+
+    return NextResponse.json({ success: true, data: serializeSeries(updated[0]) });
+  } catch (error) {
+    console.error("Error updating recurring series:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to update recurring series" },
+      { status: 500 }
+    );
+  }
+}
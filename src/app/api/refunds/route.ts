@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { transactions } from "@/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { linkRefund, loadRefundLinks, matchRefunds, unlinkRefund } from "@/lib/refunds";
+import { toPaise } from "@/lib/transactions";
+
+// POST - link refunds in the user's history, or one by hand ({ refundId, originalId })
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { refundId, originalId } = body;
+
+    if (refundId === undefined && originalId === undefined) {
+      const matches = await matchRefunds(user.id);
+      return NextResponse.json({ success: true, data: matches, count: matches.length });
+    }
+
+    if (typeof refundId !== "number" || typeof originalId !== "number") {
+      return badRequest("refundId and originalId must be transaction ids");
+    }
+
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.userId, user.id), inArray(transactions.id, [refundId, originalId])));
+
+    const refund = rows.find((row) => row.id === refundId);
+    const original = rows.find((row) => row.id === originalId);
+    if (!refund || !original) {
+      return NextResponse.json(
+        { success: false, error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    if (refund.transactionType !== "credit" || original.transactionType !== "debit") {
+      return badRequest("A refund is a credit linked to a debit");
+    }
+    if (refund.transactionDate < original.transactionDate) {
+      return badRequest("A refund cannot come before the purchase");
+    }
+
+    // Refunds never add up to more than the purchase
+    const { refunds } = await loadRefundLinks(user.id, original);
+    const alreadyRefunded = refunds
+      .filter((existing) => existing.id !== refund.id)
+      .reduce((sum, existing) => sum + existing.amount, 0);
+    if (toPaise(alreadyRefunded) + refund.amount > original.amount) {
+      return badRequest("Refunds would exceed the purchase amount");
+    }
+
+    await linkRefund(user.id, refund, original);
+    const [updated] = await db.select().from(transactions).where(eq(transactions.id, refundId)).limit(1);
+    return NextResponse.json({ success: true, data: await loadRefundLinks(user.id, updated) });
+  } catch (error) {
+    console.error("Error linking refunds:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to link refunds" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - unlink a refund from its purchase (?transactionId= of the refund); it will not be matched again
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const id = request.nextUrl.searchParams.get("transactionId");
+    const transactionId = id ? parseInt(id) : NaN;
+    if (isNaN(transactionId)) {
+      return badRequest("Valid transactionId is required");
+    }
+
+    const existing = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.id, transactionId), eq(transactions.userId, user.id)))
+      .limit(1);
+
+    if (existing.length === 0 || existing[0].refundOfId === null) {
+      return NextResponse.json(
+        { success: false, error: "Refund link not found" },
+        { status: 404 }
+      );
+    }
+
+    await unlinkRefund(user.id, existing[0]);
+    return NextResponse.json({ success: true, message: "Refund unlinked" });
+  } catch (error) {
+    console.error("Error unlinking refund:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to unlink refund" },
+      { status: 500 }
+    );
+  }
+}
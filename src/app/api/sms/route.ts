@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { isValidDate } from "@/lib/cashflow";
+import { ingestSmsMessages, SmsMessage } from "@/lib/sms-ingestion";
+import { splitSmsMessages } from "@/lib/sms-parsing";
+
+const MAX_MESSAGES = 500;
+
+// POST - ingest bank SMS alerts: pasted text ({ text }, one message per paragraph) or forwarded
+// messages ({ messages: [{ text, sender?, receivedAt? }] }). preview: true parses without storing.
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { text, messages, receivedAt, preview } = body;
+
+    if (receivedAt !== undefined && !isValidDate(receivedAt)) {
+      return badRequest("receivedAt must be YYYY-MM-DD");
+    }
+
+    // Forwarded messages arrive as they are received; today stands in for a missing date
+    const defaultDate = receivedAt ?? new Date().toISOString().split("T")[0];
+
+    let batch: SmsMessage[];
+    if (typeof text === "string") {
+      batch = splitSmsMessages(text).map((message) => ({ text: message, receivedAt: defaultDate }));
+    } else if (Array.isArray(messages)) {
+      const valid = messages.every(
+        (message: unknown) =>
+          typeof message === "string" ||
+          (typeof message === "object" &&
+            message !== null &&
+            typeof (message as SmsMessage).text === "string" &&
+            ((message as SmsMessage).receivedAt === undefined || isValidDate((message as SmsMessage).receivedAt)))
+      );
+      if (!valid) {
+        return badRequest("messages must be strings or { text, sender?, receivedAt? } objects");
+      }
+      batch = messages.map((message: string | SmsMessage) =>
+        typeof message === "string"
+          ? { text: message, receivedAt: defaultDate }
+          : { ...message, receivedAt: message.receivedAt ?? defaultDate }
+      );
+    } else {
+      return badRequest("Send the messages as text or as a messages array");
+    }
+
+    if (batch.length === 0) {
+      return badRequest("No messages found");
+    }
+    if (batch.length > MAX_MESSAGES) {
+      return badRequest(`At most ${MAX_MESSAGES} messages per request`);
+    }
+
+    const data = await ingestSmsMessages(user.id, batch, { preview: preview === true });
+    const count = data.filter((result) => result.transaction).length;
+    return NextResponse.json(
+      { success: true, data, count },
+      { status: preview === true ? 200 : 201 }
+    );
+  } catch (error) {
+    console.error("Error ingesting SMS:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to ingest messages" },
+      { status: 500 }
+    );
+  }
+}
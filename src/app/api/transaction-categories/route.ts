@@ -1,7 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/db';
-import { transactionCategories, transactions } from '@/db/schema';
-import { eq, like, and, or } from 'drizzle-orm';
+import { transactionCategories, transactions, transactionSplits } from '@/db/schema';
+import { eq, like, and, or, isNull } from 'drizzle-orm';
+import { clearCategorizationCache } from '@/lib/ai-categorization';
+import { getCurrentAppUser } from '@/lib/auth';
+import { scheduleRecategorization } from '@/lib/recategorization';
+
+// Categories nest one level deep: a parent must exist and be top-level itself
+async function findParentCategory(parentId: unknown) {
+  const id = parseInt(String(parentId));
+  if (isNaN(id)) {
+    return {
+      error: NextResponse.json({
+        error: 'Valid parentId is required',
+        code: 'INVALID_PARENT_ID'
+      }, { status: 400 })
+    };
+  }
+
+  const parent = await db.select()
+    .from(transactionCategories)
+    .where(eq(transactionCategories.id, id))
+    .limit(1);
+
+  if (parent.length === 0) {
+    return {
+      error: NextResponse.json({
+        error: 'Parent category not found',
+        code: 'PARENT_NOT_FOUND'
+      }, { status: 400 })
+    };
+  }
+
+  if (parent[0].parentId !== null) {
+    return {
+      error: NextResponse.json({
+        error: 'Subcategories cannot have subcategories of their own',
+        code: 'INVALID_PARENT'
+      }, { status: 400 })
+    };
+  }
+
+  return { category: parent[0] };
+}
 
 export async function GET(request: NextRequest) {
   try {
@@ -37,6 +78,9 @@ export async function GET(request: NextRequest) {
     const offset = parseInt(searchParams.get('offset') || '0');
     const search = searchParams.get('search');
     const isIncomeParam = searchParams.get('isIncome');
+    const parentIdParam = searchParams.get('parentId');
+    const topLevel = searchParams.get('topLevel') === 'true';
+    const tree = searchParams.get('tree') === 'true';
 
     let query = db.select().from(transactionCategories);
 
@@ -53,6 +97,31 @@ export async function GET(request: NextRequest) {
       conditions.push(like(transactionCategories.name, `%${search}%`));
     }
 
+    // Filter by parent: subcategories of one category, or top-level categories only
+    if (parentIdParam !== null) {
+      if (isNaN(parseInt(parentIdParam))) {
+        return NextResponse.json({
+          error: 'Valid parentId is required',
+          code: 'INVALID_PARENT_ID'
+        }, { status: 400 });
+      }
+      conditions.push(eq(transactionCategories.parentId, parseInt(parentIdParam)));
+    } else if (topLevel) {
+      conditions.push(isNull(transactionCategories.parentId));
+    }
+
+    // Nested view: top-level categories, each with its subcategories under `children`
+    if (tree) {
+      const all = await db.select().from(transactionCategories);
+      const nested = all
+        .filter((category) => category.parentId === null)
+        .map((category) => ({
+          ...category,
+          children: all.filter((child) => child.parentId === category.id),
+        }));
+      return NextResponse.json(nested, { status: 200 });
+    }
+
     if (conditions.length > 0) {
       query = query.where(and(...conditions));
     }
@@ -72,7 +141,8 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, icon, color, isIncome = false } = body;
+    const { name, icon, color, parentId } = body;
+    let { isIncome } = body;
 
     // Validate required fields
     if (!name) {
@@ -127,16 +197,31 @@ export async function POST(request: NextRequest) {
       }, { status: 400 });
     }
 
+    // Subcategories hang off a top-level category and inherit its income flag unless given
+    if (parentId !== undefined && parentId !== null) {
+      const parent = await findParentCategory(parentId);
+      if ('error' in parent) {
+        return parent.error;
+      }
+      if (isIncome === undefined) {
+        isIncome = parent.category.isIncome;
+      }
+    }
+
     // Create new category
     const newCategory = await db.insert(transactionCategories)
       .values({
         name: trimmedName,
         icon: icon.trim(),
         color: color.toUpperCase(),
-        isIncome: Boolean(isIncome)
+        isIncome: Boolean(isIncome),
+        parentId: parentId ?? null
       })
       .returning();
 
+    // Cached AI answers were chosen without the new category
+    await clearCategorizationCache();
+
     return NextResponse.json(newCategory[0], { status: 201 });
 
   } catch (error) {
@@ -173,10 +258,39 @@ export async function PUT(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { name, icon, color, isIncome } = body;
+    const { name, icon, color, isIncome, parentId } = body;
 
     const updates: any = {};
 
+    // Move under another top-level category, or back to the top level with null
+    if (parentId !== undefined) {
+      if (parentId !== null) {
+        if (parseInt(parentId) === parseInt(id)) {
+          return NextResponse.json({
+            error: 'A category cannot be its own parent',
+            code: 'INVALID_PARENT'
+          }, { status: 400 });
+        }
+
+        const parent = await findParentCategory(parentId);
+        if ('error' in parent) {
+          return parent.error;
+        }
+
+        const children = await db.select()
+          .from(transactionCategories)
+          .where(eq(transactionCategories.parentId, parseInt(id)))
+          .limit(1);
+        if (children.length > 0) {
+          return NextResponse.json({
+            error: 'A category with subcategories cannot become a subcategory',
+            code: 'CATEGORY_HAS_SUBCATEGORIES'
+          }, { status: 400 });
+        }
+      }
+      updates.parentId = parentId === null ? null : parseInt(parentId);
+    }
+
     // Validate and update name
     if (name !== undefined) {
       const trimmedName = name.trim();
@@ -247,6 +361,14 @@ export async function PUT(request: NextRequest) {
       .where(eq(transactionCategories.id, parseInt(id)))
       .returning();
 
+    await clearCategorizationCache();
+
+    // Renamed categories change what the categorizer can match; re-check the caller's history
+    const user = await getCurrentAppUser(request);
+    if (user) {
+      scheduleRecategorization(user.id, 'category_changed');
+    }
+
     return NextResponse.json(updatedCategory[0], { status: 200 });
 
   } catch (error) {
@@ -282,24 +404,49 @@ export async function DELETE(request: NextRequest) {
       }, { status: 404 });
     }
 
+    // Subcategories have to be moved or deleted first
+    const subcategories = await db.select()
+      .from(transactionCategories)
+      .where(eq(transactionCategories.parentId, parseInt(id)))
+      .limit(1);
+
+    if (subcategories.length > 0) {
+      return NextResponse.json({
+        error: 'Cannot delete category that has subcategories',
+        code: 'CATEGORY_HAS_SUBCATEGORIES'
+      }, { status: 400 });
+    }
+
     // Check if category is used in any transactions
     const associatedTransactions = await db.select()
       .from(transactions)
       .where(eq(transactions.categoryId, parseInt(id)))
       .limit(1);
+    const associatedSplits = await db.select()
+      .from(transactionSplits)
+      .where(eq(transactionSplits.categoryId, parseInt(id)))
+      .limit(1);
 
-    if (associatedTransactions.length > 0) {
+    if (associatedTransactions.length > 0 || associatedSplits.length > 0) {
       return NextResponse.json({
         error: 'Cannot delete category that has associated transactions',
         code: 'CATEGORY_IN_USE'
       }, { status: 400 });
     }
 
+    // Drop cached AI answers first; they may point at this category
+    await clearCategorizationCache();
+
     // Delete category
     const deletedCategory = await db.delete(transactionCategories)
       .where(eq(transactionCategories.id, parseInt(id)))
       .returning();
 
+    const user = await getCurrentAppUser(request);
+    if (user) {
+      scheduleRecategorization(user.id, 'category_changed');
+    }
+
     return NextResponse.json({
       message: 'Category deleted successfully',
       category: deletedCategory[0]
@@ -1,113 +1,231 @@
 import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { connectedAccounts, transactions, transactionCategories, transactionSplits } from "@/db/schema";
+import { and, desc, eq, gte, lt, lte, or, sql } from "drizzle-orm";
+import { unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { isValidDate } from "@/lib/cashflow";
+import { learnRuleFromCorrection, loadUserRules, serializeRule } from "@/lib/categorization-rules";
+import { resolveMerchant } from "@/lib/merchants";
+import { scheduleRecategorization } from "@/lib/recategorization";
+import { loadRefundLinks, matchRefunds } from "@/lib/refunds";
+import { matchTransfers } from "@/lib/transfers";
+import {
+  decodeCursor,
+  encodeCursor,
+  loadTransactionSplits,
+  replaceTransactionSplits,
+  resolveCategory,
+  resolveSplits,
+  serializeTransaction,
+  signedAmount,
+  toPaise,
+} from "@/lib/transactions";
 
-// Mock data - in production, this would come from Plaid API and database
-const mockTransactions = [
-  {
-    id: "txn_1",
-    description: "Freelance Project Payment - Client A",
-    amount: 15000,
-    category: "Income",
-    date: "2025-01-15",
-    type: "income",
-    merchantName: "Client A",
-  },
-  {
-    id: "txn_2",
-    description: "Swiggy Order",
-    amount: -450,
-    category: "Food & Dining",
-    date: "2025-01-14",
-    type: "expense",
-    merchantName: "Swiggy",
-  },
-  {
-    id: "txn_3",
-    description: "Uber Ride",
-    amount: -280,
-    category: "Transport",
-    date: "2025-01-14",
-    type: "expense",
-    merchantName: "Uber",
-  },
-  {
-    id: "txn_4",
-    description: "Netflix Subscription",
-    amount: -649,
-    category: "Entertainment",
-    date: "2025-01-13",
-    type: "expense",
-    merchantName: "Netflix",
-  },
-  {
-    id: "txn_5",
-    description: "Grocery Shopping - DMart",
-    amount: -1200,
-    category: "Groceries",
-    date: "2025-01-13",
-    type: "expense",
-    merchantName: "DMart",
-  },
-  {
-    id: "txn_6",
-    description: "Freelance Project Payment - Client B",
-    amount: 8500,
-    category: "Income",
-    date: "2025-01-10",
-    type: "income",
-    merchantName: "Client B",
-  },
-  {
-    id: "txn_7",
-    description: "Amazon Shopping",
-    amount: -2300,
-    category: "Shopping",
-    date: "2025-01-09",
-    type: "expense",
-    merchantName: "Amazon",
-  },
-  {
-    id: "txn_8",
-    description: "Coffee - Starbucks",
-    amount: -350,
-    category: "Food & Dining",
-    date: "2025-01-08",
-    type: "expense",
-    merchantName: "Starbucks",
-  },
-];
+// Merchant names containing the text as typed; % and _ would otherwise be LIKE wildcards
+function merchantNameContains(text: string) {
+  const escaped = text.replace(/[\\%_]/g, (char) => `\\${char}`);
+  return sql`${transactions.merchantName} LIKE ${`%${escaped}%`} ESCAPE '\\'`;
+}
+
+// Connected accounts must belong to the user; null means "not booked on an account"
+async function isOwnAccount(userId: number, accountId: unknown): Promise<boolean> {
+  if (accountId === null) return true;
+  if (typeof accountId !== "number") return false;
+  const account = await db
+    .select()
+    .from(connectedAccounts)
+    .where(and(eq(connectedAccounts.id, accountId), eq(connectedAccounts.userId, userId)))
+    .limit(1);
+  return account.length > 0;
+}
 
 export async function GET(request: NextRequest) {
   try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
     const searchParams = request.nextUrl.searchParams;
+    const id = searchParams.get("id");
+
+    // Single transaction by ID
+    if (id) {
+      const transactionId = parseInt(id);
+      if (isNaN(transactionId)) {
+        return NextResponse.json(
+          { success: false, error: "Valid ID is required" },
+          { status: 400 }
+        );
+      }
+
+      const result = await db
+        .select()
+        .from(transactions)
+        .leftJoin(transactionCategories, eq(transactions.categoryId, transactionCategories.id))
+        .where(and(eq(transactions.id, transactionId), eq(transactions.userId, user.id)))
+        .limit(1);
+
+      if (result.length === 0) {
+        return NextResponse.json(
+          { success: false, error: "Transaction not found" },
+          { status: 404 }
+        );
+      }
+
+      // The detail view also shows the refund link in either direction
+      const splits = await loadTransactionSplits(user.id, [transactionId]);
+      const refundLinks = await loadRefundLinks(user.id, result[0].transactions);
+      return NextResponse.json({
+        success: true,
+        data: {
+          ...serializeTransaction(
+            result[0].transactions,
+            result[0].transaction_categories,
+            splits.get(transactionId)
+          ),
+          ...refundLinks,
+        },
+      });
+    }
+
     const startDate = searchParams.get("startDate");
     const endDate = searchParams.get("endDate");
     const category = searchParams.get("category");
+    const categoryId = searchParams.get("categoryId");
+    const type = searchParams.get("type");
+    const merchant = searchParams.get("merchant");
+    const merchantId = searchParams.get("merchantId");
+    const minAmount = searchParams.get("minAmount");
+    const maxAmount = searchParams.get("maxAmount");
+    const cursor = searchParams.get("cursor");
+    const limit = Math.min(parseInt(searchParams.get("limit") || "50") || 50, 200);
 
-    let filteredTransactions = [...mockTransactions];
+    const conditions = [eq(transactions.userId, user.id)];
 
     // Filter by date range if provided
     if (startDate) {
-      filteredTransactions = filteredTransactions.filter(
-        (t) => new Date(t.date) >= new Date(startDate)
-      );
+      if (!isValidDate(startDate)) {
+        return NextResponse.json(
+          { success: false, error: "startDate must be YYYY-MM-DD" },
+          { status: 400 }
+        );
+      }
+      conditions.push(gte(transactions.transactionDate, startDate));
     }
     if (endDate) {
-      filteredTransactions = filteredTransactions.filter(
-        (t) => new Date(t.date) <= new Date(endDate)
-      );
+      if (!isValidDate(endDate)) {
+        return NextResponse.json(
+          { success: false, error: "endDate must be YYYY-MM-DD" },
+          { status: 400 }
+        );
+      }
+      conditions.push(lte(transactions.transactionDate, endDate));
+    }
+
+    // Filter by category id or name if provided
+    if (categoryId) {
+      const categoryIdNum = parseInt(categoryId);
+      if (isNaN(categoryIdNum)) {
+        return NextResponse.json(
+          { success: false, error: "Valid categoryId is required" },
+          { status: 400 }
+        );
+      }
+      conditions.push(eq(transactions.categoryId, categoryIdNum));
+    } else if (category && category !== "all") {
+      conditions.push(eq(transactionCategories.name, category));
+    }
+
+    // Filter by type (income/expense, or the stored credit/debit)
+    if (type && type !== "all") {
+      const storedType = type === "income" || type === "credit" ? "credit"
+        : type === "expense" || type === "debit" ? "debit"
+        : null;
+      if (!storedType) {
+        return NextResponse.json(
+          { success: false, error: "type must be one of: income, expense" },
+          { status: 400 }
+        );
+      }
+      conditions.push(eq(transactions.transactionType, storedType));
+    }
+
+    if (merchant) {
+      conditions.push(merchantNameContains(merchant));
+    }
+
+    if (merchantId) {
+      const id = parseInt(merchantId);
+      if (isNaN(id)) {
+        return NextResponse.json(
+          { success: false, error: "merchantId must be a number" },
+          { status: 400 }
+        );
+      }
+      conditions.push(eq(transactions.merchantId, id));
     }
 
-    // Filter by category if provided
-    if (category && category !== "all") {
-      filteredTransactions = filteredTransactions.filter(
-        (t) => t.category === category
+    // Amount range is in rupees and compares absolute values
+    if (minAmount) {
+      const min = parseFloat(minAmount);
+      if (isNaN(min)) {
+        return NextResponse.json(
+          { success: false, error: "minAmount must be a number" },
+          { status: 400 }
+        );
+      }
+      conditions.push(gte(transactions.amount, toPaise(Math.abs(min))));
+    }
+    if (maxAmount) {
+      const max = parseFloat(maxAmount);
+      if (isNaN(max)) {
+        return NextResponse.json(
+          { success: false, error: "maxAmount must be a number" },
+          { status: 400 }
+        );
+      }
+      conditions.push(lte(transactions.amount, toPaise(Math.abs(max))));
+    }
+
+    // Keyset pagination over (transactionDate desc, id desc)
+    if (cursor) {
+      const decoded = decodeCursor(cursor);
+      if (!decoded) {
+        return NextResponse.json(
+          { success: false, error: "Invalid cursor" },
+          { status: 400 }
+        );
+      }
+      conditions.push(
+        or(
+          lt(transactions.transactionDate, decoded.date),
+          and(eq(transactions.transactionDate, decoded.date), lt(transactions.id, decoded.id))
+        )!
       );
     }
 
+    const rows = await db
+      .select()
+      .from(transactions)
+      .leftJoin(transactionCategories, eq(transactions.categoryId, transactionCategories.id))
+      .where(and(...conditions))
+      .orderBy(desc(transactions.transactionDate), desc(transactions.id))
+      .limit(limit + 1);
+
+    const page = rows.slice(0, limit);
+    const hasMore = rows.length > limit;
+    const splits = await loadTransactionSplits(user.id, page.map((row) => row.transactions.id));
+    const data = page.map((row) =>
+      serializeTransaction(row.transactions, row.transaction_categories, splits.get(row.transactions.id))
+    );
+
     return NextResponse.json({
       success: true,
-      data: filteredTransactions,
-      count: filteredTransactions.length,
+      data,
+      count: data.length,
+      nextCursor: hasMore ? encodeCursor(page[page.length - 1].transactions) : null,
     });
   } catch (error) {
     console.error("Error fetching transactions:", error);
@@ -120,41 +238,440 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
   try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
     const body = await request.json();
-    const { description, amount, category, date } = body;
+    const { description, amount, category, categoryId, date, merchantName, type, splits, accountId } = body;
 
     // Validate required fields
-    if (!description || !amount || !date) {
+    if (!description || amount === undefined || amount === null || !date) {
       return NextResponse.json(
         { success: false, error: "Missing required fields" },
         { status: 400 }
       );
     }
 
-    // Create new transaction
-    const newTransaction = {
-      id: `txn_${Date.now()}`,
+    if (typeof description !== "string" || !description.trim()) {
+      return NextResponse.json(
+        { success: false, error: "description must be a non-empty string" },
+        { status: 400 }
+      );
+    }
+
+    if (merchantName !== undefined && merchantName !== null && typeof merchantName !== "string") {
+      return NextResponse.json(
+        { success: false, error: "merchantName must be a string or null" },
+        { status: 400 }
+      );
+    }
+
+    const parsedAmount = parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount === 0) {
+      return NextResponse.json(
+        { success: false, error: "Amount must be a non-zero number" },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidDate(date)) {
+      return NextResponse.json(
+        { success: false, error: "Date must be YYYY-MM-DD" },
+        { status: 400 }
+      );
+    }
+
+    if (type !== undefined && type !== "income" && type !== "expense") {
+      return NextResponse.json(
+        { success: false, error: "type must be one of: income, expense" },
+        { status: 400 }
+      );
+    }
+
+    // An explicit type wins over the sign of the amount
+    const isIncome = type ? type === "income" : parsedAmount > 0;
+    const signed = isIncome ? Math.abs(parsedAmount) : -Math.abs(parsedAmount);
+
+    if (accountId !== undefined && !(await isOwnAccount(user.id, accountId))) {
+      return NextResponse.json(
+        { success: false, error: "Account not found" },
+        { status: 400 }
+      );
+    }
+
+    // Allocations across categories, checked against the new transaction's amount
+    const resolvedSplits = splits !== undefined
+      ? await resolveSplits({ amount: toPaise(Math.abs(signed)), transactionType: isIncome ? "credit" : "debit" }, splits)
+      : { splits: [] };
+    if ("error" in resolvedSplits) {
+      return NextResponse.json(
+        { success: false, error: resolvedSplits.error },
+        { status: 400 }
+      );
+    }
+
+    // Raw narrations resolve to a canonical merchant, which also supplies a default category
+    const merchant = await resolveMerchant(user.id, { description, merchantName, amount: signed });
+
+    const resolvedCategory = await resolveCategory({
+      categoryId: categoryId !== undefined ? parseInt(categoryId) : undefined,
+      category,
       description,
-      amount: parseFloat(amount),
-      category: category || "General",
-      date,
-      type: amount >= 0 ? "income" : "expense",
-      merchantName: description,
+      amount: signed,
+      merchantName: merchant?.name ?? merchantName,
+      merchantCategoryId: merchant?.defaultCategoryId,
+      userRules: await loadUserRules(user.id),
+    });
+
+    if (!resolvedCategory) {
+      return NextResponse.json(
+        { success: false, error: "Category not found" },
+        { status: 400 }
+      );
+    }
+
+    const newTransaction = await db
+      .insert(transactions)
+      .values({
+        userId: user.id,
+        categoryId: resolvedCategory.id,
+        amount: toPaise(Math.abs(signed)),
+        description: description.trim(),
+        merchantName: merchant?.name ?? (merchantName?.trim() || null),
+        merchantId: merchant?.id ?? null,
+        transactionDate: date,
+        transactionType: isIncome ? "credit" : "debit",
+        isRecurring: false,
+        // A category the user picked is theirs; re-categorization leaves it alone
+        categoryPinned: categoryId !== undefined || Boolean(category),
+        accountId: accountId ?? null,
+        createdAt: new Date().toISOString(),
+      })
+      .returning();
+
+    await replaceTransactionSplits(user.id, newTransaction[0].id, resolvedSplits.splits);
+    const storedSplits = await loadTransactionSplits(user.id, [newTransaction[0].id]);
+
+    // The other leg of a transfer may already be stored on another account
+    if (newTransaction[0].accountId !== null) {
+      await matchTransfers(user.id);
+    }
+
+    // A credit may refund an earlier purchase from the same merchant
+    if (isIncome) {
+      await matchRefunds(user.id);
+    }
+
+    const created = await db
+      .select()
+      .from(transactions)
+      .leftJoin(transactionCategories, eq(transactions.categoryId, transactionCategories.id))
+      .where(eq(transactions.id, newTransaction[0].id))
+      .limit(1);
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: serializeTransaction(
+          created[0].transactions,
+          created[0].transaction_categories,
+          storedSplits.get(newTransaction[0].id)
+        ),
+        message: "Transaction created successfully",
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error("Error creating transaction:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to create transaction" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    const transactionId = id ? parseInt(id) : NaN;
+    if (isNaN(transactionId)) {
+      return NextResponse.json(
+        { success: false, error: "Valid ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const existing = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.id, transactionId), eq(transactions.userId, user.id)))
+      .limit(1);
+
+    if (existing.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+    const { description, amount, category, categoryId, date, merchantName, type, categoryPinned, splits, accountId } = body;
+
+    const updates: Partial<typeof transactions.$inferInsert> = {};
+
+    if (categoryPinned !== undefined) {
+      if (typeof categoryPinned !== "boolean") {
+        return NextResponse.json(
+          { success: false, error: "categoryPinned must be a boolean" },
+          { status: 400 }
+        );
+      }
+      updates.categoryPinned = categoryPinned;
+    }
+
+    if (accountId !== undefined) {
+      if (!(await isOwnAccount(user.id, accountId))) {
+        return NextResponse.json(
+          { success: false, error: "Account not found" },
+          { status: 400 }
+        );
+      }
+      updates.accountId = accountId;
+    }
+
+    if (description !== undefined) {
+      if (typeof description !== "string" || !description.trim()) {
+        return NextResponse.json(
+          { success: false, error: "Description cannot be empty" },
+          { status: 400 }
+        );
+      }
+      updates.description = description.trim();
+    }
+
+    if (date !== undefined) {
+      if (!isValidDate(date)) {
+        return NextResponse.json(
+          { success: false, error: "Date must be YYYY-MM-DD" },
+          { status: 400 }
+        );
+      }
+      updates.transactionDate = date;
+    }
+
+    if (merchantName !== undefined) {
+      if (merchantName !== null && typeof merchantName !== "string") {
+        return NextResponse.json(
+          { success: false, error: "merchantName must be a string or null" },
+          { status: 400 }
+        );
+      }
+      const merchant = merchantName?.trim()
+        ? await resolveMerchant(user.id, {
+            description: existing[0].description,
+            merchantName,
+            amount: signedAmount(existing[0]),
+          })
+        : null;
+      updates.merchantName = merchant?.name ?? (merchantName?.trim() || null);
+      updates.merchantId = merchant?.id ?? null;
+    }
+
+    if (type !== undefined && type !== "income" && type !== "expense") {
+      return NextResponse.json(
+        { success: false, error: "type must be one of: income, expense" },
+        { status: 400 }
+      );
+    }
+
+    if (amount !== undefined) {
+      const parsedAmount = parseFloat(amount);
+      if (isNaN(parsedAmount) || parsedAmount === 0) {
+        return NextResponse.json(
+          { success: false, error: "Amount must be a non-zero number" },
+          { status: 400 }
+        );
+      }
+      updates.amount = toPaise(Math.abs(parsedAmount));
+      updates.transactionType = (type ? type === "income" : parsedAmount > 0) ? "credit" : "debit";
+    } else if (type !== undefined) {
+      updates.transactionType = type === "income" ? "credit" : "debit";
+    }
+
+    // Splits must keep covering the amount: send new ones (or an empty list) along with an amount change
+    let resolvedSplits: Awaited<ReturnType<typeof resolveSplits>> | null = null;
+    const parent = {
+      amount: updates.amount ?? existing[0].amount,
+      transactionType: updates.transactionType ?? existing[0].transactionType,
     };
+    if (splits !== undefined) {
+      resolvedSplits = await resolveSplits(parent, splits);
+      if ("error" in resolvedSplits) {
+        return NextResponse.json(
+          { success: false, error: resolvedSplits.error },
+          { status: 400 }
+        );
+      }
+    } else if (parent.amount !== existing[0].amount || parent.transactionType !== existing[0].transactionType) {
+      const current = await loadTransactionSplits(user.id, [transactionId]);
+      if (current.has(transactionId)) {
+        return NextResponse.json(
+          { success: false, error: "This transaction is split; send updated splits (or an empty list) with the new amount" },
+          { status: 400 }
+        );
+      }
+    }
 
-    // In production, this would be saved to the database
-    mockTransactions.unshift(newTransaction);
+    if (categoryId !== undefined || category !== undefined) {
+      const resolvedCategory = await resolveCategory({
+        categoryId: categoryId !== undefined ? parseInt(categoryId) : undefined,
+        category,
+        description: updates.description ?? existing[0].description,
+        amount: 0,
+      });
+
+      if (!resolvedCategory) {
+        return NextResponse.json(
+          { success: false, error: "Category not found" },
+          { status: 400 }
+        );
+      }
+      updates.categoryId = resolvedCategory.id;
+      if (categoryPinned === undefined) {
+        updates.categoryPinned = true;
+      }
+    }
+
+    // A re-categorization teaches the user's rules so the next payment lands in the same place
+    let learnedRule = null;
+    if (updates.categoryId !== undefined && updates.categoryId !== existing[0].categoryId) {
+      const category = await db
+        .select()
+        .from(transactionCategories)
+        .where(eq(transactionCategories.id, updates.categoryId))
+        .limit(1);
+      // Learn from the transaction as it stands after this update, amount included
+      const corrected = { ...existing[0], ...updates };
+      const rule = await learnRuleFromCorrection(
+        user.id,
+        {
+          description: corrected.description,
+          merchantName: corrected.merchantName,
+          amount: signedAmount(corrected),
+          date: corrected.transactionDate,
+        },
+        category[0]
+      );
+      learnedRule = rule ? serializeRule(rule, category[0]) : null;
+    }
+
+    if (Object.keys(updates).length > 0) {
+      await db
+        .update(transactions)
+        .set(updates)
+        .where(and(eq(transactions.id, transactionId), eq(transactions.userId, user.id)));
+    }
+
+    if (resolvedSplits && "splits" in resolvedSplits) {
+      await replaceTransactionSplits(user.id, transactionId, resolvedSplits.splits);
+    }
+
+    // Stage the new rule's effect on the rest of the history for review
+    if (learnedRule) {
+      scheduleRecategorization(user.id, "rule_learned");
+    }
+
+    // A newly assigned account can complete a transfer pair
+    if (updates.accountId) {
+      await matchTransfers(user.id);
+    }
+
+    const updated = await db
+      .select()
+      .from(transactions)
+      .leftJoin(transactionCategories, eq(transactions.categoryId, transactionCategories.id))
+      .where(eq(transactions.id, transactionId))
+      .limit(1);
+    const updatedSplits = await loadTransactionSplits(user.id, [transactionId]);
 
     return NextResponse.json({
       success: true,
-      data: newTransaction,
-      message: "Transaction created successfully",
+      data: serializeTransaction(
+        updated[0].transactions,
+        updated[0].transaction_categories,
+        updatedSplits.get(transactionId)
+      ),
+      learnedRule,
+      message: "Transaction updated successfully",
     });
   } catch (error) {
-    console.error("Error creating transaction:", error);
+    console.error("Error updating transaction:", error);
     return NextResponse.json(
-      { success: false, error: "Failed to create transaction" },
+      { success: false, error: "Failed to update transaction" },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const id = request.nextUrl.searchParams.get("id");
+    const transactionId = id ? parseInt(id) : NaN;
+    if (isNaN(transactionId)) {
+      return NextResponse.json(
+        { success: false, error: "Valid ID is required" },
+        { status: 400 }
+      );
+    }
+
+    await db
+      .delete(transactionSplits)
+      .where(and(eq(transactionSplits.transactionId, transactionId), eq(transactionSplits.userId, user.id)));
+
+    // The other leg of a transfer becomes an ordinary transaction again, and refunds of it income
+    await db
+      .update(transactions)
+      .set({ transferPairId: null })
+      .where(and(eq(transactions.transferPairId, transactionId), eq(transactions.userId, user.id)));
+    await db
+      .update(transactions)
+      .set({ refundOfId: null })
+      .where(and(eq(transactions.refundOfId, transactionId), eq(transactions.userId, user.id)));
+
+    const deleted = await db
+      .delete(transactions)
+      .where(and(eq(transactions.id, transactionId), eq(transactions.userId, user.id)))
+      .returning();
+
+    if (deleted.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: serializeTransaction(deleted[0]),
+      message: "Transaction deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting transaction:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to delete transaction" },
+      { status: 500 }
+    );
+  }
+}
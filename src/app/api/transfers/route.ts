@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from "next/server";
+import { db } from "@/db";
+import { transactions } from "@/db/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { badRequest, unauthorized } from "@/lib/api-responses";
+import { getCurrentAppUser } from "@/lib/auth";
+import { signedAmount } from "@/lib/transactions";
+import { linkTransferPair, listTransfers, matchTransfers, unlinkTransfer } from "@/lib/transfers";
+
+// GET - matched transfer pairs between the user's own accounts
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const data = await listTransfers(user.id);
+    return NextResponse.json({ success: true, data, count: data.length });
+  } catch (error) {
+    console.error("Error fetching transfers:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to fetch transfers" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - run the matcher over unmatched history, or pair two transactions by hand ({ transactionIds: [a, b] })
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { transactionIds } = body;
+
+    if (transactionIds === undefined) {
+      const matches = await matchTransfers(user.id);
+      const data = await listTransfers(user.id);
+      return NextResponse.json({ success: true, data, count: data.length, matched: matches.length });
+    }
+
+    if (
+      !Array.isArray(transactionIds) ||
+      transactionIds.length !== 2 ||
+      !transactionIds.every((id) => typeof id === "number")
+    ) {
+      return badRequest("transactionIds must be two transaction ids");
+    }
+
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.userId, user.id), inArray(transactions.id, transactionIds)));
+
+    if (rows.length !== 2) {
+      return NextResponse.json(
+        { success: false, error: "Transaction not found" },
+        { status: 404 }
+      );
+    }
+
+    const debit = rows.find((row) => signedAmount(row) < 0);
+    const credit = rows.find((row) => signedAmount(row) > 0);
+    if (!debit || !credit) {
+      return badRequest("A transfer pairs one debit with one credit");
+    }
+    if (debit.amount !== credit.amount) {
+      return badRequest("Both legs of a transfer must have the same amount");
+    }
+    if (debit.transferPairId !== null || credit.transferPairId !== null) {
+      return NextResponse.json(
+        { success: false, error: "One of these transactions is already paired; unlink it first" },
+        { status: 409 }
+      );
+    }
+
+    await linkTransferPair(user.id, debit.id, credit.id);
+    const data = await listTransfers(user.id);
+    return NextResponse.json({ success: true, data, count: data.length });
+  } catch (error) {
+    console.error("Error matching transfers:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to match transfers" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - unlink the pair a transaction belongs to (?transactionId=); it will not be matched again
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getCurrentAppUser(request);
+    if (!user) {
+      return unauthorized();
+    }
+
+    const id = request.nextUrl.searchParams.get("transactionId");
+    const transactionId = id ? parseInt(id) : NaN;
+    if (isNaN(transactionId)) {
+      return badRequest("Valid transactionId is required");
+    }
+
+    const existing = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.id, transactionId), eq(transactions.userId, user.id)))
+      .limit(1);
+
+    if (existing.length === 0 || existing[0].transferPairId === null) {
+      return NextResponse.json(
+        { success: false, error: "Transfer not found" },
+        { status: 404 }
+      );
+    }
+
+    await unlinkTransfer(user.id, existing[0]);
+    return NextResponse.json({ success: true, message: "Transfer unlinked" });
+  } catch (error) {
+    console.error("Error unlinking transfer:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to unlink transfer" },
+      { status: 500 }
+    );
+  }
+}
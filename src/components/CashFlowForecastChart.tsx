@@ -0,0 +1,89 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Area, ComposedChart, Line, ReferenceLine, XAxis, YAxis, CartesianGrid } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Activity } from "lucide-react";
+import { authFetch } from "@/lib/api-client";
+import type { ProbabilisticForecast } from "@/lib/cashflow";
+
+const chartConfig = {
+  range: { label: "P10–P90", color: "hsl(217 91% 60%)" },
+  p50: { label: "Median", color: "hsl(217 91% 45%)" },
+} satisfies ChartConfig;
+
+interface CashFlowForecastChartProps {
+  days?: number;
+}
+
+export default function CashFlowForecastChart({ days = 30 }: CashFlowForecastChartProps) {
+  const [forecast, setForecast] = useState<ProbabilisticForecast | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    authFetch(`/api/cashflow?mode=probabilistic&days=${days}`)
+      .then((res) => res.json())
+      .then((json) => {
+        if (json.success) {
+          setForecast(json.data.forecast);
+        } else {
+          setError(json.error || "Failed to load forecast");
+        }
+      })
+      .catch(() => setError("Failed to load forecast"));
+  }, [days]);
+
+  const chartData = (forecast?.bands || []).map((band) => ({
+    date: band.date.slice(5),
+    range: [band.p10, band.p90],
+    p50: band.p50,
+    risk: Math.round(band.probabilityBelowThreshold * 100),
+  }));
+
+  const breachPercent = forecast ? Math.round(forecast.breachProbability * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="w-5 h-5" />
+          {days}-Day Forecast Range
+        </CardTitle>
+        <CardDescription>
+          Likely balance range from {forecast?.simulations.toLocaleString() || "thousands of"} simulated income and spending paths
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-muted-foreground">{error}</p>}
+        {!error && !forecast && <p className="text-sm text-muted-foreground">Running simulations...</p>}
+        {forecast && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between p-4 bg-muted rounded-lg">
+              <div>
+                <p className="text-sm font-medium">Chance of dipping below ₹{forecast.safetyThreshold.toLocaleString()}</p>
+                <p className="text-2xl font-bold mt-1">{breachPercent}%</p>
+              </div>
+              <Badge variant={breachPercent >= 50 ? "destructive" : "secondary"}>
+                {breachPercent >= 50 ? "High risk" : breachPercent >= 20 ? "Watch" : "Healthy"}
+              </Badge>
+            </div>
+
+            <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+              <ComposedChart data={chartData} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={(value) => `₹${Math.round(value / 1000)}k`} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ReferenceLine y={forecast.safetyThreshold} stroke="hsl(0 84% 60%)" strokeDasharray="4 4" />
+                <Area dataKey="range" type="monotone" stroke="none" fill="var(--color-range)" fillOpacity={0.2} />
+                <Line dataKey="p50" type="monotone" stroke="var(--color-p50)" strokeWidth={2} dot={false} />
+              </ComposedChart>
+            </ChartContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
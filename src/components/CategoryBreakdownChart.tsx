@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Cell, Pie, PieChart } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { ArrowLeft, PieChart as PieChartIcon } from "lucide-react";
+import { authFetch } from "@/lib/api-client";
+import type { CategoryBreakdown } from "@/lib/categorization";
+
+const chartConfig = {
+  amount: { label: "Spent" },
+} satisfies ChartConfig;
+
+const SLICE_COLORS = [
+  "hsl(25 95% 53%)",
+  "hsl(217 91% 60%)",
+  "hsl(271 81% 56%)",
+  "hsl(142 71% 45%)",
+  "hsl(0 84% 60%)",
+  "hsl(330 81% 60%)",
+  "hsl(189 94% 43%)",
+  "hsl(45 93% 47%)",
+];
+
+export default function CategoryBreakdownChart() {
+  const [breakdown, setBreakdown] = useState<CategoryBreakdown[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [zoomed, setZoomed] = useState<CategoryBreakdown | null>(null);
+
+  useEffect(() => {
+    authFetch("/api/cashflow")
+      .then((res) => res.json())
+      .then((json) => {
+        if (json.success) {
+          setBreakdown(json.data.categoryBreakdown);
+        } else {
+          setError(json.error || "Failed to load spending breakdown");
+        }
+      })
+      .catch(() => setError("Failed to load spending breakdown"));
+  }, []);
+
+  // Zoomed into a parent: its subcategories, percentages relative to the parent
+  const slices = zoomed ? zoomed.children || [] : breakdown || [];
+  const total = slices.reduce((sum, slice) => sum + slice.amount, 0);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PieChartIcon className="w-5 h-5" />
+          {zoomed ? zoomed.category : "Spending by Category"}
+        </CardTitle>
+        <CardDescription>
+          {zoomed
+            ? "Subcategories of this category over the last 30 days"
+            : "Your spending breakdown for the last 30 days. Tap a category to see its subcategories."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-muted-foreground">{error}</p>}
+        {!error && !breakdown && <p className="text-sm text-muted-foreground">Loading spending...</p>}
+        {breakdown && slices.length === 0 && (
+          <p className="text-sm text-muted-foreground">No spending in the last 30 days.</p>
+        )}
+        {slices.length > 0 && (
+          <div className="space-y-4">
+            {zoomed && (
+              <Button variant="ghost" size="sm" onClick={() => setZoomed(null)}>
+                <ArrowLeft className="w-4 h-4 mr-1" />
+                All categories
+              </Button>
+            )}
+
+            <ChartContainer config={chartConfig} className="mx-auto aspect-square h-[260px]">
+              <PieChart>
+                <ChartTooltip content={<ChartTooltipContent nameKey="category" hideLabel />} />
+                <Pie
+                  data={slices}
+                  dataKey="amount"
+                  nameKey="category"
+                  innerRadius={60}
+                  onClick={(_, index) => {
+                    const slice = slices[index];
+                    if (!zoomed && slice?.children?.length) setZoomed(slice);
+                  }}
+                >
+                  {slices.map((slice, index) => (
+                    <Cell
+                      key={slice.category}
+                      fill={SLICE_COLORS[index % SLICE_COLORS.length]}
+                      className={!zoomed && slice.children?.length ? "cursor-pointer" : undefined}
+                    />
+                  ))}
+                </Pie>
+              </PieChart>
+            </ChartContainer>
+
+            <div className="space-y-2">
+              {slices.map((slice, index) => (
+                <button
+                  key={slice.category}
+                  type="button"
+                  disabled={Boolean(zoomed) || !slice.children?.length}
+                  onClick={() => setZoomed(slice)}
+                  className="flex w-full items-center justify-between text-sm disabled:cursor-default"
+                >
+                  <span className="flex items-center gap-2">
+                    <span
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: SLICE_COLORS[index % SLICE_COLORS.length] }}
+                    />
+                    <span className="font-medium">{slice.category}</span>
+                    {!zoomed && slice.children?.length ? (
+                      <span className="text-xs text-muted-foreground">{slice.children.length} subcategories</span>
+                    ) : null}
+                  </span>
+                  <span className="text-right">
+                    <span className="font-semibold">₹{slice.amount.toLocaleString()}</span>
+                    <span className="ml-2 text-xs text-muted-foreground">{slice.percentage.toFixed(1)}%</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            <div className="p-4 bg-muted rounded-lg">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">{zoomed ? `Total ${zoomed.category}` : "Total Spending"}</span>
+                <span className="text-lg font-bold">₹{total.toLocaleString()}</span>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
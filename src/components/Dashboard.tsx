@@ -17,22 +17,22 @@ import {
   ArrowDownRight,
   DollarSign,
   Calendar,
-  ShoppingBag,
-  Coffee,
-  Car,
-  Home,
-  Smartphone,
-  Heart,
-  Utensils,
   ThumbsUp,
   ThumbsDown,
-  BarChart3,
-  PieChart
+  BarChart3
 } from "lucide-react";
 import { motion } from "framer-motion";
 import { useRouter } from "next/navigation";
 import { authClient } from "@/lib/auth-client";
 import { toast } from "sonner";
+import CashFlowForecastChart from "@/components/CashFlowForecastChart";
+import ScenarioPlanner from "@/components/ScenarioPlanner";
+import UpcomingBillsCalendar from "@/components/UpcomingBillsCalendar";
+import TransactionList from "@/components/TransactionList";
+import RecategorizationReview from "@/components/RecategorizationReview";
+import CategoryBreakdownChart from "@/components/CategoryBreakdownChart";
+import StatementImport from "@/components/StatementImport";
+import SmsImport from "@/components/SmsImport";
 
 // Sample data for demo
 const mockTransactions = [
@@ -78,27 +78,6 @@ const mockChatMessages = [
   },
 ];
 
-const categoryIcons: Record<string, any> = {
-  Transport: Car,
-  Food: Utensils,
-  Shopping: ShoppingBag,
-  Bills: Smartphone,
-  Housing: Home,
-  Income: TrendingUp,
-  Entertainment: Heart,
-  Coffee: Coffee,
-};
-
-const categoryColors: Record<string, string> = {
-  Transport: "bg-blue-500",
-  Food: "bg-orange-500",
-  Shopping: "bg-purple-500",
-  Bills: "bg-green-500",
-  Housing: "bg-red-500",
-  Income: "bg-emerald-500",
-  Entertainment: "bg-pink-500",
-};
-
 interface DashboardProps {
   user: {
     id: string;
@@ -113,32 +92,16 @@ export default function Dashboard({ user }: DashboardProps) {
   const [messages, setMessages] = useState(mockChatMessages);
   const [newMessage, setNewMessage] = useState("");
   const [transactions] = useState(mockTransactions);
+  const [transactionsKey, setTransactionsKey] = useState(0);
+  const [reviewKey, setReviewKey] = useState(0);
 
-  // Calculate spending by category
-  const spendingByCategory = transactions
+  const totalSpending = transactions
     .filter(t => t.amount < 0)
-    .reduce((acc, t) => {
-      const category = t.category;
-      if (!acc[category]) {
-        acc[category] = 0;
-      }
-      acc[category] += Math.abs(t.amount);
-      return acc;
-    }, {} as Record<string, number>);
-
-  const totalSpending = Object.values(spendingByCategory).reduce((sum, val) => sum + val, 0);
+    .reduce((sum, t) => sum + Math.abs(t.amount), 0);
   const totalIncome = transactions
     .filter(t => t.amount > 0)
     .reduce((sum, t) => sum + t.amount, 0);
 
-  const categoryData = Object.entries(spendingByCategory)
-    .map(([category, amount]) => ({
-      category,
-      amount,
-      percentage: (amount / totalSpending) * 100
-    }))
-    .sort((a, b) => b.amount - a.amount);
-
   const handleSignOut = async () => {
     const { error } = await authClient.signOut();
     if (error?.code) {
@@ -230,9 +193,10 @@ export default function Dashboard({ user }: DashboardProps) {
 
       <div className="container mx-auto px-4 py-6">
         <Tabs defaultValue="coach" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="coach">AI Coach</TabsTrigger>
             <TabsTrigger value="overview">Overview</TabsTrigger>
+            <TabsTrigger value="calendar">Calendar</TabsTrigger>
             <TabsTrigger value="transactions">Transactions</TabsTrigger>
           </TabsList>
 
@@ -384,113 +348,33 @@ export default function Dashboard({ user }: DashboardProps) {
               </CardContent>
             </Card>
 
-            {/* Spending by Category - Interactive Bar Chart */}
-            <Card>
-              <CardHeader>
-                <CardTitle className="flex items-center gap-2">
-                  <PieChart className="w-5 h-5" />
-                  Spending by Category
-                </CardTitle>
-                <CardDescription>Your spending breakdown for the last 30 days</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {categoryData.map((item, index) => {
-                    const Icon = categoryIcons[item.category] || ShoppingBag;
-                    const colorClass = categoryColors[item.category] || "bg-gray-500";
-                    
-                    return (
-                      <motion.div
-                        key={item.category}
-                        initial={{ opacity: 0, x: -20 }}
-                        animate={{ opacity: 1, x: 0 }}
-                        transition={{ delay: index * 0.1 }}
-                        className="space-y-2"
-                      >
-                        <div className="flex items-center justify-between text-sm">
-                          <div className="flex items-center gap-2">
-                            <div className={`w-8 h-8 rounded-lg ${colorClass} flex items-center justify-center`}>
-                              <Icon className="w-4 h-4 text-white" />
-                            </div>
-                            <span className="font-medium">{item.category}</span>
-                          </div>
-                          <div className="text-right">
-                            <p className="font-semibold">₹{item.amount.toLocaleString()}</p>
-                            <p className="text-xs text-muted-foreground">{item.percentage.toFixed(1)}%</p>
-                          </div>
-                        </div>
-                        <div className="w-full bg-muted rounded-full h-2 overflow-hidden">
-                          <motion.div
-                            className={`h-full ${colorClass}`}
-                            initial={{ width: 0 }}
-                            animate={{ width: `${item.percentage}%` }}
-                            transition={{ duration: 0.5, delay: index * 0.1 }}
-                          />
-                        </div>
-                      </motion.div>
-                    );
-                  })}
-                </div>
+            {/* Probabilistic Forecast - Monte Carlo balance bands */}
+            <CashFlowForecastChart days={30} />
 
-                <div className="mt-6 p-4 bg-muted rounded-lg">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm font-medium">Total Spending</span>
-                    <span className="text-lg font-bold">₹{totalSpending.toLocaleString()}</span>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+            {/* What-if Scenarios */}
+            <ScenarioPlanner />
+
+            {/* Spending by Category - subcategories zoom in from their parent */}
+            <CategoryBreakdownChart />
+          </TabsContent>
+
+          {/* Calendar Tab */}
+          <TabsContent value="calendar" className="space-y-4">
+            <UpcomingBillsCalendar days={35} />
           </TabsContent>
 
           {/* Transactions Tab */}
           <TabsContent value="transactions" className="space-y-4">
-            <Card>
-              <CardHeader>
-                <CardTitle>Recent Transactions</CardTitle>
-                <CardDescription>Your latest financial activity</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <ScrollArea className="h-[600px]">
-                  <div className="space-y-3">
-                    {transactions.map((transaction) => {
-                      const Icon = categoryIcons[transaction.category] || ShoppingBag;
-                      const isIncome = transaction.amount > 0;
-                      
-                      return (
-                        <div
-                          key={transaction.id}
-                          className="flex items-center justify-between p-4 border rounded-lg hover:bg-muted/50 transition-colors"
-                        >
-                          <div className="flex items-center gap-3">
-                            <div className={`w-10 h-10 rounded-full ${
-                              isIncome ? 'bg-green-100 dark:bg-green-950' : 'bg-red-100 dark:bg-red-950'
-                            } flex items-center justify-center`}>
-                              <Icon className={`w-5 h-5 ${
-                                isIncome ? 'text-green-600' : 'text-red-600'
-                              }`} />
-                            </div>
-                            <div>
-                              <p className="font-medium">{transaction.description}</p>
-                              <p className="text-sm text-muted-foreground">{transaction.merchant} • {transaction.date}</p>
-                            </div>
-                          </div>
-                          <div className="text-right">
-                            <p className={`font-semibold ${
-                              isIncome ? 'text-green-600' : 'text-red-600'
-                            }`}>
-                              {isIncome ? '+' : ''}₹{Math.abs(transaction.amount).toLocaleString()}
-                            </p>
-                            <Badge variant="secondary" className="text-xs mt-1">
-                              {transaction.category}
-                            </Badge>
-                          </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                </ScrollArea>
-              </CardContent>
-            </Card>
+            <RecategorizationReview
+              refreshKey={reviewKey}
+              onApplied={() => setTransactionsKey((key) => key + 1)}
+            />
+            <StatementImport onImported={() => setTransactionsKey((key) => key + 1)} />
+            <SmsImport onImported={() => setTransactionsKey((key) => key + 1)} />
+            <TransactionList
+              refreshKey={transactionsKey}
+              onCategoryChange={() => setReviewKey((key) => key + 1)}
+            />
           </TabsContent>
         </Tabs>
       </div>
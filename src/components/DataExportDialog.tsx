@@ -0,0 +1,206 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronRight, Download } from "lucide-react";
+import { toast } from "sonner";
+import { authFetch } from "@/lib/api-client";
+import type { ApiDataExport, DataExportFormat } from "@/lib/data-export";
+
+interface Category {
+  id: number;
+  name: string;
+  icon: string;
+}
+
+const FORMAT_LABELS: Record<DataExportFormat, string> = {
+  xlsx: "Excel workbook (.xlsx)",
+  csv: "CSV files (.zip)",
+  json: "JSON",
+};
+
+// How often a background export is checked on
+const POLL_INTERVAL_MS = 2000;
+
+export default function DataExportDialog() {
+  const [open, setOpen] = useState(false);
+  const [format, setFormat] = useState<DataExportFormat>("xlsx");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [categoryIds, setCategoryIds] = useState<number[]>([]);
+  const [current, setCurrent] = useState<ApiDataExport | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!open || categories.length > 0) return;
+    fetch("/api/transaction-categories?topLevel=true&limit=100")
+      .then((res) => res.json())
+      .then((data: Category[]) => Array.isArray(data) && setCategories(data))
+      .catch(() => {});
+  }, [open, categories.length]);
+
+  // A large export is built in the background; check on it until it is ready
+  useEffect(() => {
+    if (!current || current.status !== "pending") return;
+    const timer = setTimeout(async () => {
+      const res = await authFetch(`/api/data-exports?id=${current.id}`);
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to check on the export");
+        return;
+      }
+      setCurrent(json.data);
+      if (json.data.status === "failed") toast.error(json.data.error || "The export could not be built");
+    }, POLL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [current]);
+
+  const toggleCategory = (categoryId: number, checked: boolean) =>
+    setCategoryIds((ids) => (checked ? [...ids, categoryId] : ids.filter((id) => id !== categoryId)));
+
+  const handleExport = async () => {
+    setBusy(true);
+    try {
+      const res = await authFetch("/api/data-exports", {
+        method: "POST",
+        body: JSON.stringify({
+          format,
+          startDate: startDate || null,
+          endDate: endDate || null,
+          categoryIds,
+        }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to start the export");
+        return;
+      }
+      setCurrent(json.data);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // The download link needs the usual sign-in, so it is fetched here and handed to the browser as a file
+  const handleDownload = async () => {
+    if (!current?.downloadUrl) return;
+    const res = await authFetch(current.downloadUrl);
+    if (!res.ok) {
+      const json = await res.json().catch(() => ({}));
+      toast.error(json.error || "Failed to download the export");
+      if (res.status === 410) setCurrent(null);
+      return;
+    }
+    const url = URL.createObjectURL(await res.blob());
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = current.fileName || "finpal-export";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="w-full justify-between">
+          <span>Export My Data</span>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export My Data</DialogTitle>
+          <DialogDescription>
+            Your transactions, categories, insights and feedback, preferences and account details.
+            Bank access tokens are never included.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label>Format</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as DataExportFormat)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FORMAT_LABELS) as DataExportFormat[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {FORMAT_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="export-start">From</Label>
+              <Input id="export-start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="export-end">To</Label>
+              <Input id="export-end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+          </div>
+
+          {categories.length > 0 && (
+            <div className="space-y-1">
+              <Label>Categories</Label>
+              <p className="text-xs text-muted-foreground">Leave all unticked to export every category.</p>
+              <ScrollArea className="h-[140px] border rounded-lg p-2">
+                <div className="grid grid-cols-2 gap-2">
+                  {categories.map((category) => (
+                    <label key={category.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={categoryIds.includes(category.id)}
+                        onCheckedChange={(checked) => toggleCategory(category.id, checked === true)}
+                      />
+                      {category.icon} {category.name}
+                    </label>
+                  ))}
+                </div>
+              </ScrollArea>
+            </div>
+          )}
+
+          {current?.status === "pending" && (
+            <p className="text-sm text-muted-foreground">
+              Preparing your export. You can keep using FinPal; this updates when it is ready.
+            </p>
+          )}
+          {current?.status === "ready" && (
+            <div className="flex items-center justify-between gap-3 p-3 bg-muted rounded-lg text-sm">
+              <div>
+                <p className="font-medium">{current.fileName}</p>
+                <p className="text-xs text-muted-foreground">
+                  {current.recordCount} transaction{current.recordCount === 1 ? "" : "s"}
+                  {current.expiresAt ? ` • available until ${new Date(current.expiresAt).toLocaleString()}` : ""}
+                </p>
+              </div>
+              <Button size="sm" onClick={handleDownload}>
+                <Download className="mr-2 w-4 h-4" />
+                Download
+              </Button>
+            </div>
+          )}
+
+          <Button
+            className="w-full"
+            onClick={handleExport}
+            disabled={busy || current?.status === "pending" || Boolean(startDate && endDate && startDate > endDate)}
+          >
+            {current?.status === "ready" ? "Export again" : "Export"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+import { authFetch } from "@/lib/api-client";
+import type { RecategorizationPreview } from "@/lib/recategorization";
+
+interface RecategorizationReviewProps {
+  // Bumped by the parent whenever rules or categories change, so the new preview is picked up
+  refreshKey?: number;
+  onApplied?: () => void;
+}
+
+export default function RecategorizationReview({ refreshKey = 0, onApplied }: RecategorizationReviewProps) {
+  const [preview, setPreview] = useState<RecategorizationPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const loadPreview = async () => {
+    const res = await authFetch("/api/recategorization");
+    const json = await res.json();
+    if (json.success) {
+      setPreview(json.data);
+    }
+  };
+
+  useEffect(() => {
+    // The preview is built in the background after an edit; give it a moment before asking
+    const timer = setTimeout(() => loadPreview().catch(() => {}), refreshKey ? 1500 : 0);
+    return () => clearTimeout(timer);
+  }, [refreshKey]);
+
+  const handleAction = async (action: "apply" | "discard") => {
+    if (!preview?.id) return;
+    setBusy(true);
+    try {
+      const res = await authFetch(`/api/recategorization?id=${preview.id}`, {
+        method: "PUT",
+        body: JSON.stringify({ action }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to update re-categorization");
+        return;
+      }
+      if (action === "apply") {
+        toast.success(json.message);
+        onApplied?.();
+      }
+      setPreview(null);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (!preview?.id || preview.status !== "pending") {
+    return null;
+  }
+
+  return (
+    <Card className="border-blue-200 bg-blue-50 dark:bg-blue-950/20">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <RefreshCw className="w-4 h-4" />
+          Re-categorize past transactions?
+        </CardTitle>
+        <CardDescription>
+          Your updated rules would change {preview.totalChanges} earlier transaction{preview.totalChanges === 1 ? "" : "s"}.
+          Transactions you categorized by hand are not touched.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-1 text-sm">
+          {preview.moves.map((move) => (
+            <li key={`${move.from}-${move.to}`}>{move.message}</li>
+          ))}
+        </ul>
+        <div className="flex gap-2">
+          <Button size="sm" disabled={busy} onClick={() => handleAction("apply")}>
+            Apply changes
+          </Button>
+          <Button size="sm" variant="outline" disabled={busy} onClick={() => handleAction("discard")}>
+            Keep as is
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
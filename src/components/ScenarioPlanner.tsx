@@ -0,0 +1,272 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { FlaskConical, Plus, Trash2, X } from "lucide-react";
+import { toast } from "sonner";
+import { authFetch } from "@/lib/api-client";
+import type { ScenarioAdjustment, ScenarioResult } from "@/lib/scenarios";
+
+interface SavedScenario {
+  id: number;
+  name: string;
+  adjustments: ScenarioAdjustment[];
+  updatedAt: string;
+}
+
+interface RecurringItem {
+  description: string;
+  amount: number;
+}
+
+const chartConfig = {
+  baseline: { label: "Current path", color: "hsl(215 16% 47%)" },
+  scenario: { label: "What-if", color: "hsl(142 71% 45%)" },
+} satisfies ChartConfig;
+
+function describeAdjustment(adjustment: ScenarioAdjustment): string {
+  if (adjustment.type === "one_off") {
+    const label = adjustment.amount > 0 ? "Income" : "Expense";
+    return `${label} ₹${Math.abs(adjustment.amount).toLocaleString()} on ${adjustment.date}`;
+  }
+  if (adjustment.type === "remove_recurring") {
+    return `Cancel ${adjustment.description}`;
+  }
+  return `${adjustment.category} ${adjustment.percentChange > 0 ? "+" : ""}${adjustment.percentChange}%`;
+}
+
+export default function ScenarioPlanner() {
+  const [saved, setSaved] = useState<SavedScenario[]>([]);
+  const [recurring, setRecurring] = useState<RecurringItem[]>([]);
+  const [adjustments, setAdjustments] = useState<ScenarioAdjustment[]>([]);
+  const [result, setResult] = useState<ScenarioResult | null>(null);
+  const [name, setName] = useState("");
+  const [draft, setDraft] = useState({
+    type: "one_off" as ScenarioAdjustment["type"],
+    amount: "",
+    date: "",
+    description: "",
+    category: "",
+    percentChange: "",
+  });
+
+  const loadSaved = async () => {
+    const res = await authFetch("/api/cashflow/scenarios");
+    const json = await res.json();
+    if (json.success) setSaved(json.data);
+  };
+
+  useEffect(() => {
+    loadSaved();
+    authFetch("/api/cashflow/scenarios?action=recurring")
+      .then((res) => res.json())
+      .then((json) => json.success && setRecurring(json.data))
+      .catch(() => {});
+  }, []);
+
+  const handleAddAdjustment = () => {
+    if (draft.type === "one_off") {
+      const amount = parseFloat(draft.amount);
+      if (isNaN(amount) || amount === 0 || !draft.date) {
+        toast.error("Enter an amount and a date");
+        return;
+      }
+      setAdjustments([...adjustments, { type: "one_off", amount, date: draft.date, description: draft.description || undefined }]);
+    } else if (draft.type === "remove_recurring") {
+      if (!draft.description) {
+        toast.error("Pick a recurring item to cancel");
+        return;
+      }
+      setAdjustments([...adjustments, { type: "remove_recurring", description: draft.description }]);
+    } else {
+      const percentChange = parseFloat(draft.percentChange);
+      if (!draft.category || isNaN(percentChange)) {
+        toast.error("Enter a category and a percentage");
+        return;
+      }
+      setAdjustments([...adjustments, { type: "category_change", category: draft.category, percentChange }]);
+    }
+    setDraft({ ...draft, amount: "", date: "", description: "", category: "", percentChange: "" });
+  };
+
+  const handleRun = async (saveAs?: string) => {
+    if (adjustments.length === 0) {
+      toast.error("Add at least one adjustment");
+      return;
+    }
+    const res = await authFetch("/api/cashflow/scenarios", {
+      method: "POST",
+      body: JSON.stringify({ adjustments, days: 30, name: saveAs }),
+    });
+    const json = await res.json();
+    if (!json.success) {
+      toast.error(json.error || "Failed to run scenario");
+      return;
+    }
+    setResult(json.data.result);
+    if (saveAs) {
+      toast.success("Scenario saved");
+      setName("");
+      loadSaved();
+    }
+  };
+
+  const handleOpenSaved = async (scenario: SavedScenario) => {
+    const res = await authFetch(`/api/cashflow/scenarios?id=${scenario.id}&days=30`);
+    const json = await res.json();
+    if (json.success) {
+      setAdjustments(scenario.adjustments);
+      setResult(json.data.result);
+    } else {
+      toast.error(json.error || "Failed to load scenario");
+    }
+  };
+
+  const handleDeleteSaved = async (id: number) => {
+    const res = await authFetch(`/api/cashflow/scenarios?id=${id}`, { method: "DELETE" });
+    const json = await res.json();
+    if (json.success) {
+      setSaved(saved.filter((s) => s.id !== id));
+    } else {
+      toast.error(json.error || "Failed to delete scenario");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5" />
+          What-If Scenarios
+        </CardTitle>
+        <CardDescription>See how a new gig, a big purchase or a cancelled subscription changes the next 30 days</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {saved.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {saved.map((scenario) => (
+              <div key={scenario.id} className="flex items-center gap-1 border rounded-full pl-3 pr-1 py-1">
+                <button className="text-sm hover:underline" onClick={() => handleOpenSaved(scenario)}>
+                  {scenario.name}
+                </button>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => handleDeleteSaved(scenario.id)}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-2 md:grid-cols-[180px_1fr_1fr_auto]">
+          <Select value={draft.type} onValueChange={(value) => setDraft({ ...draft, type: value as ScenarioAdjustment["type"] })}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="one_off">One-off income/expense</SelectItem>
+              <SelectItem value="remove_recurring">Cancel recurring</SelectItem>
+              <SelectItem value="category_change">Change a category</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {draft.type === "one_off" && (
+            <>
+              <Input type="number" placeholder="Amount (negative for expense)" value={draft.amount} onChange={(e) => setDraft({ ...draft, amount: e.target.value })} />
+              <Input type="date" value={draft.date} onChange={(e) => setDraft({ ...draft, date: e.target.value })} />
+            </>
+          )}
+          {draft.type === "remove_recurring" && (
+            <div className="md:col-span-2">
+              <Select value={draft.description} onValueChange={(value) => setDraft({ ...draft, description: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder={recurring.length > 0 ? "Choose a recurring item" : "No recurring items detected"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {recurring.map((item) => (
+                    <SelectItem key={item.description} value={item.description}>
+                      {item.description} (₹{item.amount.toLocaleString()})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {draft.type === "category_change" && (
+            <>
+              <Input placeholder="Category, e.g. Food & Dining" value={draft.category} onChange={(e) => setDraft({ ...draft, category: e.target.value })} />
+              <Input type="number" placeholder="% change, e.g. -30" value={draft.percentChange} onChange={(e) => setDraft({ ...draft, percentChange: e.target.value })} />
+            </>
+          )}
+
+          <Button variant="outline" onClick={handleAddAdjustment}>
+            <Plus className="w-4 h-4 mr-1" /> Add
+          </Button>
+        </div>
+
+        {adjustments.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {adjustments.map((adjustment, index) => (
+              <Badge key={index} variant="secondary" className="gap-1">
+                {describeAdjustment(adjustment)}
+                <button onClick={() => setAdjustments(adjustments.filter((_, i) => i !== index))}>
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => handleRun()}>Run scenario</Button>
+          <Input className="max-w-[220px]" placeholder="Name to save as" value={name} onChange={(e) => setName(e.target.value)} />
+          <Button variant="outline" disabled={!name.trim()} onClick={() => handleRun(name.trim())}>
+            Save
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Balance in 30 days</p>
+                <p className="text-xl font-bold">₹{result.scenario.projectedBalance.toLocaleString()}</p>
+                <p className={`text-xs ${result.diff.endBalanceChange >= 0 ? "text-green-600" : "text-red-600"}`}>
+                  {result.diff.endBalanceChange >= 0 ? "+" : ""}₹{result.diff.endBalanceChange.toLocaleString()} vs now
+                </p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Lowest point</p>
+                <p className="text-xl font-bold">₹{result.scenario.minProjectedBalance.toLocaleString()}</p>
+                <p className={`text-xs ${result.diff.minBalanceChange >= 0 ? "text-green-600" : "text-red-600"}`}>
+                  {result.diff.minBalanceChange >= 0 ? "+" : ""}₹{result.diff.minBalanceChange.toLocaleString()} vs now
+                </p>
+              </div>
+              <div className="p-4 bg-muted rounded-lg">
+                <p className="text-sm text-muted-foreground">Drops below threshold</p>
+                <p className="text-xl font-bold">{result.diff.scenarioFirstBreachDate || "Never"}</p>
+                <p className="text-xs text-muted-foreground">Now: {result.diff.baselineFirstBreachDate || "Never"}</p>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+              <LineChart data={result.diff.daily.map((d) => ({ ...d, date: d.date.slice(5) }))} margin={{ left: 8, right: 8 }}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={(value) => `₹${Math.round(value / 1000)}k`} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Line dataKey="baseline" type="monotone" stroke="var(--color-baseline)" strokeDasharray="4 4" dot={false} />
+                <Line dataKey="scenario" type="monotone" stroke="var(--color-scenario)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -31,6 +31,7 @@ import Link from "next/link";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import { authClient, useSession } from "@/lib/auth-client";
+import DataExportDialog from "@/components/DataExportDialog";
 
 export default function Settings() {
   const router = useRouter();
@@ -1113,10 +1114,7 @@ export default function Settings() {
                 <CardTitle>Account Actions</CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
-                <Button variant="outline" className="w-full justify-between">
-                  <span>Export My Data</span>
-                  <ChevronRight className="w-4 h-4" />
-                </Button>
+                <DataExportDialog />
                 <Button 
                   variant="outline" 
                   className="w-full justify-between text-red-600 hover:text-red-600"
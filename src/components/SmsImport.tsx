@@ -0,0 +1,118 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageSquare } from "lucide-react";
+import { toast } from "sonner";
+import { authFetch } from "@/lib/api-client";
+import type { SmsIngestResult } from "@/lib/sms-ingestion";
+
+interface SmsImportProps {
+  onImported?: () => void;
+}
+
+const formatAmount = (amount: number) => `${amount > 0 ? "+" : "-"}₹${Math.abs(amount).toLocaleString()}`;
+
+export default function SmsImport({ onImported }: SmsImportProps) {
+  const [text, setText] = useState("");
+  const [results, setResults] = useState<SmsIngestResult[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const send = async (preview: boolean) => {
+    setBusy(true);
+    try {
+      const res = await authFetch("/api/sms", {
+        method: "POST",
+        body: JSON.stringify({ text, preview }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to read the messages");
+        return;
+      }
+      if (preview) {
+        setResults(json.data);
+        return;
+      }
+      toast.success(`Added ${json.count} transaction${json.count === 1 ? "" : "s"} from SMS`);
+      setResults(null);
+      setText("");
+      onImported?.();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const newCount = results ? results.filter((result) => result.sms && !result.duplicate).length : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <MessageSquare className="w-4 h-4" />
+          Add from bank SMS
+        </CardTitle>
+        <CardDescription>
+          Paste debit and credit alerts from your bank, one message per paragraph.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          rows={5}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setResults(null);
+          }}
+          placeholder="Rs.450.00 debited from A/c XX4532 on 14-01-25 to VPA swiggy@axis (UPI Ref No 401234567890)"
+        />
+
+        {results && (
+          <div className="divide-y border rounded-lg text-sm">
+            {results.map((result) => (
+              <div key={result.index} className="flex items-center justify-between gap-3 px-3 py-2">
+                {result.sms ? (
+                  <>
+                    <div className="min-w-0">
+                      <p className="truncate">{result.sms.counterparty || result.sms.vpa || result.sms.description}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {result.sms.date}
+                        {result.sms.bank ? ` • ${result.sms.bank}` : ""}
+                        {result.sms.accountLast4 ? ` • A/c ••${result.sms.accountLast4}` : ""}
+                        {result.accountId === null ? " • no matching account" : ""}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      {result.duplicate && <Badge variant="outline">Already added</Badge>}
+                      <span className={result.sms.amount > 0 ? "text-green-600" : "text-red-600"}>
+                        {formatAmount(result.sms.amount)}
+                      </span>
+                    </div>
+                  </>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Message {result.index + 1}: {result.error}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => send(true)} disabled={busy || !text.trim()}>
+            Read messages
+          </Button>
+          {results && (
+            <Button onClick={() => send(false)} disabled={busy || newCount === 0}>
+              Add {newCount} transaction{newCount === 1 ? "" : "s"}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
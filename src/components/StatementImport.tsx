@@ -0,0 +1,373 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { authFetch } from "@/lib/api-client";
+import type { BankPreset, ColumnMapping, DateFormat, StatementRowError } from "@/lib/csv-import";
+import type { FileStatementPreview, FileStatementResult, ImportPreviewRow, ImportSummary } from "@/lib/statement-import";
+
+interface StatementImportProps {
+  onImported?: () => void;
+}
+
+// One statement's worth of preview; OFX and QIF files can hold several accounts
+interface PreviewSection {
+  title: string;
+  rows: ImportPreviewRow[];
+  errors: StatementRowError[];
+  summary: ImportSummary;
+}
+
+type FileKind = "csv" | "ofx" | "qif" | "pdf";
+
+const fileKind = (name: string): FileKind =>
+  /\.(ofx|qfx)$/i.test(name) ? "ofx" : /\.qif$/i.test(name) ? "qif" : /\.pdf$/i.test(name) ? "pdf" : "csv";
+
+// PDFs travel to the import endpoint as base64; the other formats as text
+const readFile = (file: File) =>
+  fileKind(file.name) !== "pdf"
+    ? file.text()
+    : new Promise<string>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve(String(reader.result).split(",")[1] || "");
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(file);
+      });
+
+const AUTO = "auto";
+const CUSTOM = "custom";
+const NOT_MAPPED = "none";
+
+// Columns the user can point at a header, in the order the form shows them
+const MAPPING_FIELDS: Array<{ key: Exclude<keyof ColumnMapping, "dateFormat">; label: string; required?: boolean }> = [
+  { key: "date", label: "Date", required: true },
+  { key: "description", label: "Description", required: true },
+  { key: "amount", label: "Amount (signed)" },
+  { key: "type", label: "Dr/Cr" },
+  { key: "debit", label: "Debit" },
+  { key: "credit", label: "Credit" },
+  { key: "reference", label: "Reference" },
+  { key: "balance", label: "Balance" },
+];
+
+const formatAmount = (amount: number) => `${amount > 0 ? "+" : "-"}₹${Math.abs(amount).toLocaleString()}`;
+
+export default function StatementImport({ onImported }: StatementImportProps) {
+  const [presets, setPresets] = useState<BankPreset[]>([]);
+  const [dateFormats, setDateFormats] = useState<DateFormat[]>([]);
+  const [fileName, setFileName] = useState("");
+  const [content, setContent] = useState("");
+  const [presetId, setPresetId] = useState(AUTO);
+  const [mapping, setMapping] = useState<ColumnMapping>({ date: "", description: "", dateFormat: "DD/MM/YYYY" });
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [password, setPassword] = useState("");
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [sections, setSections] = useState<PreviewSection[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    authFetch("/api/imports/csv")
+      .then((res) => res.json())
+      .then((json) => {
+        if (json.success) {
+          setPresets(json.data.presets);
+          setDateFormats(json.data.dateFormats);
+        }
+      })
+      .catch(() => {});
+  }, []);
+
+  const kind = fileKind(fileName);
+  const newCount = sections ? sections.reduce((sum, section) => sum + section.summary.new, 0) : 0;
+
+  // Bank presets and column mappings only apply to CSVs; OFX and QIF describe their own layout,
+  // and a PDF's bank is detected from its first page
+  const requestBody = (text: string, name: string, selected: string) =>
+    fileKind(name) === "pdf"
+      ? { content: text, ...(password ? { password } : {}) }
+      : fileKind(name) !== "csv"
+        ? { content: text }
+        : { content: text, ...(selected === CUSTOM ? { mapping } : selected === AUTO ? {} : { preset: selected }) };
+
+  const loadPreview = async (text: string, name: string, selected: string) => {
+    setBusy(true);
+    try {
+      const res = await authFetch(`/api/imports/${fileKind(name)}`, {
+        method: "POST",
+        body: JSON.stringify(requestBody(text, name, selected)),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        // The bank was not recognised: fall back to mapping the columns by hand
+        if (json.data?.headers) {
+          setHeaders(json.data.headers);
+          setPresetId(CUSTOM);
+        }
+        // A locked statement PDF: ask for its password
+        if (json.data?.passwordRequired) {
+          setNeedsPassword(true);
+        }
+        setSections(null);
+        toast.error(json.error || "Failed to read the statement");
+        return;
+      }
+      setNeedsPassword(false);
+      if (fileKind(name) === "csv") {
+        setSections([{ title: name, rows: json.data.rows, errors: json.data.errors, summary: json.data.summary }]);
+        setHeaders(json.data.headers);
+        setMapping(json.data.mapping);
+      } else {
+        setSections(
+          (json.data as FileStatementPreview[]).map((statement) => ({
+            title:
+              (statement.account.accountName || statement.account.accountNumber || name) +
+              (statement.accountId === null && (statement.account.accountName || statement.account.accountNumber)
+                ? " (new account)"
+                : ""),
+            rows: statement.rows,
+            errors: statement.errors,
+            summary: statement.summary,
+          }))
+        );
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await readFile(file);
+    setPassword("");
+    setNeedsPassword(false);
+    setFileName(file.name);
+    setContent(text);
+    await loadPreview(text, file.name, presetId === CUSTOM ? AUTO : presetId);
+  };
+
+  const handlePresetChange = (value: string) => {
+    setPresetId(value);
+    if (content && value !== CUSTOM) loadPreview(content, fileName, value);
+  };
+
+  const handleImport = async () => {
+    setBusy(true);
+    try {
+      const res = await authFetch(`/api/imports/${kind}`, {
+        method: "POST",
+        body: JSON.stringify({ ...requestBody(content, fileName, presetId), commit: true }),
+      });
+      const json = await res.json();
+      if (!json.success) {
+        toast.error(json.error || "Failed to import the statement");
+        return;
+      }
+      const duplicates = kind === "csv"
+        ? json.duplicates
+        : (json.data as FileStatementResult[]).reduce((sum, result) => sum + result.duplicates, 0);
+      toast.success(
+        `Imported ${json.count} transaction${json.count === 1 ? "" : "s"}` +
+          (duplicates ? `; skipped ${duplicates} already imported` : "")
+      );
+      setSections(null);
+      setContent("");
+      setFileName("");
+      setPassword("");
+      onImported?.();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Upload className="w-4 h-4" />
+          Import a bank statement
+        </CardTitle>
+        <CardDescription>
+          Upload the CSV or PDF statement your bank provides, or an OFX, QFX or QIF file from another money app.
+          Transactions you already have are skipped.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="statement-file">Statement file</Label>
+            <Input
+              id="statement-file"
+              type="file"
+              accept=".csv,.txt,.ofx,.qfx,.qif,.pdf,text/csv,application/pdf"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+              disabled={busy}
+            />
+          </div>
+          {kind === "csv" && (
+            <div className="space-y-1">
+              <Label>Bank</Label>
+              <Select value={presetId} onValueChange={handlePresetChange} disabled={busy}>
+                <SelectTrigger className="w-[200px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={AUTO}>Detect automatically</SelectItem>
+                  {presets.map((preset) => (
+                    <SelectItem key={preset.id} value={preset.id}>
+                      {preset.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={CUSTOM}>Other (map columns)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {kind === "pdf" && needsPassword && content && (
+          <div className="flex flex-wrap items-end gap-3 p-3 bg-muted rounded-lg">
+            <div className="space-y-1">
+              <Label htmlFor="statement-password">PDF password</Label>
+              <Input
+                id="statement-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Often your name and date of birth"
+              />
+            </div>
+            <Button size="sm" onClick={() => loadPreview(content, fileName, presetId)} disabled={busy || !password}>
+              Unlock
+            </Button>
+          </div>
+        )}
+
+        {kind === "csv" && presetId === CUSTOM && content && (
+          <div className="space-y-3 p-3 bg-muted rounded-lg">
+            <p className="text-sm font-medium">Which column holds what?</p>
+            <p className="text-xs text-muted-foreground">
+              Map either one signed amount column or separate debit and credit columns.
+            </p>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {MAPPING_FIELDS.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label className="text-xs">{field.label}{field.required ? " *" : ""}</Label>
+                  <Select
+                    value={mapping[field.key] || NOT_MAPPED}
+                    onValueChange={(value) =>
+                      setMapping((current) => ({ ...current, [field.key]: value === NOT_MAPPED ? undefined : value }))
+                    }
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                      {headers.filter(Boolean).map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+              <div className="space-y-1">
+                <Label className="text-xs">Date format *</Label>
+                <Select
+                  value={mapping.dateFormat}
+                  onValueChange={(value) => setMapping((current) => ({ ...current, dateFormat: value as DateFormat }))}
+                >
+                  <SelectTrigger className="h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {dateFormats.map((format) => (
+                      <SelectItem key={format} value={format}>
+                        {format}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <Button
+              size="sm"
+              onClick={() => loadPreview(content, fileName, CUSTOM)}
+              disabled={busy || !mapping.date || !mapping.description}
+            >
+              Preview
+            </Button>
+          </div>
+        )}
+
+        {sections && (
+          <div className="space-y-3">
+            {sections.map((section, index) => (
+              <div key={`${index}-${section.title}`} className="space-y-3">
+                <div className="flex flex-wrap gap-2 text-sm">
+                  <span className="font-medium">{section.title}</span>
+                  <Badge variant="secondary">{section.summary.new} new</Badge>
+                  {section.summary.duplicates > 0 && (
+                    <Badge variant="outline">{section.summary.duplicates} already imported</Badge>
+                  )}
+                  {section.summary.failed > 0 && (
+                    <Badge variant="destructive">{section.summary.failed} unreadable</Badge>
+                  )}
+                </div>
+
+                <ScrollArea className="h-[300px] border rounded-lg">
+                  <div className="divide-y text-sm">
+                    {section.rows.map((row) => (
+                      <div
+                        key={row.line}
+                        className={`flex items-center justify-between gap-3 px-3 py-2 ${row.duplicate ? "opacity-50" : ""}`}
+                      >
+                        <div className="min-w-0">
+                          <p className="truncate">{row.merchantName || row.description}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {row.date} • {row.category}
+                            {row.duplicate ? " • Already imported" : ""}
+                          </p>
+                        </div>
+                        <span className={row.amount > 0 ? "text-green-600" : "text-red-600"}>
+                          {formatAmount(row.amount)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </ScrollArea>
+
+                {section.errors.length > 0 && (
+                  <div className="space-y-1 p-3 border border-amber-200 bg-amber-50 dark:bg-amber-950/20 rounded-lg text-sm">
+                    <p className="font-medium flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4" />
+                      These rows could not be read and will not be imported
+                    </p>
+                    {section.errors.map((error) => (
+                      <p key={`${error.line}-${error.error}`} className="text-xs text-muted-foreground">
+                        Line {error.line}: {error.error}{error.raw ? ` — ${error.raw}` : ""}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+
+            <Button onClick={handleImport} disabled={busy || newCount === 0}>
+              Import {newCount} transaction{newCount === 1 ? "" : "s"}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Undo2, Unlink } from "lucide-react";
+import { toast } from "sonner";
+import { authFetch } from "@/lib/api-client";
+import type { ApiTransaction } from "@/lib/transactions";
+import type { RefundLinks } from "@/lib/refunds";
+
+type TransactionDetail = ApiTransaction & RefundLinks;
+
+interface TransactionDetailDialogProps {
+  transactionId: number | null;
+  onClose: () => void;
+  onChange?: () => void;
+}
+
+const formatAmount = (amount: number) => `${amount > 0 ? "+" : "-"}₹${Math.abs(amount).toLocaleString()}`;
+
+export default function TransactionDetailDialog({ transactionId, onClose, onChange }: TransactionDetailDialogProps) {
+  // Following a refund link re-opens the dialog on the linked transaction
+  const [currentId, setCurrentId] = useState<number | null>(transactionId);
+  const [detail, setDetail] = useState<TransactionDetail | null>(null);
+
+  useEffect(() => {
+    setCurrentId(transactionId);
+  }, [transactionId]);
+
+  const load = async (id: number) => {
+    const res = await authFetch(`/api/transactions?id=${id}`);
+    const json = await res.json();
+    if (json.success) {
+      setDetail(json.data);
+    } else {
+      toast.error(json.error || "Failed to load transaction");
+    }
+  };
+
+  useEffect(() => {
+    setDetail(null);
+    if (currentId !== null) load(currentId);
+  }, [currentId]);
+
+  const handleUnlinkRefund = async (refundId: number) => {
+    const res = await authFetch(`/api/refunds?transactionId=${refundId}`, { method: "DELETE" });
+    const json = await res.json();
+    if (!json.success) {
+      toast.error(json.error || "Failed to unlink refund");
+      return;
+    }
+    toast.success("Refund unlinked; it counts as income again");
+    if (currentId !== null) load(currentId);
+    onChange?.();
+  };
+
+  const refunded = detail ? detail.refunds.reduce((sum, refund) => sum + refund.amount, 0) : 0;
+
+  return (
+    <Dialog open={transactionId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{detail?.merchantName || detail?.description || "Transaction"}</DialogTitle>
+          <DialogDescription>{detail ? detail.description : "Loading..."}</DialogDescription>
+        </DialogHeader>
+        {detail && (
+          <div className="space-y-4 text-sm">
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">{detail.date}</span>
+              <span className={`text-lg font-semibold ${detail.amount > 0 ? "text-green-600" : "text-red-600"}`}>
+                {formatAmount(detail.amount)}
+              </span>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {detail.category && <Badge variant="secondary">{detail.category}</Badge>}
+              {detail.categoryPinned && <Badge variant="outline">Pinned</Badge>}
+              {detail.isTransfer && <Badge variant="outline">Transfer between your accounts</Badge>}
+              {detail.refundOfId !== null && <Badge variant="outline">Refund</Badge>}
+            </div>
+
+            {detail.splits.length > 0 && (
+              <div className="space-y-1">
+                <p className="font-medium">Split</p>
+                {detail.splits.map((split) => (
+                  <div key={split.id} className="flex justify-between text-muted-foreground">
+                    <span>{split.category}{split.note ? ` — ${split.note}` : ""}</span>
+                    <span>{formatAmount(split.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {detail.refundOf && (
+              <div className="p-3 bg-muted rounded-lg space-y-2">
+                <p className="font-medium flex items-center gap-2">
+                  <Undo2 className="w-4 h-4" />
+                  Refund of
+                </p>
+                <button
+                  type="button"
+                  className="flex w-full justify-between text-left hover:underline"
+                  onClick={() => setCurrentId(detail.refundOf!.id)}
+                >
+                  <span>{detail.refundOf.description} • {detail.refundOf.date}</span>
+                  <span>{formatAmount(detail.refundOf.amount)}</span>
+                </button>
+                <p className="text-xs text-muted-foreground">
+                  Counted against {detail.refundOf.category || "the purchase's category"}, not as income.
+                </p>
+                <Button variant="ghost" size="sm" onClick={() => handleUnlinkRefund(detail.id)}>
+                  <Unlink className="w-4 h-4 mr-1" />
+                  Not a refund of this
+                </Button>
+              </div>
+            )}
+
+            {detail.refunds.length > 0 && (
+              <div className="p-3 bg-muted rounded-lg space-y-2">
+                <p className="font-medium flex items-center gap-2">
+                  <Undo2 className="w-4 h-4" />
+                  Refunded ₹{refunded.toLocaleString()} of ₹{Math.abs(detail.amount).toLocaleString()}
+                </p>
+                {detail.refunds.map((refund) => (
+                  <div key={refund.id} className="flex items-center justify-between gap-2">
+                    <button
+                      type="button"
+                      className="flex flex-1 justify-between text-left hover:underline"
+                      onClick={() => setCurrentId(refund.id)}
+                    >
+                      <span>{refund.description} • {refund.date}</span>
+                      <span>{formatAmount(refund.amount)}</span>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      title="Unlink refund"
+                      onClick={() => handleUnlinkRefund(refund.id)}
+                    >
+                      <Unlink className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,186 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pin, PinOff } from "lucide-react";
+import { toast } from "sonner";
+import { authFetch } from "@/lib/api-client";
+import TransactionDetailDialog from "@/components/TransactionDetailDialog";
+import type { ApiTransaction } from "@/lib/transactions";
+
+interface Category {
+  id: number;
+  name: string;
+  icon: string;
+  children?: Category[];
+}
+
+interface TransactionListProps {
+  // Bumped by the parent to reload the list, e.g. after a re-categorization is applied
+  refreshKey?: number;
+  onCategoryChange?: () => void;
+}
+
+export default function TransactionList({ refreshKey = 0, onCategoryChange }: TransactionListProps) {
+  const [transactions, setTransactions] = useState<ApiTransaction[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [detailId, setDetailId] = useState<number | null>(null);
+
+  const loadPage = async (cursor?: string) => {
+    const res = await authFetch(`/api/transactions?limit=50${cursor ? `&cursor=${cursor}` : ""}`);
+    const json = await res.json();
+    if (json.success) {
+      setTransactions((current) => (cursor ? [...current, ...json.data] : json.data));
+      setNextCursor(json.nextCursor);
+    } else {
+      toast.error(json.error || "Failed to load transactions");
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadPage();
+  }, [refreshKey]);
+
+  useEffect(() => {
+    // Flattened tree so each subcategory is listed right under its parent
+    fetch("/api/transaction-categories?tree=true")
+      .then((res) => res.json())
+      .then((data: Category[]) =>
+        Array.isArray(data) &&
+        setCategories(
+          data.flatMap(({ children = [], ...parent }) => [
+            parent,
+            ...children.map((child) => ({ ...child, name: `${parent.name} › ${child.name}` })),
+          ])
+        )
+      )
+      .catch(() => {});
+  }, []);
+
+  // Changing a category also teaches a rule for similar payments
+  const handleRecategorize = async (transaction: ApiTransaction, categoryId: string) => {
+    const res = await authFetch(`/api/transactions?id=${transaction.id}`, {
+      method: "PUT",
+      body: JSON.stringify({ categoryId: parseInt(categoryId) }),
+    });
+    const json = await res.json();
+    if (!json.success) {
+      toast.error(json.error || "Failed to update category");
+      return;
+    }
+
+    setTransactions((current) => current.map((t) => (t.id === transaction.id ? json.data : t)));
+    const rule = json.learnedRule;
+    if (rule) {
+      const pattern = rule.merchantPattern || rule.descriptionPattern;
+      toast.success(`Future "${pattern}" payments will go to ${json.data.category}`);
+      onCategoryChange?.();
+    }
+  };
+
+  // Pinned transactions keep their category when rules are re-applied to history
+  const handleTogglePin = async (transaction: ApiTransaction) => {
+    const res = await authFetch(`/api/transactions?id=${transaction.id}`, {
+      method: "PUT",
+      body: JSON.stringify({ categoryPinned: !transaction.categoryPinned }),
+    });
+    const json = await res.json();
+    if (!json.success) {
+      toast.error(json.error || "Failed to update transaction");
+      return;
+    }
+    setTransactions((current) => current.map((t) => (t.id === transaction.id ? json.data : t)));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Recent Transactions</CardTitle>
+        <CardDescription>Your latest financial activity. Change a category and FinPal will remember it.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading && <p className="text-sm text-muted-foreground">Loading transactions...</p>}
+        {!loading && transactions.length === 0 && (
+          <p className="text-sm text-muted-foreground">No transactions yet.</p>
+        )}
+        <ScrollArea className="h-[600px]">
+          <div className="space-y-3">
+            {transactions.map((transaction) => {
+              const isIncome = transaction.amount > 0;
+
+              return (
+                <div
+                  key={transaction.id}
+                  className="flex items-center justify-between gap-4 p-4 border rounded-lg hover:bg-muted/50 transition-colors"
+                >
+                  <button
+                    type="button"
+                    className="min-w-0 text-left"
+                    onClick={() => setDetailId(transaction.id)}
+                  >
+                    <p className="font-medium truncate">{transaction.description}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {[
+                        transaction.merchantName,
+                        transaction.date,
+                        transaction.refundOfId !== null && "Refund",
+                        transaction.isTransfer && "Transfer",
+                      ].filter(Boolean).join(" • ")}
+                    </p>
+                  </button>
+                  <div className="flex items-center gap-3 shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      title={transaction.categoryPinned ? "Category pinned — rules won't change it" : "Pin category"}
+                      onClick={() => handleTogglePin(transaction)}
+                    >
+                      {transaction.categoryPinned ? <Pin className="w-4 h-4" /> : <PinOff className="w-4 h-4 text-muted-foreground" />}
+                    </Button>
+                    <Select
+                      value={String(transaction.categoryId)}
+                      onValueChange={(value) => handleRecategorize(transaction, value)}
+                    >
+                      <SelectTrigger className="w-[170px] h-8 text-xs">
+                        <SelectValue placeholder={transaction.category || "Category"} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {categories.map((category) => (
+                          <SelectItem key={category.id} value={String(category.id)}>
+                            {category.icon} {category.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className={`font-semibold w-24 text-right ${isIncome ? "text-green-600" : "text-red-600"}`}>
+                      {isIncome ? "+" : "-"}₹{Math.abs(transaction.amount).toLocaleString()}
+                    </p>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+          {nextCursor && (
+            <div className="flex justify-center pt-4">
+              <Button variant="outline" onClick={() => loadPage(nextCursor)}>
+                Load more
+              </Button>
+            </div>
+          )}
+        </ScrollArea>
+        <TransactionDetailDialog
+          transactionId={detailId}
+          onClose={() => setDetailId(null)}
+          onChange={() => loadPage()}
+        />
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CalendarDays, Receipt, Wallet } from "lucide-react";
+import { authFetch } from "@/lib/api-client";
+import type { CashFlowCalendar, CashFlowCalendarDay } from "@/lib/cashflow";
+
+// Calendar dates are local; the API speaks YYYY-MM-DD
+function parseDate(date: string): Date {
+  const [year, month, day] = date.split("-").map((part) => parseInt(part));
+  return new Date(year, month - 1, day);
+}
+
+function formatDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+interface UpcomingBillsCalendarProps {
+  days?: number;
+}
+
+export default function UpcomingBillsCalendar({ days = 35 }: UpcomingBillsCalendarProps) {
+  const [calendar, setCalendar] = useState<CashFlowCalendar | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Date | undefined>(undefined);
+
+  useEffect(() => {
+    authFetch(`/api/cashflow/calendar?days=${days}`)
+      .then((res) => res.json())
+      .then((json) => {
+        if (json.success) {
+          setCalendar(json.data);
+          setSelected(parseDate(json.data.asOf));
+        } else {
+          setError(json.error || "Failed to load calendar");
+        }
+      })
+      .catch(() => setError("Failed to load calendar"));
+  }, [days]);
+
+  const dayList = calendar?.days || [];
+  const byDate: Record<string, CashFlowCalendarDay> = {};
+  dayList.forEach((day) => {
+    byDate[day.date] = day;
+  });
+
+  const selectedDay = selected ? byDate[formatDate(selected)] : undefined;
+  const upcomingBills = dayList.filter((day) => day.projected && day.bills.length > 0);
+  const lowDays = dayList.filter((day) => day.projected && day.belowThreshold).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5" />
+          Upcoming Bills
+        </CardTitle>
+        <CardDescription>
+          Expected bills, income and end-of-day balance for the month ahead
+          {calendar && lowDays > 0 && ` · ${lowDays} day${lowDays === 1 ? "" : "s"} below ₹${calendar.safetyThreshold.toLocaleString()}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-muted-foreground">{error}</p>}
+        {!error && !calendar && <p className="text-sm text-muted-foreground">Loading calendar...</p>}
+        {calendar && (
+          <div className="grid gap-6 lg:grid-cols-[auto_1fr]">
+            <div className="space-y-3">
+              <Calendar
+                mode="single"
+                selected={selected}
+                onSelect={setSelected}
+                numberOfMonths={2}
+                defaultMonth={parseDate(calendar.days[0]?.date || calendar.asOf)}
+                modifiers={{
+                  belowThreshold: dayList.filter((day) => day.belowThreshold).map((day) => parseDate(day.date)),
+                  hasBill: upcomingBills.map((day) => parseDate(day.date)),
+                  hasIncome: dayList.filter((day) => day.expectedIncome.length > 0).map((day) => parseDate(day.date)),
+                }}
+                modifiersClassNames={{
+                  belowThreshold: "bg-red-100 dark:bg-red-950 rounded-md",
+                  hasBill: "font-semibold underline decoration-orange-500",
+                  hasIncome: "font-semibold underline decoration-green-500",
+                }}
+                className="rounded-md border"
+              />
+              <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+                <span className="flex items-center gap-1"><span className="w-3 h-3 rounded-sm bg-red-100 dark:bg-red-950" /> Below threshold</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-orange-500" /> Bill due</span>
+                <span className="flex items-center gap-1"><span className="w-3 h-0.5 bg-green-500" /> Expected income</span>
+              </div>
+            </div>
+
+            <div className="space-y-4">
+              {!selectedDay && (
+                <p className="text-sm text-muted-foreground">Pick a day in the calendar to see its details.</p>
+              )}
+              {selectedDay && (
+                <>
+                  <div className={`p-4 rounded-lg ${selectedDay.belowThreshold ? "bg-red-50 dark:bg-red-950/50" : "bg-muted"}`}>
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium">{parseDate(selectedDay.date).toDateString()}</p>
+                      <Badge variant={selectedDay.projected ? "secondary" : "outline"}>
+                        {selectedDay.projected ? "Projected" : "Actual"}
+                      </Badge>
+                    </div>
+                    <p className="text-2xl font-bold mt-2">₹{selectedDay.balance.toLocaleString()}</p>
+                    <p className="text-xs text-muted-foreground">
+                      End-of-day balance · +₹{selectedDay.income.toLocaleString()} in · -₹{selectedDay.expenses.toLocaleString()} out
+                    </p>
+                  </div>
+
+                  {selectedDay.expectedIncome.map((payout) => (
+                    <div key={payout.payer} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex items-center gap-2">
+                        <Wallet className="w-4 h-4 text-green-600" />
+                        <div>
+                          <p className="text-sm font-medium">{payout.payer}</p>
+                          <p className="text-xs text-muted-foreground">Expected income</p>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-sm font-semibold text-green-600">+₹{payout.amount.toLocaleString()}</p>
+                        <p className="text-xs text-muted-foreground">{Math.round(payout.reliability * 100)}% reliable</p>
+                      </div>
+                    </div>
+                  ))}
+
+                  {selectedDay.bills.map((bill) => (
+                    <div key={bill.description} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div className="flex items-center gap-2">
+                        <Receipt className="w-4 h-4 text-orange-500" />
+                        <div>
+                          <p className="text-sm font-medium capitalize">{bill.description}</p>
+                          <p className="text-xs text-muted-foreground">{[bill.category, bill.cadence].filter(Boolean).join(" · ")}</p>
+                        </div>
+                      </div>
+                      <p className="text-sm font-semibold text-red-600">-₹{bill.amount.toLocaleString()}</p>
+                    </div>
+                  ))}
+
+                  {selectedDay.transactions.map((transaction, index) => (
+                    <div key={index} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <p className="text-sm font-medium">{transaction.description}</p>
+                        {transaction.category && <p className="text-xs text-muted-foreground">{transaction.category}</p>}
+                      </div>
+                      <p className={`text-sm font-semibold ${transaction.amount > 0 ? "text-green-600" : "text-red-600"}`}>
+                        {transaction.amount > 0 ? "+" : "-"}₹{Math.abs(transaction.amount).toLocaleString()}
+                      </p>
+                    </div>
+                  ))}
+
+                  {selectedDay.bills.length === 0 && selectedDay.expectedIncome.length === 0 && selectedDay.transactions.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      {selectedDay.projected ? "No bills or income expected; balance follows your usual daily spending." : "No recorded transactions."}
+                    </p>
+                  )}
+                </>
+              )}
+              {!selectedDay && upcomingBills.length === 0 && (
+                <p className="text-sm text-muted-foreground">No recurring bills detected yet.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
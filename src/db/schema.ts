@@ -1,4 +1,4 @@
-import { sqliteTable, integer, text } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, integer, text, blob, uniqueIndex, AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
 
 // Users table with comprehensive authentication fields
 export const users = sqliteTable('users', {
@@ -70,6 +70,7 @@ export const transactionCategories = sqliteTable('transaction_categories', {
   icon: text('icon').notNull(),
   color: text('color').notNull(),
   isIncome: integer('is_income', { mode: 'boolean' }).default(false),
+  parentId: integer('parent_id').references((): AnySQLiteColumn => transactionCategories.id), // null for top-level categories
 });
 
 // Transactions table
@@ -80,10 +81,19 @@ export const transactions = sqliteTable('transactions', {
   amount: integer('amount').notNull(), // stored in paise/cents
   description: text('description').notNull(),
   merchantName: text('merchant_name'),
+  merchantId: integer('merchant_id').references(() => merchants.id),
   transactionDate: text('transaction_date').notNull(),
   transactionType: text('transaction_type').notNull(), // debit/credit
   plaidTransactionId: text('plaid_transaction_id'),
+  externalId: text('external_id'), // FITID (or similar) from an imported statement file; used to skip re-imports
   isRecurring: integer('is_recurring', { mode: 'boolean' }).default(false),
+  categoryPinned: integer('category_pinned', { mode: 'boolean' }).default(false), // user chose the category; skip re-categorization
+  accountId: integer('account_id').references(() => connectedAccounts.id), // null for manually entered transactions
+  transferPairId: integer('transfer_pair_id').references((): AnySQLiteColumn => transactions.id), // other leg of an internal transfer
+  transferDismissed: integer('transfer_dismissed', { mode: 'boolean' }).default(false), // user unlinked a matched pair; never re-matched
+  refundOfId: integer('refund_of_id').references((): AnySQLiteColumn => transactions.id), // purchase this credit refunds
+  refundDismissed: integer('refund_dismissed', { mode: 'boolean' }).default(false), // user unlinked a matched refund; never re-matched
+  pending: integer('pending', { mode: 'boolean' }).default(false), // not posted by the bank yet; updated in place when it posts
   createdAt: text('created_at').notNull(),
 });
 
@@ -116,11 +126,19 @@ export const connectedAccounts = sqliteTable('connected_accounts', {
   userId: integer('user_id').notNull().references(() => users.id),
   plaidAccessToken: text('plaid_access_token').notNull(), // encrypted
   plaidItemId: text('plaid_item_id').notNull(),
+  aggregator: text('aggregator'), // plaid/fake; null for manually added and statement-file accounts
+  aggregatorAccountId: text('aggregator_account_id'), // the aggregator's id for this account within the item
   institutionName: text('institution_name').notNull(),
   accountName: text('account_name').notNull(),
   accountType: text('account_type').notNull(),
   accountNumberLast4: text('account_number_last_4'),
+  currentBalance: integer('current_balance'), // stored in paise/cents
+  balanceUpdatedAt: text('balance_updated_at'),
   isPrimary: integer('is_primary', { mode: 'boolean' }).default(false),
+  syncCursor: text('sync_cursor'), // aggregator's transaction sync cursor; the same on every account of an item
+  syncStatus: text('sync_status'), // syncing/ok/error/login_required; null until the first sync
+  syncError: text('sync_error'),
+  lastSyncedAt: text('last_synced_at'), // last successful sync
   createdAt: text('created_at').notNull(),
   updatedAt: text('updated_at').notNull(),
 });
@@ -139,6 +157,123 @@ export const userPreferences = sqliteTable('user_preferences', {
   updatedAt: text('updated_at').notNull(),
 });
 
+// Saved what-if cash flow scenarios
+export const cashflowScenarios = sqliteTable('cashflow_scenarios', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  name: text('name').notNull(),
+  adjustments: text('adjustments', { mode: 'json' }).notNull(), // json array of scenario adjustments
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// Recurring bills and subscriptions detected from history or confirmed by the user
+export const recurringSeries = sqliteTable('recurring_series', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  merchantKey: text('merchant_key').notNull(), // lowercased merchant name (or description) used for matching
+  merchant: text('merchant').notNull(), // display name
+  category: text('category'),
+  cadence: text('cadence').notNull(), // weekly/biweekly/monthly/quarterly/annual
+  expectedAmount: integer('expected_amount').notNull(), // stored in paise/cents
+  amountMin: integer('amount_min').notNull(), // stored in paise/cents
+  amountMax: integer('amount_max').notNull(), // stored in paise/cents
+  lastSeenDate: text('last_seen_date'),
+  nextDueDate: text('next_due_date').notNull(),
+  transactionIds: text('transaction_ids', { mode: 'json' }).notNull(), // json array of linked transaction ids
+  status: text('status').notNull().default('detected'), // detected/confirmed/paused/dismissed
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// Per-user categorization rules, created by hand or learned from re-categorizations
+export const categorizationRules = sqliteTable('categorization_rules', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  categoryId: integer('category_id').notNull().references(() => transactionCategories.id),
+  merchantPattern: text('merchant_pattern'),
+  descriptionPattern: text('description_pattern'),
+  matchType: text('match_type').notNull().default('contains'), // contains/exact/regex
+  amountMin: integer('amount_min'), // stored in paise/cents, absolute
+  amountMax: integer('amount_max'), // stored in paise/cents, absolute
+  priority: integer('priority').notNull().default(0),
+  hitCount: integer('hit_count').notNull().default(0), // corrections that confirmed this rule
+  source: text('source').notNull().default('manual'), // manual/learned
+  isActive: integer('is_active', { mode: 'boolean' }).default(true),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// Re-categorization previews awaiting the user's approval
+export const recategorizationJobs = sqliteTable('recategorization_jobs', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  trigger: text('trigger').notNull(), // rule_created/rule_updated/rule_deleted/rule_learned/category_changed/manual
+  status: text('status').notNull().default('pending'), // pending/applied/discarded/superseded
+  changes: text('changes', { mode: 'json' }).notNull(), // json array of { transactionId, fromCategoryId, toCategoryId, ruleId }
+  appliedCount: integer('applied_count'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
+
+// AI categorization answers, cached by provider, direction, normalized merchant and description
+export const categorizationCache = sqliteTable('categorization_cache', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  cacheKey: text('cache_key').notNull().unique(),
+  provider: text('provider').notNull(), // gemini/stub
+  categoryId: integer('category_id').notNull().references(() => transactionCategories.id),
+  confidence: integer('confidence').notNull(), // 0-100
+  createdAt: text('created_at').notNull(),
+});
+
+// Canonical merchants in a user's directory, resolved from raw narrations through merchant_aliases
+export const merchants = sqliteTable('merchants', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  name: text('name').notNull(),
+  merchantKey: text('merchant_key').notNull(), // normalized name, unique per user
+  defaultCategoryId: integer('default_category_id').references(() => transactionCategories.id),
+  icon: text('icon'), // emoji or logo URL
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+}, (table) => [uniqueIndex('merchants_user_key_unique').on(table.userId, table.merchantKey)]);
+
+// Cleaned narration strings that resolve to a merchant
+export const merchantAliases = sqliteTable('merchant_aliases', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  merchantId: integer('merchant_id').notNull().references(() => merchants.id),
+  alias: text('alias').notNull(), // e.g. "swiggy" from "UPI/DR/4123/SWIGGY BANGALORE/okaxis"
+  createdAt: text('created_at').notNull(),
+}, (table) => [uniqueIndex('merchant_aliases_user_alias_unique').on(table.userId, table.alias)]);
+
+// Allocations of one transaction across several categories; they add up to the parent amount
+export const transactionSplits = sqliteTable('transaction_splits', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  transactionId: integer('transaction_id').notNull().references(() => transactions.id),
+  userId: integer('user_id').notNull().references(() => users.id),
+  categoryId: integer('category_id').notNull().references(() => transactionCategories.id),
+  amount: integer('amount').notNull(), // paise, same direction as the parent transaction
+  note: text('note'),
+  createdAt: text('created_at').notNull(),
+});
+
+// Full data exports; large ones are built in the background and downloaded until they expire
+export const dataExports = sqliteTable('data_exports', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  userId: integer('user_id').notNull().references(() => users.id),
+  format: text('format').notNull(), // csv/json/xlsx
+  status: text('status').notNull().default('pending'), // pending/ready/failed/expired
+  filters: text('filters', { mode: 'json' }).notNull(), // json { startDate, endDate, categoryIds }
+  fileName: text('file_name'),
+  content: blob('content', { mode: 'buffer' }), // the built file; cleared once it expires
+  size: integer('size'), // bytes
+  recordCount: integer('record_count'), // transactions included
+  error: text('error'),
+  expiresAt: text('expires_at'),
+  createdAt: text('created_at').notNull(),
+  updatedAt: text('updated_at').notNull(),
+});
 
 // Auth tables for better-auth
 export const user = sqliteTable("user", {
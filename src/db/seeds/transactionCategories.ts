@@ -1,101 +1,20 @@
 import { db } from '@/db';
 import { transactionCategories } from '@/db/schema';
+import { DEFAULT_CATEGORIES, DEFAULT_SUBCATEGORIES } from '@/lib/category-taxonomy';
 
 async function main() {
-    const sampleCategories = [
-        {
-            name: 'Income',
-            icon: '💰',
-            color: '#10B981',
-            isIncome: true,
-        },
-        {
-            name: 'Salary',
-            icon: '💵',
-            color: '#059669',
-            isIncome: true,
-        },
-        {
-            name: 'Food & Dining',
-            icon: '🍽️',
-            color: '#F59E0B',
-            isIncome: false,
-        },
-        {
-            name: 'Groceries',
-            icon: '🛒',
-            color: '#84CC16',
-            isIncome: false,
-        },
-        {
-            name: 'Transport',
-            icon: '🚗',
-            color: '#3B82F6',
-            isIncome: false,
-        },
-        {
-            name: 'Shopping',
-            icon: '🛍️',
-            color: '#EC4899',
-            isIncome: false,
-        },
-        {
-            name: 'Entertainment',
-            icon: '🎬',
-            color: '#8B5CF6',
-            isIncome: false,
-        },
-        {
-            name: 'Bills & Utilities',
-            icon: '📄',
-            color: '#EF4444',
-            isIncome: false,
-        },
-        {
-            name: 'Healthcare',
-            icon: '🏥',
-            color: '#14B8A6',
-            isIncome: false,
-        },
-        {
-            name: 'Education',
-            icon: '📚',
-            color: '#6366F1',
-            isIncome: false,
-        },
-        {
-            name: 'Travel',
-            icon: '✈️',
-            color: '#06B6D4',
-            isIncome: false,
-        },
-        {
-            name: 'Investments',
-            icon: '📈',
-            color: '#10B981',
-            isIncome: false,
-        },
-        {
-            name: 'Subscriptions',
-            icon: '📱',
-            color: '#F97316',
-            isIncome: false,
-        },
-        {
-            name: 'Personal Care',
-            icon: '💅',
-            color: '#A855F7',
-            isIncome: false,
-        },
-        {
-            name: 'Others',
-            icon: '📦',
-            color: '#6B7280',
-            isIncome: false,
-        }
-    ];
+    // The shared taxonomy, so seeded names match what the categorizers produce
+    const sampleCategories = DEFAULT_CATEGORIES.map((category) => ({ ...category }));
 
-    await db.insert(transactionCategories).values(sampleCategories);
+    const parents = await db.insert(transactionCategories).values(sampleCategories).returning();
+
+    const parentIds = new Map(parents.map((category) => [category.name, category.id]));
+    const subcategories = DEFAULT_SUBCATEGORIES.map(({ parent, ...category }) => ({
+        ...category,
+        parentId: parentIds.get(parent) ?? null,
+    }));
+
+    await db.insert(transactionCategories).values(subcategories);
     
     console.log('✅ Transaction categories seeder completed successfully');
 }
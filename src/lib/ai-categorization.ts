@@ -0,0 +1,228 @@
+// AI categorization service
+// Batches many transactions per prompt behind a provider interface, caches answers and rate-limits requests.
+// Only consulted when the rule engine's confidence is below a configurable cutoff.
+
+import { db } from '@/db';
+import { categorizationCache, transactionCategories } from '@/db/schema';
+import { and, gte, inArray, sql } from 'drizzle-orm';
+import { categorizeTransaction } from '@/lib/categorization';
+import { FALLBACK_CATEGORY } from '@/lib/category-taxonomy';
+import { AICategorySuggestion, CategoryOption, categorizeTransactionsWithAI } from '@/lib/gemini';
+import { merchantKey, normalizeMerchant } from '@/lib/merchant-normalization';
+
+type CategoryRow = typeof transactionCategories.$inferSelect;
+
+export interface CategorizationItem {
+  description: string;
+  amount: number; // signed rupees
+  merchantName?: string | null;
+}
+
+export interface CategorizationProvider {
+  name: string;
+  maxBatchSize: number; // transactions per request
+  rateLimited: boolean;
+  // Answers aligned with the items; null where the provider had no usable answer
+  categorizeBatch(items: CategorizationItem[], categories: CategoryOption[]): Promise<Array<AICategorySuggestion | null>>;
+}
+
+const DEFAULT_CUTOFF = 0.5;
+const DEFAULT_REQUESTS_PER_MINUTE = 15;
+const CACHE_TTL_DAYS = 30;
+const CACHE_LOOKUP_CHUNK = 500; // stays under SQLite's bound-parameter limit
+
+// Longest an HTTP request waits for a rate-limit slot; background work waits as long as it takes
+export const REQUEST_MAX_WAIT_MS = 2_000;
+
+export const geminiProvider: CategorizationProvider = {
+  name: 'gemini',
+  maxBatchSize: 50,
+  rateLimited: true,
+  categorizeBatch: (items, categories) => categorizeTransactionsWithAI(items, categories),
+};
+
+// Deterministic local provider: the keyword engine mapped onto the given categories.
+// Needs no key and no network, so development and tests behave the same every run.
+export const stubProvider: CategorizationProvider = {
+  name: 'stub',
+  maxBatchSize: 500,
+  rateLimited: false,
+  async categorizeBatch(items, categories) {
+    const idsByName = new Map(categories.map((c) => [c.name.toLowerCase(), c.id]));
+    const fallbackId = idsByName.get(FALLBACK_CATEGORY.toLowerCase());
+
+    return items.map((item) => {
+      const result = categorizeTransaction({
+        description: item.description,
+        amount: item.amount,
+        date: '',
+        merchantName: item.merchantName || undefined,
+      });
+      const matched = result.category ? idsByName.get(result.category.toLowerCase()) : undefined;
+      const categoryId = matched ?? fallbackId;
+      return categoryId !== undefined ? { categoryId, confidence: result.confidence } : null;
+    });
+  },
+};
+
+// AI_CATEGORIZATION_PROVIDER (gemini/stub) picks explicitly; otherwise Gemini when a key is configured
+export function getCategorizationProvider(): CategorizationProvider {
+  const configured = process.env.AI_CATEGORIZATION_PROVIDER;
+  if (configured === 'stub') return stubProvider;
+  if (configured === 'gemini' || process.env.GEMINI_API_KEY) return geminiProvider;
+  return stubProvider;
+}
+
+// Rule-based results at or above this confidence are trusted as-is (AI_CATEGORIZATION_CUTOFF, 0-1)
+export function aiCategorizationCutoff(): number {
+  const configured = parseFloat(process.env.AI_CATEGORIZATION_CUTOFF || '');
+  return isFinite(configured) && configured >= 0 && configured <= 1 ? configured : DEFAULT_CUTOFF;
+}
+
+// Sliding one-minute window shared by every request this process sends (AI_CATEGORIZATION_RPM)
+const recentRequests: number[] = [];
+
+// False when no slot frees up within maxWaitMs
+async function acquireRequestSlot(maxWaitMs: number): Promise<boolean> {
+  const configured = parseInt(process.env.AI_CATEGORIZATION_RPM || '');
+  const limit = configured > 0 ? configured : DEFAULT_REQUESTS_PER_MINUTE;
+  const deadline = Date.now() + maxWaitMs;
+
+  for (;;) {
+    const now = Date.now();
+    while (recentRequests.length > 0 && now - recentRequests[0] >= 60_000) {
+      recentRequests.shift();
+    }
+    if (recentRequests.length < limit) {
+      recentRequests.push(now);
+      return true;
+    }
+    const freeAt = recentRequests[0] + 60_000;
+    if (freeAt > deadline) {
+      return false;
+    }
+    await new Promise((resolve) => setTimeout(resolve, freeAt - now));
+  }
+}
+
+// Same merchant, same description once reference numbers are dropped, same direction: same answer
+export function categorizationCacheKey(provider: string, item: CategorizationItem): string {
+  const merchant = normalizeMerchant(item.merchantName || item.description)?.key ?? '';
+  const description = merchantKey(item.description.replace(/\d+/g, ' '));
+  return `${provider}:${item.amount > 0 ? 'in' : 'out'}:${merchant}|${description}`;
+}
+
+// Category edits change what a correct answer is; start over
+export async function clearCategorizationCache(): Promise<void> {
+  await db.delete(categorizationCache);
+}
+
+// Categorize many transactions with as few provider requests as possible: cached answers are reused,
+// each distinct merchant/description is asked about once, and the rest goes out in batches.
+// Results are aligned with the input; null where no usable answer came back, including batches that
+// could not get a rate-limit slot within options.maxWaitMs.
+export async function categorizeBatchWithAI(
+  items: CategorizationItem[],
+  options: { maxWaitMs?: number } = {}
+): Promise<Array<{ category: CategoryRow; confidence: number } | null>> {
+  if (items.length === 0) return [];
+
+  const provider = getCategorizationProvider();
+  const categories = await db.select().from(transactionCategories);
+  const byId = new Map(categories.map((c) => [c.id, c]));
+
+  const keys = items.map((item) => categorizationCacheKey(provider.name, item));
+  const representatives = new Map<string, CategorizationItem>();
+  keys.forEach((key, index) => {
+    if (!representatives.has(key)) representatives.set(key, items[index]);
+  });
+
+  const answers = new Map<string, AICategorySuggestion>();
+  const uniqueKeys = Array.from(representatives.keys());
+  const freshSince = new Date(Date.now() - CACHE_TTL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  for (let start = 0; start < uniqueKeys.length; start += CACHE_LOOKUP_CHUNK) {
+    const cached = await db
+      .select()
+      .from(categorizationCache)
+      .where(
+        and(
+          inArray(categorizationCache.cacheKey, uniqueKeys.slice(start, start + CACHE_LOOKUP_CHUNK)),
+          gte(categorizationCache.createdAt, freshSince)
+        )
+      );
+    cached.forEach((row) => {
+      if (byId.has(row.categoryId)) {
+        answers.set(row.cacheKey, { categoryId: row.categoryId, confidence: row.confidence / 100 });
+      }
+    });
+  }
+
+  const pending = uniqueKeys.filter((key) => !answers.has(key));
+  for (let start = 0; start < pending.length; start += provider.maxBatchSize) {
+    const batchKeys = pending.slice(start, start + provider.maxBatchSize);
+    if (provider.rateLimited && !(await acquireRequestSlot(options.maxWaitMs ?? Infinity))) {
+      break; // the rest keep their rule-based category
+    }
+
+    let results: Array<AICategorySuggestion | null>;
+    try {
+      results = await provider.categorizeBatch(
+        batchKeys.map((key) => representatives.get(key) as CategorizationItem),
+        categories
+      );
+    } catch (error) {
+      // A failed request is not cached; those transactions keep their rule-based category
+      console.error(`AI categorization (${provider.name}) batch failed:`, error);
+      continue;
+    }
+
+    const now = new Date().toISOString();
+    const rows = batchKeys.flatMap((key, index) => {
+      const result = results[index];
+      if (!result || !byId.has(result.categoryId)) return [];
+      answers.set(key, result);
+      return [{
+        cacheKey: key,
+        provider: provider.name,
+        categoryId: result.categoryId,
+        confidence: Math.round(result.confidence * 100),
+        createdAt: now,
+      }];
+    });
+
+    if (rows.length > 0) {
+      await db
+        .insert(categorizationCache)
+        .values(rows)
+        .onConflictDoUpdate({
+          target: categorizationCache.cacheKey,
+          set: {
+            categoryId: sql`excluded.category_id`,
+            confidence: sql`excluded.confidence`,
+            createdAt: sql`excluded.created_at`,
+          },
+        });
+    }
+  }
+
+  return keys.map((key) => {
+    const answer = answers.get(key);
+    const category = answer ? byId.get(answer.categoryId) : undefined;
+    return answer && category ? { category, confidence: answer.confidence } : null;
+  });
+}
+
+// Ask the AI about one transaction the rule engine was unsure of, while an HTTP request waits.
+// Returns the chosen category only if the AI is more confident than the rules were.
+export async function categorizeWithAIFallback(
+  transaction: CategorizationItem,
+  ruleConfidence: number
+): Promise<{ category: CategoryRow; confidence: number } | null> {
+  if (ruleConfidence >= aiCategorizationCutoff()) {
+    return null;
+  }
+
+  const [answer] = await categorizeBatchWithAI([transaction], { maxWaitMs: REQUEST_MAX_WAIT_MS });
+  return answer && answer.confidence > ruleConfidence ? answer : null;
+}
@@ -0,0 +1,14 @@
+"use client"
+
+// fetch wrapper for user-scoped API routes; sends the better-auth bearer token
+export function authFetch(input: string, init: RequestInit = {}) {
+   const token = typeof window !== 'undefined' ? localStorage.getItem("bearer_token") : null;
+   const headers = new Headers(init.headers);
+   if (token) {
+      headers.set("Authorization", `Bearer ${token}`);
+   }
+   if (init.body && typeof init.body === "string" && !headers.has("Content-Type")) {
+      headers.set("Content-Type", "application/json");
+   }
+   return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,15 @@
+// Error responses shared by the API routes
+// Same { success: false, error } envelope as every other route response
+
+import { NextResponse } from "next/server";
+
+export function unauthorized() {
+  return NextResponse.json(
+    { success: false, error: "Authentication required" },
+    { status: 401 }
+  );
+}
+
+export function badRequest(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
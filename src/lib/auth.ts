@@ -4,6 +4,8 @@ import { bearer } from "better-auth/plugins";
 import { NextRequest } from 'next/server';
 import { headers } from "next/headers"
 import { db } from "@/db";
+import { users } from "@/db/schema";
+import { eq } from "drizzle-orm";
  
 export const auth = betterAuth({
 	database: drizzleAdapter(db, {
@@ -25,4 +27,20 @@ export const auth = betterAuth({
 export async function getCurrentUser(request: NextRequest) {
   const session = await auth.api.getSession({ headers: await headers() });
   return session?.user || null;
-}
\ No newline at end of file
+}
+// Resolve the signed-in better-auth user to their row in the app `users` table.
+// The two tables are linked by email (see /api/auth/complete-profile).
+export async function getCurrentAppUser(request: NextRequest) {
+  const sessionUser = await getCurrentUser(request);
+  if (!sessionUser?.email) {
+    return null;
+  }
+
+  const result = await db
+    .select()
+    .from(users)
+    .where(eq(users.email, sessionUser.email))
+    .limit(1);
+
+  return result[0] || null;
+}
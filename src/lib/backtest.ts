@@ -0,0 +1,210 @@
+// Forecast backtesting for the cash flow engine
+// Replays history from many past cut-off dates and scores projections against what actually happened
+
+import {
+  addDays,
+  calculateCashFlowProjection,
+  createRandom,
+  DEFAULT_SAFETY_THRESHOLD,
+} from "@/lib/cashflow";
+
+interface Transaction {
+  amount: number;
+  date: string;
+  type?: "income" | "expense";
+  category?: string;
+  description?: string;
+}
+
+export interface BacktestOptions {
+  horizons?: number[]; // days ahead to score, e.g. [7, 14, 30]
+  openingBalance?: number; // balance before the first transaction (rupees)
+  safetyThreshold?: number;
+  minHistoryDays?: number; // history required before the first cut-off
+  lookbackDays?: number; // history window fed to each projection, as in production
+  stepDays?: number; // spacing between cut-offs
+}
+
+export interface HorizonScore {
+  horizon: number;
+  samples: number;
+  mae: number; // mean absolute error in rupees
+  mape: number | null; // mean absolute percentage error, null when every actual was ~0
+}
+
+export interface BacktestReport {
+  cutoffs: number;
+  firstCutoff: string | null;
+  lastCutoff: string | null;
+  horizons: HorizonScore[];
+  breach: {
+    truePositives: number;
+    falsePositives: number;
+    falseNegatives: number;
+    trueNegatives: number;
+    precision: number | null;
+    recall: number | null;
+  };
+}
+
+// End-of-day balance for every date from the first transaction to the last
+function buildBalanceHistory(transactions: Transaction[], openingBalance: number): Map<string, number> {
+  const netByDate: Record<string, number> = {};
+  transactions.forEach((t) => {
+    netByDate[t.date] = (netByDate[t.date] || 0) + t.amount;
+  });
+
+  const dates = Object.keys(netByDate).sort();
+  const balances = new Map<string, number>();
+  if (dates.length === 0) return balances;
+
+  let balance = openingBalance;
+  for (let date = dates[0]; date <= dates[dates.length - 1]; date = addDays(date, 1)) {
+    balance += netByDate[date] || 0;
+    balances.set(date, balance);
+  }
+  return balances;
+}
+
+const round = (value: number, digits: number = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+export function backtestCashFlow(
+  transactions: Transaction[],
+  options: BacktestOptions = {}
+): BacktestReport {
+  const horizons = [...(options.horizons || [7, 14, 30])].filter((h) => h > 0).sort((a, b) => a - b);
+  const maxHorizon = horizons[horizons.length - 1] || 7;
+  const openingBalance = options.openingBalance ?? 0;
+  const safetyThreshold = options.safetyThreshold ?? DEFAULT_SAFETY_THRESHOLD;
+  const minHistoryDays = options.minHistoryDays ?? 28;
+  const stepDays = Math.max(1, options.stepDays ?? 7);
+  const lookbackDays = options.lookbackDays ?? 90;
+
+  const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date));
+  const balances = buildBalanceHistory(sorted, openingBalance);
+
+  const errors: Record<number, { absolute: number[]; percentage: number[] }> = {};
+  horizons.forEach((h) => {
+    errors[h] = { absolute: [], percentage: [] };
+  });
+  const breach = { truePositives: 0, falsePositives: 0, falseNegatives: 0, trueNegatives: 0 };
+
+  let cutoffs = 0;
+  let firstCutoff: string | null = null;
+  let lastCutoff: string | null = null;
+
+  if (sorted.length > 0) {
+    const lastDate = sorted[sorted.length - 1].date;
+
+    for (
+      let cutoff = addDays(sorted[0].date, minHistoryDays);
+      addDays(cutoff, maxHorizon) <= lastDate;
+      cutoff = addDays(cutoff, stepDays)
+    ) {
+      const windowStart = addDays(cutoff, -lookbackDays);
+      const history = sorted.filter((t) => t.date > windowStart && t.date <= cutoff);
+      const startBalance = balances.get(cutoff) ?? openingBalance;
+
+      const projection = calculateCashFlowProjection(history, {
+        projectionDays: maxHorizon,
+        currentBalance: startBalance,
+        safetyThreshold,
+        asOf: cutoff,
+      });
+
+      horizons.forEach((h) => {
+        const predicted = projection.projectionByDay[h - 1]?.balance;
+        const actual = balances.get(addDays(cutoff, h));
+        if (predicted === undefined || actual === undefined) return;
+
+        const absoluteError = Math.abs(predicted - actual);
+        errors[h].absolute.push(absoluteError);
+        // Percentage error is meaningless when the actual balance is ~0
+        if (Math.abs(actual) >= 1) {
+          errors[h].percentage.push(absoluteError / Math.abs(actual));
+        }
+      });
+
+      let actualBreach = false;
+      for (let day = 1; day <= maxHorizon; day++) {
+        const actual = balances.get(addDays(cutoff, day));
+        if (actual !== undefined && actual < safetyThreshold) {
+          actualBreach = true;
+          break;
+        }
+      }
+      const predictedBreach = projection.firstBreachDate !== null;
+
+      if (predictedBreach && actualBreach) breach.truePositives++;
+      else if (predictedBreach) breach.falsePositives++;
+      else if (actualBreach) breach.falseNegatives++;
+      else breach.trueNegatives++;
+
+      cutoffs++;
+      firstCutoff = firstCutoff || cutoff;
+      lastCutoff = cutoff;
+    }
+  }
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  return {
+    cutoffs,
+    firstCutoff,
+    lastCutoff,
+    horizons: horizons.map((h) => ({
+      horizon: h,
+      samples: errors[h].absolute.length,
+      mae: errors[h].absolute.length > 0 ? round(mean(errors[h].absolute)) : 0,
+      mape: errors[h].percentage.length > 0 ? round(mean(errors[h].percentage) * 100) : null,
+    })),
+    breach: {
+      ...breach,
+      precision: breach.truePositives + breach.falsePositives > 0
+        ? round(breach.truePositives / (breach.truePositives + breach.falsePositives), 3)
+        : null,
+      recall: breach.truePositives + breach.falseNegatives > 0
+        ? round(breach.truePositives / (breach.truePositives + breach.falseNegatives), 3)
+        : null,
+    },
+  };
+}
+
+// Synthetic gig-worker history: lumpy client payouts, daily spending, rent and subscriptions
+export function generateSyntheticHistory(
+  options: { days?: number; endDate?: string; seed?: number } = {}
+): Transaction[] {
+  const days = options.days ?? 180;
+  const endDate = options.endDate ?? "2025-01-31";
+  const random = createRandom(options.seed ?? 7);
+  const startDate = addDays(endDate, -days + 1);
+  const history: Transaction[] = [];
+
+  for (let offset = 0; offset < days; offset++) {
+    const date = addDays(startDate, offset);
+    const dayOfMonth = parseInt(date.slice(8, 10));
+    const dayOfWeek = new Date(`${date}T00:00:00Z`).getUTCDay();
+
+    // Irregular client payouts, roughly twice a month
+    if (random() < 0.07) {
+      history.push({ date, amount: Math.round(6000 + random() * 18000), description: "Client payout", category: "Income" });
+    }
+
+    // Everyday spending, heavier on weekends
+    const spendCount = dayOfWeek === 0 || dayOfWeek === 6 ? 3 : 2;
+    for (let i = 0; i < spendCount; i++) {
+      if (random() < 0.7) {
+        history.push({ date, amount: -Math.round(80 + random() * 600), description: "Daily spend", category: "Food & Dining" });
+      }
+    }
+
+    if (dayOfMonth === 1) {
+      history.push({ date, amount: -12000, description: "Rent", category: "Bills & Utilities" });
+    }
+    if (dayOfMonth === 10) {
+      history.push({ date, amount: -649, description: "Netflix", category: "Entertainment" });
+    }
+  }
+
+  return history;
+}
@@ -0,0 +1,264 @@
+// Bank aggregation
+// Links bank items through the configured aggregator (Plaid or the local fake) and brings their accounts and transactions in
+
+import { db } from '@/db';
+import { connectedAccounts } from '@/db/schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { fakeAggregator } from '@/lib/fake-bank';
+import { isPlaidConfigured, plaidAggregator } from '@/lib/plaid';
+import { commitStatementImport } from '@/lib/statement-import';
+import { decryptToken, encryptToken } from '@/lib/token-encryption';
+import { fromPaise, toPaise } from '@/lib/transactions';
+
+type AccountRow = typeof connectedAccounts.$inferSelect;
+
+// No usable aggregator is configured for linking new banks
+export class BankAggregatorConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BankAggregatorConfigError';
+  }
+}
+
+export interface LinkToken {
+  linkToken: string; // handed to the aggregator's link flow in the browser
+  expiration: string;
+}
+
+export interface ExchangedItem {
+  accessToken: string; // stored encrypted, never returned by the API
+  itemId: string;
+}
+
+export interface AggregatorAccount {
+  id: string; // the aggregator's account id
+  name: string;
+  mask: string | null; // last four digits
+  accountType: 'checking' | 'savings' | 'credit' | 'investment';
+  currentBalance: number | null; // rupees; negative when owed
+}
+
+export interface AggregatorItemAccounts {
+  institutionName: string;
+  accounts: AggregatorAccount[];
+}
+
+export interface AggregatorTransaction {
+  id: string;
+  accountId: string; // the aggregator's account id
+  date: string; // YYYY-MM-DD
+  description: string;
+  merchantName: string | null;
+  amount: number; // signed rupees
+  pending: boolean;
+  pendingTransactionId: string | null; // on a posted transaction, the pending one it replaces
+}
+
+export interface TransactionSyncPage {
+  added: AggregatorTransaction[];
+  modified: AggregatorTransaction[];
+  removed: string[]; // transaction ids
+  nextCursor: string;
+  hasMore: boolean; // call again with nextCursor for the rest
+}
+
+export interface BankAggregator {
+  name: string;
+  createLinkToken(clientUserId: string): Promise<LinkToken>;
+  exchangePublicToken(publicToken: string): Promise<ExchangedItem>;
+  getAccounts(accessToken: string): Promise<AggregatorItemAccounts>;
+  getTransactions(accessToken: string, startDate: string, endDate: string): Promise<AggregatorTransaction[]>;
+  // One page of changes since the cursor; a null cursor starts from the beginning of the item's history
+  syncTransactions(accessToken: string, cursor: string | null): Promise<TransactionSyncPage>;
+  // Whether a webhook request really came from the aggregator, checked against the raw body
+  verifyWebhook(body: string, headers: Headers): Promise<boolean>;
+}
+
+export interface ApiLinkedAccount {
+  id: number;
+  aggregator: string | null;
+  institutionName: string;
+  accountName: string;
+  accountType: string;
+  accountNumberLast4: string | null;
+  currentBalance: number | null; // rupees
+  balanceUpdatedAt: string | null;
+  isPrimary: boolean;
+  syncStatus: string | null; // syncing/ok/error/login_required
+  syncError: string | null;
+  lastSyncedAt: string | null;
+}
+
+export interface AggregatorImportResult {
+  accountId: number;
+  imported: number;
+  duplicates: number;
+  pending: number; // left out until they post
+}
+
+const BANK_AGGREGATORS: Record<string, BankAggregator> = {
+  plaid: plaidAggregator,
+  fake: fakeAggregator,
+};
+
+// BANK_AGGREGATOR_PROVIDER (plaid/fake) picks the aggregator; unset means Plaid. The fake one is only
+// used when asked for by name, so a deployment missing its Plaid keys fails instead of linking generated
+// banks. Items already linked keep using the aggregator that linked them.
+export function getBankAggregator(name?: string | null): BankAggregator {
+  if (name) {
+    const aggregator = BANK_AGGREGATORS[name];
+    if (!aggregator) {
+      throw new Error(`Unknown bank aggregator: ${name}`);
+    }
+    return aggregator;
+  }
+
+  const configured = process.env.BANK_AGGREGATOR_PROVIDER || 'plaid';
+  if (configured === 'fake') return fakeAggregator;
+  if (configured !== 'plaid') {
+    throw new BankAggregatorConfigError(`Unknown BANK_AGGREGATOR_PROVIDER: ${configured}; use plaid or fake`);
+  }
+  if (!isPlaidConfigured()) {
+    throw new BankAggregatorConfigError(
+      'PLAID_CLIENT_ID and PLAID_SECRET are not configured; set BANK_AGGREGATOR_PROVIDER=fake to link generated banks'
+    );
+  }
+  return plaidAggregator;
+}
+
+export function serializeLinkedAccount(row: AccountRow): ApiLinkedAccount {
+  return {
+    id: row.id,
+    aggregator: row.aggregator,
+    institutionName: row.institutionName,
+    accountName: row.accountName,
+    accountType: row.accountType,
+    accountNumberLast4: row.accountNumberLast4,
+    currentBalance: row.currentBalance !== null ? fromPaise(row.currentBalance) : null,
+    balanceUpdatedAt: row.balanceUpdatedAt,
+    isPrimary: Boolean(row.isPrimary),
+    syncStatus: row.syncStatus,
+    syncError: row.syncError,
+    lastSyncedAt: row.lastSyncedAt,
+  };
+}
+
+// Store the balances the aggregator reported for the item's accounts
+export async function updateLinkedBalances(rows: AccountRow[], accounts: AggregatorAccount[]): Promise<void> {
+  const now = new Date().toISOString();
+  for (const row of rows) {
+    const account = accounts.find((candidate) => candidate.id === row.aggregatorAccountId);
+    if (account && account.currentBalance !== null) {
+      await db
+        .update(connectedAccounts)
+        .set({ currentBalance: toPaise(account.currentBalance), balanceUpdatedAt: now, updatedAt: now })
+        .where(eq(connectedAccounts.id, row.id));
+    }
+  }
+}
+
+// Exchange the public token from the link flow and store the item's accounts with the access token
+// encrypted. An account linked before is updated in place; so is an account added from statement files
+// with the same last four digits, so its imported history stays with it. A new item starts syncing from scratch.
+export async function linkBankItem(userId: number, publicToken: string): Promise<AccountRow[]> {
+  const aggregator = getBankAggregator();
+  const item = await aggregator.exchangePublicToken(publicToken);
+  const { institutionName, accounts } = await aggregator.getAccounts(item.accessToken);
+
+  const existing = await db.select().from(connectedAccounts).where(eq(connectedAccounts.userId, userId));
+  let hasPrimary = existing.some((row) => row.isPrimary);
+  const encryptedToken = encryptToken(item.accessToken);
+  const now = new Date().toISOString();
+
+  const linked: AccountRow[] = [];
+  for (const account of accounts) {
+    const previous =
+      existing.find((row) => row.aggregator === aggregator.name && row.aggregatorAccountId === account.id) ??
+      existing.find(
+        (row) =>
+          row.aggregator === null &&
+          account.mask !== null &&
+          row.accountNumberLast4 === account.mask &&
+          (row.accountType === 'credit') === (account.accountType === 'credit')
+      );
+
+    const values = {
+      plaidAccessToken: encryptedToken,
+      plaidItemId: item.itemId,
+      aggregator: aggregator.name,
+      aggregatorAccountId: account.id,
+      institutionName,
+      accountType: account.accountType,
+      accountNumberLast4: account.mask,
+      currentBalance: account.currentBalance !== null ? toPaise(account.currentBalance) : null,
+      balanceUpdatedAt: account.currentBalance !== null ? now : null,
+      syncCursor: null,
+      syncStatus: null,
+      syncError: null,
+      updatedAt: now,
+    };
+
+    if (previous) {
+      const updated = await db.update(connectedAccounts).set(values).where(eq(connectedAccounts.id, previous.id)).returning();
+      linked.push(updated[0]);
+      continue;
+    }
+
+    const inserted = await db
+      .insert(connectedAccounts)
+      .values({ ...values, userId, accountName: account.name, isPrimary: !hasPrimary, createdAt: now })
+      .returning();
+    hasPrimary = true;
+    linked.push(inserted[0]);
+  }
+  return linked;
+}
+
+// Pull a date range of transactions for the user's linked accounts (or one of them) through the import
+// pipeline, so they are deduped by transaction id, categorized and matched like any other import.
+// Balances are refreshed at the same time. Pending transactions wait until they post.
+export async function importAggregatorTransactions(
+  userId: number,
+  options: { accountId?: number | null; startDate: string; endDate: string }
+): Promise<AggregatorImportResult[]> {
+  const linked = (
+    await db
+      .select()
+      .from(connectedAccounts)
+      .where(and(eq(connectedAccounts.userId, userId), isNotNull(connectedAccounts.aggregator)))
+  ).filter((row) => !options.accountId || row.id === options.accountId);
+
+  const items = new Map<string, AccountRow[]>();
+  linked.forEach((row) => items.set(row.plaidItemId, [...(items.get(row.plaidItemId) || []), row]));
+
+  const results: AggregatorImportResult[] = [];
+  for (const rows of Array.from(items.values())) {
+    const aggregator = getBankAggregator(rows[0].aggregator);
+    const accessToken = decryptToken(rows[0].plaidAccessToken);
+    const [{ accounts }, fetched] = await Promise.all([
+      aggregator.getAccounts(accessToken),
+      aggregator.getTransactions(accessToken, options.startDate, options.endDate),
+    ]);
+
+    await updateLinkedBalances(rows, accounts);
+
+    for (const row of rows) {
+      const own = fetched.filter((transaction) => transaction.accountId === row.aggregatorAccountId);
+      const posted = own.filter((transaction) => !transaction.pending);
+      const { imported, duplicates } = await commitStatementImport(
+        userId,
+        posted.map((transaction, index) => ({
+          line: index + 1,
+          date: transaction.date,
+          description: transaction.description,
+          amount: transaction.amount,
+          externalId: transaction.id,
+          merchantName: transaction.merchantName,
+        })),
+        { accountId: row.id }
+      );
+      results.push({ accountId: row.id, imported: imported.length, duplicates, pending: own.length - posted.length });
+    }
+  }
+  return results;
+}
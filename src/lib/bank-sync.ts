@@ -0,0 +1,351 @@
+// Incremental bank sync
+// Pulls each linked item's transaction changes since its stored cursor and applies them to stored transactions
+
+import { db } from '@/db';
+import { connectedAccounts, transactions, transactionSplits } from '@/db/schema';
+import { and, eq, inArray, isNotNull } from 'drizzle-orm';
+import {
+  AggregatorTransaction,
+  BankAggregator,
+  BankAggregatorConfigError,
+  getBankAggregator,
+  updateLinkedBalances,
+} from '@/lib/bank-aggregation';
+import { PlaidApiError } from '@/lib/plaid';
+import { commitStatementImport } from '@/lib/statement-import';
+import { decryptToken } from '@/lib/token-encryption';
+import { replaceTransactionSplits, toPaise } from '@/lib/transactions';
+
+type AccountRow = typeof connectedAccounts.$inferSelect;
+type TransactionRow = typeof transactions.$inferSelect;
+
+export interface ItemSyncResult {
+  itemId: string;
+  status: string; // ok/error/login_required, or syncing when another sync of the item is running
+  added: number;
+  updated: number; // changed by the bank, including pending transactions that posted
+  removed: number;
+  error: string | null;
+}
+
+// Webhook bodies, in Plaid's format; the local aggregator sends the same shape
+export interface AggregatorWebhook {
+  webhook_type: string; // TRANSACTIONS/ITEM
+  webhook_code: string; // SYNC_UPDATES_AVAILABLE/ERROR/LOGIN_REPAIRED/...
+  item_id: string;
+  error?: { error_code?: string; error_message?: string } | null;
+}
+
+// Stays under SQLite's bound-parameter limit
+const LOOKUP_CHUNK = 500;
+
+// Plaid asks for a sync to start over when the item changes while it is being paged through
+const MAX_PAGINATION_RESTARTS = 3;
+
+// Items being synced by this process, by user and item
+const syncsInProgress = new Set<string>();
+
+interface SyncChanges {
+  added: AggregatorTransaction[];
+  modified: AggregatorTransaction[];
+  removed: string[];
+  nextCursor: string;
+}
+
+const chunks = <T>(items: T[]): T[][] =>
+  Array.from({ length: Math.ceil(items.length / LOOKUP_CHUNK) }, (_, index) =>
+    items.slice(index * LOOKUP_CHUNK, (index + 1) * LOOKUP_CHUNK)
+  );
+
+// Every page of changes since the cursor. Nothing is applied until all pages are in, so a run that has
+// to start over leaves nothing half done.
+async function fetchChanges(aggregator: BankAggregator, accessToken: string, cursor: string | null): Promise<SyncChanges> {
+  for (let attempt = 0; ; attempt++) {
+    const changes: SyncChanges = { added: [], modified: [], removed: [], nextCursor: cursor ?? '' };
+    try {
+      let next = cursor;
+      for (;;) {
+        const page = await aggregator.syncTransactions(accessToken, next);
+        changes.added.push(...page.added);
+        changes.modified.push(...page.modified);
+        changes.removed.push(...page.removed);
+        next = page.nextCursor;
+        if (!page.hasMore) break;
+      }
+      changes.nextCursor = next ?? '';
+      return changes;
+    } catch (error) {
+      const restart = error instanceof PlaidApiError && error.code === 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION';
+      if (!restart || attempt >= MAX_PAGINATION_RESTARTS) throw error;
+    }
+  }
+}
+
+// Stored transactions of the item's accounts, by aggregator transaction id
+async function loadByExternalId(
+  userId: number,
+  accountIds: number[],
+  externalIds: string[]
+): Promise<Map<string, TransactionRow>> {
+  const stored = new Map<string, TransactionRow>();
+  for (const chunk of chunks(Array.from(new Set(externalIds)))) {
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          inArray(transactions.accountId, accountIds),
+          inArray(transactions.externalId, chunk)
+        )
+      );
+    rows.forEach((row) => stored.set(row.externalId as string, row));
+  }
+  return stored;
+}
+
+// The bank's version wins for the amount, date, narration and pending state; the category, merchant
+// and links stay. Splits made for a different amount no longer add up, so they are dropped.
+async function updateFromAggregator(
+  userId: number,
+  row: TransactionRow,
+  transaction: AggregatorTransaction
+): Promise<TransactionRow> {
+  const amount = toPaise(Math.abs(transaction.amount));
+  const transactionType = transaction.amount > 0 ? 'credit' : 'debit';
+  if (amount !== row.amount || transactionType !== row.transactionType) {
+    await replaceTransactionSplits(userId, row.id, []);
+  }
+
+  const updated = await db
+    .update(transactions)
+    .set({
+      amount,
+      transactionType,
+      transactionDate: transaction.date,
+      description: transaction.description,
+      externalId: transaction.id,
+      pending: transaction.pending,
+    })
+    .where(eq(transactions.id, row.id))
+    .returning();
+  return updated[0];
+}
+
+// Transactions the bank withdrew. As with a deletion, the other leg of a transfer becomes an
+// ordinary transaction again and refunds of them become income.
+async function removeTransactions(userId: number, ids: number[]): Promise<void> {
+  for (const chunk of chunks(ids)) {
+    await db
+      .delete(transactionSplits)
+      .where(and(eq(transactionSplits.userId, userId), inArray(transactionSplits.transactionId, chunk)));
+    await db
+      .update(transactions)
+      .set({ transferPairId: null })
+      .where(and(eq(transactions.userId, userId), inArray(transactions.transferPairId, chunk)));
+    await db
+      .update(transactions)
+      .set({ refundOfId: null })
+      .where(and(eq(transactions.userId, userId), inArray(transactions.refundOfId, chunk)));
+    await db.delete(transactions).where(and(eq(transactions.userId, userId), inArray(transactions.id, chunk)));
+  }
+}
+
+// Apply one sync's changes to the item's accounts. A posted transaction takes over the pending row it
+// replaces, keeping the user's category and notes; new transactions go through the import pipeline.
+// Applying the same changes twice changes nothing.
+async function applyChanges(
+  userId: number,
+  rows: AccountRow[],
+  changes: SyncChanges
+): Promise<{ added: number; updated: number; removed: number }> {
+  const accountIds = new Map(rows.map((row) => [row.aggregatorAccountId as string, row.id]));
+  const stored = await loadByExternalId(
+    userId,
+    rows.map((row) => row.id),
+    [
+      ...changes.added.flatMap((transaction) => [transaction.id, transaction.pendingTransactionId ?? transaction.id]),
+      ...changes.modified.map((transaction) => transaction.id),
+      ...changes.removed,
+    ]
+  );
+
+  let updated = 0;
+  const fresh = new Map<number, AggregatorTransaction[]>();
+  for (const transaction of [...changes.added, ...changes.modified]) {
+    const accountId = accountIds.get(transaction.accountId);
+    if (accountId === undefined) continue; // an account of the item that was not linked
+
+    const existing =
+      stored.get(transaction.id) ??
+      (transaction.pendingTransactionId ? stored.get(transaction.pendingTransactionId) : undefined);
+    if (!existing) {
+      fresh.set(accountId, [...(fresh.get(accountId) || []), transaction]);
+      continue;
+    }
+
+    stored.delete(existing.externalId as string);
+    stored.set(transaction.id, await updateFromAggregator(userId, existing, transaction));
+    updated++;
+  }
+
+  let added = 0;
+  for (const [accountId, list] of Array.from(fresh.entries())) {
+    const { imported } = await commitStatementImport(
+      userId,
+      list.map((transaction, index) => ({
+        line: index + 1,
+        date: transaction.date,
+        description: transaction.description,
+        amount: transaction.amount,
+        externalId: transaction.id,
+        merchantName: transaction.merchantName,
+        pending: transaction.pending,
+      })),
+      { accountId }
+    );
+    added += imported.length;
+  }
+
+  const removed = changes.removed
+    .map((id) => stored.get(id)?.id)
+    .filter((id): id is number => id !== undefined);
+  await removeTransactions(userId, removed);
+
+  return { added, updated, removed: removed.length };
+}
+
+async function setSyncState(userId: number, itemId: string, values: Partial<AccountRow>): Promise<void> {
+  await db
+    .update(connectedAccounts)
+    .set({ ...values, updatedAt: new Date().toISOString() })
+    .where(and(eq(connectedAccounts.userId, userId), eq(connectedAccounts.plaidItemId, itemId)));
+}
+
+// Sync one of the user's linked items from its stored cursor. The cursor only moves once the changes
+// are applied, so a failed sync is retried from the same place. Null when the user has no such item.
+export async function syncLinkedItem(userId: number, itemId: string): Promise<ItemSyncResult | null> {
+  const rows = await db
+    .select()
+    .from(connectedAccounts)
+    .where(
+      and(
+        eq(connectedAccounts.userId, userId),
+        eq(connectedAccounts.plaidItemId, itemId),
+        isNotNull(connectedAccounts.aggregator)
+      )
+    );
+  if (rows.length === 0) return null;
+
+  const key = `${userId}:${itemId}`;
+  if (syncsInProgress.has(key)) {
+    return { itemId, status: 'syncing', added: 0, updated: 0, removed: 0, error: null };
+  }
+  syncsInProgress.add(key);
+
+  try {
+    await setSyncState(userId, itemId, { syncStatus: 'syncing' });
+    const aggregator = getBankAggregator(rows[0].aggregator);
+    const accessToken = decryptToken(rows[0].plaidAccessToken);
+
+    const changes = await fetchChanges(aggregator, accessToken, rows[0].syncCursor);
+    const counts = await applyChanges(userId, rows, changes);
+    const { accounts } = await aggregator.getAccounts(accessToken);
+    await updateLinkedBalances(rows, accounts);
+
+    await setSyncState(userId, itemId, {
+      syncCursor: changes.nextCursor,
+      syncStatus: 'ok',
+      syncError: null,
+      lastSyncedAt: new Date().toISOString(),
+    });
+    return { itemId, status: 'ok', ...counts, error: null };
+  } catch (error) {
+    console.error('Error syncing bank item:', error);
+    const loginRequired = error instanceof PlaidApiError && error.code === 'ITEM_LOGIN_REQUIRED';
+    const status = loginRequired ? 'login_required' : 'error';
+    const message = error instanceof PlaidApiError ? error.message : 'The bank could not be synced';
+    await setSyncState(userId, itemId, { syncStatus: status, syncError: message });
+    return { itemId, status, added: 0, updated: 0, removed: 0, error: message };
+  } finally {
+    syncsInProgress.delete(key);
+  }
+}
+
+// Sync every item the user has linked, or only the one behind an account
+export async function syncUserItems(userId: number, options: { accountId?: number | null } = {}): Promise<ItemSyncResult[]> {
+  const rows = await db
+    .select()
+    .from(connectedAccounts)
+    .where(and(eq(connectedAccounts.userId, userId), isNotNull(connectedAccounts.aggregator)));
+  const itemIds = new Set(rows.filter((row) => !options.accountId || row.id === options.accountId).map((row) => row.plaidItemId));
+
+  const results: ItemSyncResult[] = [];
+  for (const itemId of Array.from(itemIds)) {
+    const result = await syncLinkedItem(userId, itemId);
+    if (result) results.push(result);
+  }
+  return results;
+}
+
+// Fire-and-forget sync, after linking or a webhook; failures are recorded on the accounts
+export function scheduleItemSync(userId: number, itemId: string): void {
+  syncLinkedItem(userId, itemId).catch((error) => {
+    console.error('Error syncing bank item:', error);
+  });
+}
+
+// Verify and act on an aggregator webhook. The aggregator that linked the item checks the signature
+// (the configured one when the item is unknown). New transactions start a sync in the background;
+// a bank asking the user to sign in again is recorded on the accounts.
+export async function handleAggregatorWebhook(
+  body: string,
+  headers: Headers
+): Promise<{ error: string; status: number } | { handled: boolean }> {
+  let webhook: AggregatorWebhook;
+  try {
+    webhook = JSON.parse(body);
+  } catch {
+    return { error: 'Body must be JSON', status: 400 };
+  }
+  if (!webhook || typeof webhook.item_id !== 'string') {
+    return { error: 'item_id is required', status: 400 };
+  }
+
+  const rows = await db
+    .select()
+    .from(connectedAccounts)
+    .where(and(eq(connectedAccounts.plaidItemId, webhook.item_id), isNotNull(connectedAccounts.aggregator)));
+  // An unknown item is checked by the configured aggregator; without one nothing can be verified
+  let aggregator: BankAggregator;
+  try {
+    aggregator = getBankAggregator(rows[0]?.aggregator);
+  } catch (error) {
+    if (!(error instanceof BankAggregatorConfigError)) throw error;
+    return { error: 'Webhook could not be verified', status: 401 };
+  }
+  if (!(await aggregator.verifyWebhook(body, headers))) {
+    return { error: 'Webhook could not be verified', status: 401 };
+  }
+
+  // The same item id can be linked by more than one user with the local aggregator
+  const userIds = Array.from(new Set(rows.map((row) => row.userId)));
+  const code = `${webhook.webhook_type}:${webhook.webhook_code}`;
+
+  if (code === 'TRANSACTIONS:SYNC_UPDATES_AVAILABLE' || code === 'ITEM:LOGIN_REPAIRED') {
+    userIds.forEach((userId) => scheduleItemSync(userId, webhook.item_id));
+    return { handled: userIds.length > 0 };
+  }
+
+  if (code === 'ITEM:ERROR' && webhook.error?.error_code === 'ITEM_LOGIN_REQUIRED') {
+    for (const userId of userIds) {
+      await setSyncState(userId, webhook.item_id, {
+        syncStatus: 'login_required',
+        syncError: webhook.error.error_message || 'The bank needs you to sign in again',
+      });
+    }
+    return { handled: userIds.length > 0 };
+  }
+
+  return { handled: false };
+}
@@ -7,11 +7,57 @@ interface Transaction {
   type?: "income" | "expense";
   category?: string;
   description?: string;
+  merchantName?: string;
+  isTransfer?: boolean; // between the user's own accounts; ignored by the projection
+}
+
+export interface CashFlowProjectionOptions {
+  projectionDays?: number;
+  safetyThreshold?: number; // rupees
+  currentBalance?: number; // rupees
+  asOf?: Date | string; // projection starts the day after this date
+  timeZone?: string; // IANA zone used to resolve "today"
+  scheduledItems?: Array<{ date: string; amount: number; description?: string }>; // known future one-offs (signed rupees)
+  recurringItems?: RecurringItem[]; // known recurring outflows; replaces detection from history when given
+}
+
+export type RecurringCadence = "weekly" | "biweekly" | "monthly" | "quarterly" | "annual";
+
+export interface RecurringItem {
+  description: string;
+  amount: number; // rupees per occurrence
+  frequency: number; // days between occurrences
+  nextDueDate: string;
+  category?: string;
+  cadence?: RecurringCadence;
+}
+
+// Nominal length of each cadence in days
+export const CADENCE_DAYS: Record<RecurringCadence, number> = {
+  weekly: 7,
+  biweekly: 14,
+  monthly: 30,
+  quarterly: 91,
+  annual: 365,
+};
+
+// Map an average gap between payments to a cadence, or null when it fits none
+export function classifyCadence(intervalDays: number): RecurringCadence | null {
+  if (intervalDays >= 5 && intervalDays <= 9) return "weekly";
+  if (intervalDays >= 12 && intervalDays <= 16) return "biweekly";
+  if (intervalDays >= 25 && intervalDays <= 35) return "monthly";
+  if (intervalDays >= 84 && intervalDays <= 98) return "quarterly";
+  if (intervalDays >= 350 && intervalDays <= 380) return "annual";
+  return null;
 }
 
 interface CashFlowProjection {
   projectedBalance: number;
   daysUntilLow: number;
+  safetyThreshold: number;
+  firstBreachDate: string | null;
+  minProjectedBalance: number;
+  minProjectedBalanceDate: string | null;
   projectionByDay: Array<{ day: number; date: string; balance: number; income: number; expenses: number }>;
   averageIncome: number;
   averageExpenses: number;
@@ -20,8 +66,32 @@ interface CashFlowProjection {
   trend: "improving" | "stable" | "declining";
   recurringExpenses: Array<{ description: string; amount: number; nextDueDate: string }>;
   upcomingIncome?: { amount: number; date: string; confidence: number };
+  incomePayouts: IncomePayout[];
 }
 
+export interface IncomeStream {
+  key: string; // normalized payer used for grouping
+  payer: string; // display name from the latest payment
+  occurrences: number;
+  cadence: RecurringCadence | "irregular";
+  intervalDays: number | null; // average gap between payments
+  amount: { mean: number; median: number; min: number; max: number; stdDev: number };
+  expectedAmount: number; // typical payout (median)
+  reliability: number; // 0-1: regular timing, steady amounts, enough history, not lapsed
+  lastPaidDate: string;
+  nextExpectedDate: string | null;
+}
+
+export interface IncomePayout {
+  date: string;
+  payer: string;
+  amount: number; // typical payout; the projection counts amount × reliability
+  reliability: number;
+}
+
+export const DEFAULT_SAFETY_THRESHOLD = 5000;
+export const DEFAULT_TIME_ZONE = "Asia/Kolkata";
+
 interface DailyFlow {
   date: string;
   income: number;
@@ -29,6 +99,99 @@ interface DailyFlow {
   netFlow: number;
 }
 
+// Whether Intl knows the IANA time zone, e.g. "Asia/Kolkata"
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Calendar date (YYYY-MM-DD) of an instant in the given time zone
+export function toLocalDateString(date: Date, timeZone: string = DEFAULT_TIME_ZONE): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(date);
+}
+
+// A real YYYY-MM-DD calendar day: 2024-02-31 and 2025-13-01 don't survive the round trip through Date.UTC
+export function isValidDate(value: unknown): value is string {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+// Add days to a YYYY-MM-DD date without drifting across time zones
+export function addDays(dateString: string, days: number): string {
+  const date = new Date(`${dateString}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+// Next occurrence after a date; month-based cadences keep the day of month where possible
+export function advanceByCadence(dateString: string, cadence: RecurringCadence): string {
+  const months = cadence === "monthly" ? 1 : cadence === "quarterly" ? 3 : cadence === "annual" ? 12 : 0;
+  if (months === 0) {
+    return addDays(dateString, CADENCE_DAYS[cadence]);
+  }
+
+  const [year, month, day] = dateString.split("-").map((part) => parseInt(part));
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDayOfMonth = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  target.setUTCDate(Math.min(day, lastDayOfMonth));
+  return target.toISOString().split("T")[0];
+}
+
+function resolveAsOfDate(asOf: Date | string | undefined, timeZone: string): string {
+  if (typeof asOf === "string") return asOf.slice(0, 10);
+  return toLocalDateString(asOf || new Date(), timeZone);
+}
+
+// Recurring items due on each projection day (index 1..projectionDays), repeating at each item's cadence
+function scheduleRecurringItems(
+  items: RecurringItem[],
+  asOfDate: string,
+  projectionDays: number
+): RecurringItem[][] {
+  const scheduled: RecurringItem[][] = Array.from({ length: projectionDays + 1 }, () => []);
+  const lastDate = addDays(asOfDate, projectionDays);
+
+  items.forEach((item) => {
+    const step = Math.max(1, item.frequency);
+    const next = (date: string) => (item.cadence ? advanceByCadence(date, item.cadence) : addDays(date, step));
+    let due = item.nextDueDate;
+    // Catch up items whose last due date already passed
+    while (due <= asOfDate) {
+      due = next(due);
+    }
+    for (let day = 1; day <= projectionDays && due <= lastDate; day++) {
+      if (addDays(asOfDate, day) === due) {
+        scheduled[day].push({ ...item, nextDueDate: due });
+        due = next(due);
+      }
+    }
+  });
+
+  return scheduled;
+}
+
+// Total recurring outflow per projection day
+function scheduleRecurringAmounts(
+  items: RecurringItem[],
+  asOfDate: string,
+  projectionDays: number
+): number[] {
+  return scheduleRecurringItems(items, asOfDate, projectionDays).map((due) =>
+    due.reduce((sum, item) => sum + item.amount, 0)
+  );
+}
+
 export function calculateDailyFlows(
   transactions: Transaction[]
 ): DailyFlow[] {
@@ -144,9 +307,17 @@ function detectSeasonality(dailyFlows: DailyFlow[]): { hasPattern: boolean; patt
 
 export function calculateCashFlowProjection(
   transactions: Transaction[],
-  projectionDays: number = 7,
-  currentBalance: number = 12450
+  options: CashFlowProjectionOptions = {}
 ): CashFlowProjection {
+  const projectionDays = options.projectionDays ?? 7;
+  const currentBalance = options.currentBalance ?? 0;
+  const safetyThreshold = options.safetyThreshold ?? DEFAULT_SAFETY_THRESHOLD;
+  const timeZone = options.timeZone || DEFAULT_TIME_ZONE;
+  const asOfDate = resolveAsOfDate(options.asOf, timeZone);
+
+  // Only history up to the as-of date informs the projection; internal transfers are not cash flow
+  transactions = transactions.filter((t) => t.date <= asOfDate && !t.isTransfer);
+
   // Calculate daily flows from transactions
   const dailyFlows = calculateDailyFlows(transactions);
 
@@ -159,8 +330,8 @@ export function calculateCashFlowProjection(
     0
   );
 
-  const averageIncome = totalIncome / recentFlows.length;
-  const averageExpenses = totalExpenses / recentFlows.length;
+  const averageIncome = recentFlows.length > 0 ? totalIncome / recentFlows.length : 0;
+  const averageExpenses = recentFlows.length > 0 ? totalExpenses / recentFlows.length : 0;
   
   // Use exponential moving average for better trend detection
   const netFlows = recentFlows.map(f => f.netFlow);
@@ -173,25 +344,39 @@ export function calculateCashFlowProjection(
   // Detect seasonality
   const seasonality = detectSeasonality(dailyFlows);
   
-  // Detect recurring expenses
-  const recurringExpenses = detectRecurringExpenses(transactions);
+  // Confirmed recurring series win over re-detecting them from history
+  const recurringExpenses = options.recurringItems ?? detectRecurringExpenses(transactions);
+  const scheduledRecurring = scheduleRecurringAmounts(recurringExpenses, asOfDate, projectionDays);
   
-  // Predict next income
-  const upcomingIncome = predictIncomeDate(transactions);
+  // Income streams with a steady cadence are forecast on their own dates;
+  // irregular income is spread across days as a baseline
+  const scheduledStreams = detectIncomeStreams(transactions, asOfDate).filter(
+    (stream) => stream.cadence !== "irregular" && stream.nextExpectedDate
+  );
+  const scheduledKeys = new Set(scheduledStreams.map((stream) => stream.key));
+  const recentDates = new Set(recentFlows.map((flow) => flow.date));
+  const baselineIncome = recentFlows.length > 0
+    ? transactions
+        .filter((t) => t.amount > 0 && recentDates.has(t.date) && !scheduledKeys.has(payerKey(t)))
+        .reduce((sum, t) => sum + t.amount, 0) / recentFlows.length
+    : 0;
+  const payoutsByDay = scheduleIncomeStreams(scheduledStreams, asOfDate, projectionDays);
 
   // Project future balance with enhanced accuracy
   const projectionByDay: Array<{ day: number; date: string; balance: number; income: number; expenses: number }> = [];
 
   let projectedBalance = currentBalance;
   let daysUntilLow = projectionDays + 1;
+  let firstBreachDate: string | null = null;
+  let minProjectedBalance = currentBalance;
+  let minProjectedBalanceDate: string | null = null;
 
   for (let day = 1; day <= projectionDays; day++) {
-    const projectionDate = new Date();
-    projectionDate.setDate(projectionDate.getDate() + day);
-    const dayOfWeek = projectionDate.getDay();
+    const projectionDate = addDays(asOfDate, day);
+    const dayOfWeek = new Date(`${projectionDate}T00:00:00Z`).getUTCDay();
     
     // Apply seasonality if detected
-    let dailyIncome = averageIncome;
+    let dailyIncome = baselineIncome;
     let dailyExpenses = averageExpenses;
     
     if (seasonality.hasPattern && seasonality.pattern === "weekly") {
@@ -205,26 +390,21 @@ export function calculateCashFlowProjection(
       }
     }
     
-    // Check for upcoming recurring expenses
-    const upcomingRecurring = recurringExpenses.find(re => {
-      const dueDate = new Date(re.nextDueDate);
-      const projDate = projectionDate;
-      return dueDate.toDateString() === projDate.toDateString();
-    });
-    
-    if (upcomingRecurring) {
-      dailyExpenses += upcomingRecurring.amount;
-    }
+    // Add recurring expenses due on this day
+    dailyExpenses += scheduledRecurring[day];
     
-    // Check for upcoming income
-    if (upcomingIncome && upcomingIncome.nextIncomeDate) {
-      const incomeDate = new Date(upcomingIncome.nextIncomeDate);
-      if (incomeDate.toDateString() === projectionDate.toDateString()) {
-        dailyIncome += transactions
-          .filter(t => t.amount > 0)
-          .reduce((sum, t) => sum + t.amount, 0) / transactions.filter(t => t.amount > 0).length;
-      }
-    }
+    // Add expected payouts from each income stream, weighted by how reliably it pays
+    payoutsByDay[day].forEach((payout) => {
+      dailyIncome += payout.amount * payout.reliability;
+    });
+
+    // Apply known one-off items scheduled for this day
+    (options.scheduledItems || [])
+      .filter(item => item.date === projectionDate)
+      .forEach(item => {
+        if (item.amount > 0) dailyIncome += item.amount;
+        else dailyExpenses += Math.abs(item.amount);
+      });
     
     // Apply trend adjustment
     let trendAdjustment = 0;
@@ -238,18 +418,26 @@ export function calculateCashFlowProjection(
 
     projectionByDay.push({
       day,
-      date: projectionDate.toISOString().split("T")[0],
+      date: projectionDate,
       balance: Math.round(projectedBalance),
       income: Math.round(dailyIncome),
       expenses: Math.round(dailyExpenses),
     });
 
-    // Check if balance goes below threshold (₹5000 default)
-    if (projectedBalance < 5000 && daysUntilLow > projectionDays) {
+    if (minProjectedBalanceDate === null || projectedBalance < minProjectedBalance) {
+      minProjectedBalance = projectedBalance;
+      minProjectedBalanceDate = projectionDate;
+    }
+
+    // Check if balance goes below the user's safety threshold
+    if (projectedBalance < safetyThreshold && daysUntilLow > projectionDays) {
       daysUntilLow = day;
+      firstBreachDate = projectionDate;
     }
   }
 
+  const incomePayouts = payoutsByDay.flat();
+
   // Determine confidence level based on data consistency and variance
   const flowVariance = calculateVariance(netFlows);
   const dataPoints = recentFlows.length;
@@ -266,6 +454,10 @@ export function calculateCashFlowProjection(
   return {
     projectedBalance: Math.round(projectedBalance),
     daysUntilLow: daysUntilLow <= projectionDays ? daysUntilLow : -1,
+    safetyThreshold,
+    firstBreachDate,
+    minProjectedBalance: Math.round(minProjectedBalance),
+    minProjectedBalanceDate,
     projectionByDay,
     averageIncome: Math.round(averageIncome),
     averageExpenses: Math.round(averageExpenses),
@@ -273,11 +465,12 @@ export function calculateCashFlowProjection(
     confidence,
     trend,
     recurringExpenses: recurringExpenses.slice(0, 5), // Top 5
-    upcomingIncome: upcomingIncome.confidence > 0.5 ? {
-      amount: Math.round(transactions.filter(t => t.amount > 0).reduce((sum, t) => sum + t.amount, 0) / transactions.filter(t => t.amount > 0).length),
-      date: upcomingIncome.nextIncomeDate,
-      confidence: upcomingIncome.confidence
+    upcomingIncome: incomePayouts.length > 0 && incomePayouts[0].reliability > 0.5 ? {
+      amount: incomePayouts[0].amount,
+      date: incomePayouts[0].date,
+      confidence: incomePayouts[0].reliability,
     } : undefined,
+    incomePayouts,
   };
 }
 
@@ -294,7 +487,8 @@ function calculateVariance(values: number[]): number {
 
 export function predictIncomeDate(
   transactions: Transaction[],
-  averageIncomeCycle: number = 7
+  averageIncomeCycle: number = 7,
+  asOf?: string
 ): { nextIncomeDate: string; confidence: number } {
   // Find income transactions
   const incomeTransactions = transactions
@@ -305,10 +499,8 @@ export function predictIncomeDate(
 
   if (incomeTransactions.length < 2) {
     // Not enough data
-    const today = new Date();
-    today.setDate(today.getDate() + averageIncomeCycle);
     return {
-      nextIncomeDate: today.toISOString().split("T")[0],
+      nextIncomeDate: addDays(asOf || toLocalDateString(new Date()), averageIncomeCycle),
       confidence: 0.3,
     };
   }
@@ -329,29 +521,153 @@ export function predictIncomeDate(
   const variance = calculateVariance(intervals);
 
   // Calculate next expected income date
-  const lastIncomeDate = new Date(incomeTransactions[0].date);
-  const nextDate = new Date(lastIncomeDate);
-  nextDate.setDate(nextDate.getDate() + Math.round(avgInterval));
+  const nextDate = addDays(incomeTransactions[0].date, Math.round(avgInterval));
 
   // Confidence based on variance (lower variance = higher confidence)
   const confidence = Math.max(0.5, Math.min(0.95, 1 - variance / 10000));
 
   return {
-    nextIncomeDate: nextDate.toISOString().split("T")[0],
+    nextIncomeDate: nextDate,
     confidence: Math.round(confidence * 100) / 100,
   };
 }
 
+// Normalize a payer name so "NEFT CR-ACME CORP-1234" and "Acme Corp" group together
+export function payerKey(transaction: Pick<Transaction, "description" | "merchantName">): string {
+  const raw = (transaction.merchantName || transaction.description || "").toLowerCase();
+  const key = raw
+    .replace(/[a-z]*\d{4,}[a-z\d]*/g, " ") // reference numbers, account fragments
+    .replace(/\b(neft|imps|rtgs|upi|cr|credit|payment|from|by|transfer|ref|txn)\b/g, " ")
+    .replace(/[^a-z&\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+  return key || "unknown";
+}
+
+// Group income by payer and estimate cadence, amount distribution and reliability per stream
+export function detectIncomeStreams(
+  transactions: Transaction[],
+  asOf?: string
+): IncomeStream[] {
+  const asOfDate = asOf || toLocalDateString(new Date());
+  const groups: Record<string, Transaction[]> = {};
+
+  transactions
+    .filter((t) => t.amount > 0 && t.date <= asOfDate)
+    .forEach((t) => {
+      const key = payerKey(t);
+      if (!groups[key]) groups[key] = [];
+      groups[key].push(t);
+    });
+
+  const daysBetween = (from: string, to: string) =>
+    Math.round((Date.parse(to) - Date.parse(from)) / (1000 * 60 * 60 * 24));
+
+  const streams: IncomeStream[] = Object.entries(groups).map(([key, payments]) => {
+    const sorted = [...payments].sort((a, b) => a.date.localeCompare(b.date));
+    const latest = sorted[sorted.length - 1];
+
+    const amounts = sorted.map((t) => t.amount).sort((a, b) => a - b);
+    const mean = amounts.reduce((sum, a) => sum + a, 0) / amounts.length;
+    const stdDev = Math.sqrt(calculateVariance(amounts));
+    const median = amounts.length % 2 === 1
+      ? amounts[(amounts.length - 1) / 2]
+      : (amounts[amounts.length / 2 - 1] + amounts[amounts.length / 2]) / 2;
+
+    const intervals: number[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+      intervals.push(daysBetween(sorted[i - 1].date, sorted[i].date));
+    }
+    const intervalDays = intervals.length > 0
+      ? intervals.reduce((sum, v) => sum + v, 0) / intervals.length
+      : null;
+    const intervalSpread = intervalDays ? Math.sqrt(calculateVariance(intervals)) / intervalDays : 1;
+
+    // Only steady gaps count as a cadence; lumpy gig payouts stay irregular
+    const matchedCadence = intervalDays ? classifyCadence(Math.round(intervalDays)) : null;
+    const cadence = matchedCadence && intervalSpread < 0.35 ? matchedCadence : "irregular";
+
+    const regularity = intervalDays ? Math.max(0, 1 - intervalSpread) : 0;
+    const consistency = mean > 0 ? Math.max(0, 1 - stdDev / mean) : 0;
+    const depth = Math.min(1, (sorted.length - 1) / 3);
+    const lapsed = intervalDays !== null && daysBetween(latest.date, asOfDate) > intervalDays * 2;
+    const reliability = Math.min(1, (0.5 * regularity + 0.3 * consistency + 0.2 * depth) * (lapsed ? 0.3 : 1));
+
+    let nextExpectedDate: string | null = null;
+    if (intervalDays) {
+      const advance = (date: string) =>
+        cadence === "irregular" ? addDays(date, Math.max(1, Math.round(intervalDays))) : advanceByCadence(date, cadence);
+      nextExpectedDate = advance(latest.date);
+      while (nextExpectedDate <= asOfDate) {
+        // A payout that is only slightly late is still expected tomorrow
+        if (daysBetween(nextExpectedDate, asOfDate) <= intervalDays * 0.5) {
+          nextExpectedDate = addDays(asOfDate, 1);
+          break;
+        }
+        nextExpectedDate = advance(nextExpectedDate);
+      }
+    }
+
+    return {
+      key,
+      payer: latest.merchantName || latest.description || key,
+      occurrences: sorted.length,
+      cadence,
+      intervalDays: intervalDays !== null ? Math.round(intervalDays) : null,
+      amount: {
+        mean: Math.round(mean),
+        median: Math.round(median),
+        min: Math.round(amounts[0]),
+        max: Math.round(amounts[amounts.length - 1]),
+        stdDev: Math.round(stdDev),
+      },
+      expectedAmount: Math.round(median),
+      reliability: Math.round(reliability * 100) / 100,
+      lastPaidDate: latest.date,
+      nextExpectedDate,
+    };
+  });
+
+  return streams.sort((a, b) => b.reliability - a.reliability || b.amount.mean - a.amount.mean);
+}
+
+// Payouts per projection day (index 1..projectionDays) for streams with a known cadence
+function scheduleIncomeStreams(
+  streams: IncomeStream[],
+  asOfDate: string,
+  projectionDays: number
+): IncomePayout[][] {
+  const payouts: IncomePayout[][] = Array.from({ length: projectionDays + 1 }, () => []);
+  const lastDate = addDays(asOfDate, projectionDays);
+
+  streams.forEach((stream) => {
+    if (stream.cadence === "irregular" || !stream.nextExpectedDate) return;
+    for (let due = stream.nextExpectedDate; due <= lastDate; due = advanceByCadence(due, stream.cadence)) {
+      const day = Math.round((Date.parse(due) - Date.parse(asOfDate)) / (1000 * 60 * 60 * 24));
+      if (day >= 1) {
+        payouts[day].push({
+          date: due,
+          payer: stream.payer,
+          amount: stream.expectedAmount,
+          reliability: stream.reliability,
+        });
+      }
+    }
+  });
+
+  return payouts;
+}
+
+// The payee a recurring series is keyed on: the merchant when one was resolved, otherwise the
+// description. Recurring items carry this key as their description.
+export function recurringPayeeKey(transaction: Pick<Transaction, "description" | "merchantName">): string {
+  return (transaction.merchantName || transaction.description || "unknown").trim().toLowerCase();
+}
+
 export function detectRecurringExpenses(
   transactions: Transaction[]
-): Array<{
-  description: string;
-  amount: number;
-  frequency: number;
-  nextDueDate: string;
-  category?: string;
-}> {
-  // Group similar transactions by description and category
+): RecurringItem[] {
+  // Group similar transactions by merchant (or description when none was resolved) and category
   const expenseGroups: Record<
     string,
     Array<{ amount: number; date: string; category?: string }>
@@ -360,8 +676,8 @@ export function detectRecurringExpenses(
   transactions
     .filter((t) => t.amount < 0)
     .forEach((transaction) => {
-      // Create a composite key with description and category for better grouping
-      const key = `${transaction.description?.toLowerCase() || "unknown"}_${transaction.category || ""}`;
+      // Create a composite key with merchant and category for better grouping
+      const key = `${recurringPayeeKey(transaction)}_${transaction.category || ""}`;
       if (!expenseGroups[key]) {
         expenseGroups[key] = [];
       }
@@ -373,13 +689,7 @@ export function detectRecurringExpenses(
     });
 
   // Find recurring patterns
-  const recurring: Array<{
-    description: string;
-    amount: number;
-    frequency: number;
-    nextDueDate: string;
-    category?: string;
-  }> = [];
+  const recurring: RecurringItem[] = [];
 
   Object.entries(expenseGroups).forEach(([key, occurrences]) => {
     if (occurrences.length >= 2) {
@@ -403,17 +713,13 @@ export function detectRecurringExpenses(
       );
       const variance = calculateVariance(intervals);
 
-      // If frequency is consistent (monthly ~30 days, bi-weekly ~14 days, or weekly ~7 days)
-      // and variance is low
+      // If frequency matches a known cadence (weekly through annual) and variance is low
+      const cadence = classifyCadence(avgFrequency);
       if (
-        ((avgFrequency >= 25 && avgFrequency <= 35) ||
-         (avgFrequency >= 12 && avgFrequency <= 16) ||
-         (avgFrequency >= 5 && avgFrequency <= 9)) &&
+        cadence &&
         variance < avgFrequency * 5 // Low variance relative to frequency
       ) {
-        const lastDate = new Date(sortedOccurrences[0].date);
-        const nextDate = new Date(lastDate);
-        nextDate.setDate(nextDate.getDate() + avgFrequency);
+        const nextDate = advanceByCadence(sortedOccurrences[0].date, cadence);
 
         const avgAmount = Math.round(
           occurrences.reduce((sum, o) => sum + o.amount, 0) /
@@ -426,8 +732,9 @@ export function detectRecurringExpenses(
           description,
           amount: avgAmount,
           frequency: avgFrequency,
-          nextDueDate: nextDate.toISOString().split("T")[0],
+          nextDueDate: nextDate,
           category: occurrences[0].category,
+          cadence,
         });
       }
     }
@@ -442,24 +749,24 @@ export function detectRecurringExpenses(
 // Enhanced: Spending velocity analysis
 export function analyzeSpendingVelocity(
   transactions: Transaction[],
-  windowDays: number = 7
+  windowDays: number = 7,
+  options: { asOf?: Date | string; timeZone?: string } = {}
 ): { velocity: number; trend: "increasing" | "stable" | "decreasing"; risk: "low" | "medium" | "high" } {
-  const now = new Date();
-  const recentTransactions = transactions.filter(t => {
-    const txDate = new Date(t.date);
-    const daysDiff = (now.getTime() - txDate.getTime()) / (1000 * 60 * 60 * 24);
-    return daysDiff <= windowDays && t.amount < 0;
-  });
+  // Windows are whole local days ending on the as-of date, like the projection
+  const asOfDate = resolveAsOfDate(options.asOf, options.timeZone || DEFAULT_TIME_ZONE);
+  const windowStart = addDays(asOfDate, -windowDays);
+  const recentTransactions = transactions.filter(
+    (t) => t.date > windowStart && t.date <= asOfDate && t.amount < 0
+  );
   
   const totalSpent = recentTransactions.reduce((sum, t) => sum + Math.abs(t.amount), 0);
   const velocity = totalSpent / windowDays; // Daily burn rate
   
   // Compare with previous period
-  const previousTransactions = transactions.filter(t => {
-    const txDate = new Date(t.date);
-    const daysDiff = (now.getTime() - txDate.getTime()) / (1000 * 60 * 60 * 24);
-    return daysDiff > windowDays && daysDiff <= windowDays * 2 && t.amount < 0;
-  });
+  const previousStart = addDays(asOfDate, -windowDays * 2);
+  const previousTransactions = transactions.filter(
+    (t) => t.date > previousStart && t.date <= windowStart && t.amount < 0
+  );
   
   const previousSpent = previousTransactions.reduce((sum, t) => sum + Math.abs(t.amount), 0);
   const previousVelocity = previousSpent / windowDays;
@@ -476,4 +783,230 @@ export function analyzeSpendingVelocity(
   else risk = "low";
   
   return { velocity: Math.round(velocity), trend, risk };
-}
\ No newline at end of file
+}
+
+// Calendar view: actual days since startDate plus projected days, with the bills and income behind them
+export interface CashFlowCalendarDay {
+  date: string;
+  projected: boolean; // false for days up to and including asOf
+  balance: number; // end-of-day balance
+  income: number;
+  expenses: number;
+  belowThreshold: boolean;
+  bills: Array<{ description: string; amount: number; category?: string; cadence?: RecurringCadence }>;
+  expectedIncome: IncomePayout[]; // stream payouts expected on projected days
+  transactions: Transaction[]; // recorded activity on past days
+}
+
+export interface CashFlowCalendar {
+  asOf: string;
+  safetyThreshold: number;
+  days: CashFlowCalendarDay[];
+}
+
+export function buildCashFlowCalendar(
+  transactions: Transaction[],
+  options: CashFlowProjectionOptions & { startDate?: string } = {}
+): CashFlowCalendar {
+  const projectionDays = options.projectionDays ?? 30;
+  const currentBalance = options.currentBalance ?? 0;
+  const timeZone = options.timeZone || DEFAULT_TIME_ZONE;
+  const asOfDate = resolveAsOfDate(options.asOf, timeZone);
+  const startDate = options.startDate && options.startDate <= asOfDate ? options.startDate : asOfDate;
+
+  const history = transactions.filter((t) => t.date <= asOfDate);
+  const projection = calculateCashFlowProjection(history, { ...options, projectionDays, asOf: asOfDate });
+  const safetyThreshold = projection.safetyThreshold;
+
+  const recurringItems = options.recurringItems ?? detectRecurringExpenses(history);
+  const billsByDay = scheduleRecurringItems(recurringItems, asOfDate, projectionDays);
+
+  const days: CashFlowCalendarDay[] = [];
+
+  // Walk back from today's balance so past days show what the account actually held
+  const pastDates: string[] = [];
+  for (let date = startDate; date <= asOfDate; date = addDays(date, 1)) {
+    pastDates.push(date);
+  }
+  let balance = currentBalance;
+  const pastDays: CashFlowCalendarDay[] = [];
+  for (let i = pastDates.length - 1; i >= 0; i--) {
+    const date = pastDates[i];
+    const dayTransactions = history.filter((t) => t.date === date);
+    const income = dayTransactions.filter((t) => t.amount > 0).reduce((sum, t) => sum + t.amount, 0);
+    const expenses = dayTransactions.filter((t) => t.amount < 0).reduce((sum, t) => sum + Math.abs(t.amount), 0);
+
+    pastDays.unshift({
+      date,
+      projected: false,
+      balance: Math.round(balance),
+      income: Math.round(income),
+      expenses: Math.round(expenses),
+      belowThreshold: balance < safetyThreshold,
+      bills: [],
+      expectedIncome: [],
+      transactions: dayTransactions,
+    });
+    balance -= income - expenses;
+  }
+  days.push(...pastDays);
+
+  projection.projectionByDay.forEach((day) => {
+    days.push({
+      date: day.date,
+      projected: true,
+      balance: day.balance,
+      income: day.income,
+      expenses: day.expenses,
+      belowThreshold: day.balance < safetyThreshold,
+      bills: billsByDay[day.day].map((item) => ({
+        description: item.description,
+        amount: Math.round(item.amount),
+        category: item.category,
+        cadence: item.cadence,
+      })),
+      expectedIncome: projection.incomePayouts.filter((payout) => payout.date === day.date),
+      transactions: [],
+    });
+  });
+
+  return { asOf: asOfDate, safetyThreshold, days };
+}
+
+// Probabilistic forecasting: Monte Carlo simulation over observed daily flows
+export interface ProbabilisticForecastOptions extends CashFlowProjectionOptions {
+  simulations?: number;
+  lookbackDays?: number;
+  seed?: number; // fixed seed gives reproducible bands
+}
+
+export interface ForecastBand {
+  day: number;
+  date: string;
+  p10: number;
+  p50: number;
+  p90: number;
+  probabilityBelowThreshold: number; // share of paths under the threshold on this day
+  cumulativeBreachProbability: number; // share of paths that have breached by this day
+}
+
+export interface ProbabilisticForecast {
+  simulations: number;
+  safetyThreshold: number;
+  startingBalance: number;
+  asOf: string;
+  bands: ForecastBand[];
+  breachProbability: number;
+}
+
+// Small deterministic PRNG (mulberry32) so forecasts are reproducible for a seed
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function percentile(sortedValues: number[], p: number): number {
+  if (sortedValues.length === 0) return 0;
+  const index = Math.min(sortedValues.length - 1, Math.max(0, Math.round(p * (sortedValues.length - 1))));
+  return sortedValues[index];
+}
+
+export function simulateCashFlowPaths(
+  transactions: Transaction[],
+  options: ProbabilisticForecastOptions = {}
+): ProbabilisticForecast {
+  const projectionDays = options.projectionDays ?? 30;
+  const startingBalance = options.currentBalance ?? 0;
+  const safetyThreshold = options.safetyThreshold ?? DEFAULT_SAFETY_THRESHOLD;
+  const timeZone = options.timeZone || DEFAULT_TIME_ZONE;
+  const asOfDate = resolveAsOfDate(options.asOf, timeZone);
+  const simulations = Math.max(100, Math.min(options.simulations ?? 2000, 10000));
+  const lookbackDays = options.lookbackDays ?? 90;
+  const random = createRandom(options.seed ?? 42);
+
+  const history = transactions.filter(
+    (t) => t.date <= asOfDate && t.date > addDays(asOfDate, -lookbackDays)
+  );
+
+  // Recurring items are scheduled explicitly, so strip them from the sampled pool
+  const recurringExpenses = options.recurringItems ?? detectRecurringExpenses(history);
+  const recurringKeys = new Set(recurringExpenses.map((re) => re.description.trim().toLowerCase()));
+  const discretionary = history.filter((t) => !(t.amount < 0 && recurringKeys.has(recurringPayeeKey(t))));
+
+  // Observed daily (income, expenses) pairs including quiet days, which matter for lumpy income
+  const flowsByDate: Record<string, DailyFlow> = {};
+  calculateDailyFlows(discretionary).forEach((flow) => {
+    flowsByDate[flow.date] = flow;
+  });
+  const firstDate = history.length > 0
+    ? history.reduce((min, t) => (t.date < min ? t.date : min), asOfDate)
+    : asOfDate;
+  const observedDays: Array<{ income: number; expenses: number }> = [];
+  for (let date = firstDate; date <= asOfDate; date = addDays(date, 1)) {
+    const flow = flowsByDate[date];
+    observedDays.push({ income: flow?.income || 0, expenses: flow?.expenses || 0 });
+  }
+
+  // Scheduled recurring outflows per projection day, with a ±5% spread
+  const scheduled = scheduleRecurringAmounts(recurringExpenses, asOfDate, projectionDays);
+  const scheduledSpread = scheduled.map((amount) => amount * 0.05);
+
+  const balancesByDay: number[][] = Array.from({ length: projectionDays + 1 }, () => []);
+  const breachedByDay: number[] = new Array(projectionDays + 1).fill(0);
+
+  for (let sim = 0; sim < simulations; sim++) {
+    let balance = startingBalance;
+    let breached = false;
+
+    for (let day = 1; day <= projectionDays; day++) {
+      if (observedDays.length > 0) {
+        // Income and expenses are bootstrapped independently so good and bad days can mix
+        const incomeDay = observedDays[Math.floor(random() * observedDays.length)];
+        const expenseDay = observedDays[Math.floor(random() * observedDays.length)];
+        balance += incomeDay.income - expenseDay.expenses;
+      }
+
+      if (scheduled[day] > 0) {
+        balance -= scheduled[day] + (random() * 2 - 1) * scheduledSpread[day];
+      }
+
+      if (balance < safetyThreshold) {
+        breached = true;
+      }
+      if (breached) {
+        breachedByDay[day]++;
+      }
+      balancesByDay[day].push(balance);
+    }
+  }
+
+  const bands: ForecastBand[] = [];
+  for (let day = 1; day <= projectionDays; day++) {
+    const sorted = balancesByDay[day].sort((a, b) => a - b);
+    const below = sorted.filter((balance) => balance < safetyThreshold).length;
+    bands.push({
+      day,
+      date: addDays(asOfDate, day),
+      p10: Math.round(percentile(sorted, 0.1)),
+      p50: Math.round(percentile(sorted, 0.5)),
+      p90: Math.round(percentile(sorted, 0.9)),
+      probabilityBelowThreshold: Math.round((below / simulations) * 1000) / 1000,
+      cumulativeBreachProbability: Math.round((breachedByDay[day] / simulations) * 1000) / 1000,
+    });
+  }
+
+  return {
+    simulations,
+    safetyThreshold,
+    startingBalance: Math.round(startingBalance),
+    asOf: asOfDate,
+    bands,
+    breachProbability: bands.length > 0 ? bands[bands.length - 1].cumulativeBreachProbability : 0,
+  };
+}
@@ -0,0 +1,170 @@
+// Persisted per-user categorization rules
+// Loaded ahead of the global keyword rules and strengthened whenever a user re-categorizes
+
+import { db } from '@/db';
+import { categorizationRules, transactionCategories } from '@/db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { learnFromCorrection, UserCategoryRule } from '@/lib/categorization';
+import { fromPaise } from '@/lib/transactions';
+
+type RuleRow = typeof categorizationRules.$inferSelect;
+type CategoryRow = typeof transactionCategories.$inferSelect;
+
+export const MATCH_TYPES = ['contains', 'exact', 'regex'] as const;
+
+// Learned rules gain priority with each confirming correction, up to this cap
+const MAX_LEARNED_PRIORITY = 100;
+
+export interface ApiCategorizationRule {
+  id: number;
+  categoryId: number;
+  category: string | null;
+  merchantPattern: string | null;
+  descriptionPattern: string | null;
+  matchType: (typeof MATCH_TYPES)[number];
+  amountMin: number | null; // rupees
+  amountMax: number | null;
+  priority: number;
+  hitCount: number;
+  source: 'manual' | 'learned';
+  isActive: boolean;
+  updatedAt: string;
+}
+
+export function serializeRule(
+  row: RuleRow,
+  category?: Pick<CategoryRow, 'name'> | null
+): ApiCategorizationRule {
+  return {
+    id: row.id,
+    categoryId: row.categoryId,
+    category: category?.name ?? null,
+    merchantPattern: row.merchantPattern,
+    descriptionPattern: row.descriptionPattern,
+    matchType: row.matchType as ApiCategorizationRule['matchType'],
+    amountMin: row.amountMin !== null ? fromPaise(row.amountMin) : null,
+    amountMax: row.amountMax !== null ? fromPaise(row.amountMax) : null,
+    priority: row.priority,
+    hitCount: row.hitCount,
+    source: row.source as ApiCategorizationRule['source'],
+    isActive: Boolean(row.isActive),
+    updatedAt: row.updatedAt,
+  };
+}
+
+export async function listUserRules(userId: number): Promise<ApiCategorizationRule[]> {
+  const rows = await db
+    .select()
+    .from(categorizationRules)
+    .leftJoin(transactionCategories, eq(categorizationRules.categoryId, transactionCategories.id))
+    .where(eq(categorizationRules.userId, userId));
+
+  return rows
+    .map((row) => serializeRule(row.categorization_rules, row.transaction_categories))
+    .sort((a, b) => b.priority - a.priority || a.id - b.id);
+}
+
+// Active rules in the shape categorizeTransaction expects
+export async function loadUserRules(userId: number): Promise<UserCategoryRule[]> {
+  const rules = await listUserRules(userId);
+  return rules
+    .filter((rule) => rule.isActive && rule.category)
+    .map((rule) => ({
+      id: rule.id,
+      category: rule.category as string,
+      merchantPattern: rule.merchantPattern,
+      descriptionPattern: rule.descriptionPattern,
+      matchType: rule.matchType,
+      amountMin: rule.amountMin,
+      amountMax: rule.amountMax,
+      priority: rule.priority,
+    }));
+}
+
+// Create a learned rule from a re-categorization, or strengthen/retarget the one with the same pattern
+export async function learnRuleFromCorrection(
+  userId: number,
+  transaction: { description: string; merchantName?: string | null; amount: number; date: string },
+  category: CategoryRow
+): Promise<RuleRow | null> {
+  const suggestion = learnFromCorrection(
+    {
+      description: transaction.description,
+      merchantName: transaction.merchantName || undefined,
+      amount: transaction.amount,
+      date: transaction.date,
+    },
+    category.name
+  );
+  if (!suggestion) {
+    return null;
+  }
+
+  const merchantPattern = suggestion.merchantPattern ?? null;
+  const descriptionPattern = suggestion.descriptionPattern ?? null;
+  const now = new Date().toISOString();
+
+  const existing = await db
+    .select()
+    .from(categorizationRules)
+    .where(
+      and(
+        eq(categorizationRules.userId, userId),
+        eq(categorizationRules.matchType, 'contains'),
+        merchantPattern !== null
+          ? eq(categorizationRules.merchantPattern, merchantPattern)
+          : isNull(categorizationRules.merchantPattern),
+        descriptionPattern !== null
+          ? eq(categorizationRules.descriptionPattern, descriptionPattern)
+          : isNull(categorizationRules.descriptionPattern),
+        isNull(categorizationRules.amountMin),
+        isNull(categorizationRules.amountMax)
+      )
+    )
+    .limit(1);
+
+  if (existing.length === 0) {
+    const inserted = await db
+      .insert(categorizationRules)
+      .values({
+        userId,
+        categoryId: category.id,
+        merchantPattern,
+        descriptionPattern,
+        matchType: 'contains',
+        priority: 1,
+        hitCount: 1,
+        source: 'learned',
+        isActive: true,
+        createdAt: now,
+        updatedAt: now,
+      })
+      .returning();
+    return inserted[0];
+  }
+
+  const rule = existing[0];
+  const updates: Partial<typeof categorizationRules.$inferInsert> = { updatedAt: now, isActive: true };
+
+  if (rule.categoryId === category.id) {
+    // Same answer again: trust the rule more
+    updates.hitCount = rule.hitCount + 1;
+    if (rule.source === 'learned') {
+      updates.priority = Math.min(MAX_LEARNED_PRIORITY, rule.priority + 1);
+    }
+  } else {
+    // The user changed their mind: point the rule at the new category and start over
+    updates.categoryId = category.id;
+    updates.hitCount = 1;
+    if (rule.source === 'learned') {
+      updates.priority = 1;
+    }
+  }
+
+  const updated = await db
+    .update(categorizationRules)
+    .set(updates)
+    .where(eq(categorizationRules.id, rule.id))
+    .returning();
+  return updated[0];
+}
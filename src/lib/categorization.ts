@@ -1,6 +1,10 @@
 // Transaction categorization engine
 // Enhanced with ML-ready structure and confidence scoring
 
+import { CategoryName, FALLBACK_CATEGORY } from "@/lib/category-taxonomy";
+import { isRefundNarration } from "@/lib/refund-matching";
+import { testRuleRegex } from "@/lib/rule-regex";
+
 interface Transaction {
   id?: string;
   description: string;
@@ -12,20 +16,36 @@ interface Transaction {
 }
 
 interface CategoryRule {
-  category: string;
+  category: CategoryName;
   keywords: string[];
   merchantPatterns?: RegExp[];
   icon?: string;
   weight?: number; // For weighted scoring
 }
 
+// Per-user rule persisted in categorization_rules; patterns are case-insensitive and
+// "contains" means every word of the pattern appears somewhere in the text
+export interface UserCategoryRule {
+  id: number;
+  category: string;
+  merchantPattern?: string | null;
+  descriptionPattern?: string | null;
+  matchType?: "contains" | "exact" | "regex";
+  amountMin?: number | null; // absolute rupees
+  amountMax?: number | null;
+  priority: number; // higher runs first
+}
+
+export type RuleSuggestion = Pick<UserCategoryRule, "category" | "merchantPattern" | "descriptionPattern">;
+
 interface CategorizationResult extends Transaction {
   confidence: number; // 0-1 score
   alternativeCategories?: Array<{ category: string; confidence: number }>;
   reason?: string; // Why this category was chosen
+  ruleId?: number; // user rule that decided the category
 }
 
-// Enhanced rule-based categorization rules with more keywords
+// Enhanced rule-based categorization rules with more keywords; category names come from the shared taxonomy
 const categoryRules: CategoryRule[] = [
   {
     category: "Food & Dining",
@@ -41,9 +61,17 @@ const categoryRules: CategoryRule[] = [
     category: "Transport",
     keywords: [
       "uber", "ola", "rapido", "taxi", "metro", "bus", "petrol", "fuel", "parking",
-      "toll", "auto", "rickshaw", "lyft", "cab", "transport", "commute", "travel",
-      "railway", "train", "flight", "airline", "indigo", "spicejet", "goair",
-      "vistara", "airasia", "booking", "makemytrip", "yatra", "cleartrip"
+      "toll", "auto", "rickshaw", "lyft", "cab", "transport", "commute",
+      "railway", "train", "irctc", "fastag"
+    ],
+    weight: 1.0,
+  },
+  {
+    category: "Travel",
+    keywords: [
+      "travel", "flight", "airline", "airport", "indigo", "spicejet", "goair",
+      "vistara", "airasia", "air india", "makemytrip", "yatra", "cleartrip",
+      "goibibo", "ixigo", "hotel", "oyo", "airbnb", "resort", "holiday", "booking.com"
     ],
     weight: 1.0,
   },
@@ -60,14 +88,22 @@ const categoryRules: CategoryRule[] = [
   {
     category: "Entertainment",
     keywords: [
-      "netflix", "prime video", "hotstar", "disney", "spotify", "youtube",
-      "movie", "cinema", "theatre", "game", "subscription", "amazon prime",
-      "hulu", "hbo", "apple tv", "paramount", "peacock", "discovery",
+      "movie", "cinema", "theatre", "game", "pvr", "inox",
       "xbox", "playstation", "nintendo", "steam", "epic games", "concert",
       "show", "event", "ticket", "bookmyshow", "paytm insider"
     ],
     weight: 1.0,
   },
+  {
+    category: "Subscriptions",
+    keywords: [
+      "subscription", "netflix", "prime video", "hotstar", "disney", "spotify",
+      "youtube premium", "amazon prime", "hulu", "hbo", "apple tv", "paramount",
+      "peacock", "discovery", "sonyliv", "zee5", "jiocinema", "icloud",
+      "google one", "chatgpt", "membership", "renewal"
+    ],
+    weight: 1.0,
+  },
   {
     category: "Shopping",
     keywords: [
@@ -118,7 +154,7 @@ const categoryRules: CategoryRule[] = [
     weight: 1.0,
   },
   {
-    category: "Investments & Savings",
+    category: "Investments",
     keywords: [
       "mutual fund", "sip", "stock", "equity", "investment", "zerodha",
       "groww", "upstox", "angelone", "edelweiss", "hdfc securities",
@@ -127,36 +163,143 @@ const categoryRules: CategoryRule[] = [
     ],
     weight: 1.0,
   },
+  {
+    category: "Transfers",
+    keywords: [
+      "self transfer", "own account", "own a/c", "to self", "from self", "fund transfer",
+      "internal transfer", "sweep", "credit card payment", "cc payment", "card bill payment",
+      "payment received thank you"
+    ],
+    weight: 2.0,
+  },
+  {
+    category: "Salary",
+    keywords: ["salary", "payroll", "wages", "stipend", "sal cr"],
+    weight: 1.5,
+  },
   {
     category: "Income",
     keywords: [
-      "salary", "payment received", "freelance", "project", "income",
-      "credit", "deposit", "transfer from", "refund", "cashback",
-      "bonus", "commission", "wages", "earnings", "revenue", "payout"
+      "payment received", "freelance", "project", "income",
+      "credit", "deposit", "transfer from",
+      "bonus", "commission", "earnings", "revenue", "payout"
     ],
     weight: 1.5, // Higher weight for income
   },
 ];
 
-// Enhanced categorization with confidence scoring
-export function categorizeTransaction(transaction: Transaction): CategorizationResult {
+function matchesPattern(value: string, pattern: string, matchType: UserCategoryRule["matchType"]): boolean {
+  const needle = pattern.toLowerCase();
+  if (matchType === "exact") return value === needle;
+  if (matchType === "regex") return testRuleRegex(pattern, value);
+  return needle.split(/\s+/).filter(Boolean).every((word) => value.includes(word));
+}
+
+// First user rule that matches, by priority and then by how specific the rule is
+export function matchUserRule(
+  transaction: Transaction,
+  rules: UserCategoryRule[]
+): UserCategoryRule | null {
+  const description = (transaction.description || "").toLowerCase();
+  const merchantName = (transaction.merchantName || "").toLowerCase();
+  const amount = Math.abs(transaction.amount);
+
+  const specificity = (rule: UserCategoryRule) =>
+    (rule.merchantPattern ? 1 : 0) + (rule.descriptionPattern ? 1 : 0) +
+    (rule.amountMin != null || rule.amountMax != null ? 1 : 0);
+
+  const ordered = [...rules].sort(
+    (a, b) => b.priority - a.priority || specificity(b) - specificity(a) || a.id - b.id
+  );
+
+  return ordered.find((rule) => {
+    if (!rule.merchantPattern && !rule.descriptionPattern) return false;
+    if (rule.merchantPattern) {
+      // Fall back to the description when the merchant was never captured
+      const target = merchantName || description;
+      if (!matchesPattern(target, rule.merchantPattern, rule.matchType)) return false;
+    }
+    if (rule.descriptionPattern && !matchesPattern(description, rule.descriptionPattern, rule.matchType)) {
+      return false;
+    }
+    if (rule.amountMin != null && amount < rule.amountMin) return false;
+    if (rule.amountMax != null && amount > rule.amountMax) return false;
+    return true;
+  }) || null;
+}
+
+function describeRule(rule: UserCategoryRule): string {
+  const parts = [
+    rule.merchantPattern && `merchant "${rule.merchantPattern}"`,
+    rule.descriptionPattern && `description "${rule.descriptionPattern}"`,
+  ].filter(Boolean);
+  return `Matched your rule #${rule.id} (${parts.join(", ")})`;
+}
+
+// Enhanced categorization with confidence scoring; user rules are checked before the global keyword rules
+export function categorizeTransaction(
+  transaction: Transaction,
+  userRules: UserCategoryRule[] = []
+): CategorizationResult {
   const description = (transaction.description || "").toLowerCase();
   const merchantName = (transaction.merchantName || "").toLowerCase();
   const searchText = `${description} ${merchantName}`;
   const amount = transaction.amount;
 
-  // Check if it's income based on amount
+  const userRule = matchUserRule(transaction, userRules);
+  if (userRule) {
+    return {
+      ...transaction,
+      category: userRule.category,
+      type: amount < 0 ? "expense" : "income",
+      confidence: 0.95,
+      reason: describeRule(userRule),
+      ruleId: userRule.id,
+    };
+  }
+
+  // Money moving between the user's own accounts is neither income nor spending, whatever its sign
+  const transferRule = categoryRules.find((rule) => rule.category === "Transfers");
+  const transferKeywords = transferRule?.keywords.filter((keyword) => searchText.includes(keyword)) || [];
+  if (transferKeywords.length > 0) {
+    return {
+      ...transaction,
+      category: "Transfers",
+      type: amount < 0 ? "expense" : "income",
+      confidence: 0.85,
+      reason: `Matched keywords: ${transferKeywords.slice(0, 2).join(", ")}`,
+    };
+  }
+
+  // Refunds and cashback are money back on spending, not earnings: they take the spending category
+  // their narration points to (the purchase's category once matched), and Others otherwise
+  if (amount > 0 && isRefundNarration(searchText)) {
+    const spending = categorizeTransaction({ ...transaction, amount: -amount });
+    return {
+      ...transaction,
+      category: spending.category,
+      type: "income",
+      confidence: Math.min(spending.confidence, 0.6),
+      reason: `Refund; ${spending.reason ? spending.reason.charAt(0).toLowerCase() + spending.reason.slice(1) : "no purchase category found"}`,
+    };
+  }
+
+  // Check if it's income based on amount; payroll credits are Salary, everything else Income
   if (amount > 0) {
-    const incomeRule = categoryRules.find((rule) => rule.category === "Income");
-    const matchingKeywords = incomeRule?.keywords.filter((keyword) =>
+    const salaryRule = categoryRules.find((rule) => rule.category === "Salary");
+    const salaryKeywords = salaryRule?.keywords.filter((keyword) =>
       searchText.includes(keyword.toLowerCase())
     ) || [];
+    const incomeRule = categoryRules.find((rule) => rule.category === "Income");
+    const matchingKeywords = salaryKeywords.length > 0
+      ? salaryKeywords
+      : incomeRule?.keywords.filter((keyword) => searchText.includes(keyword.toLowerCase())) || [];
 
     const confidence = amount > 1000 || matchingKeywords.length > 0 ? 0.9 : 0.7;
 
     return {
       ...transaction,
-      category: "Income",
+      category: salaryKeywords.length > 0 ? "Salary" : "Income",
       type: "income",
       confidence,
       reason: matchingKeywords.length > 0 
@@ -212,7 +355,7 @@ export function categorizeTransaction(transaction: Transaction): CategorizationR
   // Default category with low confidence
   return {
     ...transaction,
-    category: "Others",
+    category: FALLBACK_CATEGORY,
     type: amount < 0 ? "expense" : "income",
     confidence: 0.3,
     reason: "No clear category match found",
@@ -220,32 +363,41 @@ export function categorizeTransaction(transaction: Transaction): CategorizationR
 }
 
 export function categorizeTransactions(
-  transactions: Transaction[]
+  transactions: Transaction[],
+  userRules: UserCategoryRule[] = []
 ): CategorizationResult[] {
-  return transactions.map((transaction) => categorizeTransaction(transaction));
+  return transactions.map((transaction) => categorizeTransaction(transaction, userRules));
 }
 
-// Machine learning ready: Learn from user corrections
+// Payment-rail noise that says nothing about what was bought
+const PAYMENT_RAIL_WORDS = ["upi", "neft", "imps", "rtgs", "pos", "ach", "txn", "ref", "payment"];
+
+// Learn from user corrections: suggest a rule keyed on the merchant, or on the
+// stable part of the description when no merchant was captured
 export function learnFromCorrection(
   transaction: Transaction,
   correctCategory: string
-): CategoryRule | null {
-  // Extract key terms from the transaction
-  const description = (transaction.description || "").toLowerCase();
-  const merchantName = (transaction.merchantName || "").toLowerCase();
-  
-  // In a real ML system, this would update the model
-  // For now, we can suggest new keywords to add
-  const newKeywords = [
-    merchantName,
-    ...description.split(' ').filter(word => word.length > 3)
-  ].filter(Boolean);
+): RuleSuggestion | null {
+  const merchantName = (transaction.merchantName || "").trim().toLowerCase();
+  if (merchantName) {
+    return { category: correctCategory, merchantPattern: merchantName, descriptionPattern: null };
+  }
 
-  return {
-    category: correctCategory,
-    keywords: newKeywords,
-    weight: 1.2, // Slightly higher weight for learned rules
-  };
+  // Drop reference numbers and dates so the rule matches the next payment too
+  const descriptionPattern = (transaction.description || "")
+    .toLowerCase()
+    .replace(/[a-z]*\d[a-z\d]*/g, " ")
+    .replace(/[^a-z&\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 2 && !PAYMENT_RAIL_WORDS.includes(word))
+    .slice(0, 4)
+    .join(" ");
+
+  if (!descriptionPattern) {
+    return null;
+  }
+
+  return { category: correctCategory, merchantPattern: null, descriptionPattern };
 }
 
 // Get spending insights with enhanced analytics
@@ -282,16 +434,19 @@ export function getTopSpendingCategory(
   return { category, amount };
 }
 
-export function getCategoryPercentages(
-  transactions: Transaction[]
-): Array<{ category: string; amount: number; percentage: number }> {
-  const categoryTotals = getSpendingByCategory(transactions);
-  const total = Object.values(categoryTotals).reduce(
-    (sum, amount) => sum + amount,
-    0
-  );
+// Parent category name for each category name; top-level categories map to null
+export type CategoryHierarchy = Record<string, string | null>;
+
+export interface CategoryBreakdown {
+  category: string;
+  amount: number;
+  percentage: number;
+  children?: CategoryBreakdown[]; // subcategory split, percentages relative to the parent
+}
 
-  return Object.entries(categoryTotals)
+function toBreakdown(totals: Record<string, number>): CategoryBreakdown[] {
+  const total = Object.values(totals).reduce((sum, amount) => sum + amount, 0);
+  return Object.entries(totals)
     .map(([category, amount]) => ({
       category,
       amount,
@@ -300,6 +455,47 @@ export function getCategoryPercentages(
     .sort((a, b) => b.amount - a.amount);
 }
 
+// Spending share per category. With a hierarchy, subcategories roll up into their parent and are
+// listed under `children`; with `drillDown` set to a parent, only that parent's spending is split
+// across its subcategories (spending booked on the parent itself keeps the parent's name).
+export function getCategoryPercentages(
+  transactions: Transaction[],
+  options: { hierarchy?: CategoryHierarchy; drillDown?: string } = {}
+): CategoryBreakdown[] {
+  const categoryTotals = getSpendingByCategory(transactions);
+  const { hierarchy, drillDown } = options;
+  if (!hierarchy) {
+    return toBreakdown(categoryTotals);
+  }
+
+  const parentOf = (category: string) => hierarchy[category] ?? category;
+  const grouped: Record<string, Record<string, number>> = {};
+  Object.entries(categoryTotals).forEach(([category, amount]) => {
+    const parent = parentOf(category);
+    if (!grouped[parent]) grouped[parent] = {};
+    grouped[parent][category] = amount;
+  });
+
+  if (drillDown) {
+    return toBreakdown(grouped[drillDown] || {});
+  }
+
+  const rolledUp = toBreakdown(
+    Object.fromEntries(
+      Object.entries(grouped).map(([parent, children]) => [
+        parent,
+        Object.values(children).reduce((sum, amount) => sum + amount, 0),
+      ])
+    )
+  );
+
+  return rolledUp.map((entry) => {
+    const children = grouped[entry.category];
+    const hasSubcategories = Object.keys(children).some((category) => category !== entry.category);
+    return hasSubcategories ? { ...entry, children: toBreakdown(children) } : entry;
+  });
+}
+
 // Enhanced analytics: Detect spending anomalies
 export function detectSpendingAnomalies(
   transactions: Transaction[],
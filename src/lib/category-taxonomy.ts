@@ -0,0 +1,45 @@
+// Category taxonomy shared by the seeder, the rule engine and the AI categorizer
+// Users can add their own categories (and subcategories) on top; these are the names the rules produce
+
+export interface TaxonomyCategory {
+  name: string;
+  icon: string;
+  color: string;
+  isIncome: boolean;
+}
+
+export const DEFAULT_CATEGORIES = [
+  { name: "Income", icon: "💰", color: "#10B981", isIncome: true },
+  { name: "Salary", icon: "💵", color: "#059669", isIncome: true },
+  { name: "Food & Dining", icon: "🍽️", color: "#F59E0B", isIncome: false },
+  { name: "Groceries", icon: "🛒", color: "#84CC16", isIncome: false },
+  { name: "Transport", icon: "🚗", color: "#3B82F6", isIncome: false },
+  { name: "Shopping", icon: "🛍️", color: "#EC4899", isIncome: false },
+  { name: "Entertainment", icon: "🎬", color: "#8B5CF6", isIncome: false },
+  { name: "Bills & Utilities", icon: "📄", color: "#EF4444", isIncome: false },
+  { name: "Healthcare", icon: "🏥", color: "#14B8A6", isIncome: false },
+  { name: "Education", icon: "📚", color: "#6366F1", isIncome: false },
+  { name: "Travel", icon: "✈️", color: "#06B6D4", isIncome: false },
+  { name: "Investments", icon: "📈", color: "#10B981", isIncome: false },
+  { name: "Subscriptions", icon: "📱", color: "#F97316", isIncome: false },
+  { name: "Personal Care", icon: "💅", color: "#A855F7", isIncome: false },
+  { name: "Transfers", icon: "🔁", color: "#64748B", isIncome: false },
+  { name: "Others", icon: "📦", color: "#6B7280", isIncome: false },
+] as const satisfies readonly TaxonomyCategory[];
+
+export type CategoryName = (typeof DEFAULT_CATEGORIES)[number]["name"];
+
+// Default subcategories. The keyword rules stop at the parent; users, their rules and the AI can pick a child.
+export const DEFAULT_SUBCATEGORIES: Array<TaxonomyCategory & { parent: CategoryName }> = [
+  { name: "Restaurants", parent: "Food & Dining", icon: "🍴", color: "#D97706", isIncome: false },
+  { name: "Delivery", parent: "Food & Dining", icon: "🛵", color: "#FBBF24", isIncome: false },
+  { name: "Cafés", parent: "Food & Dining", icon: "☕", color: "#B45309", isIncome: false },
+  { name: "Rent", parent: "Bills & Utilities", icon: "🏠", color: "#DC2626", isIncome: false },
+  { name: "Electricity", parent: "Bills & Utilities", icon: "💡", color: "#F87171", isIncome: false },
+  { name: "Mobile", parent: "Bills & Utilities", icon: "📶", color: "#B91C1C", isIncome: false },
+  { name: "Fuel", parent: "Transport", icon: "⛽", color: "#2563EB", isIncome: false },
+  { name: "Cabs", parent: "Transport", icon: "🚕", color: "#60A5FA", isIncome: false },
+];
+
+// Where anything unmatched ends up
+export const FALLBACK_CATEGORY: CategoryName = "Others";
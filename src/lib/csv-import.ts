@@ -0,0 +1,334 @@
+// Bank statement CSV parsing
+// Reads the CSV exports of Indian banks through a column mapping; ships presets for HDFC, ICICI, SBI and Axis
+
+export type DateFormat =
+  | "DD/MM/YYYY"
+  | "DD/MM/YY"
+  | "DD-MM-YYYY"
+  | "DD-MM-YY"
+  | "DD-MMM-YYYY"
+  | "DD-MMM-YY"
+  | "DD MMM YYYY"
+  | "YYYY-MM-DD"
+  | "MM/DD/YYYY";
+
+export const DATE_FORMATS: DateFormat[] = [
+  "DD/MM/YYYY", "DD/MM/YY", "DD-MM-YYYY", "DD-MM-YY", "DD-MMM-YYYY", "DD-MMM-YY", "DD MMM YYYY", "YYYY-MM-DD", "MM/DD/YYYY",
+];
+
+// Header names of the statement columns. Amounts come either from one signed `amount` column
+// (optionally with a Dr/Cr `type` column) or from separate `debit` and `credit` columns.
+export interface ColumnMapping {
+  date: string;
+  description: string;
+  amount?: string;
+  type?: string;
+  debit?: string;
+  credit?: string;
+  reference?: string;
+  balance?: string;
+  dateFormat: DateFormat;
+}
+
+export interface BankPreset {
+  id: string;
+  name: string;
+  mapping: ColumnMapping;
+}
+
+export const BANK_PRESETS: BankPreset[] = [
+  {
+    id: "hdfc",
+    name: "HDFC Bank",
+    mapping: {
+      date: "Date",
+      description: "Narration",
+      reference: "Chq./Ref.No.",
+      debit: "Withdrawal Amt.",
+      credit: "Deposit Amt.",
+      balance: "Closing Balance",
+      dateFormat: "DD/MM/YY",
+    },
+  },
+  {
+    id: "icici",
+    name: "ICICI Bank",
+    mapping: {
+      date: "Transaction Date",
+      description: "Transaction Remarks",
+      reference: "Cheque Number",
+      debit: "Withdrawal Amount (INR )",
+      credit: "Deposit Amount (INR )",
+      balance: "Balance (INR )",
+      dateFormat: "DD/MM/YYYY",
+    },
+  },
+  {
+    id: "sbi",
+    name: "State Bank of India",
+    mapping: {
+      date: "Txn Date",
+      description: "Description",
+      reference: "Ref No./Cheque No.",
+      debit: "Debit",
+      credit: "Credit",
+      balance: "Balance",
+      dateFormat: "DD MMM YYYY",
+    },
+  },
+  {
+    id: "axis",
+    name: "Axis Bank",
+    mapping: {
+      date: "Tran Date",
+      description: "PARTICULARS",
+      reference: "CHQNO",
+      debit: "DR",
+      credit: "CR",
+      balance: "BAL",
+      dateFormat: "DD-MM-YYYY",
+    },
+  },
+];
+
+export interface ParsedStatementRow {
+  line: number; // 1-based line in the file
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // signed rupees: credits positive, debits negative
+  reference: string | null;
+  balance: number | null; // running balance after this row, when the statement has one
+}
+
+export interface StatementRowError {
+  line: number;
+  raw: string;
+  error: string;
+}
+
+export interface ParsedStatement {
+  headers: string[];
+  rows: ParsedStatementRow[];
+  errors: StatementRowError[];
+}
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// RFC 4180 style parsing with quoted fields; the delimiter is whichever of , ; tab | splits the first lines most
+export function parseCsv(text: string): string[][] {
+  const content = text.replace(/^﻿/, "");
+  const sample = content.split(/\r?\n/).slice(0, 20).join("\n");
+  const delimiter = [",", ";", "\t", "|"]
+    .map((candidate) => ({ candidate, count: sample.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === "") {
+      quoted = true;
+      field = "";
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field.trim());
+    rows.push(row);
+  }
+  return rows;
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Index of a mapped column: exact header first, then a header that contains the mapped name
+export function columnIndex(headers: string[], name?: string): number {
+  if (!name) return -1;
+  const wanted = normalizeHeader(name);
+  const normalized = headers.map(normalizeHeader);
+  const exact = normalized.indexOf(wanted);
+  return exact >= 0 ? exact : normalized.findIndex((header) => wanted && header.includes(wanted));
+}
+
+// Banks put account details above the table; the header is the first row naming the date and description columns
+export function findHeaderRow(rows: string[][], mapping: Pick<ColumnMapping, "date" | "description">): number {
+  return rows.findIndex(
+    (row) => columnIndex(row, mapping.date) >= 0 && columnIndex(row, mapping.description) >= 0
+  );
+}
+
+// The preset whose columns appear in the file, if any
+export function detectPreset(rows: string[][]): BankPreset | null {
+  return BANK_PRESETS.find((preset) => {
+    const headerRow = findHeaderRow(rows, preset.mapping);
+    if (headerRow < 0) return false;
+    const headers = rows[headerRow];
+    return [preset.mapping.debit, preset.mapping.credit, preset.mapping.amount]
+      .filter(Boolean)
+      .every((column) => columnIndex(headers, column) >= 0);
+  }) || null;
+}
+
+export function parseDate(value: string, format: DateFormat): string | null {
+  const text = value.trim().split(/\s+\d{1,2}:\d{2}/)[0]; // drop a trailing time
+  let day: number, month: number, year: number;
+
+  if (format === "YYYY-MM-DD") {
+    const match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (!match) return null;
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (format === "MM/DD/YYYY") {
+    const match = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (!match) return null;
+    [month, day, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if (format.includes("MMM")) {
+    const match = text.match(/^(\d{1,2})[\s\-\/]([A-Za-z]{3})[A-Za-z]*[\s\-\/,]+(\d{2}|\d{4})$/);
+    if (!match) return null;
+    day = Number(match[1]);
+    month = MONTHS.indexOf(match[2].toLowerCase()) + 1;
+    year = Number(match[3]);
+  } else {
+    const match = text.match(/^(\d{1,2})[\/\-.](\d{1,2})[\/\-.](\d{2}|\d{4})$/);
+    if (!match) return null;
+    [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  }
+
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null; // 31/02 and the like
+  return date.toISOString().split("T")[0];
+}
+
+// "1,23,456.78", "₹500", "INR 500.00", "(500.00)", "500.00 Dr", "-500" -> signed number; "" and "-" -> null
+export function parseAmount(value: string): number | null {
+  let text = (value || "").trim();
+  if (!text || text === "-" || text === "--") return null;
+
+  let sign = 1;
+  if (/^\(.*\)$/.test(text)) {
+    sign = -1;
+    text = text.slice(1, -1);
+  }
+  if (/\bdr\.?$/i.test(text)) {
+    sign = -1;
+    text = text.replace(/\bdr\.?$/i, "");
+  } else {
+    text = text.replace(/\bcr\.?$/i, "");
+  }
+
+  text = text.replace(/₹|inr|rs\.?/gi, "").replace(/,/g, "").trim();
+  if (text.startsWith("-")) {
+    sign = -sign;
+    text = text.slice(1);
+  }
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  return sign * Number(text);
+}
+
+// Turn the table under the header row into signed transactions. Rows that cannot be read
+// are reported with their line number instead of failing the whole file; blank rows are skipped.
+export function parseStatementRows(rows: string[][], mapping: ColumnMapping): ParsedStatement {
+  const headerRow = findHeaderRow(rows, mapping);
+  if (headerRow < 0) {
+    return {
+      headers: [],
+      rows: [],
+      errors: [{ line: 1, raw: "", error: `No header row with "${mapping.date}" and "${mapping.description}" columns` }],
+    };
+  }
+
+  const headers = rows[headerRow];
+  const column = {
+    date: columnIndex(headers, mapping.date),
+    description: columnIndex(headers, mapping.description),
+    amount: columnIndex(headers, mapping.amount),
+    type: columnIndex(headers, mapping.type),
+    debit: columnIndex(headers, mapping.debit),
+    credit: columnIndex(headers, mapping.credit),
+    reference: columnIndex(headers, mapping.reference),
+    balance: columnIndex(headers, mapping.balance),
+  };
+
+  const parsed: ParsedStatementRow[] = [];
+  const errors: StatementRowError[] = [];
+
+  if (column.amount < 0 && column.debit < 0 && column.credit < 0) {
+    errors.push({ line: headerRow + 1, raw: headers.join(", "), error: "Map an amount column, or debit and credit columns" });
+    return { headers, rows: parsed, errors };
+  }
+
+  rows.slice(headerRow + 1).forEach((row, offset) => {
+    const line = headerRow + offset + 2;
+    const cell = (index: number) => (index >= 0 ? row[index] ?? "" : "");
+    if (row.every((value) => !value.trim()) || /^\*+$/.test(row.join("").trim())) return;
+
+    const raw = row.join(", ");
+    const date = parseDate(cell(column.date), mapping.dateFormat);
+    if (!date) {
+      errors.push({ line, raw, error: `Unreadable date "${cell(column.date)}" (expected ${mapping.dateFormat})` });
+      return;
+    }
+
+    const description = cell(column.description).replace(/\s+/g, " ").trim();
+    if (!description) {
+      errors.push({ line, raw, error: "Missing description" });
+      return;
+    }
+
+    let amount: number | null = null;
+    if (column.amount >= 0) {
+      amount = parseAmount(cell(column.amount));
+      const type = cell(column.type).toLowerCase();
+      if (amount !== null && /^(dr|debit|d|withdrawal)/.test(type)) amount = -Math.abs(amount);
+      if (amount !== null && /^(cr|credit|c|deposit)/.test(type)) amount = Math.abs(amount);
+    } else {
+      const debit = parseAmount(cell(column.debit));
+      const credit = parseAmount(cell(column.credit));
+      if (debit && credit) {
+        errors.push({ line, raw, error: "Both debit and credit are filled in" });
+        return;
+      }
+      amount = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+    }
+
+    if (amount === null || amount === 0) {
+      errors.push({ line, raw, error: "Missing or unreadable amount" });
+      return;
+    }
+
+    const reference = cell(column.reference).trim();
+    parsed.push({
+      line,
+      date,
+      description,
+      amount,
+      reference: reference && reference !== "-" ? reference : null,
+      balance: column.balance >= 0 ? parseAmount(cell(column.balance)) : null,
+    });
+  });
+
+  return { headers, rows: parsed, errors };
+}
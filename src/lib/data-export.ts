@@ -0,0 +1,317 @@
+// Full data export
+// Bundles a user's transactions, categories, insights, feedback, preferences and account details into a downloadable file
+
+import { db } from '@/db';
+import {
+  connectedAccounts,
+  dataExports,
+  insightFeedback,
+  insights,
+  transactionCategories,
+  transactions,
+  userPreferences,
+} from '@/db/schema';
+import { and, count, eq, gte, lt, lte } from 'drizzle-orm';
+import { ExportTable, writeCsv, writeJson, writeXlsx, writeZip } from '@/lib/export-files';
+import { fromPaise, loadUserTransactions } from '@/lib/transactions';
+
+type ExportRow = typeof dataExports.$inferSelect;
+
+export type DataExportFormat = 'csv' | 'json' | 'xlsx';
+
+export const DATA_EXPORT_FORMATS: DataExportFormat[] = ['csv', 'json', 'xlsx'];
+
+export interface DataExportFilters {
+  startDate: string | null; // YYYY-MM-DD, inclusive
+  endDate: string | null;
+  categoryIds: number[]; // empty for every category; a parent category includes its subcategories
+}
+
+export interface ApiDataExport {
+  id: number;
+  format: string;
+  status: string; // pending/ready/failed/expired
+  filters: DataExportFilters;
+  fileName: string | null;
+  size: number | null; // bytes
+  recordCount: number | null;
+  error: string | null;
+  expiresAt: string | null;
+  downloadUrl: string | null; // while ready; needs the same sign-in as the rest of the API
+  createdAt: string;
+}
+
+// Exports with more transactions than this are built in the background
+const INLINE_LIMIT = 2000;
+
+// How long a built export can be downloaded
+const EXPORT_TTL_MS = 24 * 60 * 60 * 1000;
+
+const FILE_TYPES: Record<DataExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'application/zip', extension: 'zip' }, // one CSV per table
+  json: { contentType: 'application/json', extension: 'json' },
+  xlsx: { contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', extension: 'xlsx' },
+};
+
+export function dataExportContentType(format: string): string {
+  return FILE_TYPES[format as DataExportFormat]?.contentType ?? 'application/octet-stream';
+}
+
+export function serializeDataExport(row: Omit<ExportRow, 'content'>): ApiDataExport {
+  return {
+    id: row.id,
+    format: row.format,
+    status: row.status,
+    filters: row.filters as DataExportFilters,
+    fileName: row.fileName,
+    size: row.size,
+    recordCount: row.recordCount,
+    error: row.error,
+    expiresAt: row.expiresAt,
+    downloadUrl: row.status === 'ready' ? `/api/data-exports/download?id=${row.id}` : null,
+    createdAt: row.createdAt,
+  };
+}
+
+// The chosen categories and every category under them
+async function expandCategoryIds(categoryIds: number[]): Promise<Set<number>> {
+  const categories = await db.select().from(transactionCategories);
+  const selected = new Set(categoryIds);
+  let grew = true;
+  while (grew) {
+    grew = false;
+    categories.forEach((category) => {
+      if (category.parentId !== null && selected.has(category.parentId) && !selected.has(category.id)) {
+        selected.add(category.id);
+        grew = true;
+      }
+    });
+  }
+  return selected;
+}
+
+// Every table in an export. Transactions, insights and feedback follow the date range; transactions
+// also follow the categories (a split counts when any part is in one). Account access tokens and
+// Plaid item ids are never exported.
+export async function loadExportTables(userId: number, filters: DataExportFilters): Promise<ExportTable[]> {
+  const [history, categories, accounts, userInsights, feedback, preferences] = await Promise.all([
+    loadUserTransactions(userId, { startDate: filters.startDate ?? undefined, endDate: filters.endDate ?? undefined }),
+    db.select().from(transactionCategories),
+    db.select().from(connectedAccounts).where(eq(connectedAccounts.userId, userId)),
+    db.select().from(insights).where(eq(insights.userId, userId)),
+    db.select().from(insightFeedback).where(eq(insightFeedback.userId, userId)),
+    db.select().from(userPreferences).where(eq(userPreferences.userId, userId)).limit(1),
+  ]);
+
+  const categoryIds = filters.categoryIds.length > 0 ? await expandCategoryIds(filters.categoryIds) : null;
+  const selected = history.filter(
+    (transaction) =>
+      !categoryIds ||
+      categoryIds.has(transaction.categoryId) ||
+      transaction.splits.some((split) => categoryIds.has(split.categoryId))
+  );
+
+  // Insights and feedback are dated by when they were created
+  const inRange = (createdAt: string) => {
+    const date = createdAt.slice(0, 10);
+    return (!filters.startDate || date >= filters.startDate) && (!filters.endDate || date <= filters.endDate);
+  };
+
+  const categoryNames = new Map(categories.map((category) => [category.id, category.name]));
+  const accountNames = new Map(accounts.map((account) => [account.id, `${account.institutionName} - ${account.accountName}`]));
+
+  return [
+    {
+      key: 'transactions',
+      title: 'Transactions',
+      columns: [
+        'id', 'date', 'description', 'merchant', 'amount', 'type', 'category', 'account',
+        'recurring', 'transfer', 'refund_of_id', 'external_id',
+      ],
+      rows: selected.map((transaction) => [
+        transaction.id,
+        transaction.date,
+        transaction.description,
+        transaction.merchantName,
+        transaction.amount,
+        transaction.type,
+        transaction.category,
+        transaction.accountId !== null ? accountNames.get(transaction.accountId) ?? null : null,
+        transaction.isRecurring,
+        transaction.isTransfer,
+        transaction.refundOfId,
+        transaction.externalId,
+      ]),
+    },
+    {
+      key: 'transaction_splits',
+      title: 'Splits',
+      columns: ['transaction_id', 'category', 'amount', 'note'],
+      rows: selected.flatMap((transaction) =>
+        transaction.splits.map((split) => [transaction.id, split.category, split.amount, split.note])
+      ),
+    },
+    {
+      key: 'categories',
+      title: 'Categories',
+      columns: ['id', 'name', 'parent', 'icon', 'color', 'income'],
+      rows: categories.map((category) => [
+        category.id,
+        category.name,
+        category.parentId !== null ? categoryNames.get(category.parentId) ?? null : null,
+        category.icon,
+        category.color,
+        Boolean(category.isIncome),
+      ]),
+    },
+    {
+      key: 'accounts',
+      title: 'Accounts',
+      columns: ['id', 'institution', 'name', 'type', 'last_4', 'balance', 'balance_updated_at', 'primary', 'created_at'],
+      rows: accounts.map((account) => [
+        account.id,
+        account.institutionName,
+        account.accountName,
+        account.accountType,
+        account.accountNumberLast4,
+        account.currentBalance !== null ? fromPaise(account.currentBalance) : null,
+        account.balanceUpdatedAt,
+        Boolean(account.isPrimary),
+        account.createdAt,
+      ]),
+    },
+    {
+      key: 'insights',
+      title: 'Insights',
+      columns: ['id', 'type', 'title', 'message', 'data', 'read', 'created_at'],
+      rows: userInsights
+        .filter((insight) => inRange(insight.createdAt))
+        .map((insight) => [
+          insight.id,
+          insight.insightType,
+          insight.title,
+          insight.message,
+          (insight.data as object | null) ?? null,
+          Boolean(insight.isRead),
+          insight.createdAt,
+        ]),
+    },
+    {
+      key: 'insight_feedback',
+      title: 'Insight Feedback',
+      columns: ['id', 'insight_id', 'rating', 'helpful', 'comment', 'created_at'],
+      rows: feedback
+        .filter((entry) => inRange(entry.createdAt))
+        .map((entry) => [entry.id, entry.insightId, entry.rating, entry.helpful, entry.comment, entry.createdAt]),
+    },
+    {
+      key: 'preferences',
+      title: 'Preferences',
+      columns: [
+        'safety_threshold', 'dark_mode', 'push_notifications', 'low_balance_alerts', 'weekly_reports',
+        'savings_tips', 'updated_at',
+      ],
+      rows: preferences.map((preference) => [
+        preference.safetyThreshold,
+        preference.darkMode,
+        preference.pushNotifications,
+        preference.lowBalanceAlerts,
+        preference.weeklyReports,
+        preference.savingsTips,
+        preference.updatedAt,
+      ]),
+    },
+  ];
+}
+
+// The export file in the requested format
+export function renderDataExport(
+  tables: ExportTable[],
+  format: DataExportFormat,
+  filters: DataExportFilters,
+  now: Date = new Date()
+): Buffer {
+  if (format === 'json') {
+    return Buffer.from(writeJson(tables, { exportedAt: now.toISOString(), filters: { ...filters } }), 'utf8');
+  }
+  if (format === 'xlsx') {
+    return writeXlsx(tables, { now });
+  }
+  return writeZip(
+    tables.map((table) => ({ name: `${table.key}.csv`, content: Buffer.from(writeCsv(table), 'utf8') })),
+    { now }
+  );
+}
+
+// Build a pending export and store the file; a failure is recorded on the export instead of thrown
+async function buildDataExport(job: ExportRow): Promise<ExportRow> {
+  const filters = job.filters as DataExportFilters;
+  const format = job.format as DataExportFormat;
+  const now = new Date();
+
+  try {
+    const tables = await loadExportTables(job.userId, filters);
+    const content = renderDataExport(tables, format, filters, now);
+    const updated = await db
+      .update(dataExports)
+      .set({
+        status: 'ready',
+        fileName: `finpal-export-${now.toISOString().split('T')[0]}.${FILE_TYPES[format].extension}`,
+        content,
+        size: content.length,
+        recordCount: tables[0].rows.length,
+        expiresAt: new Date(now.getTime() + EXPORT_TTL_MS).toISOString(),
+        updatedAt: now.toISOString(),
+      })
+      .where(eq(dataExports.id, job.id))
+      .returning();
+    return updated[0];
+  } catch (error) {
+    console.error('Error building data export:', error);
+    const updated = await db
+      .update(dataExports)
+      .set({ status: 'failed', error: 'The export could not be built', updatedAt: now.toISOString() })
+      .where(eq(dataExports.id, job.id))
+      .returning();
+    return updated[0];
+  }
+}
+
+// Expired exports give up their files; only the record of them stays
+export async function expireDataExports(userId: number): Promise<void> {
+  const now = new Date().toISOString();
+  await db
+    .update(dataExports)
+    .set({ status: 'expired', content: null, updatedAt: now })
+    .where(and(eq(dataExports.userId, userId), eq(dataExports.status, 'ready'), lt(dataExports.expiresAt, now)));
+}
+
+// Start an export. Small ones are built before returning; larger ones come back pending and are
+// built in the background, to be polled until ready.
+export async function createDataExport(
+  userId: number,
+  format: DataExportFormat,
+  filters: DataExportFilters
+): Promise<ApiDataExport> {
+  await expireDataExports(userId);
+
+  const conditions = [eq(transactions.userId, userId)];
+  if (filters.startDate) conditions.push(gte(transactions.transactionDate, filters.startDate));
+  if (filters.endDate) conditions.push(lte(transactions.transactionDate, filters.endDate));
+  const [{ total }] = await db.select({ total: count() }).from(transactions).where(and(...conditions));
+
+  const now = new Date().toISOString();
+  const inserted = await db
+    .insert(dataExports)
+    .values({ userId, format, status: 'pending', filters, createdAt: now, updatedAt: now })
+    .returning();
+
+  if (total <= INLINE_LIMIT) {
+    return serializeDataExport(await buildDataExport(inserted[0]));
+  }
+
+  buildDataExport(inserted[0]).catch((error) => {
+    console.error('Error building data export:', error);
+  });
+  return serializeDataExport(inserted[0]);
+}
@@ -0,0 +1,237 @@
+// Data export file writers
+// Writes tables of exported records as CSV (zipped, one file per table), JSON or an XLSX workbook
+
+import { deflateRawSync } from "zlib";
+
+export type ExportValue = string | number | boolean | null | object;
+
+export interface ExportTable {
+  key: string; // JSON property and CSV file name, e.g. "insight_feedback"
+  title: string; // XLSX sheet name, e.g. "Insight Feedback"
+  columns: string[];
+  rows: ExportValue[][]; // one value per column
+}
+
+export interface ZipEntry {
+  name: string;
+  content: Buffer;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS time and date, as zip headers store them
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+// A deflated zip archive (no zip64, so entries and the archive stay under 4 GB)
+export function writeZip(entries: ZipEntry[], options: { now?: Date } = {}): Buffer {
+  const { time, date } = dosDateTime(options.now ?? new Date());
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, "utf8");
+    const compressed = deflateRawSync(entry.content);
+    const crc = crc32(entry.content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4); // version needed
+    local.writeUInt16LE(0x0800, 6); // UTF-8 names
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt16LE(time, 10);
+    local.writeUInt16LE(date, 12);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(entry.content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    local.writeUInt16LE(0, 28);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4); // version made by
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt16LE(time, 12);
+    central.writeUInt16LE(date, 14);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(entry.content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42); // extra, comment, disk and attributes stay zero
+
+    locals.push(local, name, compressed);
+    centrals.push(central, name);
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const cellText = (value: ExportValue): string =>
+  value === null ? "" : typeof value === "object" ? JSON.stringify(value) : String(value);
+
+// RFC 4180 CSV with a BOM so spreadsheet apps read it as UTF-8. Text that a spreadsheet would
+// run as a formula (=, +, -, @) is prefixed with an apostrophe.
+export function writeCsv(table: ExportTable): string {
+  const field = (value: ExportValue) => {
+    let text = cellText(value);
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  const lines = [table.columns, ...table.rows].map((row) => row.map(field).join(","));
+  return `﻿${lines.join("\r\n")}\r\n`;
+}
+
+// Tables as JSON arrays of records, keyed by table
+export function writeJson(tables: ExportTable[], meta: Record<string, ExportValue> = {}): string {
+  const document: Record<string, ExportValue> = { ...meta };
+  tables.forEach((table) => {
+    document[table.key] = table.rows.map((row) =>
+      Object.fromEntries(table.columns.map((column, index) => [column, row[index] ?? null]))
+    );
+  });
+  return JSON.stringify(document, null, 2);
+}
+
+// Characters XML 1.0 does not allow are dropped
+const escapeXml = (text: string) =>
+  text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// A, B, ... Z, AA, AB, ...
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function xlsxCell(value: ExportValue, ref: string, style = 0): string {
+  const s = style ? ` s="${style}"` : "";
+  if (value === null || value === "") return "";
+  if (typeof value === "number" && isFinite(value)) return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  if (typeof value === "boolean") return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  const text = cellText(value).slice(0, 32767); // Excel's limit per cell
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+}
+
+function xlsxSheet(table: ExportTable): string {
+  const rows = [table.columns, ...table.rows].map((row, rowIndex) => {
+    const cells = row.map((value, index) => xlsxCell(value, `${columnName(index)}${rowIndex + 1}`, rowIndex === 0 ? 1 : 0));
+    return `<row r="${rowIndex + 1}">${cells.join("")}</row>`;
+  });
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>` +
+    `<sheetData>${rows.join("")}</sheetData></worksheet>`
+  );
+}
+
+// Bold header row (style 1); everything else uses the default
+const XLSX_STYLES =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n` +
+  `<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+  `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+  `<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>` +
+  `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+  `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+  `<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+  `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>` +
+  `<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>` +
+  `</styleSheet>`;
+
+// An XLSX workbook with one sheet per table. Text is stored inline, so no shared-strings part is needed.
+export function writeXlsx(tables: ExportTable[], options: { now?: Date } = {}): Buffer {
+  // Sheet names: at most 31 characters, none of : \ / ? * [ ]
+  const names = tables.map((table) => table.title.replace(/[:\\\/?*\[\]]/g, " ").trim().slice(0, 31));
+  const sheets = tables.map((_, index) => index + 1);
+  const xml = (text: string) => Buffer.from(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${text}`, "utf8");
+
+  return writeZip(
+    [
+      {
+        name: "[Content_Types].xml",
+        content: xml(
+          `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+            `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+            `<Default Extension="xml" ContentType="application/xml"/>` +
+            `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+            `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+            sheets
+              .map(
+                (sheet) =>
+                  `<Override PartName="/xl/worksheets/sheet${sheet}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+              )
+              .join("") +
+            `</Types>`
+        ),
+      },
+      {
+        name: "_rels/.rels",
+        content: xml(
+          `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+            `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+            `</Relationships>`
+        ),
+      },
+      {
+        name: "xl/workbook.xml",
+        content: xml(
+          `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>` +
+            sheets.map((sheet) => `<sheet name="${escapeXml(names[sheet - 1])}" sheetId="${sheet}" r:id="rId${sheet}"/>`).join("") +
+            `</sheets></workbook>`
+        ),
+      },
+      {
+        name: "xl/_rels/workbook.xml.rels",
+        content: xml(
+          `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+            sheets
+              .map(
+                (sheet) =>
+                  `<Relationship Id="rId${sheet}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${sheet}.xml"/>`
+              )
+              .join("") +
+            `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+            `</Relationships>`
+        ),
+      },
+      { name: "xl/styles.xml", content: Buffer.from(XLSX_STYLES, "utf8") },
+      ...tables.map((table, index) => ({
+        name: `xl/worksheets/sheet${index + 1}.xml`,
+        content: Buffer.from(xlsxSheet(table), "utf8"),
+      })),
+    ],
+    options
+  );
+}
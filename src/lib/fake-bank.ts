@@ -0,0 +1,293 @@
+// Local bank aggregator
+// Generates a realistic Indian bank item (a savings account and a credit card with salary, rent, bills and
+// everyday spending) so linking and syncing work without aggregator credentials or a network connection
+
+import { createHmac, timingSafeEqual } from "crypto";
+import type {
+  AggregatorAccount,
+  AggregatorTransaction,
+  BankAggregator,
+  TransactionSyncPage,
+} from "@/lib/bank-aggregation";
+
+const INSTITUTIONS = [
+  { name: "HDFC Bank", handle: "okhdfcbank" },
+  { name: "ICICI Bank", handle: "okicici" },
+  { name: "State Bank of India", handle: "oksbi" },
+  { name: "Axis Bank", handle: "okaxis" },
+  { name: "Kotak Mahindra Bank", handle: "kotak" },
+];
+
+const EMPLOYERS = ["ACME TECHNOLOGIES PVT LTD", "BLUEDART LOGISTICS LTD", "NIMBUS SOFTWARE LLP", "URBAN COMPANY PVT LTD"];
+
+// Transactions from the last this-many days are still pending
+const PENDING_DAYS = 2;
+
+// How far back a first sync reaches, and how far back history exists at all
+const SYNC_HISTORY_DAYS = 90;
+const MAX_HISTORY_DAYS = 730;
+
+type AccountKind = "savings" | "card";
+
+interface FakeItem {
+  seed: number;
+  institution: (typeof INSTITUTIONS)[number];
+  salary: number;
+  rent: number;
+  savingsMask: string;
+  cardMask: string;
+}
+
+interface Spend {
+  merchant: string;
+  account: AccountKind;
+  min: number;
+  max: number;
+  chance: number; // per day
+}
+
+// Everyday spending; each can happen at most once a day
+const EVERYDAY: Spend[] = [
+  { merchant: "Swiggy", account: "card", min: 150, max: 900, chance: 0.3 },
+  { merchant: "Zomato", account: "savings", min: 180, max: 1100, chance: 0.2 },
+  { merchant: "Uber", account: "savings", min: 90, max: 450, chance: 0.25 },
+  { merchant: "Ola", account: "savings", min: 80, max: 380, chance: 0.1 },
+  { merchant: "BigBasket", account: "card", min: 400, max: 2500, chance: 0.12 },
+  { merchant: "Blinkit", account: "savings", min: 120, max: 900, chance: 0.15 },
+  { merchant: "Amazon", account: "card", min: 250, max: 4000, chance: 0.1 },
+  { merchant: "Flipkart", account: "card", min: 300, max: 3500, chance: 0.05 },
+  { merchant: "HP Petrol Pump", account: "card", min: 500, max: 2000, chance: 0.07 },
+  { merchant: "Chai Point", account: "savings", min: 20, max: 150, chance: 0.35 },
+  { merchant: "Apollo Pharmacy", account: "savings", min: 150, max: 1200, chance: 0.04 },
+];
+
+// FNV-1a
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: the same seed always gives the same sequence
+function randomSequence(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const between = (random: () => number, min: number, max: number) => min + random() * (max - min);
+const digits = (random: () => number, count: number) =>
+  Array.from({ length: count }, () => Math.floor(random() * 10)).join("");
+
+function addDays(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().split("T")[0];
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+function itemFromSeed(seed: number): FakeItem {
+  const random = randomSequence(seed);
+  return {
+    seed,
+    institution: INSTITUTIONS[Math.floor(random() * INSTITUTIONS.length)],
+    salary: Math.round(between(random, 45000, 120000) / 500) * 500,
+    rent: Math.round(between(random, 12000, 30000) / 500) * 500,
+    savingsMask: digits(random, 4),
+    cardMask: digits(random, 4),
+  };
+}
+
+function itemFromAccessToken(accessToken: string): FakeItem {
+  const match = accessToken.match(/^access-fake-([0-9a-f]{8})$/);
+  if (!match) {
+    throw new Error("Not an access token from the local aggregator");
+  }
+  return itemFromSeed(parseInt(match[1], 16));
+}
+
+const accountId = (item: FakeItem, kind: AccountKind) => `fake-${item.seed.toString(16)}-${kind}`;
+
+// Everything that happened on one day, as it looks on `asOf`: pending until PENDING_DAYS have passed
+function transactionsOn(item: FakeItem, date: string, asOf: string): AggregatorTransaction[] {
+  const random = randomSequence(hashString(`${item.seed}:${date}`));
+  const dayOfMonth = parseInt(date.slice(8, 10));
+  const pending = date > addDays(asOf, -PENDING_DAYS);
+  const entries: Array<{ account: AccountKind; description: string; merchantName: string | null; amount: number }> = [];
+
+  const upi = (merchant: string) =>
+    `UPI/${digits(random, 12)}/${merchant.toUpperCase()}/${merchant.toLowerCase().replace(/[^a-z]/g, "")}@${item.institution.handle}`;
+  const card = (merchant: string) => `${merchant.toUpperCase()} ${random() < 0.5 ? "BANGALORE" : "MUMBAI"} IN`;
+
+  if (dayOfMonth === 1) {
+    const employer = EMPLOYERS[item.seed % EMPLOYERS.length];
+    entries.push({
+      account: "savings",
+      description: `NEFT CR-${digits(random, 11)}-${employer}-SALARY`,
+      merchantName: null,
+      amount: item.salary,
+    });
+  }
+  if (dayOfMonth === 3) {
+    entries.push({ account: "savings", description: upi("Rent Landlord"), merchantName: null, amount: -item.rent });
+  }
+  if (dayOfMonth === 7) {
+    entries.push({
+      account: "savings",
+      description: `BESCOM BILL PAYMENT ${digits(random, 10)}`,
+      merchantName: "BESCOM",
+      amount: -Math.round(between(random, 900, 2600)),
+    });
+  }
+  if (dayOfMonth === 12) {
+    entries.push({ account: "card", description: card("Netflix.com"), merchantName: "Netflix", amount: -649 });
+  }
+  if (dayOfMonth === 15) {
+    entries.push({ account: "savings", description: `AIRTEL POSTPAID ${digits(random, 10)}`, merchantName: "Airtel", amount: -599 });
+  }
+  if (dayOfMonth === 20) {
+    entries.push({ account: "savings", description: "ACH D- ZERODHA MF SIP", merchantName: "Zerodha", amount: -5000 });
+  }
+  if (dayOfMonth === 25) {
+    // Paying off the card: one leg on each account
+    const payment = Math.round(between(random, 8000, 25000));
+    entries.push({ account: "savings", description: `CC PAYMENT XX${item.cardMask}`, merchantName: null, amount: -payment });
+    entries.push({ account: "card", description: "PAYMENT RECEIVED - THANK YOU", merchantName: null, amount: payment });
+  }
+
+  EVERYDAY.forEach((spend) => {
+    if (random() >= spend.chance) return;
+    const amount = between(random, spend.min, spend.max);
+    entries.push({
+      account: spend.account,
+      description: spend.account === "card" ? card(spend.merchant) : upi(spend.merchant),
+      merchantName: spend.merchant,
+      amount: spend.account === "card" ? -Math.round(amount * 100) / 100 : -Math.round(amount),
+    });
+  });
+
+  return entries.map((entry, index) => {
+    const id = `fake-${item.seed.toString(16)}-${date}-${index}`;
+    return {
+      id: pending ? `${id}-pending` : id,
+      accountId: accountId(item, entry.account),
+      date,
+      description: entry.description,
+      merchantName: entry.merchantName,
+      amount: entry.amount,
+      pending,
+      pendingTransactionId: pending ? null : `${id}-pending`,
+    };
+  });
+}
+
+function transactionsBetween(item: FakeItem, startDate: string, endDate: string, asOf: string): AggregatorTransaction[] {
+  const collected: AggregatorTransaction[] = [];
+  const last = endDate < asOf ? endDate : asOf;
+  for (let date = startDate; date <= last; date = addDays(date, 1)) {
+    collected.push(...transactionsOn(item, date, asOf));
+  }
+  return collected;
+}
+
+// Cursors record the day of the last sync
+const CURSOR_PREFIX = "fake:";
+
+export const fakeAggregator: BankAggregator = {
+  name: "fake",
+
+  async createLinkToken(clientUserId) {
+    return {
+      linkToken: `link-fake-${hashString(`${clientUserId}:${Date.now()}`).toString(16)}`,
+      expiration: new Date(Date.now() + 4 * 60 * 60 * 1000).toISOString(),
+    };
+  },
+
+  // Any public token links a bank; the same token always links the same one
+  async exchangePublicToken(publicToken) {
+    const seed = hashString(publicToken).toString(16).padStart(8, "0");
+    return { accessToken: `access-fake-${seed}`, itemId: `item-fake-${seed}` };
+  },
+
+  async getAccounts(accessToken) {
+    const item = itemFromAccessToken(accessToken);
+    const random = randomSequence(item.seed ^ 0x5bd1e995);
+    const accounts: AggregatorAccount[] = [
+      {
+        id: accountId(item, "savings"),
+        name: "Savings Account",
+        mask: item.savingsMask,
+        accountType: "savings",
+        currentBalance: Math.round(between(random, 20000, 150000) * 100) / 100,
+      },
+      {
+        id: accountId(item, "card"),
+        name: "Credit Card",
+        mask: item.cardMask,
+        accountType: "credit",
+        currentBalance: -Math.round(between(random, 5000, 40000) * 100) / 100,
+      },
+    ];
+    return { institutionName: item.institution.name, accounts };
+  },
+
+  async getTransactions(accessToken, startDate, endDate) {
+    const item = itemFromAccessToken(accessToken);
+    const asOf = today();
+    const earliest = addDays(asOf, -MAX_HISTORY_DAYS);
+    return transactionsBetween(item, startDate > earliest ? startDate : earliest, endDate, asOf);
+  },
+
+  // The first sync brings SYNC_HISTORY_DAYS of history. Later ones add the days since the last sync and
+  // replace transactions that were pending then and have posted since, as Plaid does.
+  async syncTransactions(accessToken, cursor) {
+    const item = itemFromAccessToken(accessToken);
+    const asOf = today();
+    const previous = cursor?.startsWith(CURSOR_PREFIX) ? cursor.slice(CURSOR_PREFIX.length) : null;
+    const page: TransactionSyncPage = {
+      added: [],
+      modified: [],
+      removed: [],
+      nextCursor: `${CURSOR_PREFIX}${asOf}`,
+      hasMore: false,
+    };
+
+    if (!previous) {
+      page.added = transactionsBetween(item, addDays(asOf, -SYNC_HISTORY_DAYS + 1), asOf, asOf);
+      return page;
+    }
+    if (previous >= asOf) {
+      return { ...page, nextCursor: cursor as string };
+    }
+
+    for (let date = addDays(previous, -PENDING_DAYS + 1); date <= previous; date = addDays(date, 1)) {
+      transactionsOn(item, date, asOf)
+        .filter((transaction) => !transaction.pending)
+        .forEach((transaction) => {
+          page.removed.push(transaction.pendingTransactionId as string);
+          page.added.push(transaction);
+        });
+    }
+    page.added.push(...transactionsBetween(item, addDays(previous, 1), asOf, asOf));
+    return page;
+  },
+
+  // Webhooks in Plaid's format, signed with an HMAC-SHA256 of the body (hex, in the Fake-Verification
+  // header) under FAKE_BANK_WEBHOOK_SECRET. Without a secret every webhook is rejected.
+  async verifyWebhook(body, headers) {
+    const secret = process.env.FAKE_BANK_WEBHOOK_SECRET;
+    if (!secret) return false;
+    const expected = Buffer.from(createHmac("sha256", secret).update(body).digest("hex"));
+    const claimed = Buffer.from(headers.get("fake-verification") || "");
+    return claimed.length === expected.length && timingSafeEqual(claimed, expected);
+  },
+};
@@ -0,0 +1,100 @@
+// Per-user financial context shared by the cashflow, insights and chat routes
+// Loads stored history, balances and preferences, then runs the projection engine
+
+import { db } from '@/db';
+import { userPreferences } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  calculateCashFlowProjection,
+  DEFAULT_SAFETY_THRESHOLD,
+  DEFAULT_TIME_ZONE,
+  isValidTimeZone,
+  toLocalDateString,
+  addDays,
+  RecurringItem,
+} from '@/lib/cashflow';
+import { loadRecurringItems } from '@/lib/recurring';
+import {
+  AnalysisTransaction,
+  loadAccountsBalance,
+  loadUserTransactions,
+  toAnalysisTransactions,
+} from '@/lib/transactions';
+
+// History window used to fit the projection: long enough to hold two payments of the longest
+// cadence, since classifyCadence accepts annual gaps of up to 380 days
+export const LOOKBACK_DAYS = 400;
+
+export interface UserCashFlow {
+  transactions: AnalysisTransaction[];
+  currentBalance: number;
+  balanceSource: "accounts" | "transactions";
+  safetyThreshold: number;
+  asOf: string;
+  recurringItems: RecurringItem[];
+  projection: ReturnType<typeof calculateCashFlowProjection>;
+}
+
+export async function loadSafetyThreshold(userId: number): Promise<number> {
+  const preferences = await db
+    .select()
+    .from(userPreferences)
+    .where(eq(userPreferences.userId, userId))
+    .limit(1);
+
+  return preferences[0]?.safetyThreshold ?? DEFAULT_SAFETY_THRESHOLD;
+}
+
+// Balance from connected accounts, or the net of all stored history when none are linked
+export async function loadCurrentBalance(
+  userId: number
+): Promise<{ currentBalance: number; balanceSource: "accounts" | "transactions" }> {
+  const accountsBalance = await loadAccountsBalance(userId);
+  if (accountsBalance !== null) {
+    return { currentBalance: accountsBalance, balanceSource: "accounts" };
+  }
+
+  const history = await loadUserTransactions(userId);
+  return {
+    currentBalance: Math.round(history.reduce((sum, t) => sum + t.amount, 0)),
+    balanceSource: "transactions",
+  };
+}
+
+// Inputs shared by the deterministic and probabilistic forecasts
+export async function loadUserCashFlowInputs(
+  userId: number,
+  options: { timeZone?: string } = {}
+): Promise<Omit<UserCashFlow, "projection">> {
+  const timeZone = options.timeZone || DEFAULT_TIME_ZONE;
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Unknown time zone: ${timeZone}`);
+  }
+  const asOf = toLocalDateString(new Date(), timeZone);
+
+  const stored = await loadUserTransactions(userId, { startDate: addDays(asOf, -LOOKBACK_DAYS) });
+  const transactions = toAnalysisTransactions(stored);
+  const { currentBalance, balanceSource } = await loadCurrentBalance(userId);
+  const safetyThreshold = await loadSafetyThreshold(userId);
+  const recurringItems = await loadRecurringItems(userId, transactions);
+
+  return { transactions, currentBalance, balanceSource, safetyThreshold, asOf, recurringItems };
+}
+
+export async function buildUserCashFlow(
+  userId: number,
+  options: { projectionDays?: number; timeZone?: string } = {}
+): Promise<UserCashFlow> {
+  const inputs = await loadUserCashFlowInputs(userId, options);
+
+  const projection = calculateCashFlowProjection(inputs.transactions, {
+    projectionDays: options.projectionDays ?? 7,
+    currentBalance: inputs.currentBalance,
+    safetyThreshold: inputs.safetyThreshold,
+    asOf: inputs.asOf,
+    timeZone: options.timeZone,
+    recurringItems: inputs.recurringItems,
+  });
+
+  return { ...inputs, projection };
+}
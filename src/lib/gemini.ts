@@ -1,13 +1,19 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 
-const apiKey = process.env.GEMINI_API_KEY;
-
-if (!apiKey) {
-  throw new Error('GEMINI_API_KEY is not configured');
+let genAI: GoogleGenerativeAI | null = null;
+
+// Created on first use so importing this module never fails when no key is configured
+function getClient(): GoogleGenerativeAI {
+  if (!genAI) {
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+      throw new Error('GEMINI_API_KEY is not configured');
+    }
+    genAI = new GoogleGenerativeAI(apiKey);
+  }
+  return genAI;
 }
 
-const genAI = new GoogleGenerativeAI(apiKey);
-
 export interface FinancialContext {
   userName: string;
   currentBalance: number;
@@ -34,7 +40,7 @@ export interface CoachingInsight {
  */
 export async function generateFinancialAdvice(context: FinancialContext): Promise<CoachingInsight> {
   try {
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
+    const model = getClient().getGenerativeModel({ model: 'gemini-pro' });
 
     const prompt = `You are "FinPal", a friendly and empathetic financial coach for gig workers and freelancers with variable income. Your role is to provide actionable, encouraging financial advice.
 
@@ -82,31 +88,62 @@ Generate the message now:`;
   }
 }
 
+export interface CategoryOption {
+  id: number;
+  name: string;
+  isIncome: boolean | null;
+}
+
+export interface AICategorySuggestion {
+  categoryId: number;
+  confidence: number; // 0-1, as reported by the model
+}
+
 /**
- * Generate transaction categorization using AI
+ * Categorize a batch of transactions in one prompt, picking from the given categories
+ * (the user's actual taxonomy, custom ones included). Answers are aligned with the input;
+ * an entry is null when the model skipped it or named an id that is not in the list.
+ * Throws when the request itself fails so callers can avoid caching the outcome.
  */
-export async function categorizeTransaction(description: string, amount: number): Promise<string> {
-  try {
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
+export async function categorizeTransactionsWithAI(
+  transactions: Array<{ description: string; amount: number; merchantName?: string | null }>,
+  categories: CategoryOption[]
+): Promise<Array<AICategorySuggestion | null>> {
+  const model = getClient().getGenerativeModel({ model: 'gemini-pro' });
 
-    const prompt = `Categorize this transaction into ONE of these categories: Food, Transport, Shopping, Bills, Entertainment, Healthcare, Education, Other.
+  const prompt = `Categorize each transaction into exactly ONE of the categories below.
 
-Transaction: "${description}"
-Amount: ₹${amount}
+Categories (id: name):
+${categories.map((c) => `${c.id}: ${c.name}${c.isIncome ? ' (income)' : ''}`).join('\n')}
 
-Respond with ONLY the category name, nothing else.`;
+Transactions (index | description | merchant | amount in ₹, positive = money received):
+${transactions.map((t, index) => `${index} | ${t.description} | ${t.merchantName || '-'} | ${t.amount}`).join('\n')}
 
-    const result = await model.generateContent(prompt);
-    const response = result.response;
-    const category = response.text().trim();
+Respond with ONLY a JSON array with one object per transaction, like
+[{"index": 0, "categoryId": 3, "confidence": 0.8}], where confidence is between 0 and 1.`;
 
-    // Validate category
-    const validCategories = ['Food', 'Transport', 'Shopping', 'Bills', 'Entertainment', 'Healthcare', 'Education', 'Other'];
-    return validCategories.includes(category) ? category : 'Other';
-  } catch (error) {
-    console.error('Gemini categorization error:', error);
-    return 'Other';
+  const result = await model.generateContent(prompt);
+  const text = result.response.text().trim().replace(/^```(json)?|```$/g, '').trim();
+  const parsed = JSON.parse(text);
+  if (!Array.isArray(parsed)) {
+    throw new Error('Gemini categorization returned no array');
   }
+
+  const validIds = new Set(categories.map((c) => c.id));
+  const answers: Array<AICategorySuggestion | null> = transactions.map(() => null);
+  parsed.forEach((entry) => {
+    const index = Number(entry?.index);
+    const categoryId = Number(entry?.categoryId);
+    if (!Number.isInteger(index) || index < 0 || index >= transactions.length || !validIds.has(categoryId)) {
+      return;
+    }
+    const confidence = Number(entry.confidence);
+    answers[index] = {
+      categoryId,
+      confidence: isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5,
+    };
+  });
+  return answers;
 }
 
 /**
@@ -117,7 +154,7 @@ export async function generateCashFlowInsight(
   currentBalance: number
 ): Promise<string> {
   try {
-    const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
+    const model = getClient().getGenerativeModel({ model: 'gemini-pro' });
 
     const totalIncome = transactions.filter(t => t.amount > 0).reduce((sum, t) => sum + t.amount, 0);
     const totalExpenses = transactions.filter(t => t.amount < 0).reduce((sum, t) => sum + Math.abs(t.amount), 0);
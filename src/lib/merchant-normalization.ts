@@ -0,0 +1,150 @@
+// Merchant name normalization
+// Cleans bank and UPI narration strings ("UPI/DR/4123/SWIGGY BANGALORE/okaxis") into a canonical merchant
+
+export interface NormalizedMerchant {
+  name: string; // display name, e.g. "Swiggy"
+  key: string; // canonical key of the merchant, e.g. "swiggy"
+  alias: string; // cleaned narration this came from, e.g. "swiggy bangalore" cleans to "swiggy"
+  icon?: string;
+}
+
+interface KnownMerchant {
+  name: string;
+  aliases: string[]; // cleaned forms, matched as whole words
+  icon?: string;
+}
+
+// Well-known brands whose narrations vary between banks, payment apps and legal entity names
+const KNOWN_MERCHANTS: KnownMerchant[] = [
+  { name: "Swiggy Instamart", aliases: ["swiggy instamart", "instamart"], icon: "🛒" },
+  { name: "Swiggy", aliases: ["swiggy", "bundl"], icon: "🍔" },
+  { name: "Zomato", aliases: ["zomato", "zomato media"], icon: "🍕" },
+  { name: "Amazon", aliases: ["amazon", "amazon pay", "amzn", "amazon seller"], icon: "📦" },
+  { name: "Flipkart", aliases: ["flipkart", "fkrt"], icon: "🛍️" },
+  { name: "Myntra", aliases: ["myntra"], icon: "👗" },
+  { name: "Uber Eats", aliases: ["uber eats", "ubereats"], icon: "🍔" },
+  { name: "Uber", aliases: ["uber", "uber india", "uber rides"], icon: "🚕" },
+  { name: "Ola", aliases: ["ola", "olacabs"], icon: "🚕" },
+  { name: "Rapido", aliases: ["rapido", "roppen"], icon: "🏍️" },
+  { name: "Netflix", aliases: ["netflix"], icon: "🎬" },
+  { name: "Spotify", aliases: ["spotify"], icon: "🎵" },
+  { name: "Airtel", aliases: ["airtel", "bharti airtel"], icon: "📱" },
+  { name: "Jio", aliases: ["jio", "reliance jio", "jio prepaid", "jiomobility"], icon: "📱" },
+  { name: "BigBasket", aliases: ["bigbasket", "big basket", "supermarket grocery supplies"], icon: "🛒" },
+  { name: "Blinkit", aliases: ["blinkit", "grofers"], icon: "🛒" },
+  { name: "Zepto", aliases: ["zepto", "kiranakart"], icon: "🛒" },
+  { name: "IRCTC", aliases: ["irctc"], icon: "🚆" },
+  { name: "BookMyShow", aliases: ["bookmyshow", "bigtree entertainment"], icon: "🎟️" },
+];
+
+// Segments and words that describe the payment rail (or its reversal) rather than the payee,
+// so "REFUND MYNTRA DESIGNS" resolves to the same merchant as the purchase
+const RAIL_WORDS = new Set([
+  "upi", "dr", "cr", "p2m", "p2a", "neft", "imps", "rtgs", "ach", "nach", "pos", "ecom",
+  "mmt", "bil", "onl", "inb", "tpt", "tp", "txn", "ref", "ecs", "si", "mandate", "collect",
+  "payment", "payments", "paid", "sent", "received", "credit", "debit", "transfer",
+  "from", "to", "by", "towards", "via", "purchase", "vps", "vin",
+  "refund", "refunded", "reversal", "reversed", "rev", "chargeback",
+]);
+
+// UPI handle suffixes (the part after "@", or left behind as a trailing segment)
+const UPI_HANDLE = /^(ok)?(axis|axisbank|sbi|icici|hdfcbank|hdfc|ybl|ibl|axl|paytm|apl|upi|kotak|yesbank|idfcbank)$/;
+
+const IFSC = /^[a-z]{4}0[a-z0-9]{6}$/;
+
+const CITY_WORDS = new Set([
+  "bangalore", "bengaluru", "blr", "mumbai", "bombay", "delhi", "new delhi", "gurgaon", "gurugram",
+  "noida", "pune", "hyderabad", "chennai", "kolkata", "ahmedabad", "jaipur", "india", "ind", "in",
+]);
+
+const COMPANY_WORDS = new Set([
+  "pvt", "private", "ltd", "limited", "llp", "inc", "corp", "corporation", "technologies",
+  "technology", "services", "retail", "internet", "online", "com", "co", "www", "the",
+]);
+
+const RAIL_PREFIX = /^(upi|neft|imps|rtgs|ach|nach|pos|ecom|mmt|bil|inb|ecs)\b/i;
+
+export function merchantKey(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9&\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function titleCase(text: string): string {
+  return text.replace(/\b[a-z]/g, (letter) => letter.toUpperCase());
+}
+
+// Reduce one narration segment to its meaningful words
+function cleanSegment(segment: string): string {
+  const words = segment
+    .toLowerCase()
+    .replace(/x{2,}\d*/g, " ") // masked card numbers
+    .replace(/[a-z]*\d{3,}[a-z\d]*/g, " ") // reference numbers, terminal ids
+    .replace(/\.(com|in|co)\b/g, " ")
+    .replace(/[^a-z&\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 1 || word === "&");
+
+  const kept = words.filter((word) => !RAIL_WORDS.has(word) && !UPI_HANDLE.test(word) && !IFSC.test(word));
+
+  // City and company suffixes only go when something else remains ("Delhi Darbar" keeps its name)
+  const trimmed = [...kept];
+  while (trimmed.length > 1 && (CITY_WORDS.has(trimmed[trimmed.length - 1]) || COMPANY_WORDS.has(trimmed[trimmed.length - 1]))) {
+    trimmed.pop();
+  }
+  return trimmed.filter((word, index) => index === 0 || !COMPANY_WORDS.has(word)).join(" ");
+}
+
+// The cleaned payee text of a raw narration, or "" when nothing identifiable is left
+export function cleanNarration(raw: string): string {
+  const text = (raw || "").trim();
+  if (!text) return "";
+
+  const segments = RAIL_PREFIX.test(text) ? text.split(/[\/|\\]+|\s*-\s*/) : [text];
+  let vpaFallback = "";
+
+  for (const segment of segments) {
+    const value = segment.trim();
+    if (!value) continue;
+
+    if (value.includes("@")) {
+      // A VPA such as "swiggy.stores@icici": the local part is the best name we have
+      if (!vpaFallback) {
+        vpaFallback = cleanSegment(value.split("@")[0].replace(/[._]/g, " "));
+      }
+      continue;
+    }
+    if (IFSC.test(value.toLowerCase()) || UPI_HANDLE.test(value.toLowerCase())) continue;
+
+    const cleaned = cleanSegment(value);
+    if (cleaned.replace(/[^a-z]/g, "").length >= 2) {
+      return cleaned;
+    }
+  }
+
+  return vpaFallback;
+}
+
+function findKnownMerchant(cleaned: string): KnownMerchant | undefined {
+  const candidates = KNOWN_MERCHANTS.flatMap((merchant) =>
+    merchant.aliases.map((alias) => ({ merchant, alias }))
+  ).sort((a, b) => b.alias.length - a.alias.length);
+
+  return candidates.find(({ alias }) => new RegExp(`(^|\\s)${alias}(\\s|$)`).test(cleaned))?.merchant;
+}
+
+// Normalize a raw narration or merchant string into a canonical merchant, or null when
+// the text carries no payee (e.g. a bare reference number)
+export function normalizeMerchant(raw: string): NormalizedMerchant | null {
+  const alias = merchantKey(cleanNarration(raw));
+  if (!alias) return null;
+
+  const known = findKnownMerchant(alias);
+  if (known) {
+    return { name: known.name, key: merchantKey(known.name), alias, icon: known.icon };
+  }
+
+  return { name: titleCase(alias), key: alias, alias };
+}
@@ -0,0 +1,293 @@
+// Per-user merchant directory
+// Resolves raw narrations to canonical merchants through an alias table; supports merge and split
+
+import { db } from '@/db';
+import { merchantAliases, merchants, transactionCategories, transactions } from '@/db/schema';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { categorizeTransaction } from '@/lib/categorization';
+import { merchantKey, normalizeMerchant } from '@/lib/merchant-normalization';
+import { signedAmount } from '@/lib/transactions';
+
+type MerchantRow = typeof merchants.$inferSelect;
+
+export interface ApiMerchant {
+  id: number;
+  name: string;
+  merchantKey: string;
+  defaultCategoryId: number | null;
+  defaultCategory: string | null;
+  icon: string | null;
+  aliases: string[];
+  transactionCount: number;
+  updatedAt: string;
+}
+
+export async function findMerchantByKey(userId: number, key: string): Promise<MerchantRow | undefined> {
+  const rows = await db
+    .select()
+    .from(merchants)
+    .where(and(eq(merchants.userId, userId), eq(merchants.merchantKey, key)))
+    .limit(1);
+  return rows[0];
+}
+
+// Point the alias at the merchant, whether or not the user has it already
+async function addAlias(userId: number, merchantId: number, alias: string) {
+  await db
+    .insert(merchantAliases)
+    .values({ userId, merchantId, alias, createdAt: new Date().toISOString() })
+    .onConflictDoUpdate({
+      target: [merchantAliases.userId, merchantAliases.alias],
+      set: { merchantId },
+    });
+}
+
+// A new merchant starts in the category the keyword engine picks for its name, when it is sure enough
+async function guessDefaultCategory(name: string, amount: number) {
+  const suggested = categorizeTransaction({ description: name, merchantName: name, amount, date: '' });
+  if (!suggested.category || suggested.confidence < 0.5 || suggested.category === 'Others') {
+    return null;
+  }
+  const match = await db
+    .select()
+    .from(transactionCategories)
+    .where(eq(transactionCategories.name, suggested.category))
+    .limit(1);
+  return match[0] || null;
+}
+
+// Resolve a transaction's narration (or the merchant name it came with) to a merchant in the
+// user's directory, creating the merchant and alias on first sight. Null when no payee can be read.
+// Two imports meeting a new payee at once both end up with the one merchant row.
+export async function resolveMerchant(
+  userId: number,
+  transaction: { description: string; merchantName?: string | null; amount: number }
+): Promise<MerchantRow | null> {
+  const normalized = normalizeMerchant(transaction.merchantName || transaction.description);
+  if (!normalized) {
+    return null;
+  }
+
+  const aliased = await db
+    .select({ merchant: merchants })
+    .from(merchantAliases)
+    .innerJoin(merchants, eq(merchantAliases.merchantId, merchants.id))
+    .where(and(eq(merchantAliases.userId, userId), eq(merchantAliases.alias, normalized.alias)))
+    .limit(1);
+  if (aliased.length > 0) {
+    return aliased[0].merchant;
+  }
+
+  const existing = await findMerchantByKey(userId, normalized.key);
+  if (existing) {
+    await addAlias(userId, existing.id, normalized.alias);
+    return existing;
+  }
+
+  const category = await guessDefaultCategory(normalized.name, transaction.amount);
+  const now = new Date().toISOString();
+  await db
+    .insert(merchants)
+    .values({
+      userId,
+      name: normalized.name,
+      merchantKey: normalized.key,
+      defaultCategoryId: category?.id ?? null,
+      icon: normalized.icon ?? category?.icon ?? null,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .onConflictDoNothing({ target: [merchants.userId, merchants.merchantKey] });
+
+  const merchant = (await findMerchantByKey(userId, normalized.key)) as MerchantRow;
+  await addAlias(userId, merchant.id, normalized.alias);
+  return merchant;
+}
+
+// Link stored transactions that predate the directory (or had no readable payee before) to merchants
+export async function linkUnresolvedTransactions(userId: number): Promise<number> {
+  const unresolved = await db
+    .select()
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), isNull(transactions.merchantId)));
+
+  let linked = 0;
+  for (const row of unresolved) {
+    const merchant = await resolveMerchant(userId, {
+      description: row.description,
+      merchantName: row.merchantName,
+      amount: signedAmount(row),
+    });
+    if (!merchant) continue;
+
+    await db
+      .update(transactions)
+      .set({ merchantId: merchant.id, merchantName: merchant.name })
+      .where(eq(transactions.id, row.id));
+    linked++;
+  }
+  return linked;
+}
+
+export async function listMerchants(userId: number, ids?: number[]): Promise<ApiMerchant[]> {
+  const conditions = [eq(merchants.userId, userId)];
+  if (ids) {
+    if (ids.length === 0) return [];
+    conditions.push(inArray(merchants.id, ids));
+  }
+
+  const rows = await db
+    .select()
+    .from(merchants)
+    .leftJoin(transactionCategories, eq(merchants.defaultCategoryId, transactionCategories.id))
+    .where(and(...conditions));
+
+  const aliases = await db
+    .select()
+    .from(merchantAliases)
+    .where(eq(merchantAliases.userId, userId));
+
+  const linked = await db
+    .select({ merchantId: transactions.merchantId })
+    .from(transactions)
+    .where(eq(transactions.userId, userId));
+
+  const counts: Record<number, number> = {};
+  linked.forEach((row) => {
+    if (row.merchantId !== null) counts[row.merchantId] = (counts[row.merchantId] || 0) + 1;
+  });
+
+  return rows
+    .map(({ merchants: row, transaction_categories: category }) => ({
+      id: row.id,
+      name: row.name,
+      merchantKey: row.merchantKey,
+      defaultCategoryId: row.defaultCategoryId,
+      defaultCategory: category?.name ?? null,
+      icon: row.icon,
+      aliases: aliases.filter((alias) => alias.merchantId === row.id).map((alias) => alias.alias).sort(),
+      transactionCount: counts[row.id] || 0,
+      updatedAt: row.updatedAt,
+    }))
+    .sort((a, b) => b.transactionCount - a.transactionCount || a.name.localeCompare(b.name));
+}
+
+// Rename a merchant or change its default category/icon; linked transactions pick up the new name.
+// Callers check that a new name does not clash with another merchant first.
+export async function updateMerchant(
+  userId: number,
+  merchant: MerchantRow,
+  updates: { name?: string; defaultCategoryId?: number | null; icon?: string | null }
+): Promise<MerchantRow> {
+  const fields: Partial<typeof merchants.$inferInsert> = { updatedAt: new Date().toISOString() };
+
+  if (updates.name !== undefined && updates.name !== merchant.name) {
+    fields.name = updates.name;
+    fields.merchantKey = merchantKey(updates.name);
+  }
+  if (updates.defaultCategoryId !== undefined) fields.defaultCategoryId = updates.defaultCategoryId;
+  if (updates.icon !== undefined) fields.icon = updates.icon;
+
+  const updated = await db
+    .update(merchants)
+    .set(fields)
+    .where(eq(merchants.id, merchant.id))
+    .returning();
+
+  if (fields.name) {
+    await db
+      .update(transactions)
+      .set({ merchantName: fields.name })
+      .where(and(eq(transactions.userId, userId), eq(transactions.merchantId, merchant.id)));
+  }
+
+  return updated[0];
+}
+
+// Fold the source merchants into the target: aliases and transactions move over and the sources are deleted
+export async function mergeMerchants(userId: number, target: MerchantRow, sources: MerchantRow[]): Promise<number> {
+  let moved = 0;
+
+  for (const source of sources) {
+    if (source.id === target.id) continue;
+
+    await db
+      .update(merchantAliases)
+      .set({ merchantId: target.id })
+      .where(and(eq(merchantAliases.userId, userId), eq(merchantAliases.merchantId, source.id)));
+    // Keep resolving the source's own name to the target
+    await addAlias(userId, target.id, source.merchantKey);
+
+    const updated = await db
+      .update(transactions)
+      .set({ merchantId: target.id, merchantName: target.name })
+      .where(and(eq(transactions.userId, userId), eq(transactions.merchantId, source.id)))
+      .returning({ id: transactions.id });
+    moved += updated.length;
+
+    await db.delete(merchants).where(eq(merchants.id, source.id));
+  }
+
+  await db
+    .update(merchants)
+    .set({ updatedAt: new Date().toISOString() })
+    .where(eq(merchants.id, target.id));
+
+  return moved;
+}
+
+// Move some of a merchant's aliases, and the transactions whose narration resolves through them,
+// to a new merchant whose name is not taken yet
+export async function splitMerchant(
+  userId: number,
+  source: MerchantRow,
+  aliases: string[],
+  name: string
+): Promise<{ merchant: MerchantRow; moved: number }> {
+  const now = new Date().toISOString();
+  const inserted = await db
+    .insert(merchants)
+    .values({
+      userId,
+      name,
+      merchantKey: merchantKey(name),
+      defaultCategoryId: source.defaultCategoryId,
+      icon: source.icon,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+  const merchant = inserted[0];
+
+  await db
+    .update(merchantAliases)
+    .set({ merchantId: merchant.id })
+    .where(
+      and(
+        eq(merchantAliases.userId, userId),
+        eq(merchantAliases.merchantId, source.id),
+        inArray(merchantAliases.alias, aliases)
+      )
+    );
+
+  const linked = await db
+    .select()
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), eq(transactions.merchantId, source.id)));
+
+  const movedIds = linked
+    .filter((row) => {
+      const normalized = normalizeMerchant(row.description);
+      return normalized !== null && aliases.includes(normalized.alias);
+    })
+    .map((row) => row.id);
+
+  if (movedIds.length > 0) {
+    await db
+      .update(transactions)
+      .set({ merchantId: merchant.id, merchantName: merchant.name })
+      .where(and(eq(transactions.userId, userId), inArray(transactions.id, movedIds)));
+  }
+
+  return { merchant, moved: movedIds.length };
+}
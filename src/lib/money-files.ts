@@ -0,0 +1,491 @@
+// OFX/QFX and QIF statement files
+// Reads and writes the formats desktop tools and other money apps use to move history in and out
+
+import { parseAmount, StatementRowError } from "@/lib/csv-import";
+
+// Same values as connected_accounts.account_type
+export type StatementAccountType = "checking" | "savings" | "credit" | "investment";
+
+// Day-first is what Indian tools write; Quicken and most US tools write month-first
+export type QifDateFormat = "DD/MM/YYYY" | "MM/DD/YYYY";
+
+export interface StatementAccount {
+  institution: string | null;
+  accountName: string | null;
+  accountNumber: string | null; // as written in the file, often masked
+  accountType: StatementAccountType;
+  currency: string | null;
+  ledgerBalance: number | null; // rupees, at the end of the statement
+}
+
+export interface FileStatementRow {
+  line: number; // 1-based line in the file
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // signed rupees: credits positive, debits negative
+  externalId: string | null; // OFX FITID; QIF has none
+  payee: string | null;
+  category: string | null; // QIF category, "Parent:Child" for subcategories
+}
+
+export interface FileStatement {
+  account: StatementAccount;
+  rows: FileStatementRow[];
+  errors: StatementRowError[];
+}
+
+export interface ExportTransaction {
+  externalId: string;
+  date: string;
+  amount: number;
+  description: string;
+  payee: string | null;
+  category: string | null;
+  splits: Array<{ category: string | null; amount: number; note: string | null }>;
+}
+
+export interface ExportStatement {
+  account: StatementAccount;
+  transactions: ExportTransaction[];
+}
+
+// Narration from a payee name and a memo, without repeating one inside the other
+function describe(payee: string | null, memo: string | null): string {
+  if (!payee || !memo) return (payee || memo || "").trim();
+  const [a, b] = [payee.toLowerCase(), memo.toLowerCase()];
+  if (b.includes(a)) return memo;
+  if (a.includes(b)) return payee;
+  return `${payee} ${memo}`;
+}
+
+const formatMoney = (amount: number) => amount.toFixed(2);
+
+// --- OFX / QFX ---
+
+interface OfxNode {
+  name: string;
+  value: string | null; // leaf elements carry a value; aggregates carry children
+  line: number;
+  children: OfxNode[];
+}
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&apos;/gi, "'")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&amp;/gi, "&");
+
+// OFX 1.x is SGML (leaf end tags optional), 2.x is XML; one tolerant tree builder reads both
+function parseOfxTree(text: string): OfxNode | null {
+  const start = text.search(/<OFX>/i);
+  if (start < 0) return null;
+
+  const root: OfxNode = { name: "ROOT", value: null, line: 1, children: [] };
+  const stack: OfxNode[] = [root];
+  let line = text.slice(0, start).split("\n").length;
+  let position = start;
+
+  const tag = /<(\/?)([A-Za-z0-9.]+)>([^<]*)/g;
+  tag.lastIndex = start;
+  let match: RegExpExecArray | null;
+  while ((match = tag.exec(text))) {
+    line += text.slice(position, match.index).split("\n").length - 1;
+    position = match.index;
+    const [, closing, rawName, rawValue] = match;
+    const name = rawName.toUpperCase();
+    const parent = stack[stack.length - 1];
+
+    if (closing) {
+      // Closing an aggregate closes any SGML leaves left open inside it
+      const index = stack.map((node) => node.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      continue;
+    }
+
+    const value = rawValue.trim();
+    if (value) {
+      parent.children.push({ name, value: decodeEntities(value), line, children: [] });
+    } else {
+      const node: OfxNode = { name, value: null, line, children: [] };
+      parent.children.push(node);
+      stack.push(node);
+    }
+  }
+  return root;
+}
+
+function findAll(node: OfxNode, name: string): OfxNode[] {
+  return node.children.flatMap((child) => (child.name === name ? [child] : findAll(child, name)));
+}
+
+function findFirst(node: OfxNode, name: string): OfxNode | null {
+  return findAll(node, name)[0] ?? null;
+}
+
+function valueOf(node: OfxNode | null, name: string): string | null {
+  const found = node ? findFirst(node, name) : null;
+  return found?.value ?? null;
+}
+
+// 20240125, 20240125120000, 20240125120000.000[+5.30:IST] -> 2024-01-25
+function parseOfxDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().split("T")[0];
+}
+
+// OFX amounts are plain signed decimals; some European exporters use a decimal comma
+function parseOfxAmount(value: string | null): number | null {
+  const text = (value || "").trim().replace(/^\+/, "");
+  if (!/^-?\d*([.,]\d+)?$/.test(text) || !/\d/.test(text)) return null;
+  return Number(text.replace(",", "."));
+}
+
+const OFX_ACCOUNT_TYPES: Record<string, StatementAccountType> = {
+  CHECKING: "checking",
+  SAVINGS: "savings",
+  MONEYMRKT: "savings",
+  CD: "savings",
+  CREDITLINE: "credit",
+};
+
+// Bank (STMTRS) and credit-card (CCSTMTRS) statements in an OFX or QFX file; a file may hold several accounts
+export function parseOfx(text: string): FileStatement[] | null {
+  const tree = parseOfxTree(text);
+  if (!tree) return null;
+
+  const institution = valueOf(findFirst(tree, "FI"), "ORG");
+  const statements = [...findAll(tree, "STMTRS"), ...findAll(tree, "CCSTMTRS")];
+
+  return statements.map((statement) => {
+    const bankAccount = findFirst(statement, "BANKACCTFROM");
+    const cardAccount = findFirst(statement, "CCACCTFROM");
+    const accountType = cardAccount
+      ? "credit"
+      : OFX_ACCOUNT_TYPES[(valueOf(bankAccount, "ACCTTYPE") || "").toUpperCase()] ?? "checking";
+
+    const account: StatementAccount = {
+      institution,
+      accountName: null,
+      accountNumber: valueOf(bankAccount ?? cardAccount, "ACCTID"),
+      accountType,
+      currency: valueOf(statement, "CURDEF"),
+      ledgerBalance: parseOfxAmount(valueOf(findFirst(statement, "LEDGERBAL"), "BALAMT")),
+    };
+
+    const rows: FileStatementRow[] = [];
+    const errors: StatementRowError[] = [];
+    findAll(statement, "STMTTRN").forEach((transaction) => {
+      // Searched in depth: an empty SGML element (<MEMO> with no value) swallows the siblings after it
+      const field = (name: string) => valueOf(transaction, name);
+      const fitId = field("FITID");
+      const payee = field("NAME");
+      const memo = field("MEMO");
+      const raw = [field("DTPOSTED"), field("TRNAMT"), payee, memo].filter(Boolean).join(", ");
+
+      const date = parseOfxDate(field("DTPOSTED"));
+      if (!date) {
+        errors.push({ line: transaction.line, raw, error: `Unreadable DTPOSTED "${field("DTPOSTED") ?? ""}"` });
+        return;
+      }
+      const amount = parseOfxAmount(field("TRNAMT"));
+      if (amount === null || amount === 0) {
+        errors.push({ line: transaction.line, raw, error: `Missing or unreadable TRNAMT "${field("TRNAMT") ?? ""}"` });
+        return;
+      }
+      const description = describe(payee, memo).replace(/\s+/g, " ");
+      if (!description) {
+        errors.push({ line: transaction.line, raw, error: "Missing NAME and MEMO" });
+        return;
+      }
+
+      rows.push({ line: transaction.line, date, description, amount, externalId: fitId, payee, category: null });
+    });
+
+    return { account, rows, errors };
+  });
+}
+
+const escapeSgml = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const ofxDate = (date: string) => date.replace(/-/g, "");
+
+// OFX 1.02 (SGML), the version Quicken, GnuCash and most desktop tools import. Bank accounts go
+// in the banking message set and credit cards in the credit-card one, one statement per account.
+export function writeOfx(statements: ExportStatement[], options: { now?: Date } = {}): string {
+  const now = (options.now ?? new Date()).toISOString().replace(/[-:T]/g, "").slice(0, 14);
+
+  const statementBlock = (statement: ExportStatement, index: number) => {
+    const isCard = statement.account.accountType === "credit";
+    const dates = statement.transactions.map((transaction) => transaction.date).sort();
+    const accountId = escapeSgml(statement.account.accountNumber || statement.account.accountName || `ACCOUNT${index + 1}`);
+    const accountFrom = isCard
+      ? `<CCACCTFROM><ACCTID>${accountId}</CCACCTFROM>`
+      : // Routing numbers are not stored, so BANKID is a placeholder
+        `<BANKACCTFROM><BANKID>000000000<ACCTID>${accountId}<ACCTTYPE>${statement.account.accountType === "savings" ? "SAVINGS" : "CHECKING"}</BANKACCTFROM>`;
+
+    const transactions = statement.transactions.map((transaction) => {
+      // NAME is capped at 32 characters; the full narration goes in MEMO when NAME does not hold it
+      const name = (transaction.payee || transaction.description).slice(0, 32);
+      return [
+        "<STMTTRN>",
+        `<TRNTYPE>${transaction.amount > 0 ? "CREDIT" : "DEBIT"}`,
+        `<DTPOSTED>${ofxDate(transaction.date)}`,
+        `<TRNAMT>${formatMoney(transaction.amount)}`,
+        `<FITID>${escapeSgml(transaction.externalId)}`,
+        `<NAME>${escapeSgml(name)}`,
+        ...(name !== transaction.description ? [`<MEMO>${escapeSgml(transaction.description.slice(0, 255))}`] : []),
+        "</STMTTRN>",
+      ].join("\n");
+    });
+
+    const body = [
+      `<${isCard ? "CCSTMTTRNRS" : "STMTTRNRS"}>`,
+      `<TRNUID>${index + 1}`,
+      "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+      `<${isCard ? "CCSTMTRS" : "STMTRS"}>`,
+      `<CURDEF>${statement.account.currency || "INR"}`,
+      accountFrom,
+      "<BANKTRANLIST>",
+      `<DTSTART>${dates.length ? ofxDate(dates[0]) : now.slice(0, 8)}`,
+      `<DTEND>${dates.length ? ofxDate(dates[dates.length - 1]) : now.slice(0, 8)}`,
+      ...transactions,
+      "</BANKTRANLIST>",
+      ...(statement.account.ledgerBalance !== null
+        ? [`<LEDGERBAL><BALAMT>${formatMoney(statement.account.ledgerBalance)}<DTASOF>${now}</LEDGERBAL>`]
+        : []),
+      `</${isCard ? "CCSTMTRS" : "STMTRS"}>`,
+      `</${isCard ? "CCSTMTTRNRS" : "STMTTRNRS"}>`,
+    ];
+    return { isCard, body: body.join("\n") };
+  };
+
+  const blocks = statements.map(statementBlock);
+  const bank = blocks.filter((block) => !block.isCard).map((block) => block.body);
+  const cards = blocks.filter((block) => block.isCard).map((block) => block.body);
+
+  return [
+    "OFXHEADER:100",
+    "DATA:OFXSGML",
+    "VERSION:102",
+    "SECURITY:NONE",
+    "ENCODING:USASCII",
+    "CHARSET:1252",
+    "COMPRESSION:NONE",
+    "OLDFILEUID:NONE",
+    "NEWFILEUID:NONE",
+    "",
+    "<OFX>",
+    "<SIGNONMSGSRSV1><SONRS>",
+    "<STATUS><CODE>0<SEVERITY>INFO</STATUS>",
+    `<DTSERVER>${now}`,
+    "<LANGUAGE>ENG",
+    "</SONRS></SIGNONMSGSRSV1>",
+    ...(bank.length ? ["<BANKMSGSRSV1>", ...bank, "</BANKMSGSRSV1>"] : []),
+    ...(cards.length ? ["<CREDITCARDMSGSRSV1>", ...cards, "</CREDITCARDMSGSRSV1>"] : []),
+    "</OFX>",
+    "",
+  ].join("\n");
+}
+
+// --- QIF ---
+
+const QIF_ACCOUNT_TYPES: Record<string, StatementAccountType> = {
+  bank: "checking",
+  cash: "checking",
+  ccard: "credit",
+  "oth a": "savings",
+  "oth l": "credit",
+  invst: "investment",
+};
+
+// Transaction lists; category, class and memorized-payee lists are skipped
+const QIF_TRANSACTION_TYPES = ["bank", "cash", "ccard", "oth a", "oth l"];
+
+// QIF dates come as 25/01/2024, 1/25'24 (Quicken's apostrophe years), 25.01.24 or 2024-01-25
+function splitQifDate(value: string): { parts: number[]; apostrophe: boolean } | null {
+  const text = value.replace(/\s+/g, "");
+  const match = text.match(/^(\d{1,4})[\/\-.](\d{1,2})[\/\-.'](\d{2,4})$/);
+  if (!match) return null;
+  return { parts: [Number(match[1]), Number(match[2]), Number(match[3])], apostrophe: text.includes("'") };
+}
+
+function parseQifDate(value: string, format: QifDateFormat): string | null {
+  const split = splitQifDate(value);
+  if (!split) return null;
+  let [first, second, year] = split.parts;
+  let day: number, month: number;
+  if (first > 31) {
+    [year, month, day] = [first, second, year];
+  } else {
+    [day, month] = format === "DD/MM/YYYY" ? [first, second] : [second, first];
+    if (year < 100) year += split.apostrophe || year < 50 ? 2000 : 1900;
+  }
+
+  if (month < 1 || month > 12 || day < 1) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split("T")[0];
+}
+
+// QIF does not say which way round its dates are; a day above 12 settles it, otherwise day-first
+export function detectQifDateFormat(text: string): QifDateFormat {
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.startsWith("D")) continue;
+    const split = splitQifDate(line.slice(1));
+    if (!split || split.parts[0] > 31) continue;
+    if (split.parts[0] > 12) return "DD/MM/YYYY";
+    if (split.parts[1] > 12) return "MM/DD/YYYY";
+  }
+  return "DD/MM/YYYY";
+}
+
+// Records from QIF transaction lists, one statement per !Account block (or one for the whole
+// file when it names no account). Split lines (S/E/$) are read as one transaction.
+export function parseQif(text: string, options: { dateFormat?: QifDateFormat } = {}): FileStatement[] {
+  const format = options.dateFormat ?? detectQifDateFormat(text);
+  const lines = text.replace(/^﻿/, "").split(/\r?\n/);
+
+  const statements: FileStatement[] = [];
+  let account: StatementAccount = {
+    institution: null,
+    accountName: null,
+    accountNumber: null,
+    accountType: "checking",
+    currency: null,
+    ledgerBalance: null,
+  };
+  let current: FileStatement | null = null;
+  let section = "";
+  let record: Record<string, string> = {};
+  let recordLine = 0;
+
+  const finishRecord = () => {
+    const fields = record;
+    const line = recordLine;
+    record = {};
+    if (Object.keys(fields).length === 0) return;
+
+    if (section === "account") {
+      // Each account record starts a new statement for the records that follow it
+      account = {
+        ...account,
+        accountName: fields.N ?? null,
+        accountType: QIF_ACCOUNT_TYPES[(fields.T || "").toLowerCase()] ?? "checking",
+        ledgerBalance: fields.$ !== undefined ? parseAmount(fields.$) : null,
+      };
+      current = null;
+      return;
+    }
+    if (!QIF_TRANSACTION_TYPES.includes(section)) return;
+
+    if (!current) {
+      current = { account: { ...account, accountType: account.accountName ? account.accountType : QIF_ACCOUNT_TYPES[section] }, rows: [], errors: [] };
+      statements.push(current);
+    }
+
+    const raw = ["D", "T", "P", "M"].filter((key) => fields[key]).map((key) => fields[key]).join(", ");
+    const date = fields.D ? parseQifDate(fields.D, format) : null;
+    if (!date) {
+      current.errors.push({ line, raw, error: `Unreadable date "${fields.D ?? ""}" (expected ${format})` });
+      return;
+    }
+    const amount = parseAmount(fields.T ?? fields.U ?? "");
+    if (amount === null || amount === 0) {
+      current.errors.push({ line, raw, error: "Missing or unreadable amount" });
+      return;
+    }
+    const payee = fields.P?.trim() || null;
+    const description = describe(payee, fields.M?.trim() || null).replace(/\s+/g, " ");
+    if (!description) {
+      current.errors.push({ line, raw, error: "Missing payee and memo" });
+      return;
+    }
+
+    // [Account] in the category field is a transfer; "/Class" suffixes are dropped
+    const category = fields.L && !fields.L.startsWith("[") ? fields.L.split("/")[0].trim() || null : null;
+    current.rows.push({ line, date, description, amount, externalId: null, payee, category });
+  };
+
+  lines.forEach((text, index) => {
+    const line = text.trimEnd();
+    if (!line) return;
+
+    if (line.startsWith("!")) {
+      finishRecord();
+      const header = line.toLowerCase();
+      if (header === "!account") section = "account";
+      else if (header.startsWith("!type:")) section = header.slice(6).trim();
+      // !Option:AutoSwitch and !Clear:AutoSwitch only bracket account lists
+      return;
+    }
+    if (line.startsWith("^")) {
+      finishRecord();
+      return;
+    }
+
+    if (Object.keys(record).length === 0) recordLine = index + 1;
+    const code = line[0];
+    // Split lines repeat for every allocation; the record's total is what gets imported
+    if (code === "S" || code === "E" || (code === "$" && section !== "account")) return;
+    record[code] = line.slice(1);
+  });
+  finishRecord();
+
+  return statements;
+}
+
+const QIF_TYPE_NAMES: Record<StatementAccountType, string> = {
+  checking: "Bank",
+  savings: "Bank",
+  credit: "CCard",
+  investment: "Oth A",
+};
+
+function formatQifDate(date: string, format: QifDateFormat): string {
+  const [year, month, day] = date.split("-");
+  return format === "DD/MM/YYYY" ? `${day}/${month}/${year}` : `${month}/${day}/${year}`;
+}
+
+// One !Account block per statement followed by its transactions; split transactions keep their allocations
+export function writeQif(statements: ExportStatement[], options: { dateFormat?: QifDateFormat } = {}): string {
+  const format = options.dateFormat ?? "DD/MM/YYYY";
+  const lines: string[] = [];
+  if (statements.length > 1) lines.push("!Option:AutoSwitch");
+
+  statements.forEach((statement, index) => {
+    const type = QIF_TYPE_NAMES[statement.account.accountType];
+    lines.push(
+      "!Account",
+      `N${statement.account.accountName || statement.account.accountNumber || `Account ${index + 1}`}`,
+      `T${type}`,
+      ...(statement.account.ledgerBalance !== null ? [`$${formatMoney(statement.account.ledgerBalance)}`] : []),
+      "^",
+      `!Type:${type}`
+    );
+
+    statement.transactions.forEach((transaction) => {
+      lines.push(
+        `D${formatQifDate(transaction.date, format)}`,
+        `T${formatMoney(transaction.amount)}`,
+        `P${transaction.payee || transaction.description}`,
+        ...(transaction.payee && transaction.payee !== transaction.description ? [`M${transaction.description}`] : []),
+        ...(transaction.category && transaction.splits.length === 0 ? [`L${transaction.category}`] : []),
+        ...transaction.splits.flatMap((split) => [
+          `S${split.category ?? ""}`,
+          ...(split.note ? [`E${split.note}`] : []),
+          `$${formatMoney(split.amount)}`,
+        ]),
+        "^"
+      );
+    });
+  });
+
+  return [...lines, ""].join("\n");
+}
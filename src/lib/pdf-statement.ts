@@ -0,0 +1,508 @@
+// Bank statement PDF parsing
+// Rebuilds the transaction table of a text PDF from where its words sit on the page; ships layouts for HDFC, ICICI, SBI, Axis and Kotak
+
+import { extractTextItems, getDocumentProxy } from "unpdf";
+import {
+  ColumnMapping,
+  columnIndex,
+  DATE_FORMATS,
+  DateFormat,
+  findHeaderRow,
+  parseAmount,
+  parseDate,
+  ParsedStatementRow,
+  parseStatementRows,
+  StatementRowError,
+} from "@/lib/csv-import";
+import { FileStatement, StatementAccountType } from "@/lib/money-files";
+
+export interface PdfTextItem {
+  text: string;
+  x: number; // left edge, in points from the left of the page
+  y: number; // baseline, in points from the bottom of the page
+  width: number;
+  height: number; // font size
+}
+
+// A bank's statement table: the column headers as printed in its PDF and the date format it uses
+export interface PdfLayoutProfile {
+  id: string;
+  name: string;
+  detect: RegExp; // matched against the text of the first page
+  mapping: ColumnMapping;
+}
+
+export const PDF_LAYOUT_PROFILES: PdfLayoutProfile[] = [
+  {
+    id: "hdfc",
+    name: "HDFC Bank",
+    detect: /hdfc\s*bank/i,
+    mapping: {
+      date: "Date",
+      description: "Narration",
+      reference: "Chq./Ref.No.",
+      debit: "Withdrawal Amt.",
+      credit: "Deposit Amt.",
+      balance: "Closing Balance",
+      dateFormat: "DD/MM/YY",
+    },
+  },
+  {
+    id: "icici",
+    name: "ICICI Bank",
+    detect: /icici\s*bank/i,
+    mapping: {
+      date: "Date",
+      description: "Particulars",
+      credit: "Deposits",
+      debit: "Withdrawals",
+      balance: "Balance",
+      dateFormat: "DD-MM-YYYY",
+    },
+  },
+  {
+    id: "sbi",
+    name: "State Bank of India",
+    detect: /state\s*bank\s*of\s*india|\bsbi\b/i,
+    mapping: {
+      date: "Txn Date",
+      description: "Description",
+      reference: "Ref No./Cheque No.",
+      debit: "Debit",
+      credit: "Credit",
+      balance: "Balance",
+      dateFormat: "DD MMM YYYY",
+    },
+  },
+  {
+    id: "axis",
+    name: "Axis Bank",
+    detect: /axis\s*bank/i,
+    mapping: {
+      date: "Tran Date",
+      reference: "Chq No",
+      description: "Particulars",
+      debit: "Debit",
+      credit: "Credit",
+      balance: "Balance",
+      dateFormat: "DD-MM-YYYY",
+    },
+  },
+  {
+    id: "kotak",
+    name: "Kotak Mahindra Bank",
+    detect: /kotak\s*mahindra/i,
+    mapping: {
+      date: "Date",
+      description: "Narration",
+      reference: "Chq/Ref No",
+      debit: "Withdrawal (Dr)",
+      credit: "Deposit (Cr)",
+      balance: "Balance",
+      dateFormat: "DD-MM-YYYY",
+    },
+  },
+];
+
+export interface ParsedPdfStatement {
+  profile: PdfLayoutProfile;
+  dateFormat: DateFormat;
+  openingBalance: number | null;
+  statement: FileStatement;
+}
+
+interface TextLine {
+  number: number; // 1-based across the whole document
+  page: number;
+  y: number;
+  height: number;
+  items: PdfTextItem[]; // left to right
+}
+
+// A header cell of the table; its words may wrap over two or three lines
+interface Column {
+  left: number;
+  right: number;
+  text: string;
+}
+
+interface TableLine {
+  line: TextLine;
+  header: boolean; // a (repeated) header row, which starts the table on its page
+  values: string[]; // text under each column
+}
+
+// A transaction row put back together from its first line and the lines its narration wraps onto
+interface TableRow {
+  line: TextLine;
+  last: TextLine;
+  values: string[];
+}
+
+// Narrations that carry the balance brought into the statement rather than a transaction
+const OPENING_BALANCE = /^(opening\s+balance|balance\s+b\/?f|b\/?f\b|brought\s+forward|balance\s+forward)/i;
+
+// Lines below the table that should never be read as a wrapped narration
+const NOT_A_CONTINUATION = /^(page\s*\d|total|closing\s+balance|opening\s+balance|statement\s+summary|\*)/i;
+
+const STATEMENT_OPENING_BALANCE = /(?:opening\s+balance|balance\s+as\s+on\s+[^:]*)\s*:?\s*(?:inr|rs\.?|₹)?\s*(-?[\d,]+\.\d{2}(?:\s*(?:cr|dr))?)/i;
+const ACCOUNT_NUMBER = /(?:account|a\/c)\s*(?:no|number|#)?\.?\s*[:\-]?\s*([0-9Xx*]{6,20})\b/i;
+
+// Text of every page, read locally with pdf.js. Banks usually lock the statements they email with a
+// password, which the caller passes on; a missing or wrong one is reported rather than thrown.
+export async function extractPdfText(
+  data: Uint8Array,
+  options: { password?: string } = {}
+): Promise<{ pages: PdfTextItem[][] } | { error: string; passwordRequired?: boolean }> {
+  let document;
+  try {
+    document = await getDocumentProxy(data, { password: options.password, verbosity: 0 });
+  } catch (error) {
+    const name = (error as { name?: string }).name;
+    if (name === "PasswordException") {
+      return {
+        error: options.password ? "The password for this PDF is not correct" : "This PDF is password protected",
+        passwordRequired: true,
+      };
+    }
+    if (name === "InvalidPDFException") {
+      return { error: "Not a PDF file" };
+    }
+    throw error;
+  }
+
+  try {
+    const { items } = await extractTextItems(document);
+    return {
+      pages: items.map((page) =>
+        page
+          .filter((item) => item.str.trim())
+          .map((item) => ({ text: item.str, x: item.x, y: item.y, width: item.width, height: item.fontSize || item.height }))
+      ),
+    };
+  } finally {
+    await document.loadingTask.destroy();
+  }
+}
+
+// Words whose baselines (nearly) agree form a line; lines run top to bottom, page by page
+function groupLines(pages: PdfTextItem[][]): TextLine[] {
+  const lines: TextLine[] = [];
+  pages.forEach((items, index) => {
+    let current: TextLine | null = null;
+    const sorted = items.filter((item) => item.text.trim()).sort((a, b) => b.y - a.y || a.x - b.x);
+    for (const item of sorted) {
+      if (current && Math.abs(current.y - item.y) <= Math.max(2, Math.min(current.height, item.height) * 0.4)) {
+        current.items.push(item);
+        current.height = Math.max(current.height, item.height);
+      } else {
+        current = { number: lines.length + 1, page: index + 1, y: item.y, height: item.height || 8, items: [item] };
+        lines.push(current);
+      }
+    }
+  });
+  lines.forEach((line) => line.items.sort((a, b) => a.x - b.x));
+  return lines;
+}
+
+// Words on one line, with a space wherever the PDF left a gap between them
+function joinItems(items: PdfTextItem[]): string {
+  let text = "";
+  let right = -Infinity;
+  for (const item of items) {
+    text += text && item.x - right > item.height * 0.15 ? ` ${item.text}` : item.text;
+    right = item.x + item.width;
+  }
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Header cells of the given lines. Words close together on a line belong to one cell, and a word
+// on a following line joins the cell it sits under (headers such as "Withdrawal Amount" / "(INR)").
+function headerColumns(lines: TextLine[]): Column[] {
+  const columns: Column[] = [];
+  for (const line of lines) {
+    const segments: Array<{ left: number; right: number; items: PdfTextItem[] }> = [];
+    for (const item of line.items) {
+      const segment = segments[segments.length - 1];
+      if (segment && item.x - segment.right < item.height * 0.6) {
+        segment.items.push(item);
+        segment.right = Math.max(segment.right, item.x + item.width);
+      } else {
+        segments.push({ left: item.x, right: item.x + item.width, items: [item] });
+      }
+    }
+    for (const segment of segments) {
+      const text = joinItems(segment.items);
+      const above = columns.find((column) => segment.left < column.right && segment.right > column.left);
+      if (above) {
+        above.left = Math.min(above.left, segment.left);
+        above.right = Math.max(above.right, segment.right);
+        above.text = `${above.text} ${text}`;
+      } else {
+        columns.push({ left: segment.left, right: segment.right, text });
+      }
+    }
+  }
+  return columns.sort((a, b) => a.left - b.left);
+}
+
+// Every column the mapping names, apart from the optional reference, must be in the header
+function matchesHeader(headers: string[], mapping: ColumnMapping): boolean {
+  if (findHeaderRow([headers], mapping) !== 0) return false;
+  return [mapping.amount, mapping.type, mapping.debit, mapping.credit, mapping.balance]
+    .filter(Boolean)
+    .every((name) => columnIndex(headers, name) >= 0);
+}
+
+// The table header starting at a line, taking in up to two more lines it wraps onto
+function headerAt(lines: TextLine[], index: number, mapping: ColumnMapping): { columns: Column[]; span: number } | null {
+  for (let span = 1; span <= 3 && index + span <= lines.length; span++) {
+    const group = lines.slice(index, index + span);
+    const last = group[group.length - 1];
+    if (span > 1) {
+      const previous = group[group.length - 2];
+      if (last.page !== previous.page || previous.y - last.y > previous.height * 2) return null;
+    }
+    const columns = headerColumns(group);
+    if (matchesHeader(columns.map((column) => column.text), mapping)) {
+      // A title just above the header is not part of it when the header reads without it
+      return span > 1 && headerAt(lines, index + 1, mapping)?.span === span - 1 ? null : { columns, span };
+    }
+  }
+  return null;
+}
+
+// Text goes to the column it lines up with: left-aligned text starts where the header starts,
+// right-aligned amounts end where it ends, and centred values share its centre
+function columnValues(columns: Column[], items: PdfTextItem[]): string[] {
+  const cells: PdfTextItem[][] = columns.map(() => []);
+  for (const item of items) {
+    const right = item.x + item.width;
+    const distances = columns.map((column) =>
+      Math.min(
+        Math.abs(item.x - column.left),
+        Math.abs(right - column.right),
+        Math.abs((item.x + right) / 2 - (column.left + column.right) / 2)
+      )
+    );
+    cells[distances.indexOf(Math.min(...distances))].push(item);
+  }
+  return cells.map(joinItems);
+}
+
+// The profile for a statement: the bank named on the first page whose table is in the document,
+// otherwise any bank whose table header appears
+export function detectLayoutProfile(pages: PdfTextItem[][]): PdfLayoutProfile | null {
+  const lines = groupLines(pages);
+  const firstPage = lines.filter((line) => line.page === 1).map((line) => joinItems(line.items)).join("\n");
+  const hasTable = (profile: PdfLayoutProfile) => lines.some((_, index) => headerAt(lines, index, profile.mapping) !== null);
+  return (
+    PDF_LAYOUT_PROFILES.find((profile) => profile.detect.test(firstPage) && hasTable(profile)) ??
+    PDF_LAYOUT_PROFILES.find(hasTable) ??
+    null
+  );
+}
+
+// The date of the row starting at a table line. Narrow date columns wrap ("01 Apr" / "2024"), so the
+// next line's date cell is tried as a continuation.
+function rowDate(table: TableLine[], index: number, dateColumn: number, format: DateFormat): { date: string; span: number } | null {
+  const text = table[index].values[dateColumn];
+  if (!text || table[index].header) return null;
+  const date = parseDate(text, format);
+  if (date) return { date, span: 1 };
+  const next = table[index + 1];
+  if (!next || next.header || next.line.page !== table[index].line.page || !next.values[dateColumn]) return null;
+  const wrapped = parseDate(`${text} ${next.values[dateColumn]}`, format);
+  return wrapped ? { date: wrapped, span: 2 } : null;
+}
+
+// Each balance must be the previous balance plus the row's amount. A row that only adds up with the
+// opposite sign had its amount read from the wrong column and is flipped; one that does not add up
+// at all is dropped as misread, and checking carries on from the balance it states.
+function checkBalances(
+  rows: ParsedStatementRow[],
+  openingBalance: number | null,
+  rawText: Map<number, string>
+): { rows: ParsedStatementRow[]; errors: StatementRowError[] } {
+  const checked: ParsedStatementRow[] = [];
+  const errors: StatementRowError[] = [];
+  const addsUp = (from: number, amount: number, to: number) => Math.abs(from + amount - to) < 0.005;
+
+  let previous = openingBalance;
+  for (const row of rows) {
+    if (previous === null || row.balance === null) {
+      checked.push(row);
+    } else if (addsUp(previous, row.amount, row.balance)) {
+      checked.push(row);
+    } else if (addsUp(previous, -row.amount, row.balance)) {
+      checked.push({ ...row, amount: -row.amount });
+    } else {
+      errors.push({
+        line: row.line,
+        raw: rawText.get(row.line) || "",
+        error: `Balance ${row.balance.toFixed(2)} does not follow from ${previous.toFixed(2)} and ${row.amount.toFixed(2)}; the row may be misread`,
+      });
+    }
+    previous = row.balance;
+  }
+  return { rows: checked, errors };
+}
+
+// Read the transactions of a statement PDF. Rows that cannot be read, or whose running balance does
+// not add up, are reported with their line number instead of failing the whole statement.
+export function parsePdfStatement(
+  pages: PdfTextItem[][],
+  options: { profile?: PdfLayoutProfile } = {}
+): ParsedPdfStatement | { error: string } {
+  const profile = options.profile ?? detectLayoutProfile(pages);
+  if (!profile) {
+    return { error: "Could not find a transaction table from a supported bank; the PDF may be a scan" };
+  }
+
+  const lines = groupLines(pages);
+  const table: TableLine[] = [];
+  const beforeTable: string[] = [];
+  let columns: Column[] | null = null;
+  let headers: string[] = [];
+  for (let index = 0; index < lines.length; index++) {
+    const header = headerAt(lines, index, profile.mapping);
+    if (header) {
+      columns = header.columns;
+      headers = columns.map((column) => column.text);
+      table.push({ line: lines[index], header: true, values: headers });
+      index += header.span - 1;
+    } else if (columns) {
+      table.push({ line: lines[index], header: false, values: columnValues(columns, lines[index].items) });
+    } else {
+      beforeTable.push(joinItems(lines[index].items));
+    }
+  }
+  if (!columns) {
+    return { error: `No ${profile.name} transaction table found in the PDF` };
+  }
+
+  const column = {
+    date: columnIndex(headers, profile.mapping.date),
+    description: columnIndex(headers, profile.mapping.description),
+    balance: columnIndex(headers, profile.mapping.balance),
+    amounts: [profile.mapping.amount, profile.mapping.debit, profile.mapping.credit, profile.mapping.balance]
+      .map((name) => columnIndex(headers, name))
+      .filter((index) => index >= 0),
+  };
+
+  // The profile's date format unless another one reads more of the date column
+  const dateFormat = [profile.mapping.dateFormat, ...DATE_FORMATS]
+    .map((format) => ({ format, count: table.filter((_, index) => rowDate(table, index, column.date, format)).length }))
+    .reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).format;
+
+  const rows: TableRow[] = [];
+  let current: TableRow | null = null;
+  for (let index = 0; index < table.length; index++) {
+    const entry = table[index];
+    const start = rowDate(table, index, column.date, dateFormat);
+    if (start) {
+      const values = [...entry.values];
+      if (start.span === 2) {
+        table[index + 1].values.forEach((value, cell) => {
+          values[cell] = [values[cell], value].filter(Boolean).join(" ");
+        });
+      }
+      current = { line: entry.line, last: table[index + start.span - 1].line, values };
+      rows.push(current);
+      index += start.span - 1;
+      continue;
+    }
+
+    const text = entry.values.filter(Boolean).join(" ");
+    const continues =
+      current !== null &&
+      !entry.header &&
+      !entry.values[column.date] &&
+      column.amounts.every((cell) => !entry.values[cell]) &&
+      !NOT_A_CONTINUATION.test(text) &&
+      current.last.page === entry.line.page &&
+      current.last.y - entry.line.y <= entry.line.height * 2.5;
+    if (current && continues) {
+      entry.values.forEach((value, cell) => {
+        if (value) current!.values[cell] = [current!.values[cell], value].filter(Boolean).join(" ");
+      });
+      current.last = entry.line;
+    } else {
+      current = null;
+    }
+  }
+
+  // A brought-forward row states the opening balance; the page above the table may state it too
+  let openingBalance: number | null = null;
+  const transactionRows = rows.filter((row) => {
+    const isOpening =
+      OPENING_BALANCE.test(row.values[column.description] || "") &&
+      column.amounts.every((cell) => cell === column.balance || !row.values[cell]);
+    if (isOpening && openingBalance === null && column.balance >= 0) {
+      openingBalance = parseAmount(row.values[column.balance]);
+    }
+    return !isOpening;
+  });
+  if (openingBalance === null) {
+    const stated = beforeTable.map((text) => text.match(STATEMENT_OPENING_BALANCE)).find(Boolean);
+    openingBalance = stated ? parseAmount(stated[1]) : null;
+  }
+
+  // parseStatementRows numbers rows from the header; map them back to lines of the PDF
+  const parsed = parseStatementRows([headers, ...transactionRows.map((row) => row.values)], {
+    ...profile.mapping,
+    dateFormat,
+  });
+  const pdfLine = (line: number) => (line >= 2 ? transactionRows[line - 2].line.number : table[0].line.number);
+  const rawText = new Map<number, string>();
+  transactionRows.forEach((row) => rawText.set(row.line.number, row.values.filter(Boolean).join(" | ")));
+
+  let parsedRows = parsed.rows.map((row) => ({ ...row, line: pdfLine(row.line) }));
+  const errors = parsed.errors.map((error) => ({
+    ...error,
+    line: pdfLine(error.line),
+    raw: error.line >= 2 ? rawText.get(pdfLine(error.line)) || error.raw : error.raw,
+  }));
+
+  // Some banks list the newest transaction first
+  if (parsedRows.length > 1 && parsedRows[0].date > parsedRows[parsedRows.length - 1].date) {
+    parsedRows = parsedRows.reverse();
+  }
+  const balanced = checkBalances(parsedRows, openingBalance, rawText);
+  errors.push(...balanced.errors);
+  errors.sort((a, b) => a.line - b.line);
+
+  const header = beforeTable.join("\n");
+  const accountType: StatementAccountType = /current\s+a(ccount|\/c)|account\s+type\s*:?\s*current/i.test(header)
+    ? "checking"
+    : "savings";
+  const closing = [...parsedRows].reverse().find((row) => row.balance !== null);
+  const accountNumber = header.match(ACCOUNT_NUMBER)?.[1] ?? null;
+
+  return {
+    profile,
+    dateFormat,
+    openingBalance,
+    statement: {
+      account: {
+        institution: profile.name,
+        // Without a number the generic name would match whichever account happens to share it
+        accountName: accountNumber ? (accountType === "checking" ? "Current Account" : "Savings Account") : null,
+        accountNumber,
+        accountType,
+        currency: "INR",
+        ledgerBalance: closing?.balance ?? null,
+      },
+      rows: balanced.rows.map((row) => ({
+        line: row.line,
+        date: row.date,
+        description: row.description,
+        amount: row.amount,
+        externalId: null,
+        payee: null,
+        category: null,
+      })),
+      errors,
+    },
+  };
+}
@@ -0,0 +1,274 @@
+// Plaid bank aggregator
+// Calls Plaid's REST API directly and maps its items, accounts and transactions onto the aggregator interface
+
+import { createHash, createPublicKey, timingSafeEqual, verify } from 'crypto';
+import type {
+  AggregatorAccount,
+  AggregatorItemAccounts,
+  AggregatorTransaction,
+  BankAggregator,
+} from '@/lib/bank-aggregation';
+
+const PLAID_HOSTS: Record<string, string> = {
+  sandbox: 'https://sandbox.plaid.com',
+  development: 'https://development.plaid.com',
+  production: 'https://production.plaid.com',
+};
+
+// Largest page /transactions/get and /transactions/sync return
+const PAGE_SIZE = 500;
+
+// Webhooks signed longer ago than this are rejected as replays
+const WEBHOOK_MAX_AGE_SECONDS = 5 * 60;
+
+// How long a fetched signing key is trusted before Plaid is asked again whether it has expired
+const VERIFICATION_KEY_TTL_MS = 60 * 60 * 1000;
+
+export class PlaidApiError extends Error {
+  code: string; // Plaid's error_code, e.g. ITEM_LOGIN_REQUIRED
+  status: number;
+
+  constructor(message: string, code: string, status: number) {
+    super(message);
+    this.name = 'PlaidApiError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+interface PlaidAccount {
+  account_id: string;
+  name: string;
+  official_name: string | null;
+  mask: string | null;
+  type: string; // depository/credit/loan/investment/other
+  subtype: string | null;
+  balances: { current: number | null; available: number | null };
+}
+
+interface PlaidVerificationKey {
+  kty: string;
+  crv: string;
+  x: string;
+  y: string;
+  expired_at: number | null;
+}
+
+interface PlaidTransaction {
+  transaction_id: string;
+  account_id: string;
+  date: string;
+  name: string;
+  merchant_name: string | null;
+  amount: number; // positive when money leaves the account
+  pending: boolean;
+  pending_transaction_id: string | null;
+}
+
+export function isPlaidConfigured(): boolean {
+  return Boolean(process.env.PLAID_CLIENT_ID && process.env.PLAID_SECRET);
+}
+
+// PLAID_COUNTRY_CODES, comma separated; Plaid does not cover India, so it defaults to the US
+function countryCodes(): string[] {
+  return (process.env.PLAID_COUNTRY_CODES || 'US')
+    .split(',')
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+}
+
+async function plaidRequest<T>(path: string, body: Record<string, unknown>): Promise<T> {
+  if (!isPlaidConfigured()) {
+    throw new Error('PLAID_CLIENT_ID and PLAID_SECRET are not configured');
+  }
+  const host = PLAID_HOSTS[process.env.PLAID_ENV || 'sandbox'];
+  if (!host) {
+    throw new Error(`Unknown PLAID_ENV; use one of ${Object.keys(PLAID_HOSTS).join(', ')}`);
+  }
+
+  const response = await fetch(`${host}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ client_id: process.env.PLAID_CLIENT_ID, secret: process.env.PLAID_SECRET, ...body }),
+  });
+  const json = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new PlaidApiError(
+      json.error_message || `Plaid request to ${path} failed`,
+      json.error_code || 'UNKNOWN',
+      response.status
+    );
+  }
+  return json as T;
+}
+
+// Credit and loan balances are what is owed, so they are stored negative
+function toAggregatorAccount(account: PlaidAccount): AggregatorAccount {
+  const owed = account.type === 'credit' || account.type === 'loan';
+  const accountType = owed
+    ? 'credit'
+    : account.type === 'investment'
+      ? 'investment'
+      : account.subtype === 'savings'
+        ? 'savings'
+        : 'checking';
+  const current = account.balances.current;
+
+  return {
+    id: account.account_id,
+    name: account.official_name || account.name,
+    mask: account.mask,
+    accountType,
+    currentBalance: current === null ? null : owed ? -current : current,
+  };
+}
+
+// Signing keys by key id, with when they were fetched
+const verificationKeys = new Map<string, { key: PlaidVerificationKey; fetchedAt: number }>();
+
+const decodeSegment = (segment: string) => JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+
+// Plaid signs each webhook with an ES256 JWT in the Plaid-Verification header. The JWT carries the
+// SHA-256 of the body and when it was issued. A key id Plaid doesn't know fails verification.
+async function verifyPlaidWebhook(body: string, headers: Headers): Promise<boolean> {
+  const token = headers.get('plaid-verification');
+  const segments = token?.split('.') ?? [];
+  if (segments.length !== 3) return false;
+  const [encodedHeader, encodedPayload, signature] = segments;
+
+  let header;
+  let payload;
+  try {
+    header = decodeSegment(encodedHeader);
+    payload = decodeSegment(encodedPayload);
+  } catch {
+    return false;
+  }
+  if (header.alg !== 'ES256' || typeof header.kid !== 'string') return false;
+
+  const cached = verificationKeys.get(header.kid);
+  let key = cached && Date.now() - cached.fetchedAt < VERIFICATION_KEY_TTL_MS ? cached.key : undefined;
+  if (!key) {
+    try {
+      const response = await plaidRequest<{ key: PlaidVerificationKey }>('/webhook_verification_key/get', {
+        key_id: header.kid,
+      });
+      key = response.key;
+    } catch (error) {
+      console.error('Error fetching Plaid webhook verification key:', error);
+      return false;
+    }
+    verificationKeys.set(header.kid, { key, fetchedAt: Date.now() });
+  }
+  if (key.expired_at !== null) return false;
+
+  const publicKey = createPublicKey({ key: { kty: key.kty, crv: key.crv, x: key.x, y: key.y }, format: 'jwk' });
+  const signed = verify(
+    'sha256',
+    Buffer.from(`${encodedHeader}.${encodedPayload}`),
+    { key: publicKey, dsaEncoding: 'ieee-p1363' }, // JWS signatures are raw r||s, not DER
+    Buffer.from(signature, 'base64url')
+  );
+  if (!signed) return false;
+  if (typeof payload.iat !== 'number' || Date.now() / 1000 - payload.iat > WEBHOOK_MAX_AGE_SECONDS) return false;
+
+  const digest = Buffer.from(createHash('sha256').update(body).digest('hex'));
+  const claimed = Buffer.from(String(payload.request_body_sha256 ?? ''));
+  return claimed.length === digest.length && timingSafeEqual(claimed, digest);
+}
+
+function toAggregatorTransaction(transaction: PlaidTransaction): AggregatorTransaction {
+  return {
+    id: transaction.transaction_id,
+    accountId: transaction.account_id,
+    date: transaction.date,
+    description: transaction.name,
+    merchantName: transaction.merchant_name,
+    amount: -transaction.amount,
+    pending: transaction.pending,
+    pendingTransactionId: transaction.pending_transaction_id,
+  };
+}
+
+export const plaidAggregator: BankAggregator = {
+  name: 'plaid',
+
+  async createLinkToken(clientUserId) {
+    const response = await plaidRequest<{ link_token: string; expiration: string }>('/link/token/create', {
+      user: { client_user_id: clientUserId },
+      client_name: 'FinPal',
+      products: ['transactions'],
+      country_codes: countryCodes(),
+      language: 'en',
+      ...(process.env.PLAID_WEBHOOK_URL ? { webhook: process.env.PLAID_WEBHOOK_URL } : {}),
+    });
+    return { linkToken: response.link_token, expiration: response.expiration };
+  },
+
+  async exchangePublicToken(publicToken) {
+    const response = await plaidRequest<{ access_token: string; item_id: string }>('/item/public_token/exchange', {
+      public_token: publicToken,
+    });
+    return { accessToken: response.access_token, itemId: response.item_id };
+  },
+
+  async getAccounts(accessToken): Promise<AggregatorItemAccounts> {
+    const response = await plaidRequest<{ accounts: PlaidAccount[]; item: { institution_id: string | null } }>(
+      '/accounts/get',
+      { access_token: accessToken }
+    );
+
+    let institutionName = 'Bank';
+    if (response.item.institution_id) {
+      const institution = await plaidRequest<{ institution: { name: string } }>('/institutions/get_by_id', {
+        institution_id: response.item.institution_id,
+        country_codes: countryCodes(),
+      });
+      institutionName = institution.institution.name;
+    }
+
+    return { institutionName, accounts: response.accounts.map(toAggregatorAccount) };
+  },
+
+  async getTransactions(accessToken, startDate, endDate) {
+    const collected: PlaidTransaction[] = [];
+    for (;;) {
+      const response = await plaidRequest<{ transactions: PlaidTransaction[]; total_transactions: number }>(
+        '/transactions/get',
+        {
+          access_token: accessToken,
+          start_date: startDate,
+          end_date: endDate,
+          options: { count: PAGE_SIZE, offset: collected.length },
+        }
+      );
+      collected.push(...response.transactions);
+      if (response.transactions.length === 0 || collected.length >= response.total_transactions) break;
+    }
+    return collected.map(toAggregatorTransaction);
+  },
+
+  async syncTransactions(accessToken, cursor) {
+    const response = await plaidRequest<{
+      added: PlaidTransaction[];
+      modified: PlaidTransaction[];
+      removed: Array<{ transaction_id: string }>;
+      next_cursor: string;
+      has_more: boolean;
+    }>('/transactions/sync', {
+      access_token: accessToken,
+      ...(cursor ? { cursor } : {}),
+      count: PAGE_SIZE,
+    });
+
+    return {
+      added: response.added.map(toAggregatorTransaction),
+      modified: response.modified.map(toAggregatorTransaction),
+      removed: response.removed.map((transaction) => transaction.transaction_id),
+      nextCursor: response.next_cursor,
+      hasMore: response.has_more,
+    };
+  },
+
+  verifyWebhook: verifyPlaidWebhook,
+};
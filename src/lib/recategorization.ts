@@ -0,0 +1,260 @@
+// Retroactive re-categorization of stored history
+// Re-runs the categorizer after rules or categories change and stages the result for approval
+
+import { db } from '@/db';
+import { merchants, recategorizationJobs, transactionCategories, transactions } from '@/db/schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { aiCategorizationCutoff, categorizeBatchWithAI } from '@/lib/ai-categorization';
+import { categorizeTransactions } from '@/lib/categorization';
+import { loadUserRules } from '@/lib/categorization-rules';
+import { loadUserTransactions } from '@/lib/transactions';
+
+type JobRow = typeof recategorizationJobs.$inferSelect;
+
+export type RecategorizationTrigger =
+  | 'rule_created'
+  | 'rule_updated'
+  | 'rule_deleted'
+  | 'rule_learned'
+  | 'category_changed'
+  | 'manual';
+
+export interface RecategorizationChange {
+  transactionId: number;
+  fromCategoryId: number;
+  toCategoryId: number;
+  ruleId: number | null;
+}
+
+export interface RecategorizationPreview {
+  id: number | null; // null when nothing would change
+  trigger: string;
+  status: string;
+  totalChanges: number;
+  moves: Array<{ from: string; to: string; count: number; message: string }>;
+  sample: Array<{ transactionId: number; description: string; date: string; amount: number; from: string; to: string }>;
+  appliedCount: number | null;
+  createdAt: string;
+}
+
+// Keyword (or AI) guesses below this confidence never overwrite an existing category
+const MIN_CONFIDENCE = 0.5;
+const SAMPLE_SIZE = 20;
+
+async function loadCategoryNames(): Promise<Map<number, string>> {
+  const categories = await db.select().from(transactionCategories);
+  return new Map(categories.map((category) => [category.id, category.name]));
+}
+
+function describeMoves(changes: RecategorizationChange[], names: Map<number, string>) {
+  const counts: Record<string, { from: string; to: string; count: number }> = {};
+  changes.forEach((change) => {
+    const from = names.get(change.fromCategoryId) || 'Unknown';
+    const to = names.get(change.toCategoryId) || 'Unknown';
+    const key = `${change.fromCategoryId}->${change.toCategoryId}`;
+    if (!counts[key]) counts[key] = { from, to, count: 0 };
+    counts[key].count++;
+  });
+
+  return Object.values(counts)
+    .sort((a, b) => b.count - a.count)
+    .map((move) => ({
+      ...move,
+      message: `${move.count} transaction${move.count === 1 ? '' : 's'} would move from ${move.from} to ${move.to}`,
+    }));
+}
+
+export async function serializeJob(job: JobRow): Promise<RecategorizationPreview> {
+  const names = await loadCategoryNames();
+  const changes = (job.changes as RecategorizationChange[]) || [];
+
+  const history = await loadUserTransactions(job.userId);
+  const byId = new Map(history.map((t) => [t.id, t]));
+  const sample = changes.slice(0, SAMPLE_SIZE).flatMap((change) => {
+    const transaction = byId.get(change.transactionId);
+    if (!transaction) return [];
+    return [{
+      transactionId: change.transactionId,
+      description: transaction.description,
+      date: transaction.date,
+      amount: transaction.amount,
+      from: names.get(change.fromCategoryId) || 'Unknown',
+      to: names.get(change.toCategoryId) || 'Unknown',
+    }];
+  });
+
+  return {
+    id: job.id,
+    trigger: job.trigger,
+    status: job.status,
+    totalChanges: changes.length,
+    moves: describeMoves(changes, names),
+    sample,
+    appliedCount: job.appliedCount,
+    createdAt: job.createdAt,
+  };
+}
+
+// Default category per merchant id, for the user's merchants that have one
+async function loadMerchantCategories(userId: number): Promise<Map<number, number>> {
+  const rows = await db
+    .select({ id: merchants.id, defaultCategoryId: merchants.defaultCategoryId })
+    .from(merchants)
+    .where(and(eq(merchants.userId, userId), isNotNull(merchants.defaultCategoryId)));
+  return new Map(rows.map((row) => [row.id, row.defaultCategoryId as number]));
+}
+
+// Re-run the categorizer over unpinned history and stage the differences as a pending job, in the
+// order resolveCategory uses: user rules, the merchant's default category, then the keyword engine
+// (and AI). Refunds follow the purchase they refund. Any earlier pending job for the user is
+// superseded. options.maxAIWaitMs bounds how long the AI rate limiter may hold a caller that is
+// answering an HTTP request.
+export async function buildRecategorizationPreview(
+  userId: number,
+  trigger: RecategorizationTrigger,
+  options: { maxAIWaitMs?: number } = {}
+): Promise<RecategorizationPreview> {
+  const names = await loadCategoryNames();
+  const idsByName = new Map(Array.from(names.entries()).map(([id, name]) => [name, id]));
+  const userRules = await loadUserRules(userId);
+  const merchantCategories = await loadMerchantCategories(userId);
+
+  const all = await loadUserTransactions(userId);
+  const history = all.filter((t) => !t.categoryPinned && !t.isTransfer && t.refundOfId === null);
+  const merchantCategoryOf = (index: number) =>
+    history[index].merchantId !== null ? merchantCategories.get(history[index].merchantId as number) : undefined;
+  const suggestions = categorizeTransactions(
+    history.map((t) => ({
+      description: t.description,
+      amount: t.amount,
+      date: t.date,
+      merchantName: t.merchantName ?? undefined,
+    })),
+    userRules
+  );
+
+  // Keyword guesses below the AI cutoff are re-asked in batches; the AI wins only when it is more confident
+  const cutoff = aiCategorizationCutoff();
+  const unsure = suggestions
+    .map((suggestion, index) => ({ suggestion, index }))
+    .filter(({ suggestion, index }) => !suggestion.ruleId && !merchantCategoryOf(index) && suggestion.confidence < cutoff);
+  const aiAnswers = await categorizeBatchWithAI(
+    unsure.map(({ index }) => ({
+      description: history[index].description,
+      amount: history[index].amount,
+      merchantName: history[index].merchantName,
+    })),
+    { maxWaitMs: options.maxAIWaitMs }
+  );
+  const aiByIndex = new Map(unsure.map(({ index }, position) => [index, aiAnswers[position]]));
+
+  const changes: RecategorizationChange[] = [];
+  const targets = new Map<number, number>(); // transaction id -> category it moves to
+  suggestions.forEach((suggestion, index) => {
+    const transaction = history[index];
+    const merchantCategoryId = merchantCategoryOf(index);
+    if (!suggestion.ruleId && merchantCategoryId !== undefined) {
+      if (merchantCategoryId !== transaction.categoryId) {
+        changes.push({
+          transactionId: transaction.id,
+          fromCategoryId: transaction.categoryId,
+          toCategoryId: merchantCategoryId,
+          ruleId: null,
+        });
+        targets.set(transaction.id, merchantCategoryId);
+      }
+      return;
+    }
+
+    const aiAnswer = aiByIndex.get(index);
+    const useAI = aiAnswer !== undefined && aiAnswer !== null && aiAnswer.confidence > suggestion.confidence;
+    const toCategoryId = useAI
+      ? aiAnswer.category.id
+      : suggestion.category ? idsByName.get(suggestion.category) : undefined;
+    const confidence = useAI ? aiAnswer.confidence : suggestion.confidence;
+    if (toCategoryId === undefined || toCategoryId === transaction.categoryId) return;
+    if (!suggestion.ruleId && confidence < MIN_CONFIDENCE) return;
+
+    changes.push({
+      transactionId: transaction.id,
+      fromCategoryId: transaction.categoryId,
+      toCategoryId,
+      ruleId: suggestion.ruleId ?? null,
+    });
+    targets.set(transaction.id, toCategoryId);
+  });
+
+  // A refund stays in the category of its purchase, wherever that ends up
+  const byId = new Map(all.map((t) => [t.id, t]));
+  all
+    .filter((t) => t.refundOfId !== null && !t.categoryPinned && !t.isTransfer)
+    .forEach((refund) => {
+      const purchase = byId.get(refund.refundOfId as number);
+      if (!purchase) return;
+      const toCategoryId = targets.get(purchase.id) ?? purchase.categoryId;
+      if (toCategoryId === refund.categoryId) return;
+      changes.push({ transactionId: refund.id, fromCategoryId: refund.categoryId, toCategoryId, ruleId: null });
+    });
+
+  const now = new Date().toISOString();
+  await db
+    .update(recategorizationJobs)
+    .set({ status: 'superseded', updatedAt: now })
+    .where(and(eq(recategorizationJobs.userId, userId), eq(recategorizationJobs.status, 'pending')));
+
+  if (changes.length === 0) {
+    return {
+      id: null,
+      trigger,
+      status: 'empty',
+      totalChanges: 0,
+      moves: [],
+      sample: [],
+      appliedCount: null,
+      createdAt: now,
+    };
+  }
+
+  const inserted = await db
+    .insert(recategorizationJobs)
+    .values({ userId, trigger, status: 'pending', changes, createdAt: now, updatedAt: now })
+    .returning();
+
+  return serializeJob(inserted[0]);
+}
+
+// Fire-and-forget preview after a rule or category edit; failures are only logged
+export function scheduleRecategorization(userId: number, trigger: RecategorizationTrigger): void {
+  buildRecategorizationPreview(userId, trigger).catch((error) => {
+    console.error('Error building re-categorization preview:', error);
+  });
+}
+
+// Commit an approved job. Transactions that were pinned or re-categorized since the preview are skipped.
+export async function applyRecategorizationJob(userId: number, job: JobRow): Promise<number> {
+  const changes = (job.changes as RecategorizationChange[]) || [];
+  let applied = 0;
+
+  for (const change of changes) {
+    const updated = await db
+      .update(transactions)
+      .set({ categoryId: change.toCategoryId })
+      .where(
+        and(
+          eq(transactions.id, change.transactionId),
+          eq(transactions.userId, userId),
+          eq(transactions.categoryId, change.fromCategoryId),
+          eq(transactions.categoryPinned, false)
+        )
+      )
+      .returning({ id: transactions.id });
+    applied += updated.length;
+  }
+
+  await db
+    .update(recategorizationJobs)
+    .set({ status: 'applied', appliedCount: applied, updatedAt: new Date().toISOString() })
+    .where(eq(recategorizationJobs.id, job.id));
+
+  return applied;
+}
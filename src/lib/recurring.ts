@@ -0,0 +1,244 @@
+// Recurring bills and subscriptions registry
+// Detects series from stored history, persists them, and feeds confirmed ones to the projection
+
+import { db } from '@/db';
+import { recurringSeries, transactions } from '@/db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import {
+  advanceByCadence,
+  CADENCE_DAYS,
+  classifyCadence,
+  detectRecurringExpenses,
+  RecurringCadence,
+  RecurringItem,
+} from '@/lib/cashflow';
+import {
+  AnalysisTransaction,
+  ApiTransaction,
+  fromPaise,
+  loadUserTransactions,
+  toPaise,
+} from '@/lib/transactions';
+
+type SeriesRow = typeof recurringSeries.$inferSelect;
+
+export const SERIES_STATUSES = ['detected', 'confirmed', 'paused', 'dismissed'] as const;
+export type SeriesStatus = (typeof SERIES_STATUSES)[number];
+
+export const RECURRING_CADENCES = Object.keys(CADENCE_DAYS) as RecurringCadence[];
+
+export interface DetectedSeries {
+  merchantKey: string;
+  merchant: string;
+  category: string | null;
+  cadence: RecurringCadence;
+  expectedAmount: number; // rupees
+  amountMin: number;
+  amountMax: number;
+  lastSeenDate: string;
+  nextDueDate: string;
+  transactionIds: number[];
+}
+
+export interface ApiRecurringSeries {
+  id: number;
+  merchantKey: string;
+  merchant: string;
+  category: string | null;
+  cadence: RecurringCadence;
+  expectedAmount: number; // rupees
+  amountMin: number;
+  amountMax: number;
+  lastSeenDate: string | null;
+  nextDueDate: string;
+  transactionIds: number[];
+  status: SeriesStatus;
+  updatedAt: string;
+}
+
+export function seriesKey(description: string): string {
+  return description.trim().toLowerCase();
+}
+
+// Group stored expenses by merchant (falling back to description) and keep groups with a steady cadence
+export function detectRecurringSeries(history: ApiTransaction[]): DetectedSeries[] {
+  const groups: Record<string, ApiTransaction[]> = {};
+  history
+    .filter((t) => t.amount < 0)
+    .forEach((t) => {
+      const key = seriesKey(t.merchantName || t.description);
+      if (!groups[key]) groups[key] = [];
+      groups[key].push(t);
+    });
+
+  const detected: DetectedSeries[] = [];
+
+  Object.entries(groups).forEach(([merchantKey, occurrences]) => {
+    if (occurrences.length < 2) return;
+
+    const sorted = [...occurrences].sort((a, b) => a.date.localeCompare(b.date));
+    const intervals: number[] = [];
+    for (let i = 1; i < sorted.length; i++) {
+      const gap = (Date.parse(sorted[i].date) - Date.parse(sorted[i - 1].date)) / (1000 * 60 * 60 * 24);
+      intervals.push(gap);
+    }
+
+    const avgInterval = intervals.reduce((sum, v) => sum + v, 0) / intervals.length;
+    const variance = intervals.reduce((sum, v) => sum + Math.pow(v - avgInterval, 2), 0) / intervals.length;
+    const cadence = classifyCadence(Math.round(avgInterval));
+    if (!cadence || variance >= avgInterval * 5) return;
+
+    const amounts = sorted.map((t) => Math.abs(t.amount));
+    const latest = sorted[sorted.length - 1];
+
+    detected.push({
+      merchantKey,
+      merchant: latest.merchantName || latest.description,
+      category: latest.category,
+      cadence,
+      expectedAmount: Math.round((amounts.reduce((sum, a) => sum + a, 0) / amounts.length) * 100) / 100,
+      amountMin: Math.min(...amounts),
+      amountMax: Math.max(...amounts),
+      lastSeenDate: latest.date,
+      nextDueDate: advanceByCadence(latest.date, cadence),
+      transactionIds: sorted.map((t) => t.id),
+    });
+  });
+
+  return detected.sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate));
+}
+
+export function serializeSeries(row: SeriesRow): ApiRecurringSeries {
+  return {
+    id: row.id,
+    merchantKey: row.merchantKey,
+    merchant: row.merchant,
+    category: row.category,
+    cadence: row.cadence as RecurringCadence,
+    expectedAmount: fromPaise(row.expectedAmount),
+    amountMin: fromPaise(row.amountMin),
+    amountMax: fromPaise(row.amountMax),
+    lastSeenDate: row.lastSeenDate,
+    nextDueDate: row.nextDueDate,
+    transactionIds: (row.transactionIds as number[]) || [],
+    status: row.status as SeriesStatus,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export async function setTransactionsRecurring(userId: number, ids: number[], isRecurring: boolean) {
+  if (ids.length === 0) return;
+  await db
+    .update(transactions)
+    .set({ isRecurring })
+    .where(and(eq(transactions.userId, userId), inArray(transactions.id, ids)));
+}
+
+// Re-detect series from the user's full history and merge them into the registry.
+// Dismissed series are never revived; user-edited amounts and cadence on confirmed
+// or paused series are kept, while new payments are linked and the due date rolls forward.
+export async function syncRecurringSeries(userId: number): Promise<ApiRecurringSeries[]> {
+  const history = (await loadUserTransactions(userId)).filter((t) => !t.isTransfer);
+  const detected = detectRecurringSeries(history);
+
+  const existing = await db
+    .select()
+    .from(recurringSeries)
+    .where(eq(recurringSeries.userId, userId));
+  const byKey = new Map(existing.map((row) => [row.merchantKey, row]));
+
+  const now = new Date().toISOString();
+
+  for (const series of detected) {
+    const current = byKey.get(series.merchantKey);
+
+    if (!current) {
+      await db.insert(recurringSeries).values({
+        userId,
+        merchantKey: series.merchantKey,
+        merchant: series.merchant,
+        category: series.category,
+        cadence: series.cadence,
+        expectedAmount: toPaise(series.expectedAmount),
+        amountMin: toPaise(series.amountMin),
+        amountMax: toPaise(series.amountMax),
+        lastSeenDate: series.lastSeenDate,
+        nextDueDate: series.nextDueDate,
+        transactionIds: series.transactionIds,
+        status: 'detected',
+        createdAt: now,
+        updatedAt: now,
+      });
+      await setTransactionsRecurring(userId, series.transactionIds, true);
+      continue;
+    }
+
+    if (current.status === 'dismissed') continue;
+
+    const linkedIds = Array.from(new Set([...((current.transactionIds as number[]) || []), ...series.transactionIds]));
+    const updates: Partial<typeof recurringSeries.$inferInsert> = {
+      transactionIds: linkedIds,
+      lastSeenDate: series.lastSeenDate,
+      updatedAt: now,
+    };
+
+    if (current.status === 'detected') {
+      Object.assign(updates, {
+        merchant: series.merchant,
+        category: series.category,
+        cadence: series.cadence,
+        expectedAmount: toPaise(series.expectedAmount),
+        amountMin: toPaise(series.amountMin),
+        amountMax: toPaise(series.amountMax),
+        nextDueDate: series.nextDueDate,
+      });
+    } else if (!current.lastSeenDate || series.lastSeenDate > current.lastSeenDate) {
+      updates.nextDueDate = advanceByCadence(series.lastSeenDate, current.cadence as RecurringCadence);
+    }
+
+    await db.update(recurringSeries).set(updates).where(eq(recurringSeries.id, current.id));
+    await setTransactionsRecurring(userId, series.transactionIds, true);
+  }
+
+  const rows = await db
+    .select()
+    .from(recurringSeries)
+    .where(eq(recurringSeries.userId, userId));
+
+  return rows.map(serializeSeries).sort((a, b) => a.nextDueDate.localeCompare(b.nextDueDate));
+}
+
+export function toRecurringItem(series: ApiRecurringSeries): RecurringItem {
+  return {
+    description: series.merchantKey,
+    amount: series.expectedAmount,
+    frequency: CADENCE_DAYS[series.cadence],
+    nextDueDate: series.nextDueDate,
+    category: series.category ?? undefined,
+    cadence: series.cadence,
+  };
+}
+
+// Confirmed series, plus items detected from recent history that the user has not reviewed yet
+export async function loadRecurringItems(
+  userId: number,
+  recentHistory: AnalysisTransaction[]
+): Promise<RecurringItem[]> {
+  const rows = await db
+    .select()
+    .from(recurringSeries)
+    .where(eq(recurringSeries.userId, userId));
+
+  const reviewed = rows.filter((row) => row.status !== 'detected');
+  const reviewedKeys = new Set(reviewed.map((row) => row.merchantKey));
+
+  const confirmed = reviewed
+    .filter((row) => row.status === 'confirmed')
+    .map((row) => toRecurringItem(serializeSeries(row)));
+
+  const unreviewed = detectRecurringExpenses(recentHistory).filter(
+    (item) => !reviewedKeys.has(seriesKey(item.description))
+  );
+
+  return [...confirmed, ...unreviewed];
+}
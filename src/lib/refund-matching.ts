@@ -0,0 +1,103 @@
+// Refund and reversal matching
+// Links a credit back to the purchase it refunds by merchant and amount, so it nets against that purchase
+
+export interface RefundCandidate {
+  id: number;
+  merchantKey: string | null; // canonical merchant, shared by a purchase and its refunds
+  amount: number; // signed rupees
+  date: string; // YYYY-MM-DD
+  description: string;
+  refundOfId: number | null; // already linked
+}
+
+export interface RefundMatch {
+  refundId: number;
+  originalId: number;
+  score: number; // 0-1
+  reason: string;
+}
+
+export interface RefundMatchOptions {
+  lookbackDays?: number; // how long after a purchase a refund can arrive
+}
+
+const DEFAULT_LOOKBACK_DAYS = 180;
+
+// Narration words that mark a credit as money coming back for an earlier purchase
+const REFUND_PHRASES = ["refund", "reversal", "reversed", "rev ", "chargeback", "returned", "cashback", "cash back"];
+
+export function isRefundNarration(description: string): boolean {
+  const text = `${description.toLowerCase()} `;
+  return REFUND_PHRASES.some((phrase) => text.includes(phrase));
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (24 * 60 * 60 * 1000);
+}
+
+const toPaise = (rupees: number) => Math.round(Math.abs(rupees) * 100);
+
+// Match unlinked credits to earlier debits from the same merchant. A credit of exactly a purchase's
+// outstanding amount is a refund even without refund wording; a smaller one (a partial refund or
+// cashback) needs the wording. Refunds already linked count against their purchase, so a purchase is
+// never refunded beyond its amount. The most recent eligible purchase wins.
+export function findRefundMatches(
+  candidates: RefundCandidate[],
+  options: RefundMatchOptions = {}
+): RefundMatch[] {
+  const lookbackDays = options.lookbackDays ?? DEFAULT_LOOKBACK_DAYS;
+
+  const outstanding = new Map<number, number>(); // purchase id -> paise not yet refunded
+  candidates
+    .filter((c) => c.amount < 0)
+    .forEach((purchase) => outstanding.set(purchase.id, toPaise(purchase.amount)));
+  candidates
+    .filter((c) => c.amount > 0 && c.refundOfId !== null && outstanding.has(c.refundOfId))
+    .forEach((refund) => {
+      const id = refund.refundOfId as number;
+      outstanding.set(id, (outstanding.get(id) as number) - toPaise(refund.amount));
+    });
+
+  const purchasesByMerchant = new Map<string, RefundCandidate[]>();
+  candidates
+    .filter((c) => c.amount < 0 && c.merchantKey)
+    .forEach((purchase) => {
+      const key = purchase.merchantKey as string;
+      purchasesByMerchant.set(key, [...(purchasesByMerchant.get(key) || []), purchase]);
+    });
+
+  const matches: RefundMatch[] = [];
+  const credits = candidates
+    .filter((c) => c.amount > 0 && c.refundOfId === null && c.merchantKey)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  for (const credit of credits) {
+    const amount = toPaise(credit.amount);
+    const worded = isRefundNarration(credit.description);
+    const eligible = (purchasesByMerchant.get(credit.merchantKey as string) || [])
+      .filter((purchase) =>
+        purchase.date <= credit.date &&
+        daysBetween(purchase.date, credit.date) <= lookbackDays &&
+        (outstanding.get(purchase.id) as number) >= amount
+      )
+      .sort((a, b) => b.date.localeCompare(a.date));
+
+    const exact = eligible.find((purchase) => outstanding.get(purchase.id) === amount);
+    const original = exact || (worded ? eligible[0] : undefined);
+    if (!original) continue;
+
+    outstanding.set(original.id, (outstanding.get(original.id) as number) - amount);
+    matches.push({
+      refundId: credit.id,
+      originalId: original.id,
+      score: exact ? (worded ? 0.95 : 0.8) : 0.7,
+      reason: [
+        exact ? "same amount as the purchase" : "partial amount of the purchase",
+        worded ? "narration reads like a refund" : "credit from the merchant you paid",
+        `${daysBetween(original.date, credit.date)} days after the purchase`,
+      ].join(", "),
+    });
+  }
+
+  return matches;
+}
@@ -0,0 +1,93 @@
+// Refunds linked to the purchases they reverse
+// Runs the refund matcher over a user's history and keeps each refund in its purchase's category
+
+import { db } from '@/db';
+import { transactionCategories, transactions } from '@/db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { normalizeMerchant } from '@/lib/merchant-normalization';
+import { findRefundMatches, RefundMatch } from '@/lib/refund-matching';
+import { ApiTransaction, serializeTransaction, signedAmount } from '@/lib/transactions';
+
+type TransactionRow = typeof transactions.$inferSelect;
+
+export interface RefundLinks {
+  refundOf: ApiTransaction | null; // the purchase, when this transaction is a refund
+  refunds: ApiTransaction[]; // refunds of this transaction, when it is a purchase
+}
+
+// Purchases and their refunds share a merchant; narrations without one fall back to their cleaned text
+function merchantKeyOf(row: TransactionRow): string | null {
+  if (row.merchantId !== null) return `merchant:${row.merchantId}`;
+  return normalizeMerchant(row.merchantName || row.description)?.key ?? null;
+}
+
+// Link a refund to its purchase; an unpinned refund takes the purchase's category
+export async function linkRefund(userId: number, refund: TransactionRow, original: TransactionRow): Promise<void> {
+  await db
+    .update(transactions)
+    .set({
+      refundOfId: original.id,
+      refundDismissed: false,
+      ...(refund.categoryPinned ? {} : { categoryId: original.categoryId }),
+    })
+    .where(and(eq(transactions.id, refund.id), eq(transactions.userId, userId)));
+}
+
+// Link the user's unmatched credits to earlier purchases from the same merchant.
+// Refunds the user unlinked before are never matched again; transfers are never refunds.
+export async function matchRefunds(userId: number): Promise<RefundMatch[]> {
+  const rows = await db
+    .select()
+    .from(transactions)
+    .where(and(eq(transactions.userId, userId), isNull(transactions.transferPairId)));
+
+  const matches = findRefundMatches(
+    rows
+      .filter((row) => !row.refundDismissed)
+      .map((row) => ({
+        id: row.id,
+        merchantKey: merchantKeyOf(row),
+        amount: signedAmount(row),
+        date: row.transactionDate,
+        description: row.description,
+        refundOfId: row.refundOfId,
+      }))
+  );
+
+  const byId = new Map(rows.map((row) => [row.id, row]));
+  for (const match of matches) {
+    await linkRefund(userId, byId.get(match.refundId) as TransactionRow, byId.get(match.originalId) as TransactionRow);
+  }
+  return matches;
+}
+
+// Separate a refund from its purchase; it counts as income again and is not re-matched
+export async function unlinkRefund(userId: number, refund: TransactionRow): Promise<void> {
+  await db
+    .update(transactions)
+    .set({ refundOfId: null, refundDismissed: true })
+    .where(and(eq(transactions.id, refund.id), eq(transactions.userId, userId)));
+}
+
+// Both directions of the refund link, for the transaction detail view
+export async function loadRefundLinks(userId: number, row: TransactionRow): Promise<RefundLinks> {
+  const select = () =>
+    db
+      .select()
+      .from(transactions)
+      .leftJoin(transactionCategories, eq(transactions.categoryId, transactionCategories.id));
+
+  const original = row.refundOfId !== null
+    ? await select()
+        .where(and(eq(transactions.id, row.refundOfId), eq(transactions.userId, userId)))
+        .limit(1)
+    : [];
+  const refunds = await select()
+    .where(and(eq(transactions.refundOfId, row.id), eq(transactions.userId, userId)))
+    .orderBy(transactions.transactionDate);
+
+  return {
+    refundOf: original[0] ? serializeTransaction(original[0].transactions, original[0].transaction_categories) : null,
+    refunds: refunds.map((refund) => serializeTransaction(refund.transactions, refund.transaction_categories)),
+  };
+}
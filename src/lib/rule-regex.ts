@@ -0,0 +1,181 @@
+// Regular expressions in user categorization rules
+// Rejects patterns that can backtrack catastrophically and runs the rest under a time budget
+
+import { createContext, Script } from "vm";
+
+// Longest regex a rule may use
+export const MAX_REGEX_PATTERN_LENGTH = 200;
+
+// Longest a single match may run; a pattern that takes longer is treated as not matching
+const MATCH_BUDGET_MS = 25;
+
+// Characters tried when deciding whether two atoms can match the same text
+const SAMPLE_CHARS = [
+  ...Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index)),
+  "\t", "\n", "\u00a0", "\u00e9", "\u20b9", // no-break space, é, ₹
+];
+
+// One matcher in a sequence: a character, escape or class, or null for a group or backreference,
+// which is assumed to overlap anything
+type Atom = string | null;
+
+interface Frame {
+  start: Atom[]; // repeating atoms the group can follow directly, restored after each |
+  run: Atom[]; // repeating atoms the next atom can follow directly
+  hasRepeat: boolean;
+  hasAlternation: boolean;
+}
+
+function atomMatcher(atom: Atom): RegExp | null {
+  if (atom === null) return null;
+  try {
+    return new RegExp(`^(?:${atom})$`, "i");
+  } catch {
+    return null;
+  }
+}
+
+function overlaps(a: Atom, b: Atom): boolean {
+  const [first, second] = [atomMatcher(a), atomMatcher(b)];
+  if (!first || !second) return true;
+  return SAMPLE_CHARS.some((char) => first.test(char) && second.test(char));
+}
+
+// Length of the escape starting at pattern[index] ("\d", "\x41", "\cM" ...)
+function escapeLength(pattern: string, index: number): number {
+  const escape = pattern.slice(index);
+  if (/^\\x[0-9a-fA-F]{2}/.test(escape)) return 4;
+  if (/^\\u[0-9a-fA-F]{4}/.test(escape)) return 6;
+  if (/^\\c[A-Za-z]/.test(escape)) return 3;
+  return 2;
+}
+
+// End (exclusive) of the character class opening at pattern[index]
+function classEnd(pattern: string, index: number): number {
+  let i = index + 1;
+  if (pattern[i] === "^") i++;
+  if (pattern[i] === "]") i++;
+  while (i < pattern.length && pattern[i] !== "]") {
+    i += pattern[i] === "\\" ? 2 : 1;
+  }
+  return i + 1;
+}
+
+// Quantifier at pattern[index], if any, with the lazy marker included in its length
+function readQuantifier(pattern: string, index: number): { min: number; max: number; length: number } {
+  let quantifier: { min: number; max: number; length: number };
+  const char = pattern[index];
+  const braces = char === "{" ? pattern.slice(index).match(/^\{(\d+)(,(\d*))?\}/) : null;
+  if (char === "*") quantifier = { min: 0, max: Infinity, length: 1 };
+  else if (char === "+") quantifier = { min: 1, max: Infinity, length: 1 };
+  else if (char === "?") quantifier = { min: 0, max: 1, length: 1 };
+  else if (braces) {
+    const min = Number(braces[1]);
+    const max = braces[2] === undefined ? min : braces[3] === "" ? Infinity : Number(braces[3]);
+    quantifier = { min, max, length: braces[0].length };
+  } else {
+    return { min: 1, max: 1, length: 0 };
+  }
+  if (pattern[index + quantifier.length] === "?") quantifier.length++;
+  return quantifier;
+}
+
+// Whether a rule's regex compiles, is short, and has none of the shapes that backtrack
+// catastrophically on a long description that almost matches:
+// - repeated groups that contain a repeat or an alternation: (a+)+, (\w*\s?)*, (a|aa)+, (\w|\d)+
+// - repeats that can match the same text back to back: \w*\w*, \d+\w*, \s*(\w*)
+export function isSafeRegexPattern(pattern: string): boolean {
+  if (pattern.length > MAX_REGEX_PATTERN_LENGTH) return false;
+  try {
+    new RegExp(pattern, "i");
+  } catch {
+    return false;
+  }
+
+  const frames: Frame[] = [{ start: [], run: [], hasRepeat: false, hasAlternation: false }];
+  let i = 0;
+  while (i < pattern.length) {
+    const frame = frames[frames.length - 1];
+    const char = pattern[i];
+
+    if (char === "(") {
+      frames.push({ start: frame.run.slice(), run: frame.run.slice(), hasRepeat: false, hasAlternation: false });
+      const prefix = pattern.slice(i).match(/^\((\?(:|=|!|<=|<!|<[A-Za-z_$][\w$]*>))?/) as RegExpMatchArray;
+      i += prefix[0].length;
+      continue;
+    }
+    if (char === "|") {
+      frame.hasAlternation = true;
+      frame.run = frame.start.slice();
+      i++;
+      continue;
+    }
+    if (char === "^" || char === "$" || (char === "\\" && (pattern[i + 1] === "b" || pattern[i + 1] === "B"))) {
+      i += char === "\\" ? 2 : 1;
+      continue;
+    }
+
+    let atom: Atom;
+    let group: Frame | null = null;
+    let end: number;
+    if (char === ")") {
+      group = frames.pop() as Frame;
+      atom = null;
+      end = i + 1;
+    } else if (char === "\\") {
+      end = i + escapeLength(pattern, i);
+      atom = /[1-9]/.test(pattern[i + 1]) ? null : pattern.slice(i, end);
+    } else if (char === "[") {
+      end = classEnd(pattern, i);
+      atom = pattern.slice(i, end);
+    } else {
+      end = i + 1;
+      atom = char === "." ? "." : char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    }
+
+    const quantifier = readQuantifier(pattern, end);
+    const repeats = quantifier.max > 1;
+    const outer = frames[frames.length - 1];
+    if (group && repeats && (group.hasRepeat || group.hasAlternation)) return false;
+
+    if (repeats || group?.hasRepeat) {
+      if (outer.run.some((previous) => overlaps(previous, atom))) return false;
+      // A repeat that may match nothing leaves the earlier repeats next to whatever follows it
+      outer.run = quantifier.min === 0 || group ? [...outer.run, atom] : [atom];
+      outer.hasRepeat = true;
+    } else if (quantifier.min > 0) {
+      outer.run = [];
+    }
+    i = end + quantifier.length;
+  }
+  return true;
+}
+
+// Patterns are compiled once per process; null marks one that is unsafe or ran out of time
+const compiledPatterns = new Map<string, RegExp | null>();
+const MAX_COMPILED_PATTERNS = 1000;
+
+const sandbox = createContext({});
+const runTest = new Script("pattern.test(value)");
+
+// Test a rule's regex (case-insensitive) against text. Unsafe patterns never match, and a pattern
+// that runs past the time budget is dropped for the rest of the process instead of blocking it.
+export function testRuleRegex(pattern: string, value: string): boolean {
+  let regex = compiledPatterns.get(pattern);
+  if (regex === undefined) {
+    if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) compiledPatterns.clear();
+    regex = isSafeRegexPattern(pattern) ? new RegExp(pattern, "i") : null;
+    compiledPatterns.set(pattern, regex);
+  }
+  if (!regex) return false;
+
+  sandbox.pattern = regex;
+  sandbox.value = value;
+  try {
+    return runTest.runInContext(sandbox, { timeout: MATCH_BUDGET_MS }) === true;
+  } catch (error) {
+    console.error(`Rule regex ${pattern} ran out of time; it is skipped from now on:`, error);
+    compiledPatterns.set(pattern, null);
+    return false;
+  }
+}
@@ -0,0 +1,184 @@
+// What-if scenario simulation for cash flow
+// Reruns the projection with hypothetical adjustments and diffs it against the baseline
+
+import {
+  calculateCashFlowProjection,
+  CashFlowProjectionOptions,
+  detectRecurringExpenses,
+  isValidDate,
+  RecurringItem,
+  recurringPayeeKey,
+} from "@/lib/cashflow";
+
+interface Transaction {
+  amount: number;
+  date: string;
+  type?: "income" | "expense";
+  category?: string;
+  description?: string;
+  merchantName?: string;
+}
+
+export type ScenarioAdjustment =
+  | { type: "one_off"; amount: number; date: string; description?: string } // signed rupees
+  | { type: "remove_recurring"; description: string }
+  | { type: "category_change"; category: string; percentChange: number };
+
+type Projection = ReturnType<typeof calculateCashFlowProjection>;
+
+export interface ScenarioResult {
+  baseline: Projection;
+  scenario: Projection;
+  diff: {
+    endBalanceChange: number;
+    minBalanceChange: number;
+    baselineFirstBreachDate: string | null;
+    scenarioFirstBreachDate: string | null;
+    daily: Array<{ date: string; baseline: number; scenario: number; delta: number }>;
+  };
+}
+
+// Validate untrusted adjustments; returns an error message for the first bad entry
+export function parseScenarioAdjustments(
+  raw: unknown
+): { adjustments: ScenarioAdjustment[] } | { error: string } {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    return { error: "adjustments must be a non-empty array" };
+  }
+  if (raw.length > 50) {
+    return { error: "A scenario can have at most 50 adjustments" };
+  }
+
+  const adjustments: ScenarioAdjustment[] = [];
+  for (const [index, item] of raw.entries()) {
+    if (!item || typeof item !== "object") {
+      return { error: `Adjustment ${index} must be an object` };
+    }
+    const adjustment = item as Record<string, unknown>;
+
+    if (adjustment.type === "one_off") {
+      if (typeof adjustment.amount !== "number" || !isFinite(adjustment.amount) || adjustment.amount === 0) {
+        return { error: `Adjustment ${index}: amount must be a non-zero number` };
+      }
+      if (!isValidDate(adjustment.date)) {
+        return { error: `Adjustment ${index}: date must be YYYY-MM-DD` };
+      }
+      adjustments.push({
+        type: "one_off",
+        amount: adjustment.amount,
+        date: adjustment.date,
+        description: typeof adjustment.description === "string" ? adjustment.description : undefined,
+      });
+    } else if (adjustment.type === "remove_recurring") {
+      if (typeof adjustment.description !== "string" || !adjustment.description.trim()) {
+        return { error: `Adjustment ${index}: description is required` };
+      }
+      adjustments.push({ type: "remove_recurring", description: adjustment.description.trim() });
+    } else if (adjustment.type === "category_change") {
+      if (typeof adjustment.category !== "string" || !adjustment.category.trim()) {
+        return { error: `Adjustment ${index}: category is required` };
+      }
+      if (typeof adjustment.percentChange !== "number" || adjustment.percentChange < -100) {
+        return { error: `Adjustment ${index}: percentChange must be a number >= -100` };
+      }
+      adjustments.push({
+        type: "category_change",
+        category: adjustment.category.trim(),
+        percentChange: adjustment.percentChange,
+      });
+    } else {
+      return { error: `Adjustment ${index}: type must be one of one_off, remove_recurring, category_change` };
+    }
+  }
+
+  return { adjustments };
+}
+
+// Rewrite history, known recurring items and future one-offs according to the adjustments
+export function applyScenarioAdjustments<T extends Transaction>(
+  transactions: T[],
+  adjustments: ScenarioAdjustment[],
+  recurringItems?: RecurringItem[]
+): {
+  transactions: T[];
+  scheduledItems: NonNullable<CashFlowProjectionOptions["scheduledItems"]>;
+  recurringItems?: RecurringItem[];
+} {
+  let adjusted = [...transactions];
+  let adjustedRecurring = recurringItems ? [...recurringItems] : undefined;
+  const scheduledItems: NonNullable<CashFlowProjectionOptions["scheduledItems"]> = [];
+
+  for (const adjustment of adjustments) {
+    if (adjustment.type === "one_off") {
+      scheduledItems.push({
+        date: adjustment.date,
+        amount: adjustment.amount,
+        description: adjustment.description,
+      });
+    } else if (adjustment.type === "remove_recurring") {
+      // Dropping the series from history removes both its scheduled payment and its weight in averages
+      const key = adjustment.description.trim().toLowerCase();
+      adjusted = adjusted.filter((t) => !(t.amount < 0 && recurringPayeeKey(t) === key));
+      adjustedRecurring = adjustedRecurring?.filter((item) => item.description.trim().toLowerCase() !== key);
+    } else if (adjustment.type === "category_change") {
+      const factor = 1 + adjustment.percentChange / 100;
+      adjusted = adjusted.map((t) =>
+        t.amount < 0 && t.category === adjustment.category
+          ? { ...t, amount: t.amount * factor }
+          : t
+      );
+      adjustedRecurring = adjustedRecurring?.map((item) =>
+        item.category === adjustment.category ? { ...item, amount: item.amount * factor } : item
+      );
+    }
+  }
+
+  return { transactions: adjusted, scheduledItems, recurringItems: adjustedRecurring };
+}
+
+export function runScenario<T extends Transaction>(
+  transactions: T[],
+  adjustments: ScenarioAdjustment[],
+  options: CashFlowProjectionOptions = {}
+): ScenarioResult {
+  const baseline = calculateCashFlowProjection(transactions, options);
+
+  const applied = applyScenarioAdjustments(transactions, adjustments, options.recurringItems);
+  const scenario = calculateCashFlowProjection(applied.transactions, {
+    ...options,
+    scheduledItems: [...(options.scheduledItems || []), ...applied.scheduledItems],
+    recurringItems: applied.recurringItems,
+  });
+
+  const daily = baseline.projectionByDay.map((day, index) => {
+    const scenarioBalance = scenario.projectionByDay[index]?.balance ?? day.balance;
+    return {
+      date: day.date,
+      baseline: day.balance,
+      scenario: scenarioBalance,
+      delta: scenarioBalance - day.balance,
+    };
+  });
+
+  return {
+    baseline,
+    scenario,
+    diff: {
+      endBalanceChange: scenario.projectedBalance - baseline.projectedBalance,
+      minBalanceChange: scenario.minProjectedBalance - baseline.minProjectedBalance,
+      baselineFirstBreachDate: baseline.firstBreachDate,
+      scenarioFirstBreachDate: scenario.firstBreachDate,
+      daily,
+    },
+  };
+}
+
+// Recurring items a user can cancel in a scenario
+export function listRemovableRecurring(transactions: Transaction[], recurringItems?: RecurringItem[]) {
+  return (recurringItems ?? detectRecurringExpenses(transactions)).map((re) => ({
+    description: re.description,
+    amount: re.amount,
+    frequency: re.frequency,
+    nextDueDate: re.nextDueDate,
+  }));
+}
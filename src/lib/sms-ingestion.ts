@@ -0,0 +1,124 @@
+// Bank SMS ingestion
+// Turns pasted or forwarded debit/credit alerts into transactions on the account they name
+
+import { db } from '@/db';
+import { connectedAccounts } from '@/db/schema';
+import { and, eq } from 'drizzle-orm';
+import { ParsedSms, parseSms } from '@/lib/sms-parsing';
+import { commitStatementImport, findDuplicates, StatementImportRow } from '@/lib/statement-import';
+import { ApiTransaction, toPaise } from '@/lib/transactions';
+
+type AccountRow = typeof connectedAccounts.$inferSelect;
+
+export interface SmsMessage {
+  text: string;
+  sender?: string; // e.g. VM-HDFCBK
+  receivedAt?: string; // YYYY-MM-DD, used when the message has no date
+}
+
+export interface SmsIngestResult {
+  index: number; // position of the message in the request
+  sms: ParsedSms | null;
+  error: string | null; // why the message was not read as a transaction
+  accountId: number | null; // connected account with the same last digits
+  duplicate: boolean; // already stored (or sent twice), skipped
+  transaction: ApiTransaction | null; // the stored transaction, once ingested
+}
+
+// The account whose number ends in the digits the bank printed; the bank's own account first
+function matchAccount(accounts: AccountRow[], sms: ParsedSms): AccountRow | undefined {
+  if (!sms.accountLast4) return undefined;
+  const digits = sms.accountLast4;
+  const candidates = accounts.filter((account) => account.accountNumberLast4?.endsWith(digits));
+  const bankWord = sms.bank?.split(' ')[0].toLowerCase();
+  return (
+    candidates.find((account) => bankWord && account.institutionName.toLowerCase().includes(bankWord)) ??
+    candidates[0]
+  );
+}
+
+// Parse messages and, unless previewing, store the new ones. Messages sent twice are stored once,
+// references already stored are skipped, and an available balance updates the account it names.
+export async function ingestSmsMessages(
+  userId: number,
+  messages: SmsMessage[],
+  options: { preview?: boolean } = {}
+): Promise<SmsIngestResult[]> {
+  const accounts = await db.select().from(connectedAccounts).where(eq(connectedAccounts.userId, userId));
+
+  const seen = new Set<string>();
+  const results: SmsIngestResult[] = messages.map((message, index) => {
+    const parsed = parseSms(message.text, { sender: message.sender, receivedAt: message.receivedAt });
+    if ('error' in parsed) {
+      return { index, sms: null, error: parsed.error, accountId: null, duplicate: false, transaction: null };
+    }
+    const text = message.text.replace(/\s+/g, ' ').trim().toLowerCase();
+    const repeated = seen.has(text);
+    seen.add(text);
+    return {
+      index,
+      sms: parsed.sms,
+      error: null,
+      accountId: matchAccount(accounts, parsed.sms)?.id ?? null,
+      duplicate: repeated,
+      transaction: null,
+    };
+  });
+
+  // Each account's messages go through the import pipeline together
+  const byAccount = new Map<number | null, SmsIngestResult[]>();
+  results
+    .filter((result) => result.sms && !result.duplicate)
+    .forEach((result) => byAccount.set(result.accountId, [...(byAccount.get(result.accountId) || []), result]));
+
+  for (const [accountId, group] of Array.from(byAccount.entries())) {
+    const rows: StatementImportRow[] = group.map((result) => {
+      const sms = result.sms as ParsedSms;
+      return {
+        line: result.index + 1,
+        date: sms.date,
+        description: sms.description,
+        amount: sms.amount,
+        externalId: sms.reference ? `sms:${sms.reference}` : null,
+      };
+    });
+
+    if (options.preview) {
+      const duplicates = await findDuplicates(userId, rows, accountId);
+      group.forEach((result, position) => (result.duplicate = duplicates[position]));
+      continue;
+    }
+
+    const { imported, duplicateRows } = await commitStatementImport(userId, rows, { accountId });
+    let next = 0;
+    group.forEach((result, position) => {
+      result.duplicate = duplicateRows[position];
+      if (!result.duplicate) result.transaction = imported[next++];
+    });
+
+    if (accountId !== null) {
+      await updateBalance(userId, accounts.find((account) => account.id === accountId) as AccountRow, group);
+    }
+  }
+
+  return results;
+}
+
+// The latest stated balance becomes the account's balance, unless a newer one is already known.
+// Card alerts state the available limit, not a balance, so card accounts are left alone.
+async function updateBalance(userId: number, account: AccountRow, group: SmsIngestResult[]): Promise<void> {
+  if (account.accountType === 'credit') return;
+
+  const latest = group
+    .map((result) => result.sms as ParsedSms)
+    .filter((sms) => sms.availableBalance !== null)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .pop();
+  if (!latest || (account.balanceUpdatedAt && account.balanceUpdatedAt.slice(0, 10) > latest.date)) return;
+
+  const now = new Date().toISOString();
+  await db
+    .update(connectedAccounts)
+    .set({ currentBalance: toPaise(latest.availableBalance as number), balanceUpdatedAt: now, updatedAt: now })
+    .where(and(eq(connectedAccounts.id, account.id), eq(connectedAccounts.userId, userId)));
+}
@@ -0,0 +1,280 @@
+// Bank and UPI transaction SMS parsing
+// Reads the debit/credit alerts Indian banks send into amount, direction, account, counterparty and reference
+
+export type SmsDirection = "debit" | "credit";
+
+type SmsField = "amount" | "account" | "date" | "counterparty" | "reference";
+
+type SmsChannel = "upi" | "card" | "transfer";
+
+interface SmsTemplate {
+  id: string;
+  bank: string;
+  direction: SmsDirection;
+  channel: SmsChannel;
+  pattern: RegExp;
+  fields: SmsField[]; // field captured by each group, in order
+}
+
+export interface ParsedSms {
+  template: string; // id of the template that matched, "generic" when none did
+  bank: string | null;
+  direction: SmsDirection;
+  amount: number; // signed rupees: credits positive, debits negative
+  accountLast4: string | null; // some banks print only the last 3 digits
+  counterparty: string | null; // payee or payer as the bank wrote it
+  vpa: string | null; // UPI address of the counterparty
+  reference: string | null; // UPI/IMPS/NEFT reference number
+  availableBalance: number | null; // rupees, when the message states it
+  date: string; // YYYY-MM-DD; the received date when the message has none
+  description: string; // narration in the style of a bank statement
+}
+
+// What a template (or the generic reader) pulls out of a message
+interface SmsMatch {
+  template: string;
+  bank: string | null;
+  direction: SmsDirection;
+  channel: SmsChannel;
+  amount: number; // unsigned rupees
+  accountLast4: string | null;
+  counterparty: string | null;
+  reference: string | null;
+  date: string | null;
+}
+
+// Building blocks shared by the templates; each one captures a single field
+const PLACEHOLDERS: Record<string, { field: SmsField; pattern: string }> = {
+  AMOUNT: { field: "amount", pattern: String.raw`(?:(?:rs\.?|inr|₹)\s*)?([\d,]+(?:\.\d+)?)` },
+  ACCOUNT: { field: "account", pattern: String.raw`(?:no\.?\s*)?[x*]*(\d{3,4})` },
+  DATE: { field: "date", pattern: String.raw`(\d{4}-\d{2}-\d{2}|\d{1,2}[-\/ .]?(?:\d{1,2}|[a-z]{3})[-\/ .]?\d{2,4})` },
+  PARTY: { field: "counterparty", pattern: String.raw`(.*?)` },
+  REF: { field: "reference", pattern: String.raw`(\w{6,})` },
+};
+
+// Messages end in helpline boilerplate; an Axis-style trailing field runs until it starts
+const TAIL = String.raw`(?= not you| -| axis bank|$)`;
+
+function template(
+  id: string,
+  bank: string,
+  direction: SmsDirection,
+  channel: SmsChannel,
+  source: string
+): SmsTemplate {
+  const fields: SmsField[] = [];
+  const pattern = source.replace(/\{([A-Z]+)\}/g, (_, name: string) => {
+    fields.push(PLACEHOLDERS[name].field);
+    return PLACEHOLDERS[name].pattern;
+  });
+  return { id, bank, direction, channel, pattern: new RegExp(pattern, "i"), fields };
+}
+
+// Alert formats per bank, on the message with its line breaks collapsed to single spaces
+const SMS_TEMPLATES: SmsTemplate[] = [
+  // HDFC Bank
+  template("hdfc-upi-sent", "HDFC Bank", "debit", "upi",
+    String.raw`sent {AMOUNT} from hdfc bank a\/c {ACCOUNT} to {PARTY} on {DATE} ref {REF}`),
+  template("hdfc-upi-debited", "HDFC Bank", "debit", "upi",
+    String.raw`{AMOUNT} debited from a\/c {ACCOUNT} on {DATE} to vpa {PARTY} ?\(upi ref no\.? ?{REF}\)`),
+  template("hdfc-upi-received", "HDFC Bank", "credit", "upi",
+    String.raw`received:? -? ?{AMOUNT} in (?:your )?hdfc bank a\/c {ACCOUNT} on {DATE} by a\/c linked to vpa {PARTY} ?\(upi ref no\.? ?{REF}\)`),
+  template("hdfc-deposit", "HDFC Bank", "credit", "transfer",
+    String.raw`{AMOUNT} deposited (?:in|to) hdfc bank a\/c {ACCOUNT} on {DATE} for {PARTY}\.(?: |$)`),
+  template("hdfc-card-spent", "HDFC Bank", "debit", "card",
+    String.raw`spent {AMOUNT} on hdfc bank card {ACCOUNT} at {PARTY} on {DATE}`),
+
+  // ICICI Bank
+  template("icici-debit", "ICICI Bank", "debit", "upi",
+    String.raw`icici bank acc?t {ACCOUNT} debited (?:for|with) {AMOUNT} on {DATE}[;,] {PARTY} credited\. (?:upi|rrn|imps)[: ]?{REF}`),
+  template("icici-credit", "ICICI Bank", "credit", "upi",
+    String.raw`acc?t {ACCOUNT} is credited with {AMOUNT} on {DATE} from {PARTY}\. (?:upi|rrn|imps)[: ]?{REF}`),
+  template("icici-card-spent", "ICICI Bank", "debit", "card",
+    String.raw`{AMOUNT} spent (?:using|on) icici bank card {ACCOUNT} on {DATE} (?:on|at) {PARTY}\.`),
+
+  // State Bank of India
+  template("sbi-upi-debit", "State Bank of India", "debit", "upi",
+    String.raw`a\/c {ACCOUNT} debited by {AMOUNT} on date {DATE} trf to {PARTY} ref ?no {REF}`),
+  template("sbi-upi-credit", "State Bank of India", "credit", "upi",
+    String.raw`a\/c {ACCOUNT} credited by {AMOUNT} on {DATE} by {PARTY} ?\(ref no {REF}\)`),
+  template("sbi-transfer-debit", "State Bank of India", "debit", "transfer",
+    String.raw`a\/c {ACCOUNT} has a debit by transfer of {AMOUNT} on {DATE}`),
+  template("sbi-transfer-credit", "State Bank of India", "credit", "transfer",
+    String.raw`a\/c {ACCOUNT} has a credit by transfer of {AMOUNT} on {DATE}`),
+
+  // Axis Bank
+  template("axis-upi-debit", "Axis Bank", "debit", "upi",
+    String.raw`{AMOUNT} debited a\/c {ACCOUNT} {DATE},? [\d:]+(?: ist)? upi\/p2[ma]\/{REF}\/{PARTY}` + TAIL),
+  template("axis-upi-credit", "Axis Bank", "credit", "upi",
+    String.raw`{AMOUNT} credited a\/c {ACCOUNT} {DATE},? [\d:]+(?: ist)? upi\/p2[ma]\/{REF}\/{PARTY}` + TAIL),
+
+  // Kotak Mahindra Bank
+  template("kotak-upi-sent", "Kotak Mahindra Bank", "debit", "upi",
+    String.raw`sent {AMOUNT} from kotak bank a\/?c {ACCOUNT} to {PARTY} on {DATE}\.? ?upi ref:? ?{REF}`),
+  template("kotak-upi-received", "Kotak Mahindra Bank", "credit", "upi",
+    String.raw`received {AMOUNT} in your kotak bank a\/?c {ACCOUNT} from {PARTY} on {DATE}\.? ?upi ref:? ?{REF}`),
+];
+
+// Banks named in messages (or sender ids like VM-HDFCBK) that no template covers
+const BANK_NAMES: Array<{ bank: string; pattern: RegExp }> = [
+  { bank: "HDFC Bank", pattern: /\bhdfc/i },
+  { bank: "ICICI Bank", pattern: /\bicici/i },
+  { bank: "State Bank of India", pattern: /\bsbi|state bank/i },
+  { bank: "Axis Bank", pattern: /\baxis ?bank|axisbk/i },
+  { bank: "Kotak Mahindra Bank", pattern: /\bkotak/i },
+  { bank: "Punjab National Bank", pattern: /\bpnb|punjab national/i },
+  { bank: "Bank of Baroda", pattern: /\bbob\b|bank of baroda/i },
+  { bank: "Yes Bank", pattern: /\byes ?bank|yesbnk/i },
+  { bank: "IDFC First Bank", pattern: /\bidfc/i },
+  { bank: "IndusInd Bank", pattern: /\bindusind/i },
+  { bank: "Canara Bank", pattern: /\bcanara/i },
+  { bank: "Union Bank of India", pattern: /\bunion bank/i },
+];
+
+// OTPs, payment reminders, collect requests and failed payments mention amounts but move no money
+const NOT_A_TRANSACTION =
+  /\botp\b|one[- ]time password|will be (?:debited|deducted)|is due|due date|has requested|collect request|requested (?:rs|inr|₹)|declined|failed|unsuccessful/i;
+
+const VPA = /\b[\w.\-]{2,}@[a-z][a-z0-9]{1,}\b/i;
+
+const BALANCE =
+  /(?:avl|avbl|available)\.?\s*(?:bal(?:ance)?|lmt|limit)\.?\s*(?:is\s*)?[:\-]?\s*(?:rs\.?|inr|₹)?\s*([\d,]+(?:\.\d+)?)/i;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+// 14-01-25, 14/01/2025, 14-Jan-25, 14Jan25, 01-FEB-2025, 14 Jan 2025, 2025-01-14 -> 2025-01-14
+export function parseSmsDate(text: string): string | null {
+  let day: number, month: number, year: number;
+
+  const iso = text.match(/(\d{4})-(\d{2})-(\d{2})/);
+  const named = text.match(/(\d{1,2})[-\/ .]?([a-z]{3})[a-z]*[-\/ .,]*(\d{2,4})/i);
+  const numeric = text.match(/(\d{1,2})[-\/.](\d{1,2})[-\/.](\d{2,4})/);
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (named && MONTHS.includes(named[2].toLowerCase())) {
+    [day, month, year] = [Number(named[1]), MONTHS.indexOf(named[2].toLowerCase()) + 1, Number(named[3])];
+  } else if (numeric) {
+    [day, month, year] = [Number(numeric[1]), Number(numeric[2]), Number(numeric[3])];
+  } else {
+    return null;
+  }
+
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1) return null;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split("T")[0];
+}
+
+const toNumber = (value: string) => Number(value.replace(/,/g, ""));
+
+// Statement-style narration, so merchant normalization reads SMS rows the way it reads imported ones
+function narration(channel: SmsChannel, direction: SmsDirection, counterparty: string | null, reference: string | null): string {
+  if (channel === "card") return ["POS", counterparty || "Card"].join("/");
+  if (channel === "upi") {
+    return ["UPI", direction === "debit" ? "DR" : "CR", reference, counterparty].filter(Boolean).join("/");
+  }
+  return counterparty || ["TRANSFER", direction === "debit" ? "DR" : "CR", reference].filter(Boolean).join("/");
+}
+
+// Fields for banks without a template: direction from the first debit or credit verb (a transfer
+// alert can say both), the first amount that is not a balance, the account after "A/c" or "Card",
+// and a reference after "Ref", "UPI", "RRN" or "UTR"
+function matchGeneric(text: string): SmsMatch | null {
+  const verb = text.match(/\b(debited|spent|sent|withdrawn|paid|purchased?|credited|received|deposited|refunded)\b/i);
+  if (!verb) return null;
+  const direction: SmsDirection = /^(credited|received|deposited|refunded)$/i.test(verb[1]) ? "credit" : "debit";
+
+  const amount = text.replace(BALANCE, "").match(/(?:rs\.?|inr|₹)\s*([\d,]+(?:\.\d+)?)/i);
+  if (!amount) return null;
+
+  const account = text.match(/(?:a\/?c|acct|account|card)\.?(?:\s*no\.?)?\s*(?:ending\s*(?:with|in)?\s*)?[x*]*(\d{3,4})\b/i);
+  const reference = text.match(/(?:ref(?:erence)?|rrn|utr|upi|imps|neft)\s*(?:no\.?|number|id)?\s*[:.\-]?\s*(?=\w*\d)(\w{6,})/i);
+
+  return {
+    template: "generic",
+    bank: BANK_NAMES.find((candidate) => candidate.pattern.test(text))?.bank ?? null,
+    direction,
+    channel: /\bcard\b/i.test(text) ? "card" : /\bupi\b|@/i.test(text) ? "upi" : "transfer",
+    amount: toNumber(amount[1]),
+    accountLast4: account?.[1] ?? null,
+    counterparty: null,
+    reference: reference?.[1] ?? null,
+    date: parseSmsDate(text),
+  };
+}
+
+function matchTemplate(text: string): SmsMatch | null {
+  for (const candidate of SMS_TEMPLATES) {
+    const match = text.match(candidate.pattern);
+    if (!match) continue;
+    const value = (field: SmsField) => {
+      const index = candidate.fields.indexOf(field);
+      return index >= 0 ? match[index + 1]?.trim() || null : null;
+    };
+    const date = value("date");
+    return {
+      template: candidate.id,
+      bank: candidate.bank,
+      direction: candidate.direction,
+      channel: candidate.channel,
+      amount: toNumber(value("amount") || ""),
+      accountLast4: value("account"),
+      counterparty: value("counterparty"),
+      reference: value("reference"),
+      date: date ? parseSmsDate(date) : null,
+    };
+  }
+  return null;
+}
+
+// Parse one message. `receivedAt` (YYYY-MM-DD) stands in for the date when the message has none.
+export function parseSms(
+  message: string,
+  options: { sender?: string; receivedAt?: string } = {}
+): { sms: ParsedSms } | { error: string } {
+  const text = message.replace(/\s+/g, " ").trim();
+  if (!text) {
+    return { error: "Empty message" };
+  }
+  if (NOT_A_TRANSACTION.test(text)) {
+    return { error: "Not a completed transaction (OTP, reminder, request or failed payment)" };
+  }
+
+  const match = matchTemplate(text) ?? matchGeneric(text);
+  if (!match || !match.amount) {
+    return { error: "Not a recognisable debit or credit alert" };
+  }
+
+  const date = match.date ?? options.receivedAt ?? null;
+  if (!date) {
+    return { error: "The message has no date; send receivedAt with it" };
+  }
+
+  const vpa = (match.counterparty?.match(VPA) ?? text.match(VPA))?.[0] ?? null;
+  const balance = text.match(BALANCE);
+
+  return {
+    sms: {
+      template: match.template,
+      bank: match.bank ?? BANK_NAMES.find((candidate) => candidate.pattern.test(options.sender || ""))?.bank ?? null,
+      direction: match.direction,
+      amount: match.direction === "debit" ? -match.amount : match.amount,
+      accountLast4: match.accountLast4,
+      counterparty: match.counterparty,
+      vpa,
+      reference: match.reference,
+      availableBalance: balance ? toNumber(balance[1]) : null,
+      date,
+      description: narration(match.channel, match.direction, match.counterparty ?? vpa, match.reference),
+    },
+  };
+}
+
+// Pasted text holds one message per paragraph
+export function splitSmsMessages(text: string): string[] {
+  return text
+    .split(/\r?\n\s*\r?\n/)
+    .map((message) => message.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,77 @@
+// Statement file exports
+// Groups a user's transactions by account so they can be written out as OFX/QFX or QIF
+
+import { db } from '@/db';
+import { connectedAccounts } from '@/db/schema';
+import { eq } from 'drizzle-orm';
+import { ExportStatement, StatementAccount, StatementAccountType } from '@/lib/money-files';
+import { fromPaise, loadCategoryHierarchy, loadUserTransactions } from '@/lib/transactions';
+
+const ACCOUNT_TYPES: StatementAccountType[] = ['checking', 'savings', 'credit', 'investment'];
+
+// Transactions entered by hand belong to no account; they are exported as one of their own
+const MANUAL_ACCOUNT: StatementAccount = {
+  institution: null,
+  accountName: 'Cash and manual entries',
+  accountNumber: null,
+  accountType: 'checking',
+  currency: 'INR',
+  ledgerBalance: null,
+};
+
+// One statement per account with transactions in the range (oldest first). Categories are written
+// as "Parent:Child" paths and transactions that came without a file id get a stable "finpal-<id>".
+export async function loadExportStatements(
+  userId: number,
+  options: { accountId?: number; startDate?: string; endDate?: string } = {}
+): Promise<ExportStatement[]> {
+  const [history, accounts, hierarchy] = await Promise.all([
+    loadUserTransactions(userId, { startDate: options.startDate, endDate: options.endDate }),
+    db.select().from(connectedAccounts).where(eq(connectedAccounts.userId, userId)),
+    loadCategoryHierarchy(),
+  ]);
+
+  const categoryPath = (name: string | null) => {
+    if (!name) return null;
+    const parent = hierarchy[name];
+    return parent ? `${parent}:${name}` : name;
+  };
+
+  const byAccount = new Map<number | null, ExportStatement>();
+  history
+    .filter((transaction) => options.accountId === undefined || transaction.accountId === options.accountId)
+    .forEach((transaction) => {
+      if (!byAccount.has(transaction.accountId)) {
+        const account = accounts.find((row) => row.id === transaction.accountId);
+        byAccount.set(transaction.accountId, {
+          account: account
+            ? {
+                institution: account.institutionName,
+                accountName: `${account.institutionName} - ${account.accountName}`,
+                accountNumber: account.accountNumberLast4,
+                accountType: ACCOUNT_TYPES.find((type) => type === account.accountType) ?? 'checking',
+                currency: 'INR',
+                ledgerBalance: account.currentBalance !== null ? fromPaise(account.currentBalance) : null,
+              }
+            : MANUAL_ACCOUNT,
+          transactions: [],
+        });
+      }
+
+      (byAccount.get(transaction.accountId) as ExportStatement).transactions.push({
+        externalId: transaction.externalId ?? `finpal-${transaction.id}`,
+        date: transaction.date,
+        amount: transaction.amount,
+        description: transaction.description,
+        payee: transaction.merchantName,
+        category: categoryPath(transaction.category),
+        splits: transaction.splits.map((split) => ({
+          category: categoryPath(split.category),
+          amount: split.amount,
+          note: split.note,
+        })),
+      });
+    });
+
+  return Array.from(byAccount.values());
+}
@@ -0,0 +1,425 @@
+// Statement import pipeline shared by the file importers
+// Dedupes parsed rows against stored history, categorizes the new ones and inserts them
+
+import { db } from '@/db';
+import { connectedAccounts, transactionCategories, transactions } from '@/db/schema';
+import { and, eq, gte, lte } from 'drizzle-orm';
+import { categorizeTransactions } from '@/lib/categorization';
+import { StatementRowError } from '@/lib/csv-import';
+import { FileStatement, StatementAccount } from '@/lib/money-files';
+import { loadUserRules } from '@/lib/categorization-rules';
+import { DEFAULT_CATEGORY_NAME, serializeTransaction, signedAmount, ApiTransaction, toPaise } from '@/lib/transactions';
+import { aiCategorizationCutoff, categorizeBatchWithAI, CategorizationItem } from '@/lib/ai-categorization';
+import { normalizeMerchant } from '@/lib/merchant-normalization';
+import { findMerchantByKey, resolveMerchant } from '@/lib/merchants';
+import { matchRefunds } from '@/lib/refunds';
+import { matchTransfers } from '@/lib/transfers';
+
+type CategoryRow = typeof transactionCategories.$inferSelect;
+type AccountRow = typeof connectedAccounts.$inferSelect;
+
+// Stay well under SQLite's bound-parameter limit when inserting
+const INSERT_CHUNK = 100;
+
+export interface StatementImportRow {
+  line: number;
+  date: string; // YYYY-MM-DD
+  description: string;
+  amount: number; // signed rupees
+  externalId?: string | null; // OFX FITID
+  merchantName?: string | null; // payee, when the file names one
+  fileCategory?: string | null; // category another app assigned, "Parent:Child" allowed
+  pending?: boolean; // from a bank aggregator, not posted yet
+}
+
+export interface ImportPreviewRow extends StatementImportRow {
+  merchantName: string | null;
+  category: string; // suggested by the user's rules and the keyword engine
+  duplicate: boolean; // already stored, will be skipped
+}
+
+export interface ImportSummary {
+  total: number;
+  new: number;
+  duplicates: number;
+  failed: number;
+}
+
+export function summarizeImport(rows: ImportPreviewRow[], errors: StatementRowError[]): ImportSummary {
+  const duplicates = rows.filter((row) => row.duplicate).length;
+  return {
+    total: rows.length + errors.length,
+    new: rows.length - duplicates,
+    duplicates,
+    failed: errors.length,
+  };
+}
+
+// The same day, amount and payee is the same transaction, however each side spelled the narration
+function dedupeKey(date: string, amount: number, description: string, merchantName?: string | null): string {
+  const payee = normalizeMerchant(merchantName || description)?.key ?? description.toLowerCase().replace(/\s+/g, ' ').trim();
+  return `${date}|${toPaise(amount)}|${payee}`;
+}
+
+// Flags rows that are already stored. A row with a FITID is a duplicate when that FITID is stored
+// for the account; otherwise the same day, amount and payee is. Counting matters: two identical
+// coffees on one day in the file against one stored coffee leaves one of them new.
+export async function findDuplicates(
+  userId: number,
+  rows: StatementImportRow[],
+  accountId: number | null = null
+): Promise<boolean[]> {
+  if (rows.length === 0) return [];
+
+  const dates = rows.map((row) => row.date).sort();
+  const stored = await db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.userId, userId),
+        gte(transactions.transactionDate, dates[0]),
+        lte(transactions.transactionDate, dates[dates.length - 1])
+      )
+    );
+
+  const externalIds = new Set(
+    stored
+      .filter((row) => row.externalId !== null && row.accountId === accountId)
+      .map((row) => row.externalId as string)
+  );
+  const remaining = new Map<string, Array<{ externalId: string | null }>>();
+  stored.forEach((row) => {
+    const key = dedupeKey(row.transactionDate, signedAmount(row), row.description, row.merchantName);
+    remaining.set(key, [...(remaining.get(key) || []), { externalId: row.externalId }]);
+  });
+
+  return rows.map((row) => {
+    if (row.externalId) {
+      if (externalIds.has(row.externalId)) return true;
+      externalIds.add(row.externalId); // the same FITID twice in one file
+    }
+
+    // Stored rows with a FITID of their own only match by FITID
+    const candidates = remaining.get(dedupeKey(row.date, row.amount, row.description, row.merchantName)) || [];
+    const index = candidates.findIndex((candidate) => !row.externalId || candidate.externalId === null);
+    if (index < 0) return false;
+    candidates.splice(index, 1);
+    return true;
+  });
+}
+
+interface AICandidate extends CategorizationItem {
+  transactionId: number;
+  categoryId: number; // the keyword engine's guess it was stored with
+  confidence: number;
+}
+
+// Category per row. A category the file carries (from the app the history came from) wins and
+// is pinned; otherwise the order resolveCategory uses: user rules, the merchant's default
+// category, the keyword engine and then Others. Keyword guesses below the AI cutoff are flagged
+// so the AI can be asked about them once the rows are stored.
+async function categorizeRows(
+  userId: number,
+  rows: Array<StatementImportRow & { merchantName: string | null; merchantCategoryId: number | null }>
+): Promise<Array<{ category: CategoryRow; pinned: boolean; confidence: number; askAI: boolean }>> {
+  const categories = await db.select().from(transactionCategories);
+  const byName = new Map(categories.map((category) => [category.name, category]));
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const byLowerName = new Map(categories.map((category) => [category.name.toLowerCase(), category]));
+  const fallback = byName.get(DEFAULT_CATEGORY_NAME) as CategoryRow;
+
+  const fileCategories = rows.map((row) => {
+    if (!row.fileCategory) return undefined;
+    const path = row.fileCategory.toLowerCase();
+    return byLowerName.get(path) ?? byLowerName.get(path.split(':').pop()!.trim());
+  });
+
+  const suggestions = categorizeTransactions(
+    rows.map((row) => ({
+      description: row.description,
+      amount: row.amount,
+      date: row.date,
+      merchantName: row.merchantName ?? undefined,
+    })),
+    await loadUserRules(userId)
+  );
+
+  const cutoff = aiCategorizationCutoff();
+  return suggestions.map((suggestion, index) => {
+    const fileCategory = fileCategories[index];
+    if (fileCategory) {
+      return { category: fileCategory, pinned: true, confidence: 1, askAI: false };
+    }
+    const merchantCategory = rows[index].merchantCategoryId ? byId.get(rows[index].merchantCategoryId as number) : undefined;
+    if (!suggestion.ruleId && merchantCategory) {
+      return { category: merchantCategory, pinned: false, confidence: 1, askAI: false };
+    }
+    return {
+      category: (suggestion.category && byName.get(suggestion.category)) || fallback,
+      pinned: false,
+      confidence: suggestion.confidence,
+      askAI: !suggestion.ruleId && suggestion.confidence < cutoff,
+    };
+  });
+}
+
+// Ask the AI about imported rows the keyword engine was unsure of, and move the ones it is more
+// confident about. Rows the user re-categorized or pinned in the meantime are left alone.
+async function categorizeImportWithAI(userId: number, candidates: AICandidate[]): Promise<void> {
+  const answers = await categorizeBatchWithAI(candidates);
+
+  for (let index = 0; index < candidates.length; index++) {
+    const candidate = candidates[index];
+    const answer = answers[index];
+    if (!answer || answer.confidence <= candidate.confidence || answer.category.id === candidate.categoryId) continue;
+
+    await db
+      .update(transactions)
+      .set({ categoryId: answer.category.id })
+      .where(
+        and(
+          eq(transactions.id, candidate.transactionId),
+          eq(transactions.userId, userId),
+          eq(transactions.categoryId, candidate.categoryId),
+          eq(transactions.categoryPinned, false)
+        )
+      );
+  }
+}
+
+// Fire-and-forget, so an import never waits on the AI provider's rate limit; failures are only logged
+function scheduleImportAICategorization(userId: number, candidates: AICandidate[]): void {
+  if (candidates.length === 0) return;
+  categorizeImportWithAI(userId, candidates).catch((error) => {
+    console.error('Error categorizing imported transactions with AI:', error);
+  });
+}
+
+// What an import would do, without writing anything: duplicates flagged, categories suggested
+export async function previewStatementImport(
+  userId: number,
+  rows: StatementImportRow[],
+  options: { accountId?: number | null } = {}
+): Promise<ImportPreviewRow[]> {
+  const duplicates = await findDuplicates(userId, rows, options.accountId ?? null);
+
+  const withMerchants = await Promise.all(
+    rows.map(async (row) => {
+      const normalized = normalizeMerchant(row.merchantName || row.description);
+      const known = normalized ? await findMerchantByKey(userId, normalized.key) : undefined;
+      return {
+        ...row,
+        merchantName: known?.name ?? normalized?.name ?? null,
+        merchantCategoryId: known?.defaultCategoryId ?? null,
+      };
+    })
+  );
+  const categories = await categorizeRows(userId, withMerchants);
+
+  return withMerchants.map(({ merchantCategoryId: _merchantCategoryId, ...row }, index) => ({
+    ...row,
+    category: categories[index].category.name,
+    duplicate: duplicates[index],
+  }));
+}
+
+// Insert the rows that are not stored yet, then look for transfers and refunds among them. Rows are
+// stored with their rule or keyword category; the AI refines the unsure ones in the background.
+export async function commitStatementImport(
+  userId: number,
+  rows: StatementImportRow[],
+  options: { accountId?: number | null } = {}
+): Promise<{ imported: ApiTransaction[]; duplicates: number; duplicateRows: boolean[] }> {
+  const duplicates = await findDuplicates(userId, rows, options.accountId ?? null);
+  const fresh = rows.filter((_, index) => !duplicates[index]);
+
+  const withMerchants = [];
+  for (const row of fresh) {
+    const merchant = await resolveMerchant(userId, {
+      description: row.description,
+      merchantName: row.merchantName,
+      amount: row.amount,
+    });
+    withMerchants.push({
+      ...row,
+      merchantName: merchant?.name ?? (row.merchantName?.trim() || null),
+      merchantId: merchant?.id ?? null,
+      merchantCategoryId: merchant?.defaultCategoryId ?? null,
+    });
+  }
+  const categories = await categorizeRows(userId, withMerchants);
+
+  const now = new Date().toISOString();
+  const imported: ApiTransaction[] = [];
+  const aiCandidates: AICandidate[] = [];
+  for (let start = 0; start < withMerchants.length; start += INSERT_CHUNK) {
+    const inserted = await db
+      .insert(transactions)
+      .values(
+        withMerchants.slice(start, start + INSERT_CHUNK).map((row, offset) => ({
+          userId,
+          categoryId: categories[start + offset].category.id,
+          amount: toPaise(Math.abs(row.amount)),
+          description: row.description,
+          merchantName: row.merchantName,
+          merchantId: row.merchantId,
+          transactionDate: row.date,
+          transactionType: row.amount > 0 ? 'credit' : 'debit',
+          isRecurring: false,
+          categoryPinned: categories[start + offset].pinned,
+          accountId: options.accountId ?? null,
+          externalId: row.externalId ?? null,
+          pending: row.pending ?? false,
+          createdAt: now,
+        }))
+      )
+      .returning();
+    inserted.forEach((row, offset) => {
+      const { category, confidence, askAI } = categories[start + offset];
+      imported.push(serializeTransaction(row, category));
+      if (askAI) {
+        aiCandidates.push({
+          transactionId: row.id,
+          categoryId: category.id,
+          confidence,
+          description: row.description,
+          amount: signedAmount(row),
+          merchantName: row.merchantName,
+        });
+      }
+    });
+  }
+
+  if (imported.length > 0) {
+    if (options.accountId) {
+      await matchTransfers(userId);
+    }
+    await matchRefunds(userId);
+  }
+  scheduleImportAICategorization(userId, aiCandidates);
+
+  return { imported, duplicates: rows.length - fresh.length, duplicateRows: duplicates };
+}
+
+// Marks accounts created from statement files; they have no Plaid item behind them
+const FILE_IMPORT_ITEM_ID = 'file-import';
+
+const lastFour = (accountNumber: string | null) => accountNumber?.replace(/[^0-9A-Za-z]/g, '').slice(-4) || null;
+
+// The connected account a statement in a file belongs to: the same last four digits (of the
+// same kind, bank or card), or for QIF files, which carry no numbers, the same account name
+export async function findStatementAccount(userId: number, account: StatementAccount): Promise<AccountRow | undefined> {
+  const accounts = await db.select().from(connectedAccounts).where(eq(connectedAccounts.userId, userId));
+
+  const digits = lastFour(account.accountNumber);
+  if (digits) {
+    const sameNumber = accounts.filter((row) => row.accountNumberLast4 === digits);
+    return sameNumber.find((row) => (row.accountType === 'credit') === (account.accountType === 'credit')) ?? sameNumber[0];
+  }
+
+  const name = account.accountName?.trim().toLowerCase();
+  if (!name) return undefined;
+  return accounts.find(
+    (row) => row.accountName.toLowerCase() === name || `${row.institutionName} - ${row.accountName}`.toLowerCase() === name
+  );
+}
+
+// Find the statement's account or add it to the user's accounts. Null when the file does not
+// say which account it is for.
+export async function resolveStatementAccount(userId: number, account: StatementAccount): Promise<AccountRow | null> {
+  const existing = await findStatementAccount(userId, account);
+  if (existing) return existing;
+
+  const digits = lastFour(account.accountNumber);
+  if (!digits && !account.accountName) return null;
+
+  const now = new Date().toISOString();
+  const inserted = await db
+    .insert(connectedAccounts)
+    .values({
+      userId,
+      plaidAccessToken: '',
+      plaidItemId: FILE_IMPORT_ITEM_ID,
+      institutionName: account.institution || 'Imported',
+      accountName: account.accountName || `Account ${digits}`,
+      accountType: account.accountType,
+      accountNumberLast4: digits,
+      currentBalance: account.ledgerBalance !== null ? toPaise(account.ledgerBalance) : null,
+      balanceUpdatedAt: account.ledgerBalance !== null ? now : null,
+      isPrimary: false,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+  return inserted[0];
+}
+
+const toImportRows = (statement: FileStatement): StatementImportRow[] =>
+  statement.rows.map((row) => ({
+    line: row.line,
+    date: row.date,
+    description: row.description,
+    amount: row.amount,
+    externalId: row.externalId,
+    merchantName: row.payee,
+    fileCategory: row.category,
+  }));
+
+export interface FileStatementPreview {
+  account: StatementAccount;
+  accountId: number | null; // existing account the rows would go to; null when it would be added
+  rows: ImportPreviewRow[];
+  errors: StatementRowError[];
+  summary: ImportSummary;
+}
+
+export interface FileStatementResult {
+  account: StatementAccount;
+  accountId: number | null;
+  imported: number;
+  duplicates: number;
+  errors: StatementRowError[];
+}
+
+// Preview every statement in an OFX or QIF file. An explicit accountId applies to a single-statement file only.
+export async function previewFileStatements(
+  userId: number,
+  statements: FileStatement[],
+  options: { accountId?: number | null } = {}
+): Promise<FileStatementPreview[]> {
+  const previews: FileStatementPreview[] = [];
+  for (const statement of statements) {
+    const accountId = options.accountId ?? (await findStatementAccount(userId, statement.account))?.id ?? null;
+    const rows = await previewStatementImport(userId, toImportRows(statement), { accountId });
+    previews.push({
+      account: statement.account,
+      accountId,
+      rows,
+      errors: statement.errors,
+      summary: summarizeImport(rows, statement.errors),
+    });
+  }
+  return previews;
+}
+
+// Import every statement in an OFX or QIF file into its account, adding accounts the user does not have yet
+export async function commitFileStatements(
+  userId: number,
+  statements: FileStatement[],
+  options: { accountId?: number | null } = {}
+): Promise<FileStatementResult[]> {
+  const results: FileStatementResult[] = [];
+  for (const statement of statements) {
+    const accountId = options.accountId ?? (await resolveStatementAccount(userId, statement.account))?.id ?? null;
+    const { imported, duplicates } = await commitStatementImport(userId, toImportRows(statement), { accountId });
+    results.push({
+      account: statement.account,
+      accountId,
+      imported: imported.length,
+      duplicates,
+      errors: statement.errors,
+    });
+  }
+  return results;
+}
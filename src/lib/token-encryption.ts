@@ -0,0 +1,40 @@
+// Encryption for stored bank access tokens
+// AES-256-GCM with a key derived from ENCRYPTION_KEY; tokens written before encryption was added still read back
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+
+const VERSION = 'v1';
+
+// Only for local development; production refuses to store tokens without a configured key
+const DEVELOPMENT_KEY = 'finpal-development-encryption-key';
+
+function encryptionKey(): Buffer {
+  const configured = process.env.ENCRYPTION_KEY;
+  if (!configured && process.env.NODE_ENV === 'production') {
+    throw new Error('ENCRYPTION_KEY is not configured');
+  }
+  // Hashing accepts a key of any length and always yields the 32 bytes AES-256 needs
+  return createHash('sha256').update(configured || DEVELOPMENT_KEY).digest();
+}
+
+// "v1:<iv>:<auth tag>:<ciphertext>", each part base64
+export function encryptToken(token: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', encryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(token, 'utf8'), cipher.final()]);
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+// Throws when the token was encrypted with a different key or has been tampered with
+export function decryptToken(stored: string): string {
+  const parts = stored.split(':');
+  if (parts.length !== 4 || parts[0] !== VERSION) {
+    // Older rows hold the token base64-encoded only
+    return Buffer.from(stored, 'base64').toString('utf8');
+  }
+
+  const [, iv, tag, ciphertext] = parts;
+  const decipher = createDecipheriv('aes-256-gcm', encryptionKey(), Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
@@ -0,0 +1,407 @@
+// Transaction persistence helpers
+// Amounts are stored in paise with a debit/credit type; the API speaks signed rupees.
+
+import { db } from '@/db';
+import { connectedAccounts, transactionCategories, transactions, transactionSplits } from '@/db/schema';
+import { and, asc, eq, gte, inArray, lte } from 'drizzle-orm';
+import { categorizeTransaction, CategoryHierarchy, UserCategoryRule } from '@/lib/categorization';
+import { FALLBACK_CATEGORY } from '@/lib/category-taxonomy';
+import { categorizeWithAIFallback } from '@/lib/ai-categorization';
+
+type TransactionRow = typeof transactions.$inferSelect;
+type CategoryRow = typeof transactionCategories.$inferSelect;
+type SplitRow = typeof transactionSplits.$inferSelect;
+
+// A stored split with its category, as loaded for serialization
+export interface SplitWithCategory {
+  split: SplitRow;
+  category: Pick<CategoryRow, 'name'> | null;
+}
+
+export interface ApiTransactionSplit {
+  id: number;
+  categoryId: number;
+  category: string | null;
+  amount: number; // signed rupees, same sign as the parent transaction
+  note: string | null;
+}
+
+export interface ApiTransaction {
+  id: number;
+  description: string;
+  amount: number; // signed rupees: positive = income, negative = expense
+  category: string | null;
+  categoryId: number;
+  date: string;
+  type: "income" | "expense";
+  merchantName: string | null;
+  merchantId: number | null;
+  isRecurring: boolean;
+  categoryPinned: boolean;
+  splits: ApiTransactionSplit[]; // empty unless the transaction is split across categories
+  accountId: number | null;
+  isTransfer: boolean; // one leg of a transfer between the user's own accounts
+  transferPairId: number | null;
+  refundOfId: number | null; // purchase this credit refunds
+  externalId: string | null; // id from the statement file it was imported from
+  pending: boolean; // not posted by the bank yet
+}
+
+// Shape consumed by the analysis engines in cashflow.ts and categorization.ts
+export interface AnalysisTransaction {
+  id?: string;
+  amount: number;
+  date: string;
+  type: "income" | "expense";
+  category?: string;
+  description: string;
+  merchantName?: string;
+}
+
+export const DEFAULT_CATEGORY_NAME = FALLBACK_CATEGORY;
+
+export function toPaise(rupees: number): number {
+  return Math.round(rupees * 100);
+}
+
+export function fromPaise(paise: number): number {
+  return paise / 100;
+}
+
+// Signed rupee amount for a stored row (credits positive, debits negative)
+export function signedAmount(row: Pick<TransactionRow, 'amount' | 'transactionType'>): number {
+  const rupees = fromPaise(Math.abs(row.amount));
+  return row.transactionType === 'credit' ? rupees : -rupees;
+}
+
+export function serializeTransaction(
+  row: TransactionRow,
+  category?: Pick<CategoryRow, 'name'> | null,
+  splits: SplitWithCategory[] = []
+): ApiTransaction {
+  return {
+    id: row.id,
+    description: row.description,
+    amount: signedAmount(row),
+    category: category?.name ?? null,
+    categoryId: row.categoryId,
+    date: row.transactionDate,
+    type: row.transactionType === 'credit' ? 'income' : 'expense',
+    merchantName: row.merchantName,
+    merchantId: row.merchantId,
+    isRecurring: Boolean(row.isRecurring),
+    categoryPinned: Boolean(row.categoryPinned),
+    splits: splits.map(({ split, category: splitCategory }) => ({
+      id: split.id,
+      categoryId: split.categoryId,
+      category: splitCategory?.name ?? null,
+      amount: signedAmount({ amount: split.amount, transactionType: row.transactionType }),
+      note: split.note,
+    })),
+    accountId: row.accountId,
+    isTransfer: row.transferPairId !== null,
+    transferPairId: row.transferPairId,
+    refundOfId: row.refundOfId,
+    externalId: row.externalId,
+    pending: Boolean(row.pending),
+  };
+}
+
+// A user's splits grouped by transaction id, optionally for some transactions only
+export async function loadTransactionSplits(
+  userId: number,
+  transactionIds?: number[]
+): Promise<Map<number, SplitWithCategory[]>> {
+  const grouped = new Map<number, SplitWithCategory[]>();
+  if (transactionIds && transactionIds.length === 0) {
+    return grouped;
+  }
+
+  const conditions = [eq(transactionSplits.userId, userId)];
+  if (transactionIds) {
+    conditions.push(inArray(transactionSplits.transactionId, transactionIds));
+  }
+
+  const rows = await db
+    .select()
+    .from(transactionSplits)
+    .leftJoin(transactionCategories, eq(transactionSplits.categoryId, transactionCategories.id))
+    .where(and(...conditions))
+    .orderBy(asc(transactionSplits.id));
+
+  rows.forEach((row) => {
+    const list = grouped.get(row.transaction_splits.transactionId) || [];
+    list.push({ split: row.transaction_splits, category: row.transaction_categories });
+    grouped.set(row.transaction_splits.transactionId, list);
+  });
+  return grouped;
+}
+
+// Validate requested allocations against their parent: at least two, each with a category and an
+// amount in the parent's direction, together covering the parent amount to the paisa.
+// An empty list is valid and means "not split".
+export async function resolveSplits(
+  parent: Pick<TransactionRow, 'amount' | 'transactionType'>,
+  input: unknown
+): Promise<{ error: string } | { splits: Array<{ categoryId: number; amount: number; note: string | null }> }> {
+  if (!Array.isArray(input)) {
+    return { error: 'splits must be an array' };
+  }
+  if (input.length === 0) {
+    return { splits: [] };
+  }
+  if (input.length === 1) {
+    return { error: 'A split needs at least two allocations; change the category instead' };
+  }
+
+  const direction = parent.transactionType === 'credit' ? 1 : -1;
+  const splits: Array<{ categoryId: number; amount: number; note: string | null }> = [];
+
+  for (const [index, entry] of input.entries()) {
+    const { categoryId, category, amount, note } = entry ?? {};
+    const parsedAmount = typeof amount === 'number' ? amount : parseFloat(amount);
+    if (isNaN(parsedAmount) || parsedAmount === 0) {
+      return { error: `Split ${index}: amount must be a non-zero number` };
+    }
+    if (Math.sign(parsedAmount) !== direction) {
+      return { error: `Split ${index}: amount must be ${direction > 0 ? 'positive for income' : 'negative for an expense'}` };
+    }
+    if (note !== undefined && note !== null && typeof note !== 'string') {
+      return { error: `Split ${index}: note must be a string` };
+    }
+    if ((categoryId === undefined || categoryId === null) && !category) {
+      return { error: `Split ${index}: categoryId or category is required` };
+    }
+
+    const resolved = await resolveCategory({
+      categoryId: categoryId !== undefined && categoryId !== null ? parseInt(categoryId) : undefined,
+      category,
+      description: '',
+      amount: parsedAmount,
+    });
+    if (!resolved) {
+      return { error: `Split ${index}: category not found` };
+    }
+
+    splits.push({ categoryId: resolved.id, amount: toPaise(Math.abs(parsedAmount)), note: note?.trim() || null });
+  }
+
+  const total = splits.reduce((sum, split) => sum + split.amount, 0);
+  if (total !== Math.abs(parent.amount)) {
+    return {
+      error: `Splits add up to ₹${fromPaise(total).toLocaleString('en-IN')} but the transaction is ₹${fromPaise(Math.abs(parent.amount)).toLocaleString('en-IN')}`,
+    };
+  }
+
+  return { splits };
+}
+
+// Replace a transaction's splits (an empty list removes them)
+export async function replaceTransactionSplits(
+  userId: number,
+  transactionId: number,
+  splits: Array<{ categoryId: number; amount: number; note: string | null }>
+): Promise<void> {
+  await db
+    .delete(transactionSplits)
+    .where(and(eq(transactionSplits.userId, userId), eq(transactionSplits.transactionId, transactionId)));
+
+  if (splits.length > 0) {
+    const now = new Date().toISOString();
+    await db.insert(transactionSplits).values(
+      splits.map((split) => ({ ...split, transactionId, userId, createdAt: now }))
+    );
+  }
+}
+
+// Resolve a category by id or name, falling back to the user's rules, the merchant's default
+// category, the keyword engine (or the AI when the keywords are unsure) and then "Others".
+// Returns null only when an explicit id or name does not exist.
+export async function resolveCategory(options: {
+  categoryId?: number | null;
+  category?: string | null;
+  description: string;
+  amount: number;
+  merchantName?: string | null;
+  merchantCategoryId?: number | null;
+  userRules?: UserCategoryRule[];
+}): Promise<CategoryRow | null> {
+  if (options.categoryId !== undefined && options.categoryId !== null) {
+    const byId = await db
+      .select()
+      .from(transactionCategories)
+      .where(eq(transactionCategories.id, options.categoryId))
+      .limit(1);
+    return byId[0] || null;
+  }
+
+  if (options.category) {
+    const byName = await db
+      .select()
+      .from(transactionCategories)
+      .where(eq(transactionCategories.name, options.category.trim()))
+      .limit(1);
+    return byName[0] || null;
+  }
+
+  const suggested = categorizeTransaction({
+    description: options.description,
+    amount: options.amount,
+    date: new Date().toISOString().split('T')[0],
+    merchantName: options.merchantName || undefined,
+  }, options.userRules);
+
+  if (!suggested.ruleId && options.merchantCategoryId) {
+    const byMerchant = await db
+      .select()
+      .from(transactionCategories)
+      .where(eq(transactionCategories.id, options.merchantCategoryId))
+      .limit(1);
+    if (byMerchant.length > 0) {
+      return byMerchant[0];
+    }
+  }
+
+  if (!suggested.ruleId) {
+    const aiChoice = await categorizeWithAIFallback(
+      { description: options.description, amount: options.amount, merchantName: options.merchantName },
+      suggested.confidence
+    );
+    if (aiChoice) {
+      return aiChoice.category;
+    }
+  }
+
+  for (const name of [suggested.category, DEFAULT_CATEGORY_NAME]) {
+    if (!name) continue;
+    const match = await db
+      .select()
+      .from(transactionCategories)
+      .where(eq(transactionCategories.name, name))
+      .limit(1);
+    if (match.length > 0) {
+      return match[0];
+    }
+  }
+
+  return null;
+}
+
+// Opaque pagination cursor over (transactionDate desc, id desc)
+export function encodeCursor(row: Pick<TransactionRow, 'id' | 'transactionDate'>): string {
+  return Buffer.from(`${row.transactionDate}|${row.id}`).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): { date: string; id: number } | null {
+  try {
+    const [date, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|');
+    const idNum = parseInt(id);
+    if (!date || isNaN(idNum)) return null;
+    return { date, id: idNum };
+  } catch {
+    return null;
+  }
+}
+
+export function toAnalysisTransaction(transaction: ApiTransaction): AnalysisTransaction {
+  return {
+    id: String(transaction.id),
+    amount: transaction.amount,
+    date: transaction.date,
+    type: transaction.type,
+    category: transaction.category ?? undefined,
+    description: transaction.description,
+    merchantName: transaction.merchantName ?? undefined,
+  };
+}
+
+// Analysis rows for stored transactions. Internal transfers are left out: they are neither income
+// nor spending. Linked refunds are not income either; they shrink the purchase they refund instead
+// (a fully refunded purchase disappears). A split transaction contributes one row per allocation
+// instead of the parent row, so category totals count the allocations.
+export function toAnalysisTransactions(list: ApiTransaction[]): AnalysisTransaction[] {
+  const refunded = new Map<number, number>();
+  list.forEach((transaction) => {
+    if (transaction.refundOfId !== null && !transaction.isTransfer) {
+      refunded.set(transaction.refundOfId, (refunded.get(transaction.refundOfId) || 0) + transaction.amount);
+    }
+  });
+
+  return list.flatMap((transaction) => {
+    if (transaction.isTransfer || transaction.refundOfId !== null) {
+      return [];
+    }
+
+    const remaining = 1 - (refunded.get(transaction.id) || 0) / Math.abs(transaction.amount);
+    if (remaining <= 0) {
+      return [];
+    }
+
+    const parent = toAnalysisTransaction(transaction);
+    const rows = transaction.splits.length === 0
+      ? [parent]
+      : transaction.splits.map((split) => ({
+          ...parent,
+          id: `${transaction.id}:${split.id}`,
+          amount: split.amount,
+          category: split.category ?? undefined,
+        }));
+
+    return remaining < 1
+      ? rows.map((row) => ({ ...row, amount: Math.round(row.amount * remaining * 100) / 100 }))
+      : rows;
+  });
+}
+
+// Load a user's stored transactions (oldest first), optionally bounded by date
+export async function loadUserTransactions(
+  userId: number,
+  options: { startDate?: string; endDate?: string } = {}
+): Promise<ApiTransaction[]> {
+  const conditions = [eq(transactions.userId, userId)];
+  if (options.startDate) {
+    conditions.push(gte(transactions.transactionDate, options.startDate));
+  }
+  if (options.endDate) {
+    conditions.push(lte(transactions.transactionDate, options.endDate));
+  }
+
+  const rows = await db
+    .select()
+    .from(transactions)
+    .leftJoin(transactionCategories, eq(transactions.categoryId, transactionCategories.id))
+    .where(and(...conditions))
+    .orderBy(asc(transactions.transactionDate), asc(transactions.id));
+
+  const splits = await loadTransactionSplits(userId);
+  return rows.map((row) =>
+    serializeTransaction(row.transactions, row.transaction_categories, splits.get(row.transactions.id))
+  );
+}
+
+// Sum of the user's connected-account balances in rupees, or null when none are known
+export async function loadAccountsBalance(userId: number): Promise<number | null> {
+  const accounts = await db
+    .select()
+    .from(connectedAccounts)
+    .where(eq(connectedAccounts.userId, userId));
+
+  const known = accounts.filter((account) => account.currentBalance !== null);
+  if (known.length === 0) {
+    return null;
+  }
+
+  return fromPaise(known.reduce((sum, account) => sum + (account.currentBalance ?? 0), 0));
+}
+
+// Parent name per category name, for rolling subcategories up in breakdowns
+export async function loadCategoryHierarchy(): Promise<CategoryHierarchy> {
+  const categories = await db.select().from(transactionCategories);
+  const names = new Map(categories.map((category) => [category.id, category.name]));
+  return Object.fromEntries(
+    categories.map((category) => [
+      category.name,
+      category.parentId !== null ? names.get(category.parentId) ?? null : null,
+    ])
+  );
+}
@@ -0,0 +1,117 @@
+// Internal transfer matching
+// Pairs a debit on one of the user's accounts with the matching credit on another (savings to current, card bill payments)
+
+export interface TransferCandidate {
+  id: number;
+  accountId: number | null;
+  accountLast4?: string | null; // of the account this transaction was booked on
+  amount: number; // signed rupees
+  date: string; // YYYY-MM-DD
+  description: string;
+}
+
+export interface TransferMatch {
+  debitId: number;
+  creditId: number;
+  score: number; // 0-1
+  reason: string;
+}
+
+export interface TransferMatchOptions {
+  windowDays?: number; // how far apart the two legs may post
+  minScore?: number;
+}
+
+const DEFAULT_WINDOW_DAYS = 3;
+const DEFAULT_MIN_SCORE = 0.7;
+
+// Narration phrases that mark money moving between the user's own accounts
+const TRANSFER_PHRASES = [
+  "self transfer", "own account", "own a/c", "own acc", "to self", "from self", "self a/c",
+  "fund transfer", "funds transfer", "internal transfer", "sweep", "trf to", "trf from",
+  "credit card payment", "cc payment", "card bill", "payment received thank you", "autopay", "bbps cc",
+];
+
+function mentionsTransfer(description: string): boolean {
+  const text = description.toLowerCase();
+  return TRANSFER_PHRASES.some((phrase) => text.includes(phrase));
+}
+
+// Bank narrations often carry the other account's masked number ("XX1234", "ending 1234")
+function mentionsAccount(description: string, last4?: string | null): boolean {
+  return Boolean(last4) && new RegExp(`(^|[^0-9])${last4}([^0-9]|$)`).test(description);
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.abs(new Date(a).getTime() - new Date(b).getTime()) / (24 * 60 * 60 * 1000);
+}
+
+function scorePair(
+  debit: TransferCandidate,
+  credit: TransferCandidate,
+  windowDays: number
+): { score: number; reason: string } {
+  const reasons = ["same amount on two of your accounts"];
+  let score = 0.5;
+
+  const gap = daysBetween(debit.date, credit.date);
+  score += 0.1 * (1 - gap / (windowDays + 1));
+  reasons.push(gap === 0 ? "same day" : `${gap} day${gap === 1 ? "" : "s"} apart`);
+
+  if (mentionsTransfer(debit.description) || mentionsTransfer(credit.description)) {
+    score += 0.2;
+    reasons.push("narration reads like a transfer");
+  }
+
+  if (mentionsAccount(debit.description, credit.accountLast4) || mentionsAccount(credit.description, debit.accountLast4)) {
+    score += 0.2;
+    reasons.push("narration names the other account");
+  }
+
+  return { score: Math.min(1, Math.round(score * 100) / 100), reason: reasons.join(", ") };
+}
+
+// Pair opposite-signed transactions of the same amount on different accounts within a date window.
+// The amount alone is not enough: one of the narrations has to read like a transfer or name the
+// other account. Each transaction ends up in at most one pair, best-scoring pairs first.
+export function findTransferPairs(
+  candidates: TransferCandidate[],
+  options: TransferMatchOptions = {}
+): TransferMatch[] {
+  const windowDays = options.windowDays ?? DEFAULT_WINDOW_DAYS;
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+
+  const withAccount = candidates.filter((c) => c.accountId !== null && c.amount !== 0);
+  const debits = withAccount.filter((c) => c.amount < 0);
+  const creditsByAmount = new Map<number, TransferCandidate[]>();
+  withAccount
+    .filter((c) => c.amount > 0)
+    .forEach((credit) => {
+      const key = Math.round(credit.amount * 100);
+      creditsByAmount.set(key, [...(creditsByAmount.get(key) || []), credit]);
+    });
+
+  const scored: TransferMatch[] = [];
+  for (const debit of debits) {
+    const credits = creditsByAmount.get(Math.round(-debit.amount * 100)) || [];
+    for (const credit of credits) {
+      if (credit.accountId === debit.accountId || daysBetween(debit.date, credit.date) > windowDays) {
+        continue;
+      }
+      const { score, reason } = scorePair(debit, credit, windowDays);
+      if (score >= minScore) {
+        scored.push({ debitId: debit.id, creditId: credit.id, score, reason });
+      }
+    }
+  }
+
+  const used = new Set<number>();
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .filter((match) => {
+      if (used.has(match.debitId) || used.has(match.creditId)) return false;
+      used.add(match.debitId);
+      used.add(match.creditId);
+      return true;
+    });
+}
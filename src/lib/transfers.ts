@@ -0,0 +1,102 @@
+// Internal transfers between a user's own accounts
+// Runs the matcher over unpaired, account-linked transactions and links each pair in both directions
+
+import { db } from '@/db';
+import { connectedAccounts, transactionCategories, transactions } from '@/db/schema';
+import { and, eq, inArray, isNotNull, isNull } from 'drizzle-orm';
+import { findTransferPairs, TransferMatch } from '@/lib/transfer-matching';
+import { ApiTransaction, serializeTransaction, signedAmount } from '@/lib/transactions';
+
+type TransactionRow = typeof transactions.$inferSelect;
+
+const TRANSFER_CATEGORY_NAME = 'Transfers';
+
+export interface ApiTransfer {
+  debit: ApiTransaction;
+  credit: ApiTransaction;
+}
+
+// Point both legs at each other; unpinned legs move to the Transfers category when it exists
+export async function linkTransferPair(userId: number, debitId: number, creditId: number): Promise<void> {
+  const category = await db
+    .select()
+    .from(transactionCategories)
+    .where(eq(transactionCategories.name, TRANSFER_CATEGORY_NAME))
+    .limit(1);
+
+  for (const [id, pairId] of [[debitId, creditId], [creditId, debitId]]) {
+    await db
+      .update(transactions)
+      .set({ transferPairId: pairId, transferDismissed: false })
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+
+    if (category.length > 0) {
+      await db
+        .update(transactions)
+        .set({ categoryId: category[0].id })
+        .where(and(eq(transactions.id, id), eq(transactions.userId, userId), eq(transactions.categoryPinned, false)));
+    }
+  }
+}
+
+// Pair up the user's unmatched transactions across their connected accounts. Pairs the user
+// unlinked before are never matched again.
+export async function matchTransfers(userId: number): Promise<TransferMatch[]> {
+  const accounts = await db
+    .select()
+    .from(connectedAccounts)
+    .where(eq(connectedAccounts.userId, userId));
+  const last4ByAccount = new Map(accounts.map((account) => [account.id, account.accountNumberLast4]));
+
+  const rows = await db
+    .select()
+    .from(transactions)
+    .where(
+      and(
+        eq(transactions.userId, userId),
+        isNotNull(transactions.accountId),
+        isNull(transactions.transferPairId),
+        eq(transactions.transferDismissed, false)
+      )
+    );
+
+  const matches = findTransferPairs(
+    rows.map((row) => ({
+      id: row.id,
+      accountId: row.accountId,
+      accountLast4: row.accountId !== null ? last4ByAccount.get(row.accountId) : null,
+      amount: signedAmount(row),
+      date: row.transactionDate,
+      description: row.description,
+    }))
+  );
+
+  for (const match of matches) {
+    await linkTransferPair(userId, match.debitId, match.creditId);
+  }
+  return matches;
+}
+
+// Separate a matched pair; both legs count as ordinary income and spending again
+export async function unlinkTransfer(userId: number, row: TransactionRow): Promise<void> {
+  const ids = row.transferPairId !== null ? [row.id, row.transferPairId] : [row.id];
+  await db
+    .update(transactions)
+    .set({ transferPairId: null, transferDismissed: true })
+    .where(and(eq(transactions.userId, userId), inArray(transactions.id, ids)));
+}
+
+// Matched pairs, newest first
+export async function listTransfers(userId: number): Promise<ApiTransfer[]> {
+  const rows = await db
+    .select()
+    .from(transactions)
+    .leftJoin(transactionCategories, eq(transactions.categoryId, transactionCategories.id))
+    .where(and(eq(transactions.userId, userId), isNotNull(transactions.transferPairId)));
+
+  const byId = new Map(rows.map((row) => [row.transactions.id, serializeTransaction(row.transactions, row.transaction_categories)]));
+  return Array.from(byId.values())
+    .filter((transaction) => transaction.amount < 0 && byId.has(transaction.transferPairId as number))
+    .map((debit) => ({ debit, credit: byId.get(debit.transferPairId as number) as ApiTransaction }))
+    .sort((a, b) => b.debit.date.localeCompare(a.debit.date));
+}
@@ -0,0 +1,115 @@
+// Offline backtest of the cash flow projection
+//
+// Usage:
+//   npx tsx src/scripts/backtest-cashflow.ts --synthetic [--days 180] [--seed 7]
+//   npx tsx src/scripts/backtest-cashflow.ts --input export.json
+//   npx tsx src/scripts/backtest-cashflow.ts --input statement.csv --opening-balance 25000
+//
+// Options: --horizons 7,14,30  --step 7  --threshold 5000  --json
+// JSON input is an array of { date, amount } (e.g. the data array from GET /api/transactions).
+// CSV input needs a header row with date and amount columns; description and category are optional.
+
+import { readFileSync } from 'fs';
+import { backtestCashFlow, generateSyntheticHistory } from '@/lib/backtest';
+
+interface DatasetRow {
+    date: string;
+    amount: number;
+    description?: string;
+    category?: string;
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+    const args: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+        if (!argv[i].startsWith('--')) continue;
+        const key = argv[i].slice(2);
+        const next = argv[i + 1];
+        if (next !== undefined && !next.startsWith('--')) {
+            args[key] = next;
+            i++;
+        } else {
+            args[key] = 'true';
+        }
+    }
+    return args;
+}
+
+function loadDataset(path: string): DatasetRow[] {
+    const content = readFileSync(path, 'utf-8');
+
+    if (path.toLowerCase().endsWith('.csv')) {
+        const [header, ...lines] = content.split(/\r?\n/).filter((line) => line.trim());
+        const columns = header.split(',').map((c) => c.trim().toLowerCase());
+        const dateIndex = columns.indexOf('date');
+        const amountIndex = columns.indexOf('amount');
+        if (dateIndex === -1 || amountIndex === -1) {
+            throw new Error('CSV needs date and amount columns');
+        }
+        return lines.map((line) => {
+            const cells = line.split(',').map((c) => c.trim());
+            return {
+                date: cells[dateIndex],
+                amount: parseFloat(cells[amountIndex]),
+                description: cells[columns.indexOf('description')],
+                category: cells[columns.indexOf('category')],
+            };
+        });
+    }
+
+    const parsed = JSON.parse(content);
+    const rows = Array.isArray(parsed) ? parsed : parsed.data;
+    if (!Array.isArray(rows)) {
+        throw new Error('JSON input must be an array of transactions');
+    }
+    return rows;
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+
+    let dataset: DatasetRow[];
+    if (args.input) {
+        dataset = loadDataset(args.input);
+    } else if (args.synthetic) {
+        dataset = generateSyntheticHistory({
+            days: args.days ? parseInt(args.days) : undefined,
+            seed: args.seed ? parseInt(args.seed) : undefined,
+        });
+    } else {
+        throw new Error('Pass --input <file> or --synthetic');
+    }
+
+    const transactions = dataset
+        .filter((row) => /^\d{4}-\d{2}-\d{2}/.test(row.date) && isFinite(row.amount))
+        .map((row) => ({ ...row, date: row.date.slice(0, 10) }));
+
+    const report = backtestCashFlow(transactions, {
+        horizons: args.horizons ? args.horizons.split(',').map((h) => parseInt(h)) : undefined,
+        stepDays: args.step ? parseInt(args.step) : undefined,
+        safetyThreshold: args.threshold ? parseFloat(args.threshold) : undefined,
+        openingBalance: args['opening-balance'] ? parseFloat(args['opening-balance']) : undefined,
+    });
+
+    if (args.json) {
+        console.log(JSON.stringify(report, null, 2));
+        return;
+    }
+
+    console.log(`📊 ${transactions.length} transactions, ${report.cutoffs} cut-offs (${report.firstCutoff} → ${report.lastCutoff})`);
+    console.table(report.horizons.map((h) => ({
+        horizon: `${h.horizon}d`,
+        samples: h.samples,
+        'MAE (₹)': h.mae,
+        'MAPE (%)': h.mape ?? 'n/a',
+    })));
+    console.log(
+        `🚨 Breach alerts: precision ${report.breach.precision ?? 'n/a'}, recall ${report.breach.recall ?? 'n/a'} ` +
+        `(TP ${report.breach.truePositives}, FP ${report.breach.falsePositives}, FN ${report.breach.falseNegatives}, TN ${report.breach.trueNegatives})`
+    );
+}
+
+main().catch((error) => {
+    console.error('❌ Backtest failed:', error);
+    process.exit(1);
+});